@@ -0,0 +1,460 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+
+// =============================================================================
+// Mock Setup - Must be before imports
+// =============================================================================
+
+const { mockPrisma, mockAddUserNotificationJob, mockGetNetValueAt } = vi.hoisted(() => ({
+  mockPrisma: {
+    alertRule: {
+      count: vi.fn(),
+      create: vi.fn(),
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    userPosition: {
+      findMany: vi.fn(),
+    },
+  },
+  mockAddUserNotificationJob: vi.fn(),
+  mockGetNetValueAt: vi.fn(),
+}));
+
+vi.mock('../services/database', () => ({
+  prisma: mockPrisma,
+}));
+
+vi.mock('../jobs/queues', () => ({
+  addUserNotificationJob: mockAddUserNotificationJob,
+}));
+
+vi.mock('../services/vault.service', () => ({
+  getNetValueAt: mockGetNetValueAt,
+}));
+
+// Import after mock setup
+import {
+  createAlertRule,
+  updateAlertRule,
+  evaluateAlertRules,
+  MAX_ALERT_RULES_PER_ADDRESS,
+} from '../services/alertRuleService';
+import alertRoutes from '../routes/alerts';
+import { createSessionToken } from '../services/authService';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const USER = '0x1111111111111111111111111111111111111111';
+const OTHER = '0x2222222222222222222222222222222222222222';
+const ONE = 10n ** 18n;
+const NOW = new Date('2025-03-08T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+const APY_RULE = {
+  id: 'rule-apy',
+  userAddress: USER,
+  metric: 'APY',
+  direction: 'BELOW',
+  threshold: '4',
+  windowHours: 168,
+  cooldownHours: 24,
+  label: null,
+  active: true,
+  triggered: false,
+  lastValue: null,
+  lastEvaluatedAt: null,
+  lastTriggeredAt: null,
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  updatedAt: new Date('2025-01-01T00:00:00Z'),
+};
+
+const PRICE_DROP_RULE = {
+  ...APY_RULE,
+  id: 'rule-price',
+  metric: 'SHARE_PRICE_CHANGE',
+  threshold: '-1',
+  windowHours: 24,
+};
+
+const POSITION_RULE = {
+  ...APY_RULE,
+  id: 'rule-position',
+  metric: 'POSITION_VALUE',
+  direction: 'ABOVE',
+  threshold: '50000',
+  windowHours: null,
+};
+
+/**
+ * NAV snapshots at or before a time (share price 1.0 a week ago, 1.0150 a day ago)
+ */
+function mockNavHistory() {
+  mockGetNetValueAt.mockImplementation((timestamp: Date) => {
+    const age = NOW.getTime() - timestamp.getTime();
+    if (age >= 168 * HOUR) {
+      return Promise.resolve({ timestamp, sharePrice: ONE.toString() });
+    }
+    return Promise.resolve({ timestamp, sharePrice: ((ONE * 10150n) / 10000n).toString() });
+  });
+}
+
+// APY over the week: 0.07% * 365 / 7 = 3.65%; price change over the day: -1.41%
+const SNAPSHOT = { timestamp: NOW, sharePrice: (ONE * 10007n) / 10000n };
+
+function authHeader(address: string) {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const token = createSessionToken({
+    address,
+    role: 'user',
+    issuedAt,
+    expiresAt: issuedAt + 3600,
+  });
+  return { authorization: `Bearer ${token}` };
+}
+
+// =============================================================================
+// Service Tests
+// =============================================================================
+
+describe('AlertRuleService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAddUserNotificationJob.mockResolvedValue({});
+    mockPrisma.alertRule.update.mockResolvedValue({});
+    mockNavHistory();
+  });
+
+  describe('createAlertRule', () => {
+    it('should store the rule with the metric default window', async () => {
+      mockPrisma.alertRule.count.mockResolvedValue(0);
+      mockPrisma.alertRule.create.mockImplementation(({ data }) =>
+        Promise.resolve({ ...APY_RULE, ...data })
+      );
+
+      const rule = await createAlertRule(USER.toUpperCase().replace('0X', '0x'), {
+        metric: 'APY',
+        direction: 'BELOW',
+        threshold: 4,
+      });
+
+      expect(mockPrisma.alertRule.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userAddress: USER,
+          threshold: '4',
+          windowHours: 168,
+          cooldownHours: 24,
+        }),
+      });
+      expect(rule).toMatchObject({ metric: 'APY', threshold: 4, triggered: false });
+    });
+
+    it('should reject invalid rules and wallets at the rule limit', async () => {
+      mockPrisma.alertRule.count.mockResolvedValue(0);
+
+      await expect(
+        createAlertRule(USER, {
+          metric: 'POSITION_VALUE',
+          direction: 'ABOVE',
+          threshold: 50000,
+          windowHours: 24,
+        })
+      ).rejects.toThrow('do not use a window');
+      await expect(
+        createAlertRule(USER, { metric: 'POSITION_VALUE', direction: 'BELOW', threshold: -1 })
+      ).rejects.toThrow('cannot be negative');
+
+      mockPrisma.alertRule.count.mockResolvedValue(MAX_ALERT_RULES_PER_ADDRESS);
+      await expect(
+        createAlertRule(USER, { metric: 'APY', direction: 'BELOW', threshold: 4 })
+      ).rejects.toThrow(`at most ${MAX_ALERT_RULES_PER_ADDRESS}`);
+      expect(mockPrisma.alertRule.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateAlertRule', () => {
+    it('should re-arm the rule when its condition changes', async () => {
+      mockPrisma.alertRule.findFirst.mockResolvedValue({ ...APY_RULE, triggered: true });
+      mockPrisma.alertRule.update.mockResolvedValue(APY_RULE);
+
+      await updateAlertRule(USER, 'rule-apy', { threshold: 3 });
+      await updateAlertRule(USER, 'rule-apy', { label: 'Yield check' });
+
+      expect(mockPrisma.alertRule.update).toHaveBeenNthCalledWith(1, {
+        where: { id: 'rule-apy' },
+        data: expect.objectContaining({ threshold: '3', triggered: false }),
+      });
+      expect(mockPrisma.alertRule.update.mock.calls[1][0].data).not.toHaveProperty('triggered');
+    });
+  });
+
+  describe('evaluateAlertRules', () => {
+    it('should alert when APY falls below the threshold', async () => {
+      mockPrisma.alertRule.findMany.mockResolvedValue([APY_RULE]);
+
+      await expect(evaluateAlertRules(SNAPSHOT)).resolves.toEqual({ evaluated: 1, triggered: 1 });
+
+      expect(mockPrisma.alertRule.findMany).toHaveBeenCalledWith({ where: { active: true } });
+      expect(mockGetNetValueAt).toHaveBeenCalledWith(new Date(NOW.getTime() - 168 * HOUR));
+      expect(mockAddUserNotificationJob).toHaveBeenCalledWith(
+        USER,
+        'THRESHOLD_ALERT',
+        expect.objectContaining({
+          ruleId: 'rule-apy',
+          value: 3.65,
+          title: 'Vault APY (7d) below 4%',
+          description: 'Vault APY (7d) is 3.65%, below your 4% threshold.',
+        }),
+        'high'
+      );
+      expect(mockPrisma.alertRule.update).toHaveBeenCalledWith({
+        where: { id: 'rule-apy' },
+        data: {
+          lastValue: '3.650000',
+          lastEvaluatedAt: NOW,
+          triggered: true,
+          lastTriggeredAt: NOW,
+        },
+      });
+    });
+
+    it('should not repeat an alert while the condition keeps holding', async () => {
+      mockPrisma.alertRule.findMany.mockResolvedValue([
+        { ...APY_RULE, triggered: true, lastTriggeredAt: new Date(NOW.getTime() - 48 * HOUR) },
+      ]);
+
+      await expect(evaluateAlertRules(SNAPSHOT)).resolves.toEqual({ evaluated: 1, triggered: 0 });
+
+      expect(mockAddUserNotificationJob).not.toHaveBeenCalled();
+      expect(mockPrisma.alertRule.update).toHaveBeenCalledWith({
+        where: { id: 'rule-apy' },
+        data: { lastValue: '3.650000', lastEvaluatedAt: NOW },
+      });
+    });
+
+    it('should re-arm once the condition clears', async () => {
+      mockPrisma.alertRule.findMany.mockResolvedValue([
+        { ...APY_RULE, threshold: '3', triggered: true },
+      ]);
+
+      await evaluateAlertRules(SNAPSHOT);
+
+      expect(mockAddUserNotificationJob).not.toHaveBeenCalled();
+      expect(mockPrisma.alertRule.update).toHaveBeenCalledWith({
+        where: { id: 'rule-apy' },
+        data: expect.objectContaining({ triggered: false }),
+      });
+    });
+
+    it('should wait for the cooldown before alerting again', async () => {
+      mockPrisma.alertRule.findMany.mockResolvedValue([
+        { ...APY_RULE, lastTriggeredAt: new Date(NOW.getTime() - 2 * HOUR) },
+      ]);
+
+      await evaluateAlertRules(SNAPSHOT);
+
+      expect(mockAddUserNotificationJob).not.toHaveBeenCalled();
+      expect(mockPrisma.alertRule.update.mock.calls[0][0].data).not.toHaveProperty('triggered');
+    });
+
+    it('should alert on share price drops and position values', async () => {
+      mockPrisma.alertRule.findMany.mockResolvedValue([
+        PRICE_DROP_RULE,
+        { ...PRICE_DROP_RULE, id: 'rule-price-2', userAddress: OTHER, threshold: '-2' },
+        POSITION_RULE,
+      ]);
+      mockPrisma.userPosition.findMany.mockResolvedValue([
+        { userAddress: USER, shares: (50000n * ONE).toString() },
+      ]);
+
+      await expect(evaluateAlertRules(SNAPSHOT)).resolves.toEqual({ evaluated: 3, triggered: 2 });
+
+      // Both price rules share one 24h baseline lookup
+      expect(mockGetNetValueAt).toHaveBeenCalledTimes(1);
+      expect(mockAddUserNotificationJob).toHaveBeenCalledWith(
+        USER,
+        'THRESHOLD_ALERT',
+        expect.objectContaining({
+          ruleId: 'rule-price',
+          title: 'Share price change (1d) below -1%',
+          description: 'Share price change (1d) is -1.41%, below your -1% threshold.',
+        }),
+        'high'
+      );
+      expect(mockAddUserNotificationJob).toHaveBeenCalledWith(
+        USER,
+        'THRESHOLD_ALERT',
+        expect.objectContaining({
+          ruleId: 'rule-position',
+          value: 50035,
+          title: 'Your position value above 50,000.00 USDT',
+        }),
+        'high'
+      );
+    });
+
+    it('should skip rules without enough NAV history', async () => {
+      mockPrisma.alertRule.findMany.mockResolvedValue([APY_RULE]);
+      mockGetNetValueAt.mockResolvedValue(null);
+
+      await expect(evaluateAlertRules(SNAPSHOT)).resolves.toEqual({ evaluated: 0, triggered: 0 });
+
+      expect(mockPrisma.alertRule.update).not.toHaveBeenCalled();
+    });
+
+    it('should keep evaluating when one rule fails', async () => {
+      mockPrisma.alertRule.findMany.mockResolvedValue([
+        APY_RULE,
+        { ...APY_RULE, id: 'rule-apy-2', userAddress: OTHER },
+      ]);
+      mockAddUserNotificationJob.mockRejectedValueOnce(new Error('Redis down'));
+
+      await expect(evaluateAlertRules(SNAPSHOT)).resolves.toEqual({ evaluated: 2, triggered: 1 });
+
+      // The failed rule stays armed so the next sync retries it
+      expect(mockPrisma.alertRule.update).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.alertRule.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'rule-apy-2' } })
+      );
+    });
+  });
+});
+
+// =============================================================================
+// Route Tests
+// =============================================================================
+
+describe('Alert Routes', () => {
+  let server: FastifyInstance;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockPrisma.alertRule.findFirst.mockImplementation(({ where }) =>
+      Promise.resolve(where.id === 'rule-apy' && where.userAddress === USER ? APY_RULE : null)
+    );
+    server = Fastify();
+    await server.register(alertRoutes, { prefix: '/api' });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  describe('POST /api/alerts/:address', () => {
+    it('should create a rule', async () => {
+      mockPrisma.alertRule.count.mockResolvedValue(0);
+      mockPrisma.alertRule.create.mockImplementation(({ data }) =>
+        Promise.resolve({ ...APY_RULE, ...data })
+      );
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/api/alerts/${USER}`,
+        headers: authHeader(USER),
+        payload: { metric: 'SHARE_PRICE_CHANGE', direction: 'BELOW', threshold: -1 },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().data).toMatchObject({
+        metric: 'SHARE_PRICE_CHANGE',
+        direction: 'BELOW',
+        threshold: -1,
+        windowHours: 24,
+      });
+    });
+
+    it('should require a session for the wallet', async () => {
+      const payload = { metric: 'APY', direction: 'BELOW', threshold: 4 };
+
+      const anonymous = await server.inject({
+        method: 'POST',
+        url: `/api/alerts/${USER}`,
+        payload,
+      });
+      const otherWallet = await server.inject({
+        method: 'POST',
+        url: `/api/alerts/${USER}`,
+        headers: authHeader(OTHER),
+        payload,
+      });
+
+      expect(anonymous.statusCode).toBe(401);
+      expect(otherWallet.statusCode).toBe(403);
+      expect(mockPrisma.alertRule.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown metrics and invalid rules', async () => {
+      mockPrisma.alertRule.count.mockResolvedValue(0);
+
+      const unknownMetric = await server.inject({
+        method: 'POST',
+        url: `/api/alerts/${USER}`,
+        headers: authHeader(USER),
+        payload: { metric: 'TVL', direction: 'BELOW', threshold: 4 },
+      });
+      const positionWindow = await server.inject({
+        method: 'POST',
+        url: `/api/alerts/${USER}`,
+        headers: authHeader(USER),
+        payload: { metric: 'POSITION_VALUE', direction: 'ABOVE', threshold: 1, windowHours: 24 },
+      });
+
+      expect(unknownMetric.statusCode).toBe(400);
+      expect(positionWindow.statusCode).toBe(400);
+      expect(positionWindow.json().error).toContain('window');
+    });
+  });
+
+  it('should list rules', async () => {
+    mockPrisma.alertRule.findMany.mockResolvedValue([APY_RULE]);
+
+    const response = await server.inject({
+      method: 'GET',
+      url: `/api/alerts/${USER}`,
+      headers: authHeader(USER),
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().data).toEqual([
+      expect.objectContaining({ id: 'rule-apy', threshold: 4, lastValue: null }),
+    ]);
+  });
+
+  it("should not update another wallet's rule", async () => {
+    const response = await server.inject({
+      method: 'PATCH',
+      url: `/api/alerts/${OTHER}/rule-apy`,
+      headers: authHeader(OTHER),
+      payload: { active: false },
+    });
+
+    expect(response.statusCode).toBe(404);
+    expect(mockPrisma.alertRule.update).not.toHaveBeenCalled();
+  });
+
+  it('should delete a rule', async () => {
+    mockPrisma.alertRule.deleteMany.mockResolvedValueOnce({ count: 1 });
+    mockPrisma.alertRule.deleteMany.mockResolvedValueOnce({ count: 0 });
+
+    const deleted = await server.inject({
+      method: 'DELETE',
+      url: `/api/alerts/${USER}/rule-apy`,
+      headers: authHeader(USER),
+    });
+    const missing = await server.inject({
+      method: 'DELETE',
+      url: `/api/alerts/${USER}/rule-missing`,
+      headers: authHeader(USER),
+    });
+
+    expect(deleted.statusCode).toBe(200);
+    expect(missing.statusCode).toBe(404);
+    expect(mockPrisma.alertRule.deleteMany).toHaveBeenCalledWith({
+      where: { id: 'rule-apy', userAddress: USER },
+    });
+  });
+});
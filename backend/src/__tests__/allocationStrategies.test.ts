@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Address } from 'viem';
+
+// =============================================================================
+// Mock Setup - Must be before imports
+// =============================================================================
+
+const { mockPrismaPriceFeed } = vi.hoisted(() => ({
+  mockPrismaPriceFeed: {
+    findMany: vi.fn(),
+  },
+}));
+
+vi.mock('../services/database', () => ({
+  prisma: {
+    priceFeed: mockPrismaPriceFeed,
+  },
+}));
+
+// Import after mock setup
+import {
+  capWeights,
+  toBasisPoints,
+  applyLiquidityReserve,
+  dailyVolatility,
+  runAllocationStrategy,
+  getAllocationStrategyName,
+  type AllocationStrategyConfig,
+} from '../services/allocationStrategies';
+import type { AssetData } from '../services/rebalanceEngine';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const ONE = 10n ** 18n;
+const TOKEN_A = '0x1111111111111111111111111111111111111111' as Address;
+const TOKEN_B = '0x2222222222222222222222222222222222222222' as Address;
+const TOKEN_C = '0x3333333333333333333333333333333333333333' as Address;
+
+const assets: AssetData[] = [
+  { token: TOKEN_A, currentAllocation: 4000n, currentValue: 1000n * ONE, apy: 600n },
+  { token: TOKEN_B, currentAllocation: 3000n, currentValue: 750n * ONE, apy: 300n },
+  { token: TOKEN_C, currentAllocation: 3000n, currentValue: 750n * ONE, apy: 100n },
+];
+
+const config: AllocationStrategyConfig = {
+  maxWeightBps: 4000,
+  minLiquidityBps: 0,
+  riskParityLookbackDays: 30,
+};
+
+/**
+ * Daily prices alternating by +/- step around 1.0 (1e18 precision)
+ */
+function priceSeries(token: string, step: number, days = 10) {
+  return Array.from({ length: days }, (_, day) => ({
+    tokenAddress: token,
+    price: BigInt(Math.round((1 + (day % 2 === 0 ? step : -step)) * 1e6)) * 10n ** 12n,
+    timestamp: new Date(Date.UTC(2025, 10, day + 1, 12)),
+  }));
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('AllocationStrategies', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('weight helpers', () => {
+    it('should round to basis points that sum to the total', () => {
+      const bps = toBasisPoints([1 / 3, 1 / 3, 1 / 3]);
+
+      expect(bps.reduce((a, b) => a + b, 0n)).toBe(10000n);
+      expect(bps).toEqual([3334n, 3333n, 3333n]);
+    });
+
+    it('should redistribute weight above the cap to uncapped assets', () => {
+      const weights = capWeights([0.5, 0.3, 0.2], 0.4);
+
+      expect(weights[0]).toBeCloseTo(0.4);
+      expect(weights[1]).toBeCloseTo(0.36);
+      expect(weights[2]).toBeCloseTo(0.24);
+    });
+
+    it('should keep capping when redistribution pushes another asset over', () => {
+      // 0.6 -> 0.4 hands 0.2 to B/C at 3:1, taking B to 0.45
+      const weights = capWeights([0.6, 0.3, 0.1], 0.4);
+
+      expect(weights[0]).toBeCloseTo(0.4);
+      expect(weights[1]).toBeCloseTo(0.4);
+      expect(weights[2]).toBeCloseTo(0.2);
+    });
+
+    it('should leave the remainder unallocated when every asset hits the cap', () => {
+      const weights = capWeights([0.5, 0.5], 0.4);
+
+      expect(weights).toEqual([0.4, 0.4]);
+    });
+
+    it('should scale targets down to keep the liquidity reserve', () => {
+      expect(applyLiquidityReserve([5000n, 5000n], 1000)).toEqual([4500n, 4500n]);
+      expect(applyLiquidityReserve([4000n, 4000n], 1000)).toEqual([4000n, 4000n]);
+    });
+
+    it('should measure volatility on daily closes', () => {
+      const intraday = [
+        { price: 100, timestamp: new Date('2025-11-01T01:00:00Z') },
+        { price: 500, timestamp: new Date('2025-11-01T02:00:00Z') },
+        { price: 100, timestamp: new Date('2025-11-01T23:00:00Z') },
+        { price: 101, timestamp: new Date('2025-11-02T23:00:00Z') },
+        { price: 102.01, timestamp: new Date('2025-11-03T23:00:00Z') },
+      ];
+
+      // Two identical 1% daily returns; the intraday spike is ignored
+      expect(dailyVolatility(intraday)).toBeCloseTo(0);
+      expect(dailyVolatility(intraday.slice(0, 4))).toBeNull();
+    });
+  });
+
+  describe('strategies', () => {
+    it('should split equally', async () => {
+      await expect(runAllocationStrategy('equal-weight', assets, config)).resolves.toEqual([
+        3334n,
+        3333n,
+        3333n,
+      ]);
+    });
+
+    it('should weight by APY within the per-asset cap', async () => {
+      // Raw 60/30/10 -> A and then B capped at 40, C takes the rest
+      await expect(runAllocationStrategy('apy-weighted', assets, config)).resolves.toEqual([
+        4000n,
+        4000n,
+        2000n,
+      ]);
+    });
+
+    it('should keep the liquidity reserve unallocated', async () => {
+      const targets = await runAllocationStrategy('equal-weight', assets, {
+        ...config,
+        minLiquidityBps: 1000,
+      });
+
+      expect(targets.reduce((a, b) => a + b, 0n)).toBe(9000n);
+    });
+
+    it('should weight by inverse volatility for risk parity', async () => {
+      mockPrismaPriceFeed.findMany.mockResolvedValueOnce([
+        ...priceSeries(TOKEN_A.toLowerCase(), 0.02),
+        ...priceSeries(TOKEN_B.toLowerCase(), 0.01),
+      ]);
+
+      const targets = await runAllocationStrategy('risk-parity', assets, config);
+
+      expect(mockPrismaPriceFeed.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            tokenAddress: { in: [TOKEN_A, TOKEN_B, TOKEN_C] },
+          }),
+        })
+      );
+      // B is half as volatile as A; C has no history and gets the average volatility
+      expect(Number(targets[1])).toBeCloseTo(Number(targets[0]) * 2, -1);
+      expect(targets[2]).toBeGreaterThan(targets[0]);
+      expect(targets[2]).toBeLessThan(targets[1]);
+      expect(targets.reduce((a, b) => a + b, 0n)).toBe(10000n);
+    });
+
+    it('should only read price history up to asOf', async () => {
+      mockPrismaPriceFeed.findMany.mockResolvedValueOnce(priceSeries(TOKEN_A.toLowerCase(), 0.01));
+      const asOf = new Date('2025-11-10T23:59:59Z');
+
+      await runAllocationStrategy('risk-parity', assets, config, asOf);
+
+      expect(mockPrismaPriceFeed.findMany.mock.calls[0][0].where.timestamp).toEqual({
+        gte: new Date('2025-10-11T23:59:59Z'),
+        lte: asOf,
+      });
+    });
+
+    it('should fail risk parity without any price history', async () => {
+      mockPrismaPriceFeed.findMany.mockResolvedValueOnce([]);
+
+      await expect(runAllocationStrategy('risk-parity', assets, config)).rejects.toThrow(
+        'Not enough PriceFeed history'
+      );
+    });
+  });
+
+  describe('getAllocationStrategyName', () => {
+    afterEach(() => {
+      delete process.env.REBALANCE_ALLOCATION_STRATEGY;
+    });
+
+    it('should default to the on-chain strategy', () => {
+      expect(getAllocationStrategyName()).toBe('onchain');
+    });
+
+    it('should reject unknown strategies', () => {
+      process.env.REBALANCE_ALLOCATION_STRATEGY = 'momentum';
+
+      expect(() => getAllocationStrategyName()).toThrow(
+        'Unknown REBALANCE_ALLOCATION_STRATEGY: momentum'
+      );
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// =============================================================================
+// Mock Setup - Must be before imports
+// =============================================================================
+
+const { mockPrisma, mockGetRegistryAssets } = vi.hoisted(() => ({
+  mockPrisma: {
+    assetAllocation: {
+      findMany: vi.fn(),
+    },
+    priceFeed: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+    },
+    rebalanceHistory: {
+      findMany: vi.fn(),
+    },
+  },
+  mockGetRegistryAssets: vi.fn(),
+}));
+
+vi.mock('../services/database', () => ({
+  prisma: mockPrisma,
+}));
+
+vi.mock('../services/assetSyncService', () => ({
+  getRegistryAssets: mockGetRegistryAssets,
+}));
+
+// Import after mock setup
+import { getAssetDetails } from '../services/assetDetailsService';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const ONE = 10n ** 18n;
+const TOKEN_A = '0x1111111111111111111111111111111111111111';
+const TOKEN_B = '0x2222222222222222222222222222222222222222';
+const NOW = new Date('2025-11-24T18:00:00Z');
+
+function allocation(tokenAddress: string, target: number, valueUsd: bigint) {
+  return {
+    tokenAddress,
+    tokenName: `Token ${tokenAddress.slice(2, 4)}`,
+    tokenSymbol: `T${tokenAddress.slice(2, 4)}`,
+    allocation: target,
+    balance: valueUsd.toString(),
+    valueUsd: valueUsd.toString(),
+    apy: 5.256,
+    isActive: true,
+    updatedAt: new Date('2025-11-24T17:00:00Z'),
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('AssetDetailsService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.assetAllocation.findMany.mockResolvedValue([
+      allocation(TOKEN_A, 0.6, 700_000n * ONE),
+      allocation(TOKEN_B, 0.4, 300_000n * ONE),
+    ]);
+    mockPrisma.priceFeed.findFirst.mockResolvedValue(null);
+    mockPrisma.priceFeed.findMany.mockResolvedValue([]);
+    mockPrisma.rebalanceHistory.findMany.mockResolvedValue([]);
+    mockGetRegistryAssets.mockResolvedValue(
+      new Map([
+        [
+          TOKEN_A,
+          {
+            tokenAddress: TOKEN_A,
+            name: 'A',
+            symbol: 'A',
+            assetType: 'TOKENIZED_BOND',
+            oracleSource: '0x9999999999999999999999999999999999999999',
+            isActive: true,
+            registeredAt: new Date('2025-11-01T00:00:00Z'),
+          },
+        ],
+      ])
+    );
+  });
+
+  it('should compare target and actual weight', async () => {
+    const [a, b] = await getAssetDetails(NOW);
+
+    expect(a).toMatchObject({
+      tokenAddress: TOKEN_A,
+      targetAllocation: 60,
+      actualAllocation: 70,
+      deviation: 10,
+      valueUsd: (700_000n * ONE).toString(),
+      apy: 5.26,
+      lastUpdated: '2025-11-24T17:00:00.000Z',
+    });
+    expect(b).toMatchObject({ targetAllocation: 40, actualAllocation: 30, deviation: -10 });
+  });
+
+  it('should include registry metadata including inactive registry assets', async () => {
+    const [a, b] = await getAssetDetails(NOW);
+
+    expect(mockGetRegistryAssets).toHaveBeenCalledWith(true);
+    expect(a.registry).toEqual({
+      assetType: 'TOKENIZED_BOND',
+      oracleSource: '0x9999999999999999999999999999999999999999',
+      registeredAt: '2025-11-01T00:00:00.000Z',
+      isActive: true,
+    });
+    expect(b.registry).toBeNull();
+  });
+
+  it('should still return details when the registry cannot be read', async () => {
+    mockGetRegistryAssets.mockRejectedValueOnce(new Error('RPC down'));
+
+    const details = await getAssetDetails(NOW);
+
+    expect(details).toHaveLength(2);
+    expect(details.every((detail) => detail.registry === null)).toBe(true);
+  });
+
+  it('should include the latest oracle reading and 30 days of daily candles', async () => {
+    mockPrisma.priceFeed.findFirst.mockImplementation(
+      ({ where }: { where: { tokenAddress: string } }) =>
+        Promise.resolve(
+          where.tokenAddress === TOKEN_A
+            ? {
+                price: ONE.toString(),
+                source: 'CHAINLINK',
+                timestamp: new Date('2025-11-24T16:00:00Z'),
+              }
+            : null
+        )
+    );
+    mockPrisma.priceFeed.findMany.mockResolvedValue([
+      { price: ONE.toString(), source: 'CHAINLINK', timestamp: new Date('2025-11-24T16:00:00Z') },
+    ]);
+
+    const [a, b] = await getAssetDetails(NOW);
+
+    expect(a.oracle).toEqual({
+      price: ONE.toString(),
+      source: 'CHAINLINK',
+      updatedAt: '2025-11-24T16:00:00.000Z',
+    });
+    expect(b.oracle).toBeNull();
+    expect(a.priceHistory).toEqual([
+      expect.objectContaining({ time: '2025-11-24T00:00:00.000Z', close: ONE.toString() }),
+    ]);
+    expect(mockPrisma.priceFeed.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          tokenAddress: TOKEN_A,
+          timestamp: { gte: new Date('2025-10-25T18:00:00Z'), lte: NOW },
+        },
+      })
+    );
+  });
+
+  it('should list rebalance trades on either side of the asset', async () => {
+    mockPrisma.rebalanceHistory.findMany.mockResolvedValueOnce([
+      {
+        txHash: '0xabc',
+        type: 'SELL',
+        fromAsset: TOKEN_A,
+        toAsset: '0x55d398326f99059fF775485246999027B3197955',
+        fromAmount: 10n * ONE,
+        toAmount: 10n * ONE,
+        timestamp: new Date('2025-11-20T12:00:00Z'),
+      },
+    ]);
+
+    const [a] = await getAssetDetails(NOW);
+
+    expect(mockPrisma.rebalanceHistory.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { OR: [{ fromAsset: TOKEN_A }, { toAsset: TOKEN_A }] },
+        orderBy: { timestamp: 'desc' },
+      })
+    );
+    expect(a.rebalances).toEqual([
+      {
+        txHash: '0xabc',
+        type: 'SELL',
+        fromAsset: TOKEN_A,
+        toAsset: '0x55d398326f99059fF775485246999027B3197955',
+        fromAmount: (10n * ONE).toString(),
+        toAmount: (10n * ONE).toString(),
+        timestamp: '2025-11-20T12:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('should report zero actual weight when nothing is held', async () => {
+    mockPrisma.assetAllocation.findMany.mockResolvedValueOnce([allocation(TOKEN_A, 1, 0n)]);
+
+    const [a] = await getAssetDetails(NOW);
+
+    expect(a).toMatchObject({ targetAllocation: 100, actualAllocation: 0, deviation: -100 });
+  });
+});
@@ -0,0 +1,269 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// =============================================================================
+// Mock Setup - Must be before imports
+// =============================================================================
+
+const { mockPublicClient, mockPrisma, mockContracts } = vi.hoisted(() => ({
+  mockPublicClient: {
+    readContract: vi.fn(),
+  },
+  mockPrisma: {
+    assetAllocation: {
+      upsert: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+  mockContracts: {
+    pngyVault: '0x4444444444444444444444444444444444444444' as string | undefined,
+  },
+}));
+
+vi.mock('../services/blockchain', () => ({
+  publicClient: mockPublicClient,
+  contracts: mockContracts,
+}));
+
+vi.mock('../services/database', () => ({
+  prisma: mockPrisma,
+}));
+
+// Import after mock setup
+import {
+  syncAssetAllocations,
+  handleAssetAdded,
+  handleAssetRemoved,
+  handleTargetAllocationUpdated,
+} from '../services/assetSyncService';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const ONE = 10n ** 18n;
+const VAULT = '0x4444444444444444444444444444444444444444';
+const ADAPTER = '0x7777777777777777777777777777777777777777';
+const REGISTRY = '0x6666666666666666666666666666666666666666';
+const TOKEN_A = '0x1111111111111111111111111111111111111111';
+const TOKEN_B = '0x2222222222222222222222222222222222222222';
+const TOKEN_C = '0x3333333333333333333333333333333333333333';
+
+interface ChainState {
+  holdings: { tokenAddress: string; targetAllocation: bigint; isActive: boolean }[];
+  registry: string;
+  registryAssets: { tokenAddress: string; name: string; symbol: string }[];
+  balances: Record<string, bigint>;
+  decimals: Record<string, number>;
+  prices: Record<string, bigint | Error>;
+}
+
+function mockChain(state: Partial<ChainState>) {
+  const {
+    holdings = [],
+    registry = REGISTRY,
+    registryAssets = [],
+    balances = {},
+    decimals = {},
+    prices = {},
+  } = state;
+
+  mockPublicClient.readContract.mockImplementation(
+    ({ address, functionName }: { address: string; functionName: string }) => {
+      switch (functionName) {
+        case 'getRWAHoldings':
+          return Promise.resolve(holdings);
+        case 'assetRegistry':
+          return Promise.resolve(registry);
+        case 'oracleAdapter':
+          return Promise.resolve(ADAPTER);
+        case 'getActiveAssets':
+          return Promise.resolve(registryAssets);
+        case 'name':
+          return Promise.resolve(`Token ${address.slice(2, 4)}`);
+        case 'symbol':
+          return Promise.resolve(`T${address.slice(2, 4)}`);
+        case 'balanceOf':
+          return Promise.resolve(balances[address] ?? 0n);
+        case 'decimals':
+          return Promise.resolve(decimals[address] ?? 18);
+        default:
+          return Promise.reject(new Error(`Unexpected call ${functionName}`));
+      }
+    }
+  );
+
+  // Price reads need the token argument
+  const readContract = mockPublicClient.readContract.getMockImplementation()!;
+  mockPublicClient.readContract.mockImplementation(
+    (call: { address: string; functionName: string; args?: string[] }) => {
+      if (call.functionName !== 'getPriceWithSource') return readContract(call);
+      const price = prices[call.args![0]] ?? ONE;
+      return price instanceof Error
+        ? Promise.reject(price)
+        : Promise.resolve([price, 1764000000n, 1]);
+    }
+  );
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('AssetSyncService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.ORACLE_ADAPTER_ADDRESS = ADAPTER;
+    mockContracts.pngyVault = VAULT;
+    mockPrisma.assetAllocation.updateMany.mockResolvedValue({ count: 0 });
+  });
+
+  afterEach(() => {
+    delete process.env.ORACLE_ADAPTER_ADDRESS;
+    delete process.env.ASSET_REGISTRY_ADDRESS;
+  });
+
+  describe('syncAssetAllocations', () => {
+    it('should upsert metadata, balance, USD value and target allocation', async () => {
+      mockChain({
+        holdings: [{ tokenAddress: TOKEN_A, targetAllocation: 4000n, isActive: true }],
+        registryAssets: [{ tokenAddress: TOKEN_A, name: 'Ondo US Dollar Yield', symbol: 'USDY' }],
+        balances: { [TOKEN_A]: 500_000n * 10n ** 6n },
+        decimals: { [TOKEN_A]: 6 },
+        prices: { [TOKEN_A]: (105n * ONE) / 100n },
+      });
+
+      const result = await syncAssetAllocations();
+
+      expect(result).toMatchObject({ holdings: 1, synced: 1, errors: [] });
+      expect(mockPrisma.assetAllocation.upsert).toHaveBeenCalledWith({
+        where: { tokenAddress: TOKEN_A },
+        update: {
+          tokenSymbol: 'USDY',
+          tokenName: 'Ondo US Dollar Yield',
+          allocation: '0.4000',
+          balance: (500_000n * 10n ** 6n).toString(),
+          valueUsd: (525_000n * ONE).toString(),
+          isActive: true,
+        },
+        create: expect.objectContaining({ tokenAddress: TOKEN_A, apy: 0 }),
+      });
+    });
+
+    it('should soft-deactivate assets that are no longer active', async () => {
+      mockChain({
+        holdings: [
+          { tokenAddress: TOKEN_A, targetAllocation: 6000n, isActive: true },
+          { tokenAddress: TOKEN_B, targetAllocation: 4000n, isActive: false },
+          { tokenAddress: TOKEN_C, targetAllocation: 0n, isActive: true },
+        ],
+        // TOKEN_C was deactivated in the registry
+        registryAssets: [
+          { tokenAddress: TOKEN_A, name: 'A', symbol: 'A' },
+          { tokenAddress: TOKEN_B, name: 'B', symbol: 'B' },
+        ],
+      });
+      mockPrisma.assetAllocation.updateMany.mockResolvedValueOnce({ count: 2 });
+
+      const result = await syncAssetAllocations();
+
+      expect(result).toMatchObject({ synced: 1, deactivated: 2 });
+      expect(mockPrisma.assetAllocation.updateMany).toHaveBeenCalledWith({
+        where: { isActive: true, tokenAddress: { notIn: [TOKEN_A] } },
+        data: { isActive: false },
+      });
+    });
+
+    it('should fall back to ERC-20 metadata without a registry', async () => {
+      mockChain({
+        holdings: [{ tokenAddress: TOKEN_A, targetAllocation: 10000n, isActive: true }],
+        registry: '0x0000000000000000000000000000000000000000',
+      });
+
+      await syncAssetAllocations();
+
+      expect(mockPrisma.assetAllocation.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: expect.objectContaining({ tokenSymbol: 'T11', tokenName: 'Token 11' }),
+        })
+      );
+    });
+
+    it('should keep syncing other assets when one price read fails', async () => {
+      mockChain({
+        holdings: [
+          { tokenAddress: TOKEN_A, targetAllocation: 5000n, isActive: true },
+          { tokenAddress: TOKEN_B, targetAllocation: 5000n, isActive: true },
+        ],
+        registryAssets: [
+          { tokenAddress: TOKEN_A, name: 'A', symbol: 'A' },
+          { tokenAddress: TOKEN_B, name: 'B', symbol: 'B' },
+        ],
+        prices: { [TOKEN_A]: new Error('AllOraclesFailed') },
+      });
+
+      const result = await syncAssetAllocations();
+
+      expect(result.synced).toBe(1);
+      expect(result.errors).toEqual([`${TOKEN_A}: AllOraclesFailed`]);
+      // A failed asset is still held, so it is not deactivated
+      expect(mockPrisma.assetAllocation.updateMany).toHaveBeenCalledWith({
+        where: { isActive: true, tokenAddress: { notIn: [TOKEN_A, TOKEN_B] } },
+        data: { isActive: false },
+      });
+    });
+
+    it('should require the vault address', async () => {
+      mockContracts.pngyVault = undefined;
+
+      await expect(syncAssetAllocations()).rejects.toThrow('PNGY_VAULT_ADDRESS not configured');
+    });
+  });
+
+  describe('event handlers', () => {
+    it('should upsert an added asset', async () => {
+      mockChain({ registryAssets: [{ tokenAddress: TOKEN_A, name: 'A', symbol: 'A' }] });
+
+      await handleAssetAdded(TOKEN_A, 2500n);
+
+      expect(mockPrisma.assetAllocation.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { tokenAddress: TOKEN_A },
+          update: expect.objectContaining({ allocation: '0.2500', isActive: true }),
+        })
+      );
+    });
+
+    it('should deactivate a removed asset', async () => {
+      await handleAssetRemoved(TOKEN_A.toUpperCase().replace('0X', '0x') as `0x${string}`);
+
+      expect(mockPrisma.assetAllocation.updateMany).toHaveBeenCalledWith({
+        where: { tokenAddress: TOKEN_A },
+        data: { isActive: false },
+      });
+    });
+
+    it('should update the target allocation of a known asset', async () => {
+      mockPrisma.assetAllocation.updateMany.mockResolvedValueOnce({ count: 1 });
+
+      await handleTargetAllocationUpdated(TOKEN_A, 3500n);
+
+      expect(mockPrisma.assetAllocation.updateMany).toHaveBeenCalledWith({
+        where: { tokenAddress: TOKEN_A },
+        data: { allocation: '0.3500' },
+      });
+      expect(mockPrisma.assetAllocation.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should sync an unknown asset when its target allocation changes', async () => {
+      mockChain({ registryAssets: [{ tokenAddress: TOKEN_A, name: 'A', symbol: 'A' }] });
+
+      await handleTargetAllocationUpdated(TOKEN_A, 3500n);
+
+      expect(mockPrisma.assetAllocation.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: expect.objectContaining({ allocation: '0.3500' }),
+        })
+      );
+    });
+  });
+});
@@ -10,9 +10,14 @@ vi.mock('../services/vault.service', () => ({
   getRecentRebalances: vi.fn(),
 }));
 
+vi.mock('../services/assetDetailsService', () => ({
+  getAssetDetails: vi.fn(),
+}));
+
 // Import after mock setup
 import { assetsRoutes } from '../routes/assets';
 import * as vaultService from '../services/vault.service';
+import * as assetDetailsService from '../services/assetDetailsService';
 
 // =============================================================================
 // Mock Data Factory
@@ -322,6 +327,98 @@ describe('Assets API - Error Handling', () => {
   });
 });
 
+describe('GET /api/assets/details', () => {
+  let server: ReturnType<typeof Fastify>;
+
+  const detail = {
+    tokenAddress: '0x1234567890123456789012345678901234567890',
+    name: 'BlackRock USD Institutional Digital Liquidity Fund',
+    symbol: 'BUIDL',
+    registry: {
+      assetType: 'TOKENIZED_BOND',
+      oracleSource: '0x9999999999999999999999999999999999999999',
+      registeredAt: '2025-11-01T00:00:00.000Z',
+      isActive: true,
+    },
+    oracle: {
+      price: '1000000000000000000',
+      source: 'APRO',
+      updatedAt: '2025-11-24T16:00:00.000Z',
+    },
+    balance: '1000000000000000000000000',
+    valueUsd: '1000000000000000000000000',
+    targetAllocation: 40,
+    actualAllocation: 42.5,
+    deviation: 2.5,
+    apy: 5.2,
+    priceHistory: [
+      {
+        time: '2025-11-24T00:00:00.000Z',
+        open: '1000000000000000000',
+        high: '1000000000000000000',
+        low: '1000000000000000000',
+        close: '1000000000000000000',
+        source: 'APRO',
+        samples: 3,
+      },
+    ],
+    rebalances: [
+      {
+        txHash: '0xabc123',
+        type: 'BUY',
+        fromAsset: '0x55d398326f99059fF775485246999027B3197955',
+        toAsset: '0x1234567890123456789012345678901234567890',
+        fromAmount: '100000000000000000000000',
+        toAmount: '100000000000000000000000',
+        timestamp: '2025-11-20T12:00:00.000Z',
+      },
+    ],
+    lastUpdated: '2025-11-24T16:05:00.000Z',
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    server = await buildTestServer();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should return details for every asset', async () => {
+    vi.mocked(assetDetailsService.getAssetDetails).mockResolvedValue([detail] as any);
+
+    const response = await server.inject({ method: 'GET', url: '/api/assets/details' });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.payload);
+    expect(body.success).toBe(true);
+    expect(body.data.assets).toEqual([detail]);
+  });
+
+  it('should allow missing registry and oracle data', async () => {
+    vi.mocked(assetDetailsService.getAssetDetails).mockResolvedValue([
+      { ...detail, registry: null, oracle: null, priceHistory: [], rebalances: [] },
+    ] as any);
+
+    const response = await server.inject({ method: 'GET', url: '/api/assets/details' });
+
+    expect(response.statusCode).toBe(200);
+    const asset = JSON.parse(response.payload).data.assets[0];
+    expect(asset.registry).toBeNull();
+    expect(asset.oracle).toBeNull();
+  });
+
+  it('should handle errors gracefully', async () => {
+    vi.mocked(assetDetailsService.getAssetDetails).mockRejectedValueOnce(new Error('RPC down'));
+
+    const response = await server.inject({ method: 'GET', url: '/api/assets/details' });
+
+    expect(response.statusCode).toBe(500);
+    expect(JSON.parse(response.payload).error).toBe('Failed to fetch asset details');
+  });
+});
+
 describe('Assets API - Edge Cases', () => {
   let server: ReturnType<typeof Fastify>;
 
@@ -0,0 +1,275 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { createSiweMessage } from 'viem/siwe';
+
+// =============================================================================
+// Hoisted Mocks
+// =============================================================================
+
+const { mockRedis, mockPublicClient } = vi.hoisted(() => ({
+  mockRedis: {
+    set: vi.fn(),
+    del: vi.fn(),
+  },
+  mockPublicClient: {
+    chain: { id: 97 },
+    verifySiweMessage: vi.fn(),
+    readContract: vi.fn(),
+  },
+}));
+
+vi.mock('../config/redis', () => ({
+  getRedisConnection: () => mockRedis,
+}));
+
+vi.mock('../services/blockchain', () => ({
+  publicClient: mockPublicClient,
+  contracts: {
+    pngyVault: '0x1234567890123456789012345678901234567890',
+  },
+}));
+
+// =============================================================================
+// Imports (after mocks)
+// =============================================================================
+
+import {
+  createSessionToken,
+  verifySessionToken,
+  signInWithEthereum,
+  isVaultAdmin,
+  AuthError,
+  ADMIN_ROLE,
+} from '../services/authService';
+import { authPlugin, requireAuth } from '../plugins/auth';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const WALLET = '0xAbCdEfAbCdEfAbCdEfAbCdEfAbCdEfAbCdEfAbCd' as const;
+
+function buildMessage(overrides: Partial<Parameters<typeof createSiweMessage>[0]> = {}) {
+  return createSiweMessage({
+    address: WALLET,
+    chainId: 97,
+    domain: 'localhost:3000',
+    nonce: 'abcdef1234567890',
+    uri: 'http://localhost:3000',
+    version: '1',
+    ...overrides,
+  });
+}
+
+function nowSeconds() {
+  return Math.floor(Date.now() / 1000);
+}
+
+// =============================================================================
+// Session Tokens
+// =============================================================================
+
+describe('AuthService - session tokens', () => {
+  it('should round-trip a session', () => {
+    const issuedAt = nowSeconds();
+    const token = createSessionToken({
+      address: WALLET.toLowerCase(),
+      role: 'admin',
+      issuedAt,
+      expiresAt: issuedAt + 60,
+    });
+
+    const session = verifySessionToken(token);
+    expect(session).toEqual({
+      address: WALLET.toLowerCase(),
+      role: 'admin',
+      issuedAt,
+      expiresAt: issuedAt + 60,
+    });
+  });
+
+  it('should reject expired tokens', () => {
+    const token = createSessionToken({
+      address: WALLET.toLowerCase(),
+      role: 'user',
+      issuedAt: nowSeconds() - 120,
+      expiresAt: nowSeconds() - 60,
+    });
+
+    expect(verifySessionToken(token)).toBeNull();
+  });
+
+  it('should reject tampered payloads', () => {
+    const issuedAt = nowSeconds();
+    const token = createSessionToken({
+      address: WALLET.toLowerCase(),
+      role: 'user',
+      issuedAt,
+      expiresAt: issuedAt + 60,
+    });
+    const [header, , signature] = token.split('.');
+    const forgedPayload = Buffer.from(
+      JSON.stringify({ sub: WALLET.toLowerCase(), role: 'admin', iat: issuedAt, exp: issuedAt + 60 })
+    ).toString('base64url');
+
+    expect(verifySessionToken(`${header}.${forgedPayload}.${signature}`)).toBeNull();
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(verifySessionToken('garbage')).toBeNull();
+    expect(verifySessionToken('a.b.c')).toBeNull();
+  });
+});
+
+// =============================================================================
+// Sign-In
+// =============================================================================
+
+describe('AuthService - signInWithEthereum', () => {
+  beforeEach(() => {
+    mockRedis.del.mockResolvedValue(1);
+    mockPublicClient.verifySiweMessage.mockResolvedValue(true);
+    mockPublicClient.readContract.mockResolvedValue(false);
+  });
+
+  it('should issue a session for a valid signature', async () => {
+    const result = await signInWithEthereum(buildMessage(), '0x1234');
+
+    expect(result.session.address).toBe(WALLET.toLowerCase());
+    expect(result.session.role).toBe('user');
+    expect(verifySessionToken(result.token)?.address).toBe(WALLET.toLowerCase());
+    expect(mockRedis.del).toHaveBeenCalledWith('auth:nonce:abcdef1234567890');
+  });
+
+  it('should reject a nonce that was not issued or already used', async () => {
+    mockRedis.del.mockResolvedValue(0);
+
+    await expect(signInWithEthereum(buildMessage(), '0x1234')).rejects.toThrow(
+      'Invalid or expired nonce'
+    );
+    expect(mockPublicClient.verifySiweMessage).not.toHaveBeenCalled();
+  });
+
+  it('should reject messages for another domain', async () => {
+    await expect(
+      signInWithEthereum(buildMessage({ domain: 'evil.example' }), '0x1234')
+    ).rejects.toBeInstanceOf(AuthError);
+  });
+
+  it('should reject messages for another chain', async () => {
+    await expect(signInWithEthereum(buildMessage({ chainId: 1 }), '0x1234')).rejects.toThrow(
+      'chain 97'
+    );
+  });
+
+  it('should reject expired messages', async () => {
+    await expect(
+      signInWithEthereum(buildMessage({ expirationTime: new Date(Date.now() - 1000) }), '0x1234')
+    ).rejects.toBeInstanceOf(AuthError);
+  });
+
+  it('should reject invalid signatures', async () => {
+    mockPublicClient.verifySiweMessage.mockResolvedValue(false);
+
+    await expect(signInWithEthereum(buildMessage(), '0x1234')).rejects.toThrow(
+      'Invalid signature'
+    );
+  });
+});
+
+// =============================================================================
+// Roles
+// =============================================================================
+
+describe('AuthService - isVaultAdmin', () => {
+  it('should check ADMIN_ROLE on the vault', async () => {
+    mockPublicClient.readContract.mockResolvedValue(true);
+    const admin = '0x1111111111111111111111111111111111111111';
+
+    await expect(isVaultAdmin(admin)).resolves.toBe(true);
+    expect(mockPublicClient.readContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        functionName: 'hasRole',
+        args: [ADMIN_ROLE, admin],
+      })
+    );
+  });
+
+  it('should deny when the RPC call fails', async () => {
+    mockPublicClient.readContract.mockRejectedValue(new Error('RPC down'));
+
+    await expect(isVaultAdmin('0x2222222222222222222222222222222222222222')).resolves.toBe(false);
+  });
+});
+
+// =============================================================================
+// Routes
+// =============================================================================
+
+describe('Auth Routes', () => {
+  let server: FastifyInstance;
+
+  beforeEach(async () => {
+    mockRedis.set.mockResolvedValue('OK');
+    mockRedis.del.mockResolvedValue(1);
+    mockPublicClient.verifySiweMessage.mockResolvedValue(true);
+    mockPublicClient.readContract.mockResolvedValue(false);
+
+    server = Fastify();
+    await server.register(authPlugin, { prefix: '/api' });
+    server.get('/api/protected', { preHandler: requireAuth }, async (request) => ({
+      address: request.session?.address,
+    }));
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('POST /api/auth/nonce should issue and store a nonce', async () => {
+    const response = await server.inject({ method: 'POST', url: '/api/auth/nonce' });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.data.nonce).toMatch(/^[a-zA-Z0-9]{8,}$/);
+    expect(mockRedis.set).toHaveBeenCalledWith(`auth:nonce:${body.data.nonce}`, '1', 'EX', 300);
+  });
+
+  it('POST /api/auth/verify should return a session token', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/auth/verify',
+      payload: { message: buildMessage(), signature: '0xdeadbeef' },
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.data.address).toBe(WALLET.toLowerCase());
+    expect(body.data.role).toBe('user');
+
+    const protectedResponse = await server.inject({
+      method: 'GET',
+      url: '/api/protected',
+      headers: { authorization: `Bearer ${body.data.token}` },
+    });
+    expect(JSON.parse(protectedResponse.body).address).toBe(WALLET.toLowerCase());
+  });
+
+  it('POST /api/auth/verify should return 401 for a bad signature', async () => {
+    mockPublicClient.verifySiweMessage.mockResolvedValue(false);
+
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/auth/verify',
+      payload: { message: buildMessage(), signature: '0xdeadbeef' },
+    });
+
+    expect(response.statusCode).toBe(401);
+    expect(JSON.parse(response.body).error).toBe('Invalid signature');
+  });
+
+  it('GET /api/auth/session should require a session', async () => {
+    const response = await server.inject({ method: 'GET', url: '/api/auth/session' });
+    expect(response.statusCode).toBe(401);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Address } from 'viem';
+
+// =============================================================================
+// Mock Setup - Must be before imports
+// =============================================================================
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    assetAllocation: { findMany: vi.fn() },
+    priceFeed: { findMany: vi.fn() },
+    netValue: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock('../services/database', () => ({
+  prisma: mockPrisma,
+}));
+
+vi.mock('../services/safeService', () => ({}));
+vi.mock('../services/rebalanceProposalService', () => ({}));
+vi.mock('../jobs/notificationQueue', () => ({
+  addBroadcastNotificationJob: vi.fn(),
+}));
+
+// Import after mock setup
+import { runBacktest, toBacktestCSV, BacktestInputError } from '../services/backtestService';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const ONE = 10n ** 18n;
+const TOKEN_A = '0x1111111111111111111111111111111111111111' as Address;
+const TOKEN_B = '0x2222222222222222222222222222222222222222' as Address;
+
+const assetAllocations = [
+  { tokenAddress: TOKEN_A, allocation: 0.5, valueUsd: 500n * ONE, apy: 5, isActive: true },
+  { tokenAddress: TOKEN_B, allocation: 0.5, valueUsd: 500n * ONE, apy: 5, isActive: true },
+];
+
+function at(day: number): Date {
+  return new Date(Date.UTC(2025, 10, day, 12));
+}
+
+function price(token: string, day: number, value: number) {
+  return { tokenAddress: token, price: BigInt(value * 1e6) * 10n ** 12n, timestamp: at(day) };
+}
+
+// A is flat; B jumps 50% on Nov 2 and falls back on Nov 3
+const priceFeeds = [
+  price(TOKEN_A, 1, 1),
+  price(TOKEN_B, 1, 1),
+  price(TOKEN_B, 2, 1.5),
+  price(TOKEN_B, 3, 1),
+];
+
+const netValues = [
+  { timestamp: at(1), sharePrice: ONE },
+  { timestamp: at(2), sharePrice: (102n * ONE) / 100n },
+  { timestamp: at(3), sharePrice: (99n * ONE) / 100n },
+];
+
+const options = {
+  from: new Date('2025-11-01T00:00:00Z'),
+  to: new Date('2025-11-03T00:00:00Z'),
+  strategy: 'equal-weight' as const,
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('BacktestService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.assetAllocation.findMany.mockResolvedValue(assetAllocations);
+    mockPrisma.priceFeed.findMany.mockResolvedValue(priceFeeds);
+    mockPrisma.netValue.findMany.mockResolvedValue(netValues);
+  });
+
+  it('should rebalance when drift exceeds the threshold and charge swap costs', async () => {
+    const result = await runBacktest(options);
+
+    expect(result.thresholdBps).toBe(500);
+    expect(result.swapCostBps).toBe(30);
+    expect(result.days.map((d) => d.rebalanced)).toEqual([false, true, true]);
+
+    // Nov 2: 0.5 + 0.75 drifted to 40/60; 0.25 traded at 30 bps
+    expect(result.days[1]).toMatchObject({
+      date: '2025-11-02',
+      nav: 1.24925,
+      maxDeviationBps: 1000,
+      turnover: 10,
+      swapCost: 0.06,
+    });
+    expect(result.summary.rebalances).toBe(2);
+    expect(result.summary.days).toBe(3);
+  });
+
+  it('should hold through drift below the threshold', async () => {
+    const result = await runBacktest({ ...options, thresholdBps: 1500, swapCostBps: 0 });
+
+    expect(result.summary.rebalances).toBe(0);
+    expect(result.summary.turnover).toBe(0);
+    expect(result.days.map((d) => d.nav)).toEqual([1, 1.25, 1]);
+    expect(result.summary.totalReturn).toBe(0);
+    expect(result.summary.maxDrawdown).toBe(20);
+  });
+
+  it('should compare against the actual share price', async () => {
+    const result = await runBacktest(options);
+
+    expect(result.days.map((d) => d.actualNav)).toEqual([1, 1.02, 0.99]);
+    expect(result.summary.actualTotalReturn).toBe(-1);
+    expect(result.summary.actualMaxDrawdown).toBe(2.9412);
+  });
+
+  it('should start on the first day every asset has a price', async () => {
+    mockPrisma.priceFeed.findMany.mockResolvedValueOnce([
+      price(TOKEN_A, 1, 1),
+      price(TOKEN_A, 2, 1),
+      price(TOKEN_B, 2, 1),
+      price(TOKEN_A, 3, 1.1),
+    ]);
+
+    const result = await runBacktest(options);
+
+    expect(result.from).toBe('2025-11-02');
+    expect(result.days).toHaveLength(2);
+    // B's Nov 2 close is carried forward to Nov 3
+    expect(result.days[1].nav).toBe(1.05);
+  });
+
+  it('should reject assets without price history', async () => {
+    mockPrisma.priceFeed.findMany.mockResolvedValueOnce([price(TOKEN_A, 1, 1)]);
+
+    await expect(runBacktest(options)).rejects.toBeInstanceOf(BacktestInputError);
+  });
+
+  it('should export daily rows as CSV', async () => {
+    const csv = toBacktestCSV(await runBacktest(options));
+    const lines = csv.split('\n');
+
+    expect(lines[0]).toBe(
+      'date,nav,actualNav,drawdown,actualDrawdown,maxDeviationBps,rebalanced,turnover,swapCost'
+    );
+    expect(lines).toHaveLength(4);
+    expect(lines[2]).toContain('2025-11-02,1.24925,1.02,');
+    expect(lines[2]).toContain(',true,10,0.06');
+  });
+});
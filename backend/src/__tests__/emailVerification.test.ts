@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// =============================================================================
+// Mock Setup - Must be before imports
+// =============================================================================
+
+const { mockPrisma, mockRedis, mockSendEmail, store } = vi.hoisted(() => {
+  const store = new Map<string, { value: string; ttl: number }>();
+
+  return {
+    store,
+    mockPrisma: {
+      notificationPreference: {
+        findUnique: vi.fn(),
+        updateMany: vi.fn(),
+      },
+    },
+    mockSendEmail: vi.fn(),
+    // Minimal in-memory Redis covering the commands the service uses
+    mockRedis: {
+      set: vi.fn((key: string, value: string, _ex: 'EX', ttl: number, nx?: 'NX') => {
+        if (nx && store.has(key)) {
+          return Promise.resolve(null);
+        }
+        store.set(key, { value, ttl });
+        return Promise.resolve('OK');
+      }),
+      get: vi.fn((key: string) => Promise.resolve(store.get(key)?.value ?? null)),
+      del: vi.fn((key: string) => Promise.resolve(store.delete(key) ? 1 : 0)),
+      ttl: vi.fn((key: string) => Promise.resolve(store.get(key)?.ttl ?? -2)),
+      incr: vi.fn((key: string) => {
+        const next = Number(store.get(key)?.value ?? 0) + 1;
+        store.set(key, { value: String(next), ttl: store.get(key)?.ttl ?? -1 });
+        return Promise.resolve(next);
+      }),
+      expire: vi.fn((key: string, ttl: number) => {
+        const entry = store.get(key);
+        if (entry) {
+          entry.ttl = ttl;
+        }
+        return Promise.resolve(entry ? 1 : 0);
+      }),
+    },
+  };
+});
+
+vi.mock('../services/database', () => ({
+  prisma: mockPrisma,
+}));
+
+vi.mock('../config/redis', () => ({
+  getRedisConnection: () => mockRedis,
+}));
+
+vi.mock('../services/emailService', () => ({
+  sendEmail: mockSendEmail,
+  emailTemplates: {
+    emailVerification: (data: { verifyUrl: string; expiresAt: string }) => ({
+      subject: 'Confirm your email for Paimon Yield alerts',
+      html: `<a href="${data.verifyUrl}">Confirm Email</a>`,
+      text: `Confirm: ${data.verifyUrl}`,
+    }),
+  },
+}));
+
+// Import after mock setup
+import {
+  sendVerificationEmail,
+  verifyEmailToken,
+  createVerificationToken,
+  EmailVerificationError,
+  VerificationRateLimitError,
+} from '../services/emailVerificationService';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const USER = '0x1111111111111111111111111111111111111111';
+const EMAIL = 'Alice@Example.com';
+
+function mockPreferences(overrides: Record<string, unknown> = {}) {
+  mockPrisma.notificationPreference.findUnique.mockResolvedValue({
+    userAddress: USER,
+    email: EMAIL,
+    emailVerified: false,
+    ...overrides,
+  });
+}
+
+/** Send a verification email and return the token from its link */
+async function sendAndExtractToken(): Promise<string> {
+  await sendVerificationEmail(USER);
+  const { text } = mockSendEmail.mock.calls.at(-1)![0] as { text: string };
+  const token = /token=([^\s]+)/.exec(text)![1];
+  return decodeURIComponent(token);
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('EmailVerificationService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store.clear();
+    mockPreferences();
+    mockSendEmail.mockResolvedValue({ success: true, messageId: 'msg-1' });
+    mockPrisma.notificationPreference.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('sendVerificationEmail', () => {
+    it('should email a single-use link for the current address', async () => {
+      const result = await sendVerificationEmail(USER.toUpperCase().replace('0X', '0x'));
+
+      expect(result).toMatchObject({ sent: true, email: EMAIL });
+      expect(result.expiresAt.getTime() - Date.now()).toBeGreaterThan(23 * 60 * 60 * 1000);
+      expect(mockSendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: EMAIL,
+          subject: 'Confirm your email for Paimon Yield alerts',
+          html: expect.stringContaining('/api/notifications/verify-email?token='),
+        })
+      );
+    });
+
+    it('should reject wallets without an unverified email', async () => {
+      mockPreferences({ email: null });
+      await expect(sendVerificationEmail(USER)).rejects.toThrow('No email address to verify');
+
+      mockPreferences({ emailVerified: true });
+      await expect(sendVerificationEmail(USER)).rejects.toThrow(EmailVerificationError);
+      expect(mockSendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should enforce a cooldown between sends', async () => {
+      await sendVerificationEmail(USER);
+
+      const error = await sendVerificationEmail(USER).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(VerificationRateLimitError);
+      expect((error as VerificationRateLimitError).retryAfter).toBe(60);
+      expect(mockSendEmail).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cap sends per hour', async () => {
+      for (let i = 0; i < 5; i++) {
+        await sendVerificationEmail(USER);
+        store.delete(`notifications:email-verification:cooldown:${USER}`);
+      }
+
+      const error = await sendVerificationEmail(USER).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(VerificationRateLimitError);
+      expect((error as VerificationRateLimitError).retryAfter).toBe(3600);
+      expect(mockSendEmail).toHaveBeenCalledTimes(5);
+    });
+  });
+
+  describe('verifyEmailToken', () => {
+    it('should verify the email and consume the token', async () => {
+      const token = await sendAndExtractToken();
+
+      await expect(verifyEmailToken(token)).resolves.toEqual({ address: USER, email: EMAIL });
+      expect(mockPrisma.notificationPreference.updateMany).toHaveBeenCalledWith({
+        where: { userAddress: USER, email: EMAIL },
+        data: { emailVerified: true },
+      });
+
+      await expect(verifyEmailToken(token)).rejects.toThrow('already been used or replaced');
+      expect(mockPrisma.notificationPreference.updateMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should invalidate earlier links when a new one is sent', async () => {
+      const first = await sendAndExtractToken();
+      store.delete(`notifications:email-verification:cooldown:${USER}`);
+      const second = await sendAndExtractToken();
+
+      await expect(verifyEmailToken(first)).rejects.toThrow('already been used or replaced');
+      await expect(verifyEmailToken(second)).resolves.toMatchObject({ address: USER });
+    });
+
+    it('should reject tokens for an email that has since changed', async () => {
+      const token = await sendAndExtractToken();
+      mockPreferences({ email: 'bob@example.com' });
+
+      await expect(verifyEmailToken(token)).rejects.toThrow('Email address has changed');
+      expect(mockPrisma.notificationPreference.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired tokens', async () => {
+      const token = await sendAndExtractToken();
+      vi.useFakeTimers({ now: Date.now() + 25 * 60 * 60 * 1000 });
+
+      await expect(verifyEmailToken(token)).rejects.toThrow('Verification token has expired');
+    });
+
+    it('should reject tampered or malformed tokens', async () => {
+      const forged = createVerificationToken({
+        sub: USER,
+        email: EMAIL.toLowerCase(),
+        jti: 'jti',
+        exp: Math.floor(Date.now() / 1000) + 60,
+      });
+      const [payload] = forged.split('.');
+
+      await expect(verifyEmailToken(`${payload}.not-the-signature`)).rejects.toThrow(
+        'Invalid verification token'
+      );
+      await expect(verifyEmailToken('garbage')).rejects.toThrow('Invalid verification token');
+    });
+  });
+});
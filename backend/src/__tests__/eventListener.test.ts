@@ -14,18 +14,52 @@ vi.mock('viem', async () => {
       getBlockNumber: vi.fn().mockResolvedValue(1000000n),
       getBlock: vi.fn().mockResolvedValue({ timestamp: BigInt(Math.floor(Date.now() / 1000)) }),
       getLogs: vi.fn().mockResolvedValue([]),
+      getTransactionReceipt: vi.fn().mockResolvedValue({ logs: [] }),
       watchContractEvent: vi.fn().mockReturnValue(() => {}),
     })),
   };
 });
 
-// Mock Prisma
-vi.mock('../services/database', () => ({
-  prisma: {
+// Mock Prisma (interactive transactions run against the same mock client)
+vi.mock('../services/database', () => {
+  const prisma = {
     transaction: {
       findFirst: vi.fn().mockResolvedValue(null),
+      findMany: vi.fn().mockResolvedValue([]),
       findUnique: vi.fn().mockResolvedValue(null),
       create: vi.fn().mockResolvedValue({}),
+      createMany: vi.fn().mockResolvedValue({ count: 2 }),
+      deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
+    netValue: {
+      findFirst: vi.fn().mockResolvedValue(null),
+    },
+    $transaction: vi.fn((operations: unknown) =>
+      typeof operations === 'function'
+        ? (operations as (tx: unknown) => Promise<unknown>)(prisma)
+        : Promise.all(operations as Promise<unknown>[])
+    ),
+    indexerCheckpoint: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      upsert: vi.fn().mockResolvedValue({}),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+    indexedBlock: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      findMany: vi.fn().mockResolvedValue([]),
+      upsert: vi.fn().mockResolvedValue({}),
+      deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
+    protocolEvent: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      create: vi.fn().mockResolvedValue({}),
+      deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
+    withdrawRequest: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      create: vi.fn().mockResolvedValue({}),
+      update: vi.fn().mockResolvedValue({}),
+      updateMany: vi.fn().mockResolvedValue({ count: 0 }),
       deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
     },
     rebalanceHistory: {
@@ -33,6 +67,9 @@ vi.mock('../services/database', () => ({
       create: vi.fn().mockResolvedValue({}),
       deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
     },
+    safeTransaction: {
+      updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
     user: {
       upsert: vi.fn().mockResolvedValue({}),
     },
@@ -41,7 +78,39 @@ vi.mock('../services/database', () => ({
       create: vi.fn().mockResolvedValue({}),
       update: vi.fn().mockResolvedValue({}),
     },
-  },
+  };
+  return { prisma };
+});
+
+// Mock notification queues
+vi.mock('../jobs/queues', () => ({
+  addUserNotificationJob: vi.fn().mockResolvedValue({}),
+  addBroadcastNotificationJob: vi.fn().mockResolvedValue({}),
+}));
+
+vi.mock('../jobs/notificationQueue', () => ({
+  notifyCircuitBreaker: vi.fn().mockResolvedValue(undefined),
+  notifyEmergencyPause: vi.fn().mockResolvedValue(undefined),
+}));
+
+// Mock asset sync
+vi.mock('../services/assetSyncService', () => ({
+  handleAssetAdded: vi.fn().mockResolvedValue(undefined),
+  handleAssetRemoved: vi.fn().mockResolvedValue(undefined),
+  handleTargetAllocationUpdated: vi.fn().mockResolvedValue(undefined),
+}));
+
+// Mock lot accounting
+vi.mock('../services/lotService', () => ({
+  addLot: vi.fn().mockResolvedValue(undefined),
+  recordWithdrawal: vi.fn().mockResolvedValue({ method: 'FIFO', costBasis: 0n, gain: 0n }),
+  transferLots: vi.fn().mockResolvedValue(0n),
+  revertLots: vi.fn().mockResolvedValue(undefined),
+}));
+
+// Mock webhook fan-out
+vi.mock('../services/webhookService', () => ({
+  publishWebhookEvent: vi.fn().mockResolvedValue(0),
 }));
 
 // Mock env
@@ -113,7 +182,7 @@ describe('EventListener', () => {
   describe('ABI definitions', () => {
     it('should export PNGY_VAULT_ABI with correct events', () => {
       expect(PNGY_VAULT_ABI).toBeDefined();
-      expect(PNGY_VAULT_ABI.length).toBe(3);
+      expect(PNGY_VAULT_ABI.length).toBe(15);
     });
 
     it('should include DepositProcessed event', () => {
@@ -136,6 +205,34 @@ describe('EventListener', () => {
       );
       expect(rebalanceEvent).toBeDefined();
     });
+
+    it('should include ERC-20 Transfer event', () => {
+      const transferEvent = PNGY_VAULT_ABI.find(
+        (item) => item.type === 'event' && item.name === 'Transfer'
+      );
+      expect(transferEvent).toBeDefined();
+    });
+
+    it('should include protocol state events', () => {
+      const names = PNGY_VAULT_ABI.filter((item) => item.type === 'event').map((item) => item.name);
+      expect(names).toEqual(
+        expect.arrayContaining([
+          'NavUpdated',
+          'CircuitBreakerTriggered',
+          'CircuitBreakerReset',
+          'EmergencyModeChanged',
+          'Paused',
+          'Unpaused',
+        ])
+      );
+    });
+
+    it('should include RWA holding events', () => {
+      const names = PNGY_VAULT_ABI.filter((item) => item.type === 'event').map((item) => item.name);
+      expect(names).toEqual(
+        expect.arrayContaining(['RWAAssetAdded', 'RWAAssetRemoved', 'TargetAllocationUpdated'])
+      );
+    });
   });
 
   describe('start/stop', () => {
@@ -157,6 +254,11 @@ describe('EventListener', () => {
   });
 
   describe('chain reorganization handling', () => {
+    beforeEach(async () => {
+      const { prisma } = await import('../services/database');
+      vi.mocked(prisma.transaction.findMany).mockResolvedValue([]);
+    });
+
     it('should handle reorg by deleting affected transactions', async () => {
       const { prisma } = await import('../services/database');
       const reorgBlock = 999900n;
@@ -181,6 +283,252 @@ describe('EventListener', () => {
   });
 });
 
+describe('EventListener - Reorg Detection', () => {
+  const mockVaultAddress = '0x1234567890123456789012345678901234567890' as `0x${string}`;
+  const user = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+  const ONE = 10n ** 18n;
+
+  function createListener() {
+    return new EventListener({ vaultAddress: mockVaultAddress, startBlock: 999990n }) as any;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should not report a reorg when the parent hash matches', async () => {
+    const { prisma } = await import('../services/database');
+    const listener = createListener();
+    vi.mocked(prisma.indexedBlock.findUnique).mockResolvedValueOnce({
+      blockNumber: 999n,
+      blockHash: '0xaaa',
+    } as any);
+    listener.httpClient.getBlock.mockResolvedValueOnce({ parentHash: '0xaaa' });
+
+    await expect(listener.detectReorg(1000n)).resolves.toBeNull();
+    expect(prisma.indexedBlock.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should find the fork point when the parent hash changed', async () => {
+    const { prisma } = await import('../services/database');
+    const listener = createListener();
+    vi.mocked(prisma.indexedBlock.findUnique).mockResolvedValueOnce({
+      blockNumber: 999n,
+      blockHash: '0xstale',
+    } as any);
+    vi.mocked(prisma.indexedBlock.findMany).mockResolvedValueOnce([
+      { blockNumber: 999n, blockHash: '0xstale' },
+      { blockNumber: 900n, blockHash: '0xcanonical' },
+    ] as any);
+    listener.httpClient.getBlock.mockImplementation(({ blockNumber }: { blockNumber: bigint }) =>
+      Promise.resolve(
+        blockNumber === 1000n
+          ? { parentHash: '0xreplacement' }
+          : { hash: blockNumber === 900n ? '0xcanonical' : '0xreplacement' }
+      )
+    );
+
+    await expect(listener.detectReorg(1000n)).resolves.toBe(901n);
+  });
+
+  it('should record the hash of each processed range end', async () => {
+    const { prisma } = await import('../services/database');
+    const listener = createListener();
+    listener.httpClient.getBlock.mockResolvedValue({ hash: '0xend', parentHash: '0xprev' });
+
+    await listener.fetchAndProcessEvents(5000n, 6000n);
+
+    expect(prisma.indexedBlock.upsert).toHaveBeenCalledWith({
+      where: { blockNumber: 6000n },
+      update: { blockHash: '0xend', parentHash: '0xprev' },
+      create: { blockNumber: 6000n, blockHash: '0xend', parentHash: '0xprev' },
+    });
+  });
+
+  it('should save the checkpoint together with the block hash', async () => {
+    const { prisma } = await import('../services/database');
+    const listener = createListener();
+    listener.httpClient.getBlock.mockResolvedValue({ hash: '0xend', parentHash: '0xprev' });
+
+    await listener.fetchAndProcessEvents(5000n, 6000n);
+
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(prisma.indexerCheckpoint.upsert).toHaveBeenCalledWith({
+      where: {
+        contractAddress_eventSet: { contractAddress: mockVaultAddress, eventSet: 'pngy-vault' },
+      },
+      update: { lastProcessedBlock: 6000n },
+      create: {
+        contractAddress: mockVaultAddress,
+        eventSet: 'pngy-vault',
+        lastProcessedBlock: 6000n,
+      },
+    });
+    expect(listener.lastProcessedBlock).toBe(6000n);
+  });
+
+  it('should not advance the checkpoint when a handler fails', async () => {
+    const { prisma } = await import('../services/database');
+    const listener = createListener();
+    listener.lastProcessedBlock = 4999n;
+    vi.spyOn(listener, 'collectEvents').mockResolvedValue([
+      { log: {}, process: vi.fn().mockResolvedValue(undefined) },
+      { log: {}, process: vi.fn().mockRejectedValue(new Error('DB down')) },
+    ]);
+
+    await expect(listener.fetchAndProcessEvents(5000n, 6000n)).rejects.toThrow('DB down');
+
+    expect(prisma.indexerCheckpoint.upsert).not.toHaveBeenCalled();
+    expect(listener.lastProcessedBlock).toBe(4999n);
+  });
+
+  it('should index WebSocket logs through the checkpointed sync', async () => {
+    const listener = createListener();
+    listener.lastProcessedBlock = 999980n;
+    const detectReorg = vi.spyOn(listener, 'detectReorg').mockResolvedValue(null);
+    const fetchAndProcessEvents = vi
+      .spyOn(listener, 'fetchAndProcessEvents')
+      .mockResolvedValue(undefined);
+
+    listener.handleRealtimeLogs([
+      { transactionHash: '0xdeposit', blockNumber: 999985n, logIndex: 0 },
+    ]);
+    await listener.syncQueue;
+
+    // Current block 1000000 minus 12 confirmations
+    expect(detectReorg).toHaveBeenCalledWith(999981n);
+    expect(fetchAndProcessEvents).toHaveBeenCalledWith(999981n, 999988n);
+  });
+
+  it('should roll back a reorg detected while handling WebSocket logs', async () => {
+    const listener = createListener();
+    listener.lastProcessedBlock = 999980n;
+    vi.spyOn(listener, 'detectReorg').mockResolvedValue(999970n);
+    const handleReorg = vi.spyOn(listener, 'handleReorg').mockResolvedValue(undefined);
+    const fetchAndProcessEvents = vi.spyOn(listener, 'fetchAndProcessEvents');
+
+    listener.handleRealtimeLogs([
+      { transactionHash: '0xdeposit', blockNumber: 999985n, logIndex: 0 },
+    ]);
+    await listener.syncQueue;
+
+    expect(handleReorg).toHaveBeenCalledWith(999970n);
+    expect(fetchAndProcessEvents).not.toHaveBeenCalled();
+  });
+
+  it('should ignore WebSocket logs that are already indexed', async () => {
+    const listener = createListener();
+    listener.lastProcessedBlock = 999990n;
+    const detectReorg = vi.spyOn(listener, 'detectReorg');
+
+    listener.handleRealtimeLogs([
+      { transactionHash: '0xdeposit', blockNumber: 999985n, logIndex: 0 },
+    ]);
+    await listener.syncQueue;
+
+    expect(detectReorg).not.toHaveBeenCalled();
+  });
+
+  it('should resume from the checkpoint rather than the last transaction', async () => {
+    const { prisma } = await import('../services/database');
+    const listener = createListener();
+    vi.mocked(prisma.indexerCheckpoint.findUnique).mockResolvedValueOnce({
+      lastProcessedBlock: 999000n,
+    } as any);
+
+    await listener.loadLastProcessedBlock();
+
+    expect(listener.lastProcessedBlock).toBe(999000n);
+    expect(prisma.transaction.findFirst).not.toHaveBeenCalled();
+  });
+
+  it('should rewind the checkpoint on reorg', async () => {
+    const { prisma } = await import('../services/database');
+    vi.mocked(prisma.transaction.findMany).mockResolvedValueOnce([]);
+
+    await createListener().handleReorg(999900n);
+
+    expect(prisma.indexerCheckpoint.updateMany).toHaveBeenCalledWith({
+      where: { contractAddress: mockVaultAddress, eventSet: 'pngy-vault' },
+      data: { lastProcessedBlock: 999899n },
+    });
+  });
+
+  it('should reverse position changes of orphaned transactions', async () => {
+    const { prisma } = await import('../services/database');
+    vi.mocked(prisma.transaction.findMany).mockResolvedValueOnce([
+      {
+        type: 'TRANSFER_IN',
+        userAddress: user,
+        shares: (5n * ONE).toString(),
+        amount: (6n * ONE).toString(),
+        costBasis: (4n * ONE).toString(),
+      },
+    ] as any);
+    vi.mocked(prisma.userPosition.findUnique).mockResolvedValueOnce({
+      userAddress: user,
+      shares: (15n * ONE).toString(),
+      costBasis: (14n * ONE).toString(),
+    } as any);
+
+    await createListener().handleReorg(999900n);
+
+    expect(prisma.userPosition.update).toHaveBeenCalledWith({
+      where: { userAddress: user },
+      data: { shares: (10n * ONE).toString(), costBasis: (10n * ONE).toString() },
+    });
+    expect(prisma.indexedBlock.deleteMany).toHaveBeenCalledWith({
+      where: { blockNumber: { gte: 999900n } },
+    });
+
+    const { revertLots } = await import('../services/lotService');
+    expect(revertLots).toHaveBeenCalledWith(999900n, prisma);
+  });
+
+  it('should roll back in one transaction and only re-sync once it commits', async () => {
+    const { prisma } = await import('../services/database');
+    const listener = createListener();
+    listener.lastProcessedBlock = 999990n;
+    const syncHistoricalEvents = vi
+      .spyOn(listener, 'syncHistoricalEvents')
+      .mockResolvedValue(undefined);
+    vi.mocked(prisma.transaction.findMany).mockResolvedValueOnce([]);
+    vi.mocked(prisma.protocolEvent.deleteMany).mockRejectedValueOnce(new Error('DB down'));
+
+    await expect(listener.handleReorg(999900n)).rejects.toThrow('DB down');
+
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(prisma.indexerCheckpoint.updateMany).not.toHaveBeenCalled();
+    expect(listener.lastProcessedBlock).toBe(999990n);
+    expect(syncHistoricalEvents).not.toHaveBeenCalled();
+  });
+
+  it('should restore cost basis removed by an orphaned withdrawal', async () => {
+    const { prisma } = await import('../services/database');
+    vi.mocked(prisma.transaction.findMany).mockResolvedValueOnce([
+      {
+        type: 'WITHDRAW',
+        userAddress: user,
+        shares: (5n * ONE).toString(),
+        amount: (6n * ONE).toString(),
+        costBasis: (5n * ONE).toString(),
+      },
+    ] as any);
+    vi.mocked(prisma.userPosition.findUnique).mockResolvedValueOnce({
+      userAddress: user,
+      shares: (10n * ONE).toString(),
+      costBasis: (10n * ONE).toString(),
+    } as any);
+
+    await createListener().handleReorg(999900n);
+
+    expect(prisma.userPosition.update).toHaveBeenCalledWith({
+      where: { userAddress: user },
+      data: { shares: (15n * ONE).toString(), costBasis: (15n * ONE).toString() },
+    });
+  });
+});
+
 describe('EventListener - Event Processing', () => {
   const mockVaultAddress = '0x1234567890123456789012345678901234567890' as `0x${string}`;
 
@@ -261,6 +609,538 @@ describe('EventListener - Event Processing', () => {
   });
 });
 
+describe('EventListener - Share Transfers', () => {
+  const mockVaultAddress = '0x1234567890123456789012345678901234567890' as `0x${string}`;
+  const sender = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+  const receiver = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+  const ONE = 10n ** 18n;
+
+  function transferLog(from: string, to: string, value: bigint) {
+    return {
+      transactionHash: '0xtransfer',
+      blockNumber: 1000000n,
+      logIndex: 7,
+      args: { from, to, value },
+    };
+  }
+
+  async function processTransfer(log: ReturnType<typeof transferLog>) {
+    const listener = new EventListener({ vaultAddress: mockVaultAddress, startBlock: 999990n });
+    await (listener as any).processTransferEvent(log);
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should move shares and the cost basis of the consumed lots to the receiver', async () => {
+    const { prisma } = await import('../services/database');
+    const { transferLots } = await import('../services/lotService');
+    vi.mocked(transferLots).mockResolvedValueOnce(30n * ONE);
+    vi.mocked(prisma.netValue.findFirst).mockResolvedValueOnce({
+      sharePrice: (2n * ONE).toString(),
+    } as any);
+    vi.mocked(prisma.userPosition.findUnique)
+      .mockResolvedValueOnce({
+        id: 'sender',
+        userAddress: sender,
+        shares: (100n * ONE).toString() as any,
+        costBasis: (120n * ONE).toString() as any,
+        updatedAt: new Date(),
+      })
+      .mockResolvedValueOnce(null);
+
+    await processTransfer(transferLog(sender, receiver, 25n * ONE));
+
+    expect(prisma.transaction.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          type: 'TRANSFER_OUT',
+          userAddress: sender,
+          logIndex: 7,
+          shares: (25n * ONE).toString(),
+          amount: (50n * ONE).toString(),
+        }),
+        expect.objectContaining({ type: 'TRANSFER_IN', userAddress: receiver, logIndex: 7 }),
+      ],
+    });
+    expect(transferLots).toHaveBeenCalledWith(
+      sender,
+      receiver,
+      25n * ONE,
+      expect.objectContaining({ txHash: '0xtransfer', logIndex: 7, blockNumber: 1000000n }),
+      prisma
+    );
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(prisma.userPosition.update).toHaveBeenCalledWith({
+      where: { userAddress: sender },
+      data: { shares: (75n * ONE).toString(), costBasis: (90n * ONE).toString() },
+    });
+    expect(prisma.userPosition.create).toHaveBeenCalledWith({
+      data: {
+        userAddress: receiver,
+        shares: (25n * ONE).toString(),
+        costBasis: (30n * ONE).toString(),
+      },
+    });
+  });
+
+  it('should add to an existing receiver position', async () => {
+    const { prisma } = await import('../services/database');
+    const { transferLots } = await import('../services/lotService');
+    vi.mocked(transferLots).mockResolvedValueOnce(10n * ONE);
+    vi.mocked(prisma.userPosition.findUnique)
+      .mockResolvedValueOnce({
+        id: 'sender',
+        userAddress: sender,
+        shares: (10n * ONE).toString() as any,
+        costBasis: (10n * ONE).toString() as any,
+        updatedAt: new Date(),
+      })
+      .mockResolvedValueOnce({
+        id: 'receiver',
+        userAddress: receiver,
+        shares: (5n * ONE).toString() as any,
+        costBasis: (4n * ONE).toString() as any,
+        updatedAt: new Date(),
+      });
+
+    await processTransfer(transferLog(sender, receiver, 10n * ONE));
+
+    expect(prisma.userPosition.update).toHaveBeenCalledWith({
+      where: { userAddress: sender },
+      data: { shares: '0', costBasis: '0' },
+    });
+    expect(prisma.userPosition.update).toHaveBeenCalledWith({
+      where: { userAddress: receiver },
+      data: { shares: (15n * ONE).toString(), costBasis: (14n * ONE).toString() },
+    });
+  });
+
+  it('should skip mints, burns and transfers involving the vault', async () => {
+    const { prisma } = await import('../services/database');
+    const zero = '0x0000000000000000000000000000000000000000';
+
+    await processTransfer(transferLog(zero, receiver, ONE));
+    await processTransfer(transferLog(sender, zero, ONE));
+    await processTransfer(transferLog(sender, mockVaultAddress, ONE));
+    await processTransfer(transferLog(mockVaultAddress, receiver, ONE));
+
+    expect(prisma.transaction.createMany).not.toHaveBeenCalled();
+    expect(prisma.userPosition.update).not.toHaveBeenCalled();
+  });
+
+  it('should skip transfers that were already indexed', async () => {
+    const { prisma } = await import('../services/database');
+    vi.mocked(prisma.transaction.findUnique).mockResolvedValueOnce({ id: 'existing' } as any);
+
+    await processTransfer(transferLog(sender, receiver, ONE));
+
+    expect(prisma.transaction.findUnique).toHaveBeenCalledWith({
+      where: {
+        txHash_logIndex_type: { txHash: '0xtransfer', logIndex: 7, type: 'TRANSFER_OUT' },
+      },
+    });
+    expect(prisma.transaction.createMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('EventListener - Withdraw Queue', () => {
+  const mockVaultAddress = '0x1234567890123456789012345678901234567890' as `0x${string}`;
+  const owner = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+  const ONE = 10n ** 18n;
+
+  function createListener() {
+    return new EventListener({ vaultAddress: mockVaultAddress, startBlock: 999990n }) as any;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should record a withdraw request', async () => {
+    const { prisma } = await import('../services/database');
+
+    await createListener().processWithdrawRequestedEvent({
+      transactionHash: '0xrequest',
+      blockNumber: 1000000n,
+      logIndex: 2,
+      args: {
+        requestId: 4n,
+        owner: '0xAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+        receiver: owner,
+        shares: 10n * ONE,
+        assets: 11n * ONE,
+        claimableTime: 1700086400n,
+      },
+    });
+
+    expect(prisma.withdrawRequest.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        requestId: 4n,
+        ownerAddress: owner,
+        shares: (10n * ONE).toString(),
+        assets: (11n * ONE).toString(),
+        claimableTime: new Date(1700086400 * 1000),
+        requestTxHash: '0xrequest',
+        requestBlockNumber: 1000000n,
+      }),
+    });
+  });
+
+  it('should settle the request owner position when a request is claimed', async () => {
+    const { prisma } = await import('../services/database');
+    const { recordWithdrawal } = await import('../services/lotService');
+    vi.mocked(recordWithdrawal).mockResolvedValueOnce({
+      method: 'FIFO',
+      costBasis: 9n * ONE,
+      gain: 3n * ONE,
+    });
+    vi.mocked(prisma.withdrawRequest.findUnique).mockResolvedValueOnce({
+      requestId: 4n,
+      ownerAddress: owner,
+      shares: (10n * ONE).toString(),
+      claimTxHash: null,
+    } as any);
+
+    // Claimed by a keeper on the owner's behalf
+    await createListener().processWithdrawClaimedEvent({
+      transactionHash: '0xclaim',
+      blockNumber: 1000100n,
+      logIndex: 5,
+      args: {
+        requestId: 4n,
+        owner: '0xcccccccccccccccccccccccccccccccccccccccc',
+        receiver: owner,
+        assets: 12n * ONE,
+      },
+    });
+
+    expect(prisma.withdrawRequest.update).toHaveBeenCalledWith({
+      where: { requestId: 4n },
+      data: expect.objectContaining({
+        claimedAssets: (12n * ONE).toString(),
+        claimTxHash: '0xclaim',
+        claimBlockNumber: 1000100n,
+      }),
+    });
+    expect(prisma.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        txHash: '0xclaim',
+        logIndex: 5,
+        type: 'WITHDRAW',
+        userAddress: owner,
+        amount: (12n * ONE).toString(),
+        costBasis: (9n * ONE).toString(),
+      }),
+    });
+    expect(recordWithdrawal).toHaveBeenCalledWith(
+      owner,
+      10n * ONE,
+      12n * ONE,
+      expect.objectContaining({ txHash: '0xclaim', logIndex: 5, blockNumber: 1000100n }),
+      prisma
+    );
+
+    // Marked claimed only after settlement, in the same transaction
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(prisma.withdrawRequest.update).mock.invocationCallOrder[0]).toBeGreaterThan(
+      vi.mocked(prisma.transaction.create).mock.invocationCallOrder[0]
+    );
+
+    const { addUserNotificationJob } = await import('../jobs/queues');
+    expect(addUserNotificationJob).toHaveBeenCalledWith(
+      owner,
+      'WITHDRAWAL_COMPLETE',
+      expect.objectContaining({ amount: '12', txHash: '0xclaim' }),
+      'normal'
+    );
+
+    const { publishWebhookEvent } = await import('../services/webhookService');
+    expect(publishWebhookEvent).toHaveBeenCalledWith('WITHDRAWAL_CLAIMED', {
+      address: owner,
+      eventId: '0xclaim-5',
+      occurredAt: expect.any(Date),
+      data: {
+        address: owner,
+        requestId: '4',
+        assets: (12n * ONE).toString(),
+        shares: (10n * ONE).toString(),
+        sharePrice: ((12n * ONE * ONE) / (10n * ONE)).toString(),
+        txHash: '0xclaim',
+        blockNumber: '1000100',
+        logIndex: 5,
+      },
+    });
+  });
+
+  it('should ignore claims that were already recorded', async () => {
+    const { prisma } = await import('../services/database');
+    vi.mocked(prisma.withdrawRequest.findUnique).mockResolvedValueOnce({
+      requestId: 4n,
+      ownerAddress: owner,
+      shares: (10n * ONE).toString(),
+      claimTxHash: '0xclaim',
+    } as any);
+
+    await createListener().processWithdrawClaimedEvent({
+      transactionHash: '0xclaim',
+      blockNumber: 1000100n,
+      logIndex: 5,
+      args: { requestId: 4n, owner, receiver: owner, assets: 12n * ONE },
+    });
+
+    expect(prisma.withdrawRequest.update).not.toHaveBeenCalled();
+    expect(prisma.transaction.create).not.toHaveBeenCalled();
+  });
+
+  it('should settle a historical claim without notifying the owner', async () => {
+    const { prisma } = await import('../services/database');
+    const { recordWithdrawal } = await import('../services/lotService');
+    const { addUserNotificationJob } = await import('../jobs/queues');
+    const { publishWebhookEvent } = await import('../services/webhookService');
+    vi.mocked(recordWithdrawal).mockResolvedValueOnce({
+      method: 'FIFO',
+      costBasis: 9n * ONE,
+      gain: 3n * ONE,
+    });
+    vi.mocked(prisma.withdrawRequest.findUnique).mockResolvedValueOnce({
+      requestId: 4n,
+      ownerAddress: owner,
+      shares: (10n * ONE).toString(),
+      claimTxHash: null,
+    } as any);
+
+    await createListener().processWithdrawClaimedEvent(
+      {
+        transactionHash: '0xclaim',
+        blockNumber: 1000100n,
+        logIndex: 5,
+        args: { requestId: 4n, owner, receiver: owner, assets: 12n * ONE },
+      },
+      true
+    );
+
+    expect(prisma.withdrawRequest.update).toHaveBeenCalled();
+    expect(addUserNotificationJob).not.toHaveBeenCalled();
+    expect(publishWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it('should leave the request unclaimed when settlement fails', async () => {
+    const { prisma } = await import('../services/database');
+    const { recordWithdrawal } = await import('../services/lotService');
+    vi.mocked(recordWithdrawal).mockRejectedValueOnce(new Error('DB down'));
+    vi.mocked(prisma.withdrawRequest.findUnique).mockResolvedValueOnce({
+      requestId: 4n,
+      ownerAddress: owner,
+      shares: (10n * ONE).toString(),
+      claimTxHash: null,
+    } as any);
+
+    await expect(
+      createListener().processWithdrawClaimedEvent({
+        transactionHash: '0xclaim',
+        blockNumber: 1000100n,
+        logIndex: 5,
+        args: { requestId: 4n, owner, receiver: owner, assets: 12n * ONE },
+      })
+    ).rejects.toThrow('DB down');
+
+    expect(prisma.withdrawRequest.update).not.toHaveBeenCalled();
+    expect(prisma.transaction.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('EventListener - Protocol Events', () => {
+  const mockVaultAddress = '0x1234567890123456789012345678901234567890' as `0x${string}`;
+  const ONE = 10n ** 18n;
+
+  function protocolLog(eventName: string, args: Record<string, unknown>) {
+    return { transactionHash: '0xprotocol', blockNumber: 1000000n, logIndex: 1, eventName, args };
+  }
+
+  async function processProtocol(log: ReturnType<typeof protocolLog>) {
+    const listener = new EventListener({ vaultAddress: mockVaultAddress, startBlock: 999990n });
+    await (listener as any).processProtocolEvent(log);
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should persist NavUpdated with stringified args', async () => {
+    const { prisma } = await import('../services/database');
+
+    await processProtocol(
+      protocolLog('NavUpdated', { oldNav: 100n * ONE, newNav: 101n * ONE, timestamp: 1700000000n })
+    );
+
+    expect(prisma.protocolEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: 'NAV_UPDATED',
+        txHash: '0xprotocol',
+        logIndex: 1,
+        data: {
+          oldNav: (100n * ONE).toString(),
+          newNav: (101n * ONE).toString(),
+          timestamp: '1700000000',
+        },
+      }),
+    });
+  });
+
+  it('should broadcast a circuit breaker alert when triggered', async () => {
+    const { notifyCircuitBreaker } = await import('../jobs/notificationQueue');
+
+    await processProtocol(
+      protocolLog('CircuitBreakerTriggered', {
+        currentNav: 90n * ONE,
+        referenceNav: 100n * ONE,
+        dropBasisPoints: 1000n,
+      })
+    );
+
+    expect(notifyCircuitBreaker).toHaveBeenCalledWith(
+      'NAV dropped 10.00% below the reference NAV',
+      '10000'
+    );
+  });
+
+  it('should broadcast an emergency pause alert when paused', async () => {
+    const { prisma } = await import('../services/database');
+    const { notifyEmergencyPause } = await import('../jobs/notificationQueue');
+
+    await processProtocol(
+      protocolLog('Paused', { account: '0x9999999999999999999999999999999999999999' })
+    );
+
+    expect(prisma.protocolEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'PAUSED' }),
+    });
+    expect(notifyEmergencyPause).toHaveBeenCalledWith(
+      'Vault paused by 0x9999999999999999999999999999999999999999'
+    );
+  });
+
+  it('should publish pauses to webhook subscribers, including replayed ones', async () => {
+    const { publishWebhookEvent } = await import('../services/webhookService');
+    const listener = new EventListener({ vaultAddress: mockVaultAddress, startBlock: 999990n });
+    (listener as any).httpClient.getBlock.mockResolvedValueOnce({ timestamp: 1700000000n });
+
+    await (listener as any).processProtocolEvent(
+      protocolLog('Paused', { account: '0x9999999999999999999999999999999999999999' })
+    );
+
+    // Subscribers created after the event are filtered out by the webhook service
+    expect(publishWebhookEvent).toHaveBeenCalledWith('PROTOCOL_PAUSED', {
+      eventId: '0xprotocol-1',
+      occurredAt: new Date(1700000000 * 1000),
+      data: {
+        account: '0x9999999999999999999999999999999999999999',
+        txHash: '0xprotocol',
+        blockNumber: '1000000',
+        logIndex: 1,
+      },
+    });
+  });
+
+  it('should not publish webhooks for protocol events integrators cannot subscribe to', async () => {
+    const { publishWebhookEvent } = await import('../services/webhookService');
+
+    await processProtocol(
+      protocolLog('NavUpdated', { oldNav: 100n * ONE, newNav: 101n * ONE, timestamp: 1700000000n })
+    );
+
+    expect(publishWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it('should not re-broadcast events that were already indexed', async () => {
+    const { prisma } = await import('../services/database');
+    const { notifyEmergencyPause } = await import('../jobs/notificationQueue');
+    vi.mocked(prisma.protocolEvent.findUnique).mockResolvedValueOnce({ id: 'existing' } as any);
+
+    await processProtocol(
+      protocolLog('Paused', { account: '0x9999999999999999999999999999999999999999' })
+    );
+
+    expect(prisma.protocolEvent.create).not.toHaveBeenCalled();
+    expect(notifyEmergencyPause).not.toHaveBeenCalled();
+  });
+
+  it('should not broadcast alerts for old events replayed during sync', async () => {
+    const { prisma } = await import('../services/database');
+    const { notifyEmergencyPause } = await import('../jobs/notificationQueue');
+    const listener = new EventListener({ vaultAddress: mockVaultAddress, startBlock: 999990n });
+    (listener as any).httpClient.getBlock.mockResolvedValueOnce({
+      timestamp: BigInt(Math.floor(Date.now() / 1000) - 2 * 24 * 60 * 60),
+    });
+
+    await (listener as any).processProtocolEvent(
+      protocolLog('Paused', { account: '0x9999999999999999999999999999999999999999' })
+    );
+
+    expect(prisma.protocolEvent.create).toHaveBeenCalled();
+    expect(notifyEmergencyPause).not.toHaveBeenCalled();
+  });
+});
+
+describe('EventListener - Asset Events', () => {
+  const mockVaultAddress = '0x1234567890123456789012345678901234567890' as `0x${string}`;
+  const token = '0x5555555555555555555555555555555555555555';
+
+  function assetLog(eventName: string, args: Record<string, unknown>) {
+    return { transactionHash: '0xasset', blockNumber: 1000000n, logIndex: 2, eventName, args };
+  }
+
+  async function processAsset(log: ReturnType<typeof assetLog>) {
+    const listener = new EventListener({ vaultAddress: mockVaultAddress, startBlock: 999990n });
+    await (listener as any).processAssetEvent(log);
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should sync an added asset with its target allocation', async () => {
+    const { handleAssetAdded } = await import('../services/assetSyncService');
+
+    await processAsset(assetLog('RWAAssetAdded', { tokenAddress: token, targetAllocation: 3000n }));
+
+    expect(handleAssetAdded).toHaveBeenCalledWith(token, 3000n);
+  });
+
+  it('should deactivate a removed asset', async () => {
+    const { handleAssetRemoved } = await import('../services/assetSyncService');
+
+    await processAsset(assetLog('RWAAssetRemoved', { tokenAddress: token }));
+
+    expect(handleAssetRemoved).toHaveBeenCalledWith(token);
+  });
+
+  it('should apply the new target allocation', async () => {
+    const { handleTargetAllocationUpdated } = await import('../services/assetSyncService');
+
+    await processAsset(
+      assetLog('TargetAllocationUpdated', {
+        tokenAddress: token,
+        oldAllocation: 3000n,
+        newAllocation: 4000n,
+      })
+    );
+
+    expect(handleTargetAllocationUpdated).toHaveBeenCalledWith(token, 4000n);
+  });
+
+  it('should surface a failed sync so the range is replayed', async () => {
+    const { handleAssetAdded } = await import('../services/assetSyncService');
+    vi.mocked(handleAssetAdded).mockRejectedValueOnce(new Error('RPC down'));
+
+    await expect(
+      processAsset(assetLog('RWAAssetAdded', { tokenAddress: token, targetAllocation: 3000n }))
+    ).rejects.toThrow('RPC down');
+  });
+});
+
 describe('EventListener - User Position Updates', () => {
   const mockVaultAddress = '0x1234567890123456789012345678901234567890' as `0x${string}`;
 
@@ -324,9 +1204,7 @@ describe('EventListener - Error Handling', () => {
     await listener.stop();
 
     // Should log that it's using HTTP polling (since no WebSocket URL configured)
-    expect(consoleSpy).toHaveBeenCalledWith(
-      '[EventListener] Using HTTP polling for events'
-    );
+    expect(consoleSpy).toHaveBeenCalledWith('[EventListener] Using HTTP polling for events');
   });
 });
 
@@ -353,3 +1231,186 @@ describe('EventListener - Block Confirmations', () => {
     expect(listener).toBeDefined();
   });
 });
+
+describe('EventListener - Backfill', () => {
+  const mockVaultAddress = '0x1234567890123456789012345678901234567890' as `0x${string}`;
+  const asset = '0xcccccccccccccccccccccccccccccccccccccccc';
+
+  function rebalanceLog() {
+    return {
+      transactionHash: '0xrebalance',
+      blockNumber: 1500n,
+      logIndex: 3,
+      args: {
+        sellAssets: [asset],
+        sellAmounts: [10n],
+        sellReceived: [10n],
+        buyAssets: [],
+        buyAmounts: [],
+        buyReceived: [],
+        timestamp: 0n,
+      },
+    };
+  }
+
+  function createListener() {
+    const listener = new EventListener({ vaultAddress: mockVaultAddress }) as any;
+    listener.httpClient.getLogs.mockResolvedValue([]);
+    return listener;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should fetch the range in RPC-sized chunks and report progress', async () => {
+    const { prisma } = await import('../services/database');
+    const listener = createListener();
+    const onProgress = vi.fn();
+
+    const result = await listener.backfillRange(1n, 25000n, { onProgress });
+
+    // 8 log queries (6 single events + protocol events + asset events) for each of 3 chunks
+    expect(listener.httpClient.getLogs).toHaveBeenCalledTimes(24);
+    expect(listener.httpClient.getLogs).toHaveBeenLastCalledWith(
+      expect.objectContaining({ fromBlock: 20001n, toBlock: 25000n })
+    );
+    expect(onProgress.mock.calls).toEqual([[40], [80], [100]]);
+    expect(result).toEqual({ fromBlock: 1n, toBlock: 25000n, eventsProcessed: 0 });
+    expect(prisma.indexerCheckpoint.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should report each chunk only once its events are applied', async () => {
+    const listener = createListener();
+    const onChunkProcessed = vi.fn();
+    listener.httpClient.getLogs
+      .mockResolvedValueOnce([])
+      .mockRejectedValueOnce(new Error('RPC timeout'));
+
+    await expect(
+      listener.backfillRange(1n, 25000n, { eventType: 'Rebalance', onChunkProcessed })
+    ).rejects.toThrow('RPC timeout');
+
+    expect(onChunkProcessed.mock.calls).toEqual([[10000n]]);
+  });
+
+  it('should only fetch logs for the requested event type', async () => {
+    const { prisma } = await import('../services/database');
+    const listener = createListener();
+    listener.httpClient.getLogs.mockResolvedValueOnce([rebalanceLog()]);
+    vi.mocked(prisma.rebalanceHistory.findUnique).mockResolvedValue(null);
+
+    const result = await listener.backfillRange(1000n, 2000n, { eventType: 'Rebalance' });
+
+    expect(listener.httpClient.getLogs).toHaveBeenCalledTimes(1);
+    expect(listener.httpClient.getLogs).toHaveBeenCalledWith(
+      expect.objectContaining({ event: expect.objectContaining({ name: 'RebalanceExecuted' }) })
+    );
+    expect(prisma.rebalanceHistory.create).toHaveBeenCalledTimes(1);
+    expect(result.eventsProcessed).toBe(1);
+  });
+
+  it('should not re-record or re-broadcast a rebalance that is already indexed', async () => {
+    const { prisma } = await import('../services/database');
+    const { addBroadcastNotificationJob } = await import('../jobs/queues');
+    const listener = createListener();
+    listener.httpClient.getLogs.mockResolvedValueOnce([rebalanceLog()]);
+    vi.mocked(prisma.rebalanceHistory.findUnique).mockResolvedValue({ id: 'existing' } as any);
+
+    await listener.backfillRange(1000n, 2000n, { eventType: 'Rebalance' });
+
+    expect(prisma.rebalanceHistory.create).not.toHaveBeenCalled();
+    expect(addBroadcastNotificationJob).not.toHaveBeenCalled();
+  });
+
+  it('should record a historical rebalance without broadcasting it', async () => {
+    const { prisma } = await import('../services/database');
+    const { addBroadcastNotificationJob } = await import('../jobs/queues');
+    const listener = createListener();
+    listener.httpClient.getLogs.mockResolvedValueOnce([rebalanceLog()]);
+    vi.mocked(prisma.rebalanceHistory.findUnique).mockResolvedValue(null);
+
+    await listener.backfillRange(1000n, 2000n, { eventType: 'Rebalance', historical: true });
+
+    expect(prisma.rebalanceHistory.create).toHaveBeenCalledTimes(1);
+    expect(addBroadcastNotificationJob).not.toHaveBeenCalled();
+  });
+
+  it('should reject an inverted block range', async () => {
+    const listener = createListener();
+
+    await expect(listener.backfillRange(2000n, 1000n)).rejects.toThrow('Invalid block range');
+  });
+});
+
+describe('EventListener - Safe Execution Linking', () => {
+  const mockVaultAddress = '0x1234567890123456789012345678901234567890' as `0x${string}`;
+  const safeAddress = '0x6666666666666666666666666666666666666666';
+  const safeTxHash = `0x${'ab'.repeat(32)}` as `0x${string}`;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should link the Safe proposal executed in the rebalance transaction', async () => {
+    const { prisma } = await import('../services/database');
+    const { encodeAbiParameters, encodeEventTopics, parseAbiItem } = await import('viem');
+    const listener = new EventListener({ vaultAddress: mockVaultAddress }) as any;
+
+    const executionSuccess = parseAbiItem(
+      'event ExecutionSuccess(bytes32 txHash, uint256 payment)'
+    );
+    listener.httpClient.getTransactionReceipt.mockResolvedValueOnce({
+      logs: [
+        {
+          address: safeAddress,
+          topics: encodeEventTopics({ abi: [executionSuccess] }),
+          data: encodeAbiParameters([{ type: 'bytes32' }, { type: 'uint256' }], [safeTxHash, 0n]),
+          blockNumber: 1500n,
+          logIndex: 9,
+          transactionHash: '0xrebalance',
+        },
+      ],
+    });
+    vi.mocked(prisma.rebalanceHistory.findUnique).mockResolvedValue(null);
+    vi.mocked(prisma.safeTransaction.updateMany).mockResolvedValue({ count: 1 });
+
+    await listener.processRebalanceEvent({
+      transactionHash: '0xrebalance',
+      blockNumber: 1500n,
+      logIndex: 3,
+      args: {
+        sellAssets: [],
+        sellAmounts: [],
+        sellReceived: [],
+        buyAssets: [],
+        buyAmounts: [],
+        buyReceived: [],
+        timestamp: 0n,
+      },
+    });
+
+    expect(listener.httpClient.getTransactionReceipt).toHaveBeenCalledWith({ hash: '0xrebalance' });
+    expect(prisma.safeTransaction.updateMany).toHaveBeenCalledWith({
+      where: { safeTxHash: { in: [safeTxHash] } },
+      data: expect.objectContaining({
+        isExecuted: true,
+        rebalanceTxHash: '0xrebalance',
+        rebalanceBlockNumber: 1500n,
+      }),
+    });
+  });
+
+  it('should unlink Safe proposals executed in reorged blocks', async () => {
+    const { prisma } = await import('../services/database');
+    vi.mocked(prisma.transaction.findMany).mockResolvedValue([]);
+    const listener = new EventListener({ vaultAddress: mockVaultAddress, startBlock: 999990n });
+
+    await listener.handleReorg(999995n);
+
+    expect(prisma.safeTransaction.updateMany).toHaveBeenCalledWith({
+      where: { rebalanceBlockNumber: { gte: 999995n } },
+      data: expect.objectContaining({ isExecuted: false, rebalanceTxHash: null }),
+    });
+  });
+});
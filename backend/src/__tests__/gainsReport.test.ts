@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// =============================================================================
+// Mock Setup - Must be before imports
+// =============================================================================
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    realizedGain: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../services/database', () => ({
+  prisma: mockPrisma,
+}));
+
+// Import after mock setup
+import { generateGainsReport, getFiscalYear } from '../services/reportService';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const ONE = 10n ** 18n;
+const USER = '0x1111111111111111111111111111111111111111';
+const UK_TAX_YEAR = { month: 4, day: 6 };
+
+function gain(realizedAt: string, proceeds: bigint, costBasis: bigint, acquiredAt: string[]) {
+  return {
+    txHash: `0x${realizedAt.slice(0, 10).replace(/-/g, '')}`,
+    method: 'FIFO',
+    shares: (10n * ONE).toString(),
+    proceeds: proceeds.toString(),
+    costBasis: costBasis.toString(),
+    gain: (proceeds - costBasis).toString(),
+    realizedAt: new Date(realizedAt),
+    disposals: acquiredAt.map((date) => ({ lot: { acquiredAt: new Date(date) } })),
+  };
+}
+
+function parseCSV(csv: string): Record<string, string>[] {
+  const [header, ...lines] = csv.split('\n');
+  const columns = header.split(',');
+  return lines.map((line) =>
+    Object.fromEntries(line.split(',').map((value, index) => [columns[index], value]))
+  );
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('Gains Report', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.realizedGain.findMany.mockResolvedValue([
+      gain('2024-03-01T00:00:00Z', 12n * ONE, 10n * ONE, [
+        '2023-05-01T00:00:00Z',
+        '2023-08-01T00:00:00Z',
+      ]),
+      gain('2024-05-01T00:00:00Z', 9n * ONE, 10n * ONE, ['2023-08-01T00:00:00Z']),
+      gain('2025-01-15T00:00:00Z', 11n * ONE, 10n * ONE, []),
+    ]);
+  });
+
+  describe('getFiscalYear', () => {
+    it('should label fiscal years by the calendar year they start in', () => {
+      expect(getFiscalYear(new Date('2024-04-05T23:59:59Z'), UK_TAX_YEAR)).toBe(2023);
+      expect(getFiscalYear(new Date('2024-04-06T00:00:00Z'), UK_TAX_YEAR)).toBe(2024);
+      expect(getFiscalYear(new Date('2024-12-31T23:59:59Z'))).toBe(2024);
+    });
+  });
+
+  describe('generateGainsReport', () => {
+    it('should list each withdrawal with the acquisition date range of its lots', async () => {
+      const rows = parseCSV(await generateGainsReport(USER));
+
+      expect(rows[0]).toEqual({
+        entry: 'WITHDRAWAL',
+        date: '2024-03-01T00:00:00.000Z',
+        fiscalYear: '2024',
+        txHash: '0x20240301',
+        method: 'FIFO',
+        shares: '10.000000',
+        acquiredFrom: '2023-05-01',
+        acquiredTo: '2023-08-01',
+        proceeds: '12.000000',
+        costBasis: '10.000000',
+        gain: '2.000000',
+      });
+      expect(rows[1].gain).toBe('-1.000000');
+      expect(rows[2]).toMatchObject({ acquiredFrom: '', acquiredTo: '' });
+    });
+
+    it('should total gains per calendar year by default', async () => {
+      const totals = parseCSV(await generateGainsReport(USER)).filter(
+        (row) => row.entry === 'FISCAL_YEAR_TOTAL'
+      );
+
+      expect(totals).toEqual([
+        expect.objectContaining({ fiscalYear: '2024', proceeds: '21.000000', gain: '1.000000' }),
+        expect.objectContaining({ fiscalYear: '2025', proceeds: '11.000000', gain: '1.000000' }),
+      ]);
+    });
+
+    it('should total gains per fiscal year with a custom start', async () => {
+      const totals = parseCSV(
+        await generateGainsReport(USER, undefined, undefined, UK_TAX_YEAR)
+      ).filter((row) => row.entry === 'FISCAL_YEAR_TOTAL');
+
+      expect(totals).toEqual([
+        expect.objectContaining({ fiscalYear: '2023-24', shares: '10.000000', gain: '2.000000' }),
+        expect.objectContaining({ fiscalYear: '2024-25', shares: '20.000000', gain: '0.000000' }),
+      ]);
+    });
+
+    it('should filter withdrawals by realization date', async () => {
+      const startDate = new Date('2024-04-06T00:00:00Z');
+      const endDate = new Date('2025-04-05T23:59:59.999Z');
+
+      await generateGainsReport(USER.toUpperCase().replace('0X', '0x'), startDate, endDate);
+
+      expect(mockPrisma.realizedGain.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userAddress: USER, realizedAt: { gte: startDate, lte: endDate } },
+          orderBy: [{ realizedAt: 'asc' }, { logIndex: 'asc' }],
+        })
+      );
+    });
+  });
+});
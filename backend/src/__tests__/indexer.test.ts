@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+
+// =============================================================================
+// Mock Setup - Must be before imports
+// =============================================================================
+
+const { mockPrisma, mockGetCurrentBlock } = vi.hoisted(() => ({
+  mockPrisma: {
+    indexerCheckpoint: {
+      findMany: vi.fn(),
+    },
+  },
+  mockGetCurrentBlock: vi.fn(),
+}));
+
+vi.mock('../services/database', () => ({
+  prisma: mockPrisma,
+}));
+
+vi.mock('../services/blockchain', () => ({
+  getCurrentBlock: mockGetCurrentBlock,
+}));
+
+// Import after mock setup
+import { indexerRoutes } from '../routes/indexer';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const VAULT = '0x1234567890123456789012345678901234567890';
+
+function createCheckpoint(lastProcessedBlock: bigint) {
+  return {
+    id: 'cp1',
+    contractAddress: VAULT,
+    eventSet: 'pngy-vault',
+    lastProcessedBlock,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-02T00:00:00Z'),
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('Indexer Routes', () => {
+  let server: FastifyInstance;
+
+  beforeEach(async () => {
+    server = Fastify();
+    await server.register(indexerRoutes, { prefix: '/api' });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  describe('GET /api/indexer/status', () => {
+    it('should report checkpoints with lag behind head', async () => {
+      mockPrisma.indexerCheckpoint.findMany.mockResolvedValue([createCheckpoint(1000n)]);
+      mockGetCurrentBlock.mockResolvedValue(1025n);
+
+      const response = await server.inject({ method: 'GET', url: '/api/indexer/status' });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.success).toBe(true);
+      expect(body.data.headBlock).toBe('1025');
+      expect(body.data.checkpoints).toEqual([
+        {
+          contractAddress: VAULT,
+          eventSet: 'pngy-vault',
+          lastProcessedBlock: '1000',
+          lagBlocks: '25',
+          updatedAt: '2025-01-02T00:00:00.000Z',
+        },
+      ]);
+    });
+
+    it('should still report checkpoints when the chain head is unavailable', async () => {
+      mockPrisma.indexerCheckpoint.findMany.mockResolvedValue([createCheckpoint(1000n)]);
+      mockGetCurrentBlock.mockRejectedValue(new Error('RPC down'));
+
+      const response = await server.inject({ method: 'GET', url: '/api/indexer/status' });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data.headBlock).toBeNull();
+      expect(body.data.checkpoints[0].lastProcessedBlock).toBe('1000');
+      expect(body.data.checkpoints[0].lagBlocks).toBeNull();
+    });
+
+    it('should return 500 when checkpoints cannot be loaded', async () => {
+      mockPrisma.indexerCheckpoint.findMany.mockRejectedValue(new Error('Database error'));
+
+      const response = await server.inject({ method: 'GET', url: '/api/indexer/status' });
+
+      expect(response.statusCode).toBe(500);
+      expect(JSON.parse(response.body).error).toBe('Failed to fetch indexer status');
+    });
+  });
+});
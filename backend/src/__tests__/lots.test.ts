@@ -0,0 +1,395 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+
+// =============================================================================
+// Mock Setup - Must be before imports
+// =============================================================================
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    user: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+    },
+    userPosition: {
+      findUnique: vi.fn(),
+    },
+    transaction: {
+      findFirst: vi.fn(),
+    },
+    positionLot: {
+      count: vi.fn(),
+      create: vi.fn(),
+      createMany: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    lotDisposal: {
+      createMany: vi.fn(),
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    realizedGain: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../services/database', () => ({
+  prisma: mockPrisma,
+}));
+
+// Import after mock setup
+import {
+  allocateLots,
+  addLot,
+  recordWithdrawal,
+  transferLots,
+  revertLots,
+  getRealizedGainSummary,
+  type OpenLot,
+} from '../services/lotService';
+import { usersRoutes } from '../routes/users';
+import { createSessionToken } from '../services/authService';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const ONE = 10n ** 18n;
+const USER = '0x1111111111111111111111111111111111111111';
+const OTHER = '0x2222222222222222222222222222222222222222';
+
+const EVENT = {
+  txHash: '0xabc',
+  logIndex: 3,
+  blockNumber: 1000n,
+  timestamp: new Date('2025-11-20T00:00:00Z'),
+};
+
+// 10 shares for 10 USDT, then 10 shares for 15 USDT
+const LOTS: OpenLot[] = [
+  {
+    id: 'lot-1',
+    remainingShares: 10n * ONE,
+    remainingCostBasis: 10n * ONE,
+    acquiredAt: new Date('2025-01-01T00:00:00Z'),
+  },
+  {
+    id: 'lot-2',
+    remainingShares: 10n * ONE,
+    remainingCostBasis: 15n * ONE,
+    acquiredAt: new Date('2025-06-01T00:00:00Z'),
+  },
+];
+
+function mockLots(lots: OpenLot[] = LOTS) {
+  mockPrisma.positionLot.count.mockResolvedValue(lots.length);
+  mockPrisma.positionLot.findMany.mockResolvedValue(
+    lots.map((lot) => ({
+      ...lot,
+      remainingShares: lot.remainingShares.toString(),
+      remainingCostBasis: lot.remainingCostBasis.toString(),
+    }))
+  );
+}
+
+function authHeader(address: string) {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const token = createSessionToken({ address, role: 'user', issuedAt, expiresAt: issuedAt + 3600 });
+  return { authorization: `Bearer ${token}` };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('LotService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLots();
+    mockPrisma.user.findUnique.mockResolvedValue(null);
+    mockPrisma.realizedGain.create.mockResolvedValue({ id: 'gain-1' });
+  });
+
+  describe('allocateLots', () => {
+    it('should consume the oldest lots first under FIFO', () => {
+      expect(allocateLots(LOTS, 15n * ONE, 'FIFO')).toEqual([
+        expect.objectContaining({ lotId: 'lot-1', shares: 10n * ONE, costBasis: 10n * ONE }),
+        expect.objectContaining({ lotId: 'lot-2', shares: 5n * ONE, costBasis: (15n * ONE) / 2n }),
+      ]);
+    });
+
+    it('should consume every lot pro rata under average cost', () => {
+      expect(allocateLots(LOTS, 10n * ONE, 'AVERAGE_COST')).toEqual([
+        expect.objectContaining({ lotId: 'lot-1', shares: 5n * ONE, costBasis: 5n * ONE }),
+        expect.objectContaining({ lotId: 'lot-2', shares: 5n * ONE, costBasis: (15n * ONE) / 2n }),
+      ]);
+    });
+
+    it('should not lose rounding remainders under average cost', () => {
+      const lots = ['a', 'b', 'c'].map((id) => ({
+        id,
+        remainingShares: 1n,
+        remainingCostBasis: 1n,
+        acquiredAt: new Date(),
+      }));
+
+      const portions = allocateLots(lots, 2n, 'AVERAGE_COST');
+
+      expect(portions.reduce((sum, portion) => sum + portion.shares, 0n)).toBe(2n);
+      expect(portions.reduce((sum, portion) => sum + portion.costBasis, 0n)).toBe(2n);
+    });
+
+    it('should leave shares beyond the open lots unallocated', () => {
+      const portions = allocateLots(LOTS, 25n * ONE, 'AVERAGE_COST');
+
+      expect(portions.reduce((sum, portion) => sum + portion.shares, 0n)).toBe(20n * ONE);
+    });
+  });
+
+  describe('recordWithdrawal', () => {
+    it('should store the realized gain against the consumed lots', async () => {
+      const result = await recordWithdrawal(USER, 15n * ONE, 18n * ONE, EVENT);
+
+      expect(result).toEqual({ method: 'FIFO', costBasis: (35n * ONE) / 2n, gain: ONE / 2n });
+      expect(mockPrisma.realizedGain.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userAddress: USER,
+          txHash: '0xabc',
+          method: 'FIFO',
+          proceeds: (18n * ONE).toString(),
+          costBasis: ((35n * ONE) / 2n).toString(),
+          gain: (ONE / 2n).toString(),
+        }),
+      });
+      expect(mockPrisma.positionLot.update).toHaveBeenCalledWith({
+        where: { id: 'lot-2' },
+        data: {
+          remainingShares: { decrement: (5n * ONE).toString() },
+          remainingCostBasis: { decrement: ((15n * ONE) / 2n).toString() },
+        },
+      });
+      expect(mockPrisma.lotDisposal.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ lotId: 'lot-1', realizedGainId: 'gain-1', type: 'WITHDRAW' }),
+          expect.objectContaining({ lotId: 'lot-2', realizedGainId: 'gain-1', type: 'WITHDRAW' }),
+        ],
+      });
+    });
+
+    it("should use the wallet's average cost method and record losses", async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ costBasisMethod: 'AVERAGE_COST' });
+
+      const result = await recordWithdrawal(USER, 10n * ONE, 12n * ONE, EVENT);
+
+      expect(result).toEqual({
+        method: 'AVERAGE_COST',
+        costBasis: (25n * ONE) / 2n,
+        gain: -ONE / 2n,
+      });
+    });
+
+    it('should seed an opening lot for a position indexed before lots', async () => {
+      mockLots([]);
+      mockPrisma.userPosition.findUnique.mockResolvedValueOnce({
+        shares: (10n * ONE).toString(),
+        costBasis: (8n * ONE).toString(),
+        updatedAt: new Date('2025-11-01T00:00:00Z'),
+      });
+      mockPrisma.transaction.findFirst.mockResolvedValueOnce({
+        timestamp: new Date('2025-03-01T00:00:00Z'),
+      });
+
+      await recordWithdrawal(USER, ONE, ONE, EVENT);
+
+      expect(mockPrisma.positionLot.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userAddress: USER,
+          txHash: null,
+          remainingShares: (10n * ONE).toString(),
+          remainingCostBasis: (8n * ONE).toString(),
+          acquiredAt: new Date('2025-03-01T00:00:00Z'),
+          blockNumber: 0n,
+        }),
+      });
+    });
+  });
+
+  describe('addLot', () => {
+    it('should open a lot for a deposit', async () => {
+      await addLot(USER.toUpperCase().replace('0X', '0x'), 10n * ONE, 10n * ONE, EVENT);
+
+      expect(mockPrisma.positionLot.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userAddress: USER,
+          txHash: '0xabc',
+          logIndex: 3,
+          remainingShares: (10n * ONE).toString(),
+          acquiredAt: EVENT.timestamp,
+          blockNumber: 1000n,
+        }),
+      });
+    });
+  });
+
+  describe('transferLots', () => {
+    it('should hand consumed lots to the receiver without realizing a gain', async () => {
+      const moved = await transferLots(USER, OTHER, 15n * ONE, EVENT);
+
+      expect(moved).toBe((35n * ONE) / 2n);
+      expect(mockPrisma.realizedGain.create).not.toHaveBeenCalled();
+      expect(mockPrisma.lotDisposal.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ realizedGainId: null, type: 'TRANSFER_OUT' }),
+          expect.objectContaining({ realizedGainId: null, type: 'TRANSFER_OUT' }),
+        ],
+      });
+      // Received lots keep their original acquisition date
+      expect(mockPrisma.positionLot.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            userAddress: OTHER,
+            shares: (10n * ONE).toString(),
+            acquiredAt: LOTS[0].acquiredAt,
+          }),
+          expect.objectContaining({
+            userAddress: OTHER,
+            shares: (5n * ONE).toString(),
+            acquiredAt: LOTS[1].acquiredAt,
+          }),
+        ],
+      });
+    });
+  });
+
+  describe('revertLots', () => {
+    it('should restore consumed lots before deleting orphaned rows', async () => {
+      mockPrisma.lotDisposal.findMany.mockResolvedValueOnce([
+        { lotId: 'lot-1', shares: (4n * ONE).toString(), costBasis: (4n * ONE).toString() },
+      ]);
+
+      await revertLots(1000n);
+
+      expect(mockPrisma.positionLot.update).toHaveBeenCalledWith({
+        where: { id: 'lot-1' },
+        data: {
+          remainingShares: { increment: (4n * ONE).toString() },
+          remainingCostBasis: { increment: (4n * ONE).toString() },
+        },
+      });
+      for (const model of [
+        mockPrisma.lotDisposal,
+        mockPrisma.realizedGain,
+        mockPrisma.positionLot,
+      ]) {
+        expect(model.deleteMany).toHaveBeenCalledWith({ where: { blockNumber: { gte: 1000n } } });
+      }
+    });
+  });
+
+  describe('getRealizedGainSummary', () => {
+    it('should total gains realized in the period', async () => {
+      mockPrisma.realizedGain.findMany.mockResolvedValueOnce([
+        {
+          proceeds: (18n * ONE).toString(),
+          costBasis: (15n * ONE).toString(),
+          gain: (3n * ONE).toString(),
+        },
+        {
+          proceeds: (9n * ONE).toString(),
+          costBasis: (10n * ONE).toString(),
+          gain: (-1n * ONE).toString(),
+        },
+      ]);
+      const start = new Date('2025-01-01T00:00:00Z');
+
+      const summary = await getRealizedGainSummary(USER, start);
+
+      expect(summary).toEqual({
+        withdrawals: 2,
+        proceeds: 27n * ONE,
+        costBasis: 25n * ONE,
+        gain: 2n * ONE,
+      });
+      expect(mockPrisma.realizedGain.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userAddress: USER, realizedAt: { gte: start } } })
+      );
+    });
+  });
+});
+
+describe('/api/users/:address/cost-basis-method', () => {
+  let server: FastifyInstance;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    server = Fastify();
+    await server.register(usersRoutes, { prefix: '/api' });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should default to FIFO', async () => {
+    mockPrisma.user.findUnique.mockResolvedValueOnce(null);
+
+    const response = await server.inject({
+      method: 'GET',
+      url: `/api/users/${USER}/cost-basis-method`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ success: true, data: { address: USER, method: 'FIFO' } });
+  });
+
+  it("should update the signed-in wallet's method", async () => {
+    const response = await server.inject({
+      method: 'PUT',
+      url: `/api/users/${USER}/cost-basis-method`,
+      headers: authHeader(USER),
+      payload: { method: 'AVERAGE_COST' },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().data.method).toBe('AVERAGE_COST');
+    expect(mockPrisma.user.upsert).toHaveBeenCalledWith({
+      where: { address: USER },
+      update: { costBasisMethod: 'AVERAGE_COST' },
+      create: { address: USER, costBasisMethod: 'AVERAGE_COST' },
+    });
+  });
+
+  it('should require the wallet owner', async () => {
+    const anonymous = await server.inject({
+      method: 'PUT',
+      url: `/api/users/${USER}/cost-basis-method`,
+      payload: { method: 'FIFO' },
+    });
+    const otherWallet = await server.inject({
+      method: 'PUT',
+      url: `/api/users/${USER}/cost-basis-method`,
+      headers: authHeader(OTHER),
+      payload: { method: 'FIFO' },
+    });
+
+    expect(anonymous.statusCode).toBe(401);
+    expect(otherWallet.statusCode).toBe(403);
+    expect(mockPrisma.user.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown methods', async () => {
+    const response = await server.inject({
+      method: 'PUT',
+      url: `/api/users/${USER}/cost-basis-method`,
+      headers: authHeader(USER),
+      payload: { method: 'LIFO' },
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+});
@@ -6,6 +6,8 @@ import {
   stopNetValueSyncJob,
   getJobStatus,
 } from '../jobs/netValueSync';
+import { contracts, publicClient } from '../services/blockchain';
+import { evaluateAlertRules } from '../services/alertRuleService';
 
 // =============================================================================
 // Mocks
@@ -65,6 +67,11 @@ vi.mock('../services/vault.service', () => ({
   getLatestNetValue: vi.fn().mockResolvedValue(null),
 }));
 
+// Mock alert rules (evaluated after each real NAV sync)
+vi.mock('../services/alertRuleService', () => ({
+  evaluateAlertRules: vi.fn().mockResolvedValue({ evaluated: 0, triggered: 0 }),
+}));
+
 // Mock env
 vi.mock('../config/env', () => ({
   env: {
@@ -85,6 +92,15 @@ vi.mock('node-cron', () => ({
 // Tests
 // =============================================================================
 
+// Point the job at a vault (mock implementations are restored after each test)
+function mockConfiguredVault() {
+  contracts.pngyVault = '0x3333333333333333333333333333333333333333';
+  vi.mocked(publicClient.getBlockNumber).mockResolvedValue(1000000n);
+  vi.mocked(publicClient.readContract)
+    .mockResolvedValueOnce(1000000n * 10n ** 18n) // totalAssets
+    .mockResolvedValueOnce(950000n * 10n ** 18n); // totalSupply
+}
+
 // Reset module state between tests
 async function resetModule() {
   vi.resetModules();
@@ -185,6 +201,39 @@ describe('NetValueSync', () => {
       }
     });
 
+    it('should not evaluate alert rules against mock data', async () => {
+      await syncNetValue();
+
+      expect(evaluateAlertRules).not.toHaveBeenCalled();
+    });
+
+    it('should evaluate alert rules against the stored NAV', async () => {
+      mockConfiguredVault();
+      vi.mocked(evaluateAlertRules).mockResolvedValue({ evaluated: 1, triggered: 0 });
+
+      try {
+        const result = await syncNetValue();
+
+        expect(result.success).toBe(true);
+        expect(evaluateAlertRules).toHaveBeenCalledWith(result.record);
+      } finally {
+        contracts.pngyVault = undefined;
+      }
+    });
+
+    it('should not fail the sync when alert evaluation fails', async () => {
+      mockConfiguredVault();
+      vi.mocked(evaluateAlertRules).mockRejectedValue(new Error('DB down'));
+
+      try {
+        const result = await syncNetValue();
+
+        expect(result.success).toBe(true);
+      } finally {
+        contracts.pngyVault = undefined;
+      }
+    });
+
     it('should return duration in result', async () => {
       const result = await syncNetValue();
 
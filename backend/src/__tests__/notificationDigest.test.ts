@@ -0,0 +1,236 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// =============================================================================
+// Mock Setup - Must be before imports
+// =============================================================================
+
+const { mockPrisma, mockSendEmail, mockGetUserPerformance } = vi.hoisted(() => ({
+  mockPrisma: {
+    notificationPreference: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    notificationLog: {
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    pendingDigestEvent: {
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    protocolEvent: {
+      findMany: vi.fn(),
+    },
+  },
+  mockSendEmail: vi.fn(),
+  mockGetUserPerformance: vi.fn(),
+}));
+
+vi.mock('../services/database', () => ({
+  prisma: mockPrisma,
+}));
+
+// The template receives the formatted digest; render it as JSON to inspect it
+vi.mock('../services/emailService', () => ({
+  sendEmail: mockSendEmail,
+  emailTemplates: {
+    digest: (data: { title: string }) => ({
+      subject: `Paimon Yield: ${data.title}`,
+      html: JSON.stringify(data),
+      text: JSON.stringify(data),
+    }),
+  },
+}));
+
+vi.mock('../services/performanceService', () => ({
+  getUserPerformance: mockGetUserPerformance,
+  MAX_PERFORMANCE_DAYS: 1095,
+}));
+
+// Import after mock setup
+import { shouldHoldForDigest, sendDigest, sendDueDigests } from '../services/digestService';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const USER = '0x1111111111111111111111111111111111111111';
+const ONE = 10n ** 18n;
+const NOW = new Date('2025-03-02T08:00:00Z');
+const LAST_DIGEST = new Date('2025-03-01T08:00:00Z');
+
+const PREFERENCES = {
+  userAddress: USER,
+  email: 'alice@example.com',
+  emailVerified: true,
+  digestFrequency: 'DAILY' as const,
+  lastDigestAt: LAST_DIGEST,
+};
+
+const HELD_EVENT = {
+  id: 'held-1',
+  subject: 'Your PNGY Withdrawal is Complete',
+  text: 'Amount: 100 USDT',
+  createdAt: new Date('2025-03-01T15:00:00Z'),
+};
+
+function mockPerformance(startValue: bigint, endValue: bigint, totalYield: bigint) {
+  mockGetUserPerformance.mockResolvedValue({
+    summary: {
+      startValue: startValue.toString(),
+      endValue: endValue.toString(),
+      totalYield: totalYield.toString(),
+    },
+  });
+}
+
+/** Template data passed to the (mocked) digest email */
+function sentDigest() {
+  const { text } = mockSendEmail.mock.calls[0][0] as { text: string };
+  return JSON.parse(text) as Record<string, unknown>;
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('DigestService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.pendingDigestEvent.findMany.mockResolvedValue([HELD_EVENT]);
+    mockPrisma.protocolEvent.findMany.mockResolvedValue([
+      {
+        type: 'EMERGENCY_MODE_CHANGED',
+        timestamp: new Date('2025-03-01T20:00:00Z'),
+        data: { enabled: true },
+      },
+    ]);
+    mockPrisma.notificationLog.create.mockResolvedValue({ id: 'log-1' });
+    mockSendEmail.mockResolvedValue({ success: true, messageId: 'email-1' });
+    mockPerformance(1000n * ONE, 1050n * ONE, 10n * ONE);
+  });
+
+  describe('shouldHoldForDigest', () => {
+    it('should hold routine emails but never urgent alerts', () => {
+      expect(shouldHoldForDigest('INSTANT', 'WITHDRAWAL_COMPLETE')).toBe(false);
+      expect(shouldHoldForDigest('DAILY', 'WITHDRAWAL_COMPLETE')).toBe(true);
+      expect(shouldHoldForDigest('WEEKLY', 'REBALANCE_EXECUTED')).toBe(true);
+      expect(shouldHoldForDigest('WEEKLY', 'EMERGENCY_PAUSE')).toBe(false);
+      expect(shouldHoldForDigest('DAILY', 'CIRCUIT_BREAKER')).toBe(false);
+      expect(shouldHoldForDigest('DAILY', 'THRESHOLD_ALERT')).toBe(false);
+    });
+  });
+
+  describe('sendDigest', () => {
+    it('should bundle the period into one email and one log entry', async () => {
+      await expect(sendDigest(PREFERENCES, NOW)).resolves.toBe('sent');
+
+      expect(mockGetUserPerformance).toHaveBeenCalledWith(USER, { from: LAST_DIGEST, to: NOW });
+      expect(mockPrisma.protocolEvent.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ timestamp: { gte: LAST_DIGEST, lt: NOW } }),
+        })
+      );
+      expect(mockSendEmail).toHaveBeenCalledTimes(1);
+      expect(mockSendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'alice@example.com',
+          subject: 'Paimon Yield: Your Daily Summary',
+        })
+      );
+      expect(sentDigest()).toMatchObject({
+        positionValue: '1,050.00',
+        valueChange: '+50.00',
+        yieldEarned: '+10.00',
+        events: [{ subject: HELD_EVENT.subject, text: HELD_EVENT.text }],
+        protocolEvents: [{ label: 'Emergency mode enabled' }],
+      });
+
+      expect(mockPrisma.notificationLog.create).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.notificationLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'DIGEST', channel: 'EMAIL', status: 'PENDING' }),
+      });
+      expect(mockPrisma.notificationLog.update).toHaveBeenCalledWith({
+        where: { id: 'log-1' },
+        data: expect.objectContaining({ status: 'SENT' }),
+      });
+      expect(mockPrisma.pendingDigestEvent.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['held-1'] } },
+      });
+      expect(mockPrisma.notificationPreference.update).toHaveBeenCalledWith({
+        where: { userAddress: USER },
+        data: { lastDigestAt: NOW },
+      });
+    });
+
+    it('should keep held events for the next run when the email fails', async () => {
+      mockSendEmail.mockResolvedValue({ success: false, error: 'Rate limited' });
+
+      await expect(sendDigest(PREFERENCES, NOW)).resolves.toBe('failed');
+
+      expect(mockPrisma.notificationLog.update).toHaveBeenCalledWith({
+        where: { id: 'log-1' },
+        data: expect.objectContaining({ status: 'FAILED', errorMessage: 'Rate limited' }),
+      });
+      expect(mockPrisma.pendingDigestEvent.deleteMany).not.toHaveBeenCalled();
+      expect(mockPrisma.notificationPreference.update).not.toHaveBeenCalled();
+    });
+
+    it('should skip the email when there is nothing to report', async () => {
+      mockPrisma.pendingDigestEvent.findMany.mockResolvedValue([]);
+      mockPrisma.protocolEvent.findMany.mockResolvedValue([]);
+      mockPerformance(0n, 0n, 0n);
+
+      await expect(sendDigest(PREFERENCES, NOW)).resolves.toBe('skipped');
+
+      expect(mockSendEmail).not.toHaveBeenCalled();
+      expect(mockPrisma.notificationLog.create).not.toHaveBeenCalled();
+      expect(mockPrisma.notificationPreference.update).toHaveBeenCalledWith({
+        where: { userAddress: USER },
+        data: { lastDigestAt: NOW },
+      });
+    });
+
+    it('should cover one period when no digest has been sent yet', async () => {
+      await sendDigest({ ...PREFERENCES, digestFrequency: 'WEEKLY', lastDigestAt: null }, NOW);
+
+      expect(mockGetUserPerformance).toHaveBeenCalledWith(USER, {
+        from: new Date('2025-02-23T08:00:00Z'),
+        to: NOW,
+      });
+      expect(mockSendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ subject: 'Paimon Yield: Your Weekly Summary' })
+      );
+    });
+  });
+
+  describe('sendDueDigests', () => {
+    it('should send digests whose period has elapsed', async () => {
+      mockPrisma.notificationPreference.findMany.mockResolvedValue([
+        PREFERENCES,
+        { ...PREFERENCES, userAddress: '0x2222222222222222222222222222222222222222' },
+      ]);
+      mockGetUserPerformance
+        .mockResolvedValueOnce({
+          summary: { startValue: '0', endValue: String(ONE), totalYield: '0' },
+        })
+        .mockRejectedValueOnce(new Error('DB down'));
+
+      await expect(sendDueDigests(NOW)).resolves.toEqual({ sent: 1, skipped: 0, failed: 1 });
+
+      const { where } = mockPrisma.notificationPreference.findMany.mock.calls[0][0];
+      expect(where).toMatchObject({ emailVerified: true, channels: { has: 'EMAIL' } });
+      // Due an hour early so a daily cron at a fixed time never skips a day
+      expect(where.OR).toEqual([
+        {
+          digestFrequency: 'DAILY',
+          OR: [{ lastDigestAt: null }, { lastDigestAt: { lte: new Date('2025-03-01T09:00:00Z') } }],
+        },
+        {
+          digestFrequency: 'WEEKLY',
+          OR: [{ lastDigestAt: null }, { lastDigestAt: { lte: new Date('2025-02-23T09:00:00Z') } }],
+        },
+      ]);
+    });
+  });
+});
@@ -54,9 +54,12 @@ vi.mock('../config/redis', () => ({
   }),
 }));
 
-// Mock email service
-vi.mock('../services/emailService', () => ({
-  sendNotification: vi.fn().mockResolvedValue({ success: true, messageId: 'msg-123' }),
+// Mock notification service
+vi.mock('../services/notificationService', () => ({
+  sendNotification: vi.fn().mockResolvedValue({
+    success: true,
+    deliveries: [{ channel: 'EMAIL', success: true, messageId: 'msg-123' }],
+  }),
   broadcastNotification: vi.fn().mockResolvedValue({ sent: 5, failed: 0 }),
 }));
 
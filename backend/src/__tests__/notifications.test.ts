@@ -11,11 +11,27 @@ import { buildServer } from '../server.js';
 vi.mock('../services/emailService', () => ({
   getNotificationPreferences: vi.fn(),
   upsertNotificationPreferences: vi.fn(),
-  verifyEmail: vi.fn(),
   getNotificationHistory: vi.fn(),
 }));
 
+// Mock the verification flow, keeping its error classes
+vi.mock('../services/emailVerificationService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/emailVerificationService.js')>()),
+  sendVerificationEmail: vi.fn(),
+  verifyEmailToken: vi.fn(),
+}));
+
 import * as emailService from '../services/emailService.js';
+import * as emailVerification from '../services/emailVerificationService.js';
+import { createSessionToken } from '../services/authService.js';
+
+function authHeaderFor(address: string) {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const token = createSessionToken({ address, role: 'user', issuedAt, expiresAt: issuedAt + 3600 });
+  return { authorization: `Bearer ${token}` };
+}
+
+const authHeader = authHeaderFor('0x1234567890123456789012345678901234567890');
 
 describe('Notification Routes', () => {
   let server: FastifyInstance;
@@ -28,6 +44,11 @@ describe('Notification Routes', () => {
     withdrawalAlert: true,
     rebalanceAlert: true,
     emergencyAlert: true,
+    channels: ['EMAIL' as const],
+    telegramChatId: null,
+    discordWebhookUrl: null,
+    webhookUrl: null,
+    digestFrequency: 'INSTANT' as const,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01'),
   };
@@ -97,6 +118,29 @@ describe('Notification Routes', () => {
       expect(body.data.emergencyAlert).toBe(true);
     });
 
+    it('should report channel destinations without exposing them', async () => {
+      vi.mocked(emailService.getNotificationPreferences).mockResolvedValue({
+        ...mockPreferences,
+        channels: ['EMAIL', 'DISCORD'],
+        discordWebhookUrl: 'https://discord.com/api/webhooks/1/secret',
+      });
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/notifications/preferences/0x1234567890123456789012345678901234567890',
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.payload);
+      expect(body.data).toMatchObject({
+        channels: ['EMAIL', 'DISCORD'],
+        telegramConfigured: false,
+        discordConfigured: true,
+        webhookConfigured: false,
+      });
+      expect(response.payload).not.toContain('secret');
+    });
+
     it('should return null data for address with no preferences', async () => {
       vi.mocked(emailService.getNotificationPreferences).mockResolvedValue(null);
 
@@ -161,6 +205,7 @@ describe('Notification Routes', () => {
       const response = await server.inject({
         method: 'POST',
         url: '/api/notifications/preferences/0x1234567890123456789012345678901234567890',
+        headers: authHeader,
         payload: {
           email: 'test@example.com',
           withdrawalAlert: true,
@@ -174,6 +219,54 @@ describe('Notification Routes', () => {
       expect(body.success).toBe(true);
       expect(body.data.email).toBe('test@example.com');
       expect(body.data.emailVerified).toBe(false);
+      expect(body.verificationEmailSent).toBe(false);
+      expect(emailVerification.sendVerificationEmail).toHaveBeenCalledWith(
+        '0x1234567890123456789012345678901234567890'
+      );
+    });
+
+    it('should report when a verification email was sent', async () => {
+      vi.mocked(emailService.upsertNotificationPreferences).mockResolvedValue({
+        ...mockPreferences,
+        emailVerified: false,
+      });
+      vi.mocked(emailVerification.sendVerificationEmail).mockResolvedValue({
+        sent: true,
+        email: 'test@example.com',
+        expiresAt: new Date('2024-01-02T00:00:00Z'),
+      });
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/notifications/preferences/0x1234567890123456789012345678901234567890',
+        headers: authHeader,
+        payload: { email: 'test@example.com' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload).verificationEmailSent).toBe(true);
+    });
+
+    it('should still save preferences when verification emails are rate-limited', async () => {
+      vi.mocked(emailService.upsertNotificationPreferences).mockResolvedValue({
+        ...mockPreferences,
+        emailVerified: false,
+      });
+      vi.mocked(emailVerification.sendVerificationEmail).mockRejectedValue(
+        new emailVerification.VerificationRateLimitError(30)
+      );
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/notifications/preferences/0x1234567890123456789012345678901234567890',
+        headers: authHeader,
+        payload: { email: 'test@example.com' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.payload);
+      expect(body.success).toBe(true);
+      expect(body.verificationEmailSent).toBe(false);
     });
 
     it('should update alert preferences', async () => {
@@ -187,6 +280,7 @@ describe('Notification Routes', () => {
       const response = await server.inject({
         method: 'POST',
         url: '/api/notifications/preferences/0x1234567890123456789012345678901234567890',
+        headers: authHeader,
         payload: {
           withdrawalAlert: false,
           rebalanceAlert: false,
@@ -198,12 +292,47 @@ describe('Notification Routes', () => {
       expect(body.success).toBe(true);
       expect(body.data.withdrawalAlert).toBe(false);
       expect(body.data.rebalanceAlert).toBe(false);
+      expect(emailVerification.sendVerificationEmail).not.toHaveBeenCalled();
+    });
+
+    it('should save the digest frequency', async () => {
+      vi.mocked(emailService.upsertNotificationPreferences).mockResolvedValue({
+        ...mockPreferences,
+        digestFrequency: 'WEEKLY',
+      });
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/notifications/preferences/0x1234567890123456789012345678901234567890',
+        headers: authHeader,
+        payload: { digestFrequency: 'WEEKLY' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload).data.digestFrequency).toBe('WEEKLY');
+      expect(emailService.upsertNotificationPreferences).toHaveBeenCalledWith(
+        '0x1234567890123456789012345678901234567890',
+        expect.objectContaining({ digestFrequency: 'WEEKLY' })
+      );
+    });
+
+    it('should reject unknown digest frequencies', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/notifications/preferences/0x1234567890123456789012345678901234567890',
+        headers: authHeader,
+        payload: { digestFrequency: 'HOURLY' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(emailService.upsertNotificationPreferences).not.toHaveBeenCalled();
     });
 
     it('should return 400 for invalid Ethereum address', async () => {
       const response = await server.inject({
         method: 'POST',
         url: '/api/notifications/preferences/not-an-address',
+        headers: authHeader,
         payload: {
           email: 'test@example.com',
         },
@@ -212,10 +341,78 @@ describe('Notification Routes', () => {
       expect(response.statusCode).toBe(400);
     });
 
+    it('should save channel settings', async () => {
+      vi.mocked(emailService.upsertNotificationPreferences).mockResolvedValue({
+        ...mockPreferences,
+        channels: ['TELEGRAM', 'WEBHOOK'],
+        telegramChatId: '424242',
+        webhookUrl: 'https://hooks.example.com/paimon',
+      });
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/notifications/preferences/0x1234567890123456789012345678901234567890',
+        headers: authHeader,
+        payload: {
+          channels: ['TELEGRAM', 'WEBHOOK'],
+          telegramChatId: '424242',
+          webhookUrl: 'https://hooks.example.com/paimon',
+          discordWebhookUrl: null,
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.payload);
+      expect(body.data).toMatchObject({
+        channels: ['TELEGRAM', 'WEBHOOK'],
+        telegramConfigured: true,
+        webhookConfigured: true,
+      });
+      expect(emailService.upsertNotificationPreferences).toHaveBeenCalledWith(
+        '0x1234567890123456789012345678901234567890',
+        expect.objectContaining({
+          channels: ['TELEGRAM', 'WEBHOOK'],
+          telegramChatId: '424242',
+          discordWebhookUrl: null,
+        })
+      );
+    });
+
+    it('should return 400 for an unknown channel', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/notifications/preferences/0x1234567890123456789012345678901234567890',
+        headers: authHeader,
+        payload: { channels: ['SMS'] },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 400 for invalid channel destinations', async () => {
+      for (const [payload, error] of [
+        [{ telegramChatId: '@alice' }, 'Invalid Telegram chat id'],
+        [{ discordWebhookUrl: 'https://example.com/hook' }, 'Invalid Discord webhook URL'],
+        [{ webhookUrl: 'http://hooks.example.com' }, 'Webhook URL must be an https:// URL'],
+      ] as const) {
+        const response = await server.inject({
+          method: 'POST',
+          url: '/api/notifications/preferences/0x1234567890123456789012345678901234567890',
+          headers: authHeader,
+          payload,
+        });
+
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.payload).error).toBe(error);
+      }
+      expect(emailService.upsertNotificationPreferences).not.toHaveBeenCalled();
+    });
+
     it('should return 400 for invalid email format', async () => {
       const response = await server.inject({
         method: 'POST',
         url: '/api/notifications/preferences/0x1234567890123456789012345678901234567890',
+        headers: authHeader,
         payload: {
           email: 'not-valid-email',
         },
@@ -232,6 +429,7 @@ describe('Notification Routes', () => {
       const response = await server.inject({
         method: 'POST',
         url: '/api/notifications/preferences/0x1234567890123456789012345678901234567890',
+        headers: authHeader,
         payload: {
           email: 'test@example.com',
         },
@@ -242,78 +440,96 @@ describe('Notification Routes', () => {
       expect(body.success).toBe(false);
       expect(body.error).toBe('Failed to update notification preferences');
     });
-  });
-
-  // ===========================================================================
-  // POST /api/notifications/verify-email
-  // ===========================================================================
-
-  describe('POST /api/notifications/verify-email', () => {
-    it('should verify email successfully', async () => {
-      vi.mocked(emailService.verifyEmail).mockResolvedValue(true);
 
+    it('should return 401 without a session', async () => {
       const response = await server.inject({
         method: 'POST',
-        url: '/api/notifications/verify-email',
+        url: '/api/notifications/preferences/0x1234567890123456789012345678901234567890',
         payload: {
-          address: '0x1234567890123456789012345678901234567890',
+          email: 'attacker@example.com',
         },
       });
 
-      expect(response.statusCode).toBe(200);
-      const body = JSON.parse(response.payload);
-      expect(body.success).toBe(true);
-      expect(body.verified).toBe(true);
+      expect(response.statusCode).toBe(401);
+      expect(emailService.upsertNotificationPreferences).not.toHaveBeenCalled();
     });
 
-    it('should return false when no email to verify', async () => {
-      vi.mocked(emailService.verifyEmail).mockResolvedValue(false);
-
+    it('should return 403 when writing another wallet\'s preferences', async () => {
       const response = await server.inject({
         method: 'POST',
-        url: '/api/notifications/verify-email',
+        url: '/api/notifications/preferences/0x1234567890123456789012345678901234567890',
+        headers: authHeaderFor('0xabcdefabcdefabcdefabcdefabcdefabcdefabcd'),
         payload: {
-          address: '0x1234567890123456789012345678901234567890',
+          email: 'attacker@example.com',
         },
       });
 
+      expect(response.statusCode).toBe(403);
+      expect(emailService.upsertNotificationPreferences).not.toHaveBeenCalled();
+    });
+  });
+
+  // ===========================================================================
+  // GET /api/notifications/verify-email
+  // ===========================================================================
+
+  describe('GET /api/notifications/verify-email', () => {
+    it('should verify email with a valid token', async () => {
+      vi.mocked(emailVerification.verifyEmailToken).mockResolvedValue({
+        address: '0x1234567890123456789012345678901234567890',
+        email: 'test@example.com',
+      });
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/notifications/verify-email?token=valid-token',
+      });
+
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.payload);
       expect(body.success).toBe(true);
-      expect(body.verified).toBe(false);
+      expect(body.data).toEqual({
+        address: '0x1234567890123456789012345678901234567890',
+        email: 'test@example.com',
+        emailVerified: true,
+      });
+      expect(emailVerification.verifyEmailToken).toHaveBeenCalledWith('valid-token');
     });
 
-    it('should return 400 for invalid Ethereum address', async () => {
+    it('should return 400 for an invalid or expired token', async () => {
+      vi.mocked(emailVerification.verifyEmailToken).mockRejectedValue(
+        new emailVerification.EmailVerificationError('Verification token has expired')
+      );
+
       const response = await server.inject({
-        method: 'POST',
-        url: '/api/notifications/verify-email',
-        payload: {
-          address: 'invalid',
-        },
+        method: 'GET',
+        url: '/api/notifications/verify-email?token=expired-token',
       });
 
       expect(response.statusCode).toBe(400);
+      const body = JSON.parse(response.payload);
+      expect(body.success).toBe(false);
+      expect(body.error).toBe('Verification token has expired');
     });
 
-    it('should return 400 when address is missing', async () => {
+    it('should return 400 when token is missing', async () => {
       const response = await server.inject({
-        method: 'POST',
+        method: 'GET',
         url: '/api/notifications/verify-email',
-        payload: {},
       });
 
       expect(response.statusCode).toBe(400);
+      expect(emailVerification.verifyEmailToken).not.toHaveBeenCalled();
     });
 
     it('should handle service errors gracefully', async () => {
-      vi.mocked(emailService.verifyEmail).mockRejectedValue(new Error('Database error'));
+      vi.mocked(emailVerification.verifyEmailToken).mockRejectedValue(
+        new Error('Database error')
+      );
 
       const response = await server.inject({
-        method: 'POST',
-        url: '/api/notifications/verify-email',
-        payload: {
-          address: '0x1234567890123456789012345678901234567890',
-        },
+        method: 'GET',
+        url: '/api/notifications/verify-email?token=valid-token',
       });
 
       expect(response.statusCode).toBe(500);
@@ -323,6 +539,100 @@ describe('Notification Routes', () => {
     });
   });
 
+  // ===========================================================================
+  // POST /api/notifications/verify-email/resend
+  // ===========================================================================
+
+  describe('POST /api/notifications/verify-email/resend', () => {
+    const resendPayload = { address: '0x1234567890123456789012345678901234567890' };
+
+    it('should send a new verification email', async () => {
+      vi.mocked(emailVerification.sendVerificationEmail).mockResolvedValue({
+        sent: true,
+        email: 'test@example.com',
+        expiresAt: new Date('2024-01-02T00:00:00Z'),
+      });
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/notifications/verify-email/resend',
+        headers: authHeader,
+        payload: resendPayload,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.payload);
+      expect(body.success).toBe(true);
+      expect(body.data).toEqual({
+        email: 'test@example.com',
+        expiresAt: '2024-01-02T00:00:00.000Z',
+      });
+    });
+
+    it('should return 429 with Retry-After when rate-limited', async () => {
+      vi.mocked(emailVerification.sendVerificationEmail).mockRejectedValue(
+        new emailVerification.VerificationRateLimitError(42)
+      );
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/notifications/verify-email/resend',
+        headers: authHeader,
+        payload: resendPayload,
+      });
+
+      expect(response.statusCode).toBe(429);
+      expect(response.headers['retry-after']).toBe('42');
+      expect(JSON.parse(response.payload).retryAfter).toBe(42);
+    });
+
+    it('should return 400 when the email is already verified', async () => {
+      vi.mocked(emailVerification.sendVerificationEmail).mockRejectedValue(
+        new emailVerification.EmailVerificationError('Email address is already verified')
+      );
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/notifications/verify-email/resend',
+        headers: authHeader,
+        payload: resendPayload,
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.payload).error).toBe('Email address is already verified');
+    });
+
+    it('should return 502 when the email could not be delivered', async () => {
+      vi.mocked(emailVerification.sendVerificationEmail).mockResolvedValue({
+        sent: false,
+        email: 'test@example.com',
+        expiresAt: new Date('2024-01-02T00:00:00Z'),
+        error: 'Email service not configured',
+      });
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/notifications/verify-email/resend',
+        headers: authHeader,
+        payload: resendPayload,
+      });
+
+      expect(response.statusCode).toBe(502);
+    });
+
+    it('should return 403 for another wallet', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/notifications/verify-email/resend',
+        headers: authHeaderFor('0xabcdefabcdefabcdefabcdefabcdefabcdefabcd'),
+        payload: resendPayload,
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(emailVerification.sendVerificationEmail).not.toHaveBeenCalled();
+    });
+  });
+
   // ===========================================================================
   // GET /api/notifications/history/:address
   // ===========================================================================
@@ -0,0 +1,277 @@
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from 'vitest';
+
+// =============================================================================
+// Mock Setup - Must be before imports
+// =============================================================================
+
+const { mockPublicClient, mockPrisma, mockAddBroadcastNotificationJob } = vi.hoisted(() => ({
+  mockPublicClient: {
+    getBlockNumber: vi.fn(),
+    readContract: vi.fn(),
+  },
+  mockPrisma: {
+    priceFeed: {
+      findFirst: vi.fn(),
+    },
+    oracleIncident: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+  mockAddBroadcastNotificationJob: vi.fn(),
+}));
+
+vi.mock('../services/blockchain', () => ({
+  publicClient: mockPublicClient,
+  contracts: {},
+}));
+
+vi.mock('../services/database', () => ({
+  prisma: mockPrisma,
+}));
+
+vi.mock('../jobs/notificationQueue', () => ({
+  addBroadcastNotificationJob: (...args: unknown[]) => mockAddBroadcastNotificationJob(...args),
+}));
+
+// Telegram (restored in afterAll so later test files get the real fetch)
+const originalFetch = global.fetch;
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+afterAll(() => {
+  global.fetch = originalFetch;
+});
+
+// Import after mock setup
+import { runOracleHealthChecks, deviationBps } from '../services/oracleHealthService';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const ONE = 10n ** 18n;
+const ADAPTER = '0x7777777777777777777777777777777777777777';
+const PRIMARY = '0x8888888888888888888888888888888888888888';
+const BACKUP = '0x9999999999999999999999999999999999999999';
+const TOKEN = '0x1111111111111111111111111111111111111111';
+const UPDATED_AT = 1764000000n; // 2025-11-24T16:00:00Z
+
+interface OracleState {
+  price: bigint;
+  stale: boolean;
+  primaryPrice: bigint;
+  backupPrice: bigint | Error;
+}
+
+function mockOracle(state: Partial<OracleState> = {}) {
+  const { price = ONE, stale = false, primaryPrice = ONE, backupPrice = ONE } = state;
+
+  mockPublicClient.readContract.mockImplementation(
+    ({ address, functionName }: { address: string; functionName: string }) => {
+      if (address === PRIMARY) return Promise.resolve([primaryPrice, UPDATED_AT]);
+      if (address === BACKUP) {
+        return backupPrice instanceof Error
+          ? Promise.reject(backupPrice)
+          : Promise.resolve([backupPrice, UPDATED_AT]);
+      }
+
+      switch (functionName) {
+        case 'getConfiguredAssets':
+          return Promise.resolve([TOKEN]);
+        case 'getPriceWithSource':
+          return Promise.resolve([price, UPDATED_AT, 1]);
+        case 'isPriceStale':
+          return Promise.resolve(stale);
+        case 'getStalenessThreshold':
+          return Promise.resolve(3600n);
+        case 'getOracleConfig':
+          return Promise.resolve({
+            primaryOracle: PRIMARY,
+            backupOracle: BACKUP,
+            stalenessThreshold: 0n,
+            isConfigured: true,
+          });
+        default:
+          return Promise.reject(new Error(`Unexpected call ${functionName}`));
+      }
+    }
+  );
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('OracleHealthService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.ORACLE_ADAPTER_ADDRESS = ADAPTER;
+    mockPublicClient.getBlockNumber.mockResolvedValue(1000n);
+    mockPrisma.priceFeed.findFirst.mockResolvedValue(null);
+    mockPrisma.oracleIncident.findFirst.mockResolvedValue(null);
+    mockPrisma.oracleIncident.create.mockResolvedValue({ id: 'incident-1' });
+    mockFetch.mockResolvedValue({ ok: true });
+  });
+
+  afterEach(() => {
+    delete process.env.ORACLE_ADAPTER_ADDRESS;
+    delete process.env.ORACLE_DIVERGENCE_THRESHOLD_BPS;
+    delete process.env.TELEGRAM_BOT_TOKEN;
+    delete process.env.TELEGRAM_ADMIN_CHAT_ID;
+  });
+
+  describe('deviationBps', () => {
+    it('should measure the difference against the reference price', () => {
+      expect(deviationBps(102n, 100n)).toBe(200);
+      expect(deviationBps(95n, 100n)).toBe(500);
+      expect(deviationBps(100n, 100n)).toBe(0);
+    });
+  });
+
+  it('should not open incidents for a healthy oracle', async () => {
+    mockOracle();
+
+    const result = await runOracleHealthChecks();
+
+    expect(result).toMatchObject({ assets: 1, opened: 0, resolved: 0, errors: [] });
+    expect(mockPrisma.oracleIncident.create).not.toHaveBeenCalled();
+    expect(mockAddBroadcastNotificationJob).not.toHaveBeenCalled();
+  });
+
+  it('should open a stale price incident and alert admins', async () => {
+    mockOracle({ stale: true });
+
+    const result = await runOracleHealthChecks();
+
+    expect(result.opened).toBe(1);
+    expect(mockPrisma.oracleIncident.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        tokenAddress: TOKEN,
+        type: 'STALE_PRICE',
+        details: expect.objectContaining({ thresholdSeconds: '3600', source: 'APRO' }),
+      }),
+    });
+    expect(mockAddBroadcastNotificationJob).toHaveBeenCalledWith(
+      'ORACLE_ALERT',
+      expect.objectContaining({
+        incidentId: 'incident-1',
+        tokenAddress: TOKEN,
+        incidentType: 'STALE_PRICE',
+      }),
+      'critical'
+    );
+  });
+
+  it('should send the alert to Telegram when configured', async () => {
+    process.env.TELEGRAM_BOT_TOKEN = 'bot-token';
+    process.env.TELEGRAM_ADMIN_CHAT_ID = 'chat-id';
+    mockOracle({ stale: true });
+
+    await runOracleHealthChecks();
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://api.telegram.org/botbot-token/sendMessage',
+      expect.objectContaining({ body: expect.stringContaining('STALE PRICE') })
+    );
+  });
+
+  it('should flag primary/backup divergence above the configured threshold', async () => {
+    process.env.ORACLE_DIVERGENCE_THRESHOLD_BPS = '300';
+    mockOracle({ backupPrice: (ONE * 104n) / 100n });
+
+    const result = await runOracleHealthChecks();
+
+    expect(result.opened).toBe(1);
+    expect(mockPrisma.oracleIncident.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: 'SOURCE_DIVERGENCE',
+        details: expect.objectContaining({ deviationBps: 400, thresholdBps: 300 }),
+      }),
+    });
+  });
+
+  it('should skip the divergence check when the backup oracle is unavailable', async () => {
+    mockOracle({ backupPrice: new Error('No price') });
+
+    const result = await runOracleHealthChecks();
+
+    expect(result).toMatchObject({ opened: 0, errors: [] });
+  });
+
+  it('should flag a sudden jump from the previous indexed price', async () => {
+    mockOracle({
+      price: (ONE * 85n) / 100n,
+      primaryPrice: (ONE * 85n) / 100n,
+      backupPrice: (ONE * 85n) / 100n,
+    });
+    mockPrisma.priceFeed.findFirst.mockResolvedValueOnce({
+      price: ONE.toString(),
+      timestamp: new Date('2025-11-24T15:00:00Z'),
+    });
+
+    const result = await runOracleHealthChecks();
+
+    expect(result.opened).toBe(1);
+    expect(mockPrisma.oracleIncident.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: 'PRICE_JUMP',
+        details: expect.objectContaining({ deviationBps: 1500, thresholdBps: 1000 }),
+      }),
+    });
+    expect(mockPrisma.priceFeed.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { tokenAddress: TOKEN, timestamp: { lt: new Date(Number(UPDATED_AT) * 1000) } },
+      })
+    );
+  });
+
+  it('should refresh an open incident without alerting again', async () => {
+    mockOracle({ stale: true });
+    mockPrisma.oracleIncident.findFirst.mockImplementation(
+      ({ where }: { where: { type: string } }) =>
+        Promise.resolve(where.type === 'STALE_PRICE' ? { id: 'open-1' } : null)
+    );
+
+    const result = await runOracleHealthChecks();
+
+    expect(result).toMatchObject({ opened: 0, ongoing: 1 });
+    expect(mockPrisma.oracleIncident.update).toHaveBeenCalledWith({
+      where: { id: 'open-1' },
+      data: expect.objectContaining({ lastSeenAt: expect.any(Date) }),
+    });
+    expect(mockAddBroadcastNotificationJob).not.toHaveBeenCalled();
+  });
+
+  it('should resolve an open incident once the check passes', async () => {
+    mockOracle();
+    mockPrisma.oracleIncident.findFirst.mockImplementation(
+      ({ where }: { where: { type: string } }) =>
+        Promise.resolve(where.type === 'STALE_PRICE' ? { id: 'open-1' } : null)
+    );
+
+    const result = await runOracleHealthChecks();
+
+    expect(result.resolved).toBe(1);
+    expect(mockPrisma.oracleIncident.update).toHaveBeenCalledWith({
+      where: { id: 'open-1' },
+      data: { status: 'RESOLVED', resolvedAt: expect.any(Date) },
+    });
+  });
+
+  it('should report assets whose oracle reads fail', async () => {
+    mockOracle();
+    const readContract = mockPublicClient.readContract.getMockImplementation()!;
+    mockPublicClient.readContract.mockImplementation((call: { functionName: string }) =>
+      call.functionName === 'isPriceStale'
+        ? Promise.reject(new Error('AllOraclesFailed'))
+        : readContract(call)
+    );
+
+    const result = await runOracleHealthChecks();
+
+    expect(result.errors).toEqual([`${TOKEN}: AllOraclesFailed`]);
+  });
+});
@@ -0,0 +1,256 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+
+// =============================================================================
+// Mock Setup - Must be before imports
+// =============================================================================
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    transaction: {
+      findMany: vi.fn(),
+    },
+    netValue: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../services/database', () => ({
+  prisma: mockPrisma,
+}));
+
+// Import after mock setup
+import {
+  getUserPerformance,
+  calculateMoneyWeightedReturn,
+  PerformanceQueryError,
+} from '../services/performanceService';
+import { usersRoutes } from '../routes/users';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const ONE = 10n ** 18n;
+const USER = '0x1111111111111111111111111111111111111111';
+
+const SNAPSHOTS = [
+  { timestamp: new Date('2025-11-01T00:00:00Z'), sharePrice: ONE.toString() },
+  { timestamp: new Date('2025-11-02T00:00:00Z'), sharePrice: ((101n * ONE) / 100n).toString() },
+  { timestamp: new Date('2025-11-03T00:00:00Z'), sharePrice: ((102n * ONE) / 100n).toString() },
+];
+
+// Deposit 1000 USDT at 1.00, withdraw half the shares at 1.02
+const TRANSACTIONS = [
+  {
+    type: 'DEPOSIT',
+    amount: (1000n * ONE).toString(),
+    shares: (1000n * ONE).toString(),
+    sharePrice: ONE.toString(),
+    costBasis: (1000n * ONE).toString(),
+    timestamp: new Date('2025-11-01T12:00:00Z'),
+  },
+  {
+    type: 'WITHDRAW',
+    amount: (510n * ONE).toString(),
+    shares: (500n * ONE).toString(),
+    sharePrice: ((102n * ONE) / 100n).toString(),
+    costBasis: (500n * ONE).toString(),
+    timestamp: new Date('2025-11-03T12:00:00Z'),
+  },
+];
+
+const TO = new Date('2025-11-04T00:00:00Z');
+
+type TimestampFilter = { where: { timestamp: { lt?: Date; gte?: Date } } };
+
+function mockHistory(transactions: unknown[] = TRANSACTIONS) {
+  mockPrisma.transaction.findMany.mockResolvedValue(transactions);
+  mockPrisma.netValue.findFirst.mockImplementation(({ where }: TimestampFilter) =>
+    Promise.resolve(
+      [...SNAPSHOTS].reverse().find((snapshot) => snapshot.timestamp < where.timestamp.lt!) ?? null
+    )
+  );
+  mockPrisma.netValue.findMany.mockImplementation(({ where }: TimestampFilter) =>
+    Promise.resolve(
+      SNAPSHOTS.filter(
+        (snapshot) =>
+          snapshot.timestamp >= where.timestamp.gte! && snapshot.timestamp < where.timestamp.lt!
+      )
+    )
+  );
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('PerformanceService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockHistory();
+  });
+
+  describe('getUserPerformance', () => {
+    it('should value the position daily from the first transaction', async () => {
+      const performance = await getUserPerformance(USER.toUpperCase().replace('0X', '0x'), {
+        to: TO,
+      });
+
+      expect(performance.address).toBe(USER);
+      expect(performance.from).toBe('2025-11-01T00:00:00.000Z');
+      expect(performance.series.map((point) => [point.date, point.value, point.netFlow])).toEqual([
+        ['2025-11-01', (1000n * ONE).toString(), (1000n * ONE).toString()],
+        ['2025-11-02', (1010n * ONE).toString(), '0'],
+        ['2025-11-03', (510n * ONE).toString(), (-510n * ONE).toString()],
+      ]);
+      expect(performance.series[2]).toMatchObject({
+        shares: (500n * ONE).toString(),
+        costBasis: (500n * ONE).toString(),
+        realizedYield: (10n * ONE).toString(),
+        unrealizedYield: (10n * ONE).toString(),
+      });
+      expect(mockPrisma.transaction.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userAddress: USER, timestamp: { lt: TO } } })
+      );
+    });
+
+    it('should summarize flows, yield and returns', async () => {
+      const { summary } = await getUserPerformance(USER, { to: TO });
+
+      expect(summary).toMatchObject({
+        startValue: '0',
+        endValue: (510n * ONE).toString(),
+        netFlows: (490n * ONE).toString(),
+        realizedYield: (10n * ONE).toString(),
+        unrealizedYield: (10n * ONE).toString(),
+        totalYield: (20n * ONE).toString(),
+        timeWeightedReturn: 2,
+      });
+      expect(summary.moneyWeightedReturn).toBeGreaterThan(100);
+    });
+
+    it('should open with the position held before from', async () => {
+      const performance = await getUserPerformance(USER, {
+        from: new Date('2025-11-02T00:00:00Z'),
+        to: TO,
+      });
+
+      expect(performance.series).toHaveLength(2);
+      expect(performance.summary).toMatchObject({
+        startValue: (1000n * ONE).toString(),
+        netFlows: (-510n * ONE).toString(),
+        totalYield: (20n * ONE).toString(),
+        realizedYield: (10n * ONE).toString(),
+      });
+    });
+
+    it('should fall back to the amount for rows without a cost basis', async () => {
+      mockHistory(TRANSACTIONS.map((tx) => ({ ...tx, costBasis: null })));
+
+      const { summary } = await getUserPerformance(USER, { to: TO });
+
+      // The withdrawal removes 510 of the 1000 basis and realizes nothing
+      expect(summary).toMatchObject({
+        costBasis: (490n * ONE).toString(),
+        realizedYield: '0',
+        unrealizedYield: (20n * ONE).toString(),
+      });
+    });
+
+    it('should return an empty history for a wallet without transactions', async () => {
+      mockHistory([]);
+
+      const performance = await getUserPerformance(USER, { to: TO });
+
+      expect(performance.series).toEqual([]);
+      expect(performance.summary).toMatchObject({
+        endValue: '0',
+        timeWeightedReturn: null,
+        moneyWeightedReturn: null,
+      });
+    });
+
+    it('should reject invalid ranges', async () => {
+      await expect(getUserPerformance(USER, { from: TO, to: TO })).rejects.toThrow(
+        PerformanceQueryError
+      );
+      await expect(
+        getUserPerformance(USER, { from: new Date('2020-01-01T00:00:00Z'), to: TO })
+      ).rejects.toThrow('Range too large');
+    });
+  });
+
+  describe('calculateMoneyWeightedReturn', () => {
+    it('should annualize the internal rate of return', () => {
+      const start = new Date('2025-01-01T00:00:00Z');
+      const end = new Date(start.getTime() + 365 * 24 * 60 * 60 * 1000);
+
+      expect(
+        calculateMoneyWeightedReturn([
+          { amount: -100, timestamp: start },
+          { amount: 110, timestamp: end },
+        ])
+      ).toBe(10);
+    });
+
+    it('should return null when flows never change sign', () => {
+      expect(calculateMoneyWeightedReturn([{ amount: -100, timestamp: new Date() }])).toBeNull();
+    });
+  });
+});
+
+describe('GET /api/users/:address/performance', () => {
+  let server: FastifyInstance;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockHistory();
+    server = Fastify();
+    await server.register(usersRoutes, { prefix: '/api' });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should return the performance series', async () => {
+    const response = await server.inject({
+      method: 'GET',
+      url: `/api/users/${USER}/performance?to=${TO.toISOString()}`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    const { success, data } = response.json();
+    expect(success).toBe(true);
+    expect(data.series).toHaveLength(3);
+    expect(data.summary.timeWeightedReturn).toBe(2);
+  });
+
+  it('should return 400 for an invalid range', async () => {
+    const response = await server.inject({
+      method: 'GET',
+      url: `/api/users/${USER}/performance?from=${TO.toISOString()}&to=${TO.toISOString()}`,
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toEqual({ success: false, error: 'from must be before to' });
+  });
+
+  it('should return 400 for an invalid address', async () => {
+    const response = await server.inject({ method: 'GET', url: '/api/users/0x123/performance' });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('should return 500 when the history cannot be read', async () => {
+    mockPrisma.transaction.findMany.mockRejectedValueOnce(new Error('DB down'));
+
+    const response = await server.inject({ method: 'GET', url: `/api/users/${USER}/performance` });
+
+    expect(response.statusCode).toBe(500);
+    expect(response.json()).toEqual({ success: false, error: 'Failed to fetch user performance' });
+  });
+});
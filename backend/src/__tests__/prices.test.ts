@@ -0,0 +1,334 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+
+// =============================================================================
+// Mock Setup - Must be before imports
+// =============================================================================
+
+const { mockPublicClient, mockPrisma, mockContracts } = vi.hoisted(() => ({
+  mockPublicClient: {
+    getBlockNumber: vi.fn(),
+    readContract: vi.fn(),
+    getLogs: vi.fn(),
+    getBlock: vi.fn(),
+  },
+  mockPrisma: {
+    priceFeed: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+    },
+    oracleFailover: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+    },
+    indexerCheckpoint: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+    },
+  },
+  mockContracts: {
+    pngyVault: '0x4444444444444444444444444444444444444444' as string | undefined,
+  },
+}));
+
+vi.mock('../services/blockchain', () => ({
+  publicClient: mockPublicClient,
+  contracts: mockContracts,
+}));
+
+vi.mock('../services/database', () => ({
+  prisma: mockPrisma,
+}));
+
+// Import after mock setup
+import {
+  indexOraclePrices,
+  indexOracleFailoverLogs,
+  getPriceCandles,
+  getOracleAdapterAddress,
+} from '../services/oracleService';
+import { pricesRoutes } from '../routes/prices';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const ONE = 10n ** 18n;
+const ADAPTER = '0x7777777777777777777777777777777777777777';
+const TOKEN_A = '0x1111111111111111111111111111111111111111';
+const TOKEN_B = '0x2222222222222222222222222222222222222222';
+const UPDATED_AT = 1764000000n; // 2025-11-24T16:00:00Z
+
+function mockOracle(readings: Record<string, [bigint, bigint, number] | Error>) {
+  mockPublicClient.readContract.mockImplementation(
+    ({ functionName, args }: { functionName: string; args?: string[] }) => {
+      if (functionName === 'oracleAdapter') return Promise.resolve(ADAPTER);
+      if (functionName === 'getConfiguredAssets') return Promise.resolve(Object.keys(readings));
+
+      const reading = readings[args![0]];
+      return reading instanceof Error ? Promise.reject(reading) : Promise.resolve(reading);
+    }
+  );
+}
+
+function feed(minute: number, price: bigint, source = 'APRO') {
+  return {
+    price: price.toString(),
+    source,
+    timestamp: new Date(Date.UTC(2025, 10, 24, 16, minute)),
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('OracleService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.ORACLE_ADAPTER_ADDRESS = ADAPTER;
+    mockPublicClient.getBlockNumber.mockResolvedValue(1000n);
+  });
+
+  afterEach(() => {
+    delete process.env.ORACLE_ADAPTER_ADDRESS;
+  });
+
+  describe('getOracleAdapterAddress', () => {
+    it('should fall back to the adapter configured on the vault', async () => {
+      delete process.env.ORACLE_ADAPTER_ADDRESS;
+      mockOracle({});
+
+      await expect(getOracleAdapterAddress()).resolves.toBe(ADAPTER);
+      expect(mockPublicClient.readContract).toHaveBeenCalledWith(
+        expect.objectContaining({ functionName: 'oracleAdapter' })
+      );
+    });
+  });
+
+  describe('indexOraclePrices', () => {
+    it('should store new readings with their oracle timestamp and source', async () => {
+      mockOracle({
+        [TOKEN_A]: [ONE, UPDATED_AT, 1],
+        [TOKEN_B]: [2n * ONE, UPDATED_AT, 2],
+      });
+      mockPrisma.priceFeed.findUnique.mockResolvedValue(null);
+      mockPrisma.priceFeed.findFirst.mockResolvedValue(null);
+
+      const result = await indexOraclePrices();
+
+      expect(result).toMatchObject({ assets: 2, indexed: 2, unchanged: 0, failovers: 0 });
+      expect(mockPrisma.priceFeed.create).toHaveBeenCalledWith({
+        data: {
+          tokenAddress: TOKEN_B,
+          price: (2n * ONE).toString(),
+          source: 'CHAINLINK',
+          blockNumber: 1000n,
+          timestamp: new Date(Number(UPDATED_AT) * 1000),
+        },
+      });
+    });
+
+    it('should skip readings the oracle has not updated', async () => {
+      mockOracle({ [TOKEN_A]: [ONE, UPDATED_AT, 1] });
+      mockPrisma.priceFeed.findUnique.mockResolvedValueOnce({ id: 'existing' });
+
+      const result = await indexOraclePrices();
+
+      expect(result.unchanged).toBe(1);
+      expect(mockPrisma.priceFeed.create).not.toHaveBeenCalled();
+    });
+
+    it('should record a failover when the source switches', async () => {
+      mockOracle({ [TOKEN_A]: [ONE, UPDATED_AT, 2] });
+      mockPrisma.priceFeed.findUnique.mockResolvedValueOnce(null);
+      mockPrisma.priceFeed.findFirst.mockResolvedValueOnce({ source: 'APRO' });
+
+      const result = await indexOraclePrices();
+
+      expect(result.failovers).toBe(1);
+      expect(mockPrisma.oracleFailover.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          tokenAddress: TOKEN_A,
+          fromSource: 'APRO',
+          toSource: 'CHAINLINK',
+          blockNumber: 1000n,
+        }),
+      });
+    });
+
+    it('should keep indexing other assets when one oracle read fails', async () => {
+      mockOracle({
+        [TOKEN_A]: new Error('AllOraclesFailed'),
+        [TOKEN_B]: [ONE, UPDATED_AT, 1],
+      });
+      mockPrisma.priceFeed.findUnique.mockResolvedValue(null);
+      mockPrisma.priceFeed.findFirst.mockResolvedValue(null);
+
+      const result = await indexOraclePrices();
+
+      expect(result.indexed).toBe(1);
+      expect(result.errors).toEqual([`${TOKEN_A}: AllOraclesFailed`]);
+    });
+  });
+
+  describe('indexOracleFailoverLogs', () => {
+    it('should index logs after the checkpoint and advance it', async () => {
+      mockPrisma.indexerCheckpoint.findUnique.mockResolvedValueOnce({ lastProcessedBlock: 900n });
+      mockPublicClient.getLogs.mockResolvedValueOnce([
+        {
+          args: { asset: TOKEN_A, fromSource: 1, toSource: 2, reason: 'Primary stale' },
+          blockNumber: 950n,
+          transactionHash: '0xabc',
+          logIndex: 3,
+        },
+      ]);
+      mockPrisma.oracleFailover.findUnique.mockResolvedValueOnce(null);
+      mockPublicClient.getBlock.mockResolvedValueOnce({ timestamp: UPDATED_AT });
+
+      const recorded = await indexOracleFailoverLogs();
+
+      expect(recorded).toBe(1);
+      // 12 confirmations behind block 1000
+      expect(mockPublicClient.getLogs).toHaveBeenCalledWith(
+        expect.objectContaining({ address: ADAPTER, fromBlock: 901n, toBlock: 988n })
+      );
+      expect(mockPrisma.oracleFailover.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          fromSource: 'APRO',
+          toSource: 'CHAINLINK',
+          reason: 'Primary stale',
+          txHash: '0xabc',
+          logIndex: 3,
+        }),
+      });
+      expect(mockPrisma.indexerCheckpoint.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ update: { lastProcessedBlock: 988n } })
+      );
+    });
+
+    it('should start at the head on the first run', async () => {
+      mockPrisma.indexerCheckpoint.findUnique.mockResolvedValueOnce(null);
+      mockPublicClient.getLogs.mockResolvedValueOnce([]);
+
+      await indexOracleFailoverLogs();
+
+      expect(mockPublicClient.getLogs).toHaveBeenCalledWith(
+        expect.objectContaining({ fromBlock: 988n, toBlock: 988n })
+      );
+    });
+  });
+
+  describe('getPriceCandles', () => {
+    it('should bucket prices into OHLC candles', async () => {
+      mockPrisma.priceFeed.findMany.mockResolvedValueOnce([
+        feed(0, 100n),
+        feed(2, 105n),
+        feed(3, 98n),
+        feed(4, 101n, 'CHAINLINK'),
+        feed(7, 102n),
+      ]);
+
+      const candles = await getPriceCandles(TOKEN_A, {
+        from: new Date('2025-11-24T16:00:00Z'),
+        to: new Date('2025-11-24T17:00:00Z'),
+        interval: '5m',
+      });
+
+      expect(candles).toEqual([
+        {
+          time: '2025-11-24T16:00:00.000Z',
+          open: '100',
+          high: '105',
+          low: '98',
+          close: '101',
+          source: 'CHAINLINK',
+          samples: 4,
+        },
+        {
+          time: '2025-11-24T16:05:00.000Z',
+          open: '102',
+          high: '102',
+          low: '102',
+          close: '102',
+          source: 'APRO',
+          samples: 1,
+        },
+      ]);
+    });
+
+    it('should reject ranges with too many candles', async () => {
+      await expect(
+        getPriceCandles(TOKEN_A, {
+          from: new Date('2025-01-01T00:00:00Z'),
+          to: new Date('2025-12-01T00:00:00Z'),
+          interval: '5m',
+        })
+      ).rejects.toThrow('Range too large for interval 5m');
+    });
+  });
+});
+
+describe('GET /api/prices/:token', () => {
+  let server: FastifyInstance;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    server = Fastify();
+    await server.register(pricesRoutes, { prefix: '/api' });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should return candles for the requested range', async () => {
+    mockPrisma.priceFeed.findMany.mockResolvedValueOnce([feed(0, ONE), feed(30, 2n * ONE)]);
+
+    const response = await server.inject({
+      method: 'GET',
+      url: `/api/prices/${TOKEN_A.toUpperCase().replace('0X', '0x')}?from=2025-11-24T00:00:00Z&to=2025-11-25T00:00:00Z&interval=1d`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    const { data } = response.json();
+    expect(data.token).toBe(TOKEN_A);
+    expect(data.interval).toBe('1d');
+    expect(data.candles).toHaveLength(1);
+    expect(data.candles[0]).toMatchObject({ open: ONE.toString(), close: (2n * ONE).toString() });
+    expect(mockPrisma.priceFeed.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ tokenAddress: TOKEN_A }) })
+    );
+  });
+
+  it('should default to hourly candles over the last 7 days', async () => {
+    mockPrisma.priceFeed.findMany.mockResolvedValueOnce([]);
+
+    const response = await server.inject({ method: 'GET', url: `/api/prices/${TOKEN_A}` });
+
+    expect(response.statusCode).toBe(200);
+    const { data } = response.json();
+    expect(data.interval).toBe('1h');
+    expect(new Date(data.to).getTime() - new Date(data.from).getTime()).toBe(
+      7 * 24 * 60 * 60 * 1000
+    );
+  });
+
+  it('should return 400 for an inverted range', async () => {
+    const response = await server.inject({
+      method: 'GET',
+      url: `/api/prices/${TOKEN_A}?from=2025-11-25T00:00:00Z&to=2025-11-24T00:00:00Z`,
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error).toBe('from must be before to');
+  });
+
+  it('should validate the token address', async () => {
+    const response = await server.inject({ method: 'GET', url: '/api/prices/not-a-token' });
+
+    expect(response.statusCode).toBe(400);
+  });
+});
@@ -5,7 +5,14 @@ import type { Address } from 'viem';
 // Hoisted Mocks - Available during module load
 // =============================================================================
 
-const { mockReadContract, mockEstimateGas, mockPrismaAssetAllocation, mockPrismaRebalanceHistory } = vi.hoisted(() => ({
+const {
+  mockReadContract,
+  mockEstimateGas,
+  mockPrismaAssetAllocation,
+  mockPrismaRebalanceHistory,
+  mockSafeService,
+  mockProposalService,
+} = vi.hoisted(() => ({
   mockReadContract: vi.fn(),
   mockEstimateGas: vi.fn().mockResolvedValue(500000n),
   mockPrismaAssetAllocation: {
@@ -15,6 +22,16 @@ const { mockReadContract, mockEstimateGas, mockPrismaAssetAllocation, mockPrisma
     create: vi.fn(),
     findMany: vi.fn(),
   },
+  mockSafeService: {
+    isSafeServiceConfigured: vi.fn(),
+    proposeSafeTransaction: vi.fn(),
+  },
+  mockProposalService: {
+    countOpenProposals: vi.fn(),
+    createProposalDraft: vi.fn(),
+    expireStaleProposals: vi.fn(),
+    markProposalProposed: vi.fn(),
+  },
 }));
 
 // =============================================================================
@@ -39,6 +56,10 @@ vi.mock('../services/database', () => ({
   },
 }));
 
+vi.mock('../services/safeService', () => mockSafeService);
+
+vi.mock('../services/rebalanceProposalService', () => mockProposalService);
+
 vi.mock('../jobs/notificationQueue', () => ({
   addBroadcastNotificationJob: vi.fn().mockResolvedValue(undefined),
 }));
@@ -50,6 +71,7 @@ vi.mock('../jobs/notificationQueue', () => ({
 import {
   fetchAssetData,
   calculateOptimalAllocations,
+  calculateTargetAllocations,
   checkRebalanceNeeded,
   generateRebalanceTransactions,
   createRebalanceProposal,
@@ -125,9 +147,15 @@ const mockRebalanceProposal: RebalanceProposal = {
   buyAssets: ['0x2222222222222222222222222222222222222222' as Address],
   buyAmounts: [100000000000000000000n],
   newAllocations: [3500n, 3500n, 3000n],
+  allocationAssets: [
+    '0x1111111111111111111111111111111111111111' as Address,
+    '0x2222222222222222222222222222222222222222' as Address,
+    '0x3333333333333333333333333333333333333333' as Address,
+  ],
   totalValue: 2500000000000000000000n,
   maxDeviation: 6.5,
   estimatedGas: 500000n,
+  strategy: 'onchain',
 };
 
 // =============================================================================
@@ -170,6 +198,28 @@ describe('RebalanceEngine', () => {
 
       expect(result).toEqual([]);
     });
+
+    it('should derive current allocation from holding values, not the stored target', async () => {
+      mockPrismaAssetAllocation.findMany.mockResolvedValue([
+        { ...mockAssetAllocations[0], valueUsd: BigInt('1500000000000000000000') },
+        { ...mockAssetAllocations[1], valueUsd: BigInt('500000000000000000000') },
+        { ...mockAssetAllocations[2], valueUsd: BigInt('500000000000000000000') },
+      ]);
+
+      const result = await fetchAssetData();
+
+      expect(result.map((a) => a.currentAllocation)).toEqual([6000n, 2000n, 2000n]);
+    });
+
+    it('should report zero allocations when nothing is held', async () => {
+      mockPrismaAssetAllocation.findMany.mockResolvedValue(
+        mockAssetAllocations.map((a) => ({ ...a, valueUsd: 0n }))
+      );
+
+      const result = await fetchAssetData();
+
+      expect(result.map((a) => a.currentAllocation)).toEqual([0n, 0n, 0n]);
+    });
   });
 
   describe('calculateOptimalAllocations', () => {
@@ -203,6 +253,34 @@ describe('RebalanceEngine', () => {
     });
   });
 
+  describe('calculateTargetAllocations', () => {
+    afterEach(() => {
+      delete process.env.ALLOCATION_MIN_LIQUIDITY_BPS;
+    });
+
+    it('should compute off-chain strategies without the contract', async () => {
+      const result = await calculateTargetAllocations(mockAssetData, 'equal-weight');
+
+      expect(mockReadContract).not.toHaveBeenCalled();
+      expect(result.map((a) => a.targetAllocation)).toEqual([3334n, 3333n, 3333n]);
+      expect(result[0].allocationDelta).toBe(-666n);
+    });
+
+    it('should scale the on-chain targets down to the liquidity reserve', async () => {
+      process.env.ALLOCATION_MIN_LIQUIDITY_BPS = '1000';
+      mockReadContract.mockResolvedValueOnce([
+        { token: mockAssetData[0].token, targetAllocation: 4000n, allocationDelta: 0n },
+        { token: mockAssetData[1].token, targetAllocation: 4000n, allocationDelta: 1000n },
+        { token: mockAssetData[2].token, targetAllocation: 2000n, allocationDelta: -1000n },
+      ]);
+
+      const result = await calculateTargetAllocations(mockAssetData, 'onchain');
+
+      expect(result.map((a) => a.targetAllocation)).toEqual([3600n, 3600n, 1800n]);
+      expect(result[2].allocationDelta).toBe(-1200n);
+    });
+  });
+
   describe('checkRebalanceNeeded', () => {
     it('should return true when deviation exceeds threshold', async () => {
       mockReadContract.mockResolvedValue([true, 650n]);
@@ -235,7 +313,11 @@ describe('RebalanceEngine', () => {
 
       const targetAllocations = [3500n, 3500n, 3000n];
       const totalValue = 2500000000000000000000n;
-      const result = await generateRebalanceTransactions(mockAssetData, targetAllocations, totalValue);
+      const result = await generateRebalanceTransactions(
+        mockAssetData,
+        targetAllocations,
+        totalValue
+      );
 
       expect(result).toHaveLength(2);
       expect(result[0].isBuy).toBe(false);
@@ -254,8 +336,8 @@ describe('RebalanceEngine', () => {
   });
 
   describe('submitToGnosisSafe', () => {
-    it('should encode transaction and store in database', async () => {
-      mockPrismaRebalanceHistory.create.mockResolvedValue({});
+    it('should return transaction data for manual submission when Safe service is not configured', async () => {
+      mockSafeService.isSafeServiceConfigured.mockReturnValue(false);
 
       const result = await submitToGnosisSafe(mockRebalanceProposal);
 
@@ -263,14 +345,26 @@ describe('RebalanceEngine', () => {
       expect(result.value).toBe(0n);
       expect(result.safeTxGas).toBe(mockRebalanceProposal.estimatedGas);
       expect(result.transactionData).toMatch(/^0x/);
+      expect(result.safeTxHash).toBeNull();
+      expect(mockSafeService.proposeSafeTransaction).not.toHaveBeenCalled();
+      expect(mockPrismaRebalanceHistory.create).not.toHaveBeenCalled();
+    });
 
-      expect(mockPrismaRebalanceHistory.create).toHaveBeenCalledWith({
-        data: expect.objectContaining({
-          type: 'REBALANCE',
-          fromAsset: mockRebalanceProposal.sellAssets[0],
-          toAsset: mockRebalanceProposal.buyAssets[0],
-        }),
+    it('should propose through the Safe Transaction Service when configured', async () => {
+      const safeTxHash = `0x${'ab'.repeat(32)}`;
+      mockSafeService.isSafeServiceConfigured.mockReturnValue(true);
+      mockSafeService.proposeSafeTransaction.mockResolvedValueOnce({ safeTxHash, nonce: 7n });
+
+      const result = await submitToGnosisSafe(mockRebalanceProposal);
+
+      expect(mockSafeService.proposeSafeTransaction).toHaveBeenCalledWith({
+        to: process.env.PNGY_VAULT_ADDRESS,
+        data: result.transactionData,
+        safeTxGas: mockRebalanceProposal.estimatedGas,
       });
+      expect(result.safeTxHash).toBe(safeTxHash);
+      expect(result.nonce).toBe(7n);
+      expect(mockPrismaRebalanceHistory.create).not.toHaveBeenCalled();
     });
 
     it('should throw error when vault address not configured', async () => {
@@ -328,6 +422,60 @@ describe('RebalanceEngine', () => {
       expect(result?.maxDeviation).toBe(7);
       expect(result?.sellAssets).toHaveLength(1);
       expect(result?.buyAssets).toHaveLength(1);
+      expect(result?.allocationAssets).toEqual(mockAssetData.map((a) => a.token));
+      expect(result?.strategy).toBe('onchain');
+    });
+
+    it('should flag price drift once the sync has stored the vault targets', async () => {
+      // After an asset sync the allocation column holds the vault targets (40/30/30),
+      // while prices have moved holdings to 60/20/20
+      mockPrismaAssetAllocation.findMany.mockResolvedValue([
+        { ...mockAssetAllocations[0], valueUsd: BigInt('1500000000000000000000') },
+        { ...mockAssetAllocations[1], valueUsd: BigInt('500000000000000000000') },
+        { ...mockAssetAllocations[2], valueUsd: BigInt('500000000000000000000') },
+      ]);
+
+      mockReadContract
+        .mockResolvedValueOnce([
+          { token: mockAssetData[0].token, targetAllocation: 4000n, allocationDelta: -2000n },
+          { token: mockAssetData[1].token, targetAllocation: 3000n, allocationDelta: 1000n },
+          { token: mockAssetData[2].token, targetAllocation: 3000n, allocationDelta: 1000n },
+        ])
+        .mockResolvedValueOnce([true, 2000n])
+        .mockResolvedValueOnce([
+          { token: mockAssetData[0].token, isBuy: false, amount: 500n, usdValue: 500n },
+          { token: mockAssetData[1].token, isBuy: true, amount: 250n, usdValue: 250n },
+          { token: mockAssetData[2].token, isBuy: true, amount: 250n, usdValue: 250n },
+        ]);
+
+      const result = await createRebalanceProposal();
+
+      const checkCall = mockReadContract.mock.calls[1][0];
+      expect(checkCall.functionName).toBe('isRebalanceNeeded');
+      expect(checkCall.args[0].map((a: AssetData) => a.currentAllocation)).toEqual([
+        6000n,
+        2000n,
+        2000n,
+      ]);
+      expect(checkCall.args[1]).toEqual([4000n, 3000n, 3000n]);
+      expect(result?.maxDeviation).toBe(20);
+    });
+
+    it('should use the configured off-chain strategy', async () => {
+      process.env.REBALANCE_ALLOCATION_STRATEGY = 'equal-weight';
+      mockPrismaAssetAllocation.findMany.mockResolvedValue(mockAssetAllocations);
+
+      mockReadContract.mockResolvedValueOnce([true, 700n]).mockResolvedValueOnce([
+        { token: mockAssetData[0].token, isBuy: false, amount: 100n, usdValue: 100n },
+        { token: mockAssetData[1].token, isBuy: true, amount: 100n, usdValue: 100n },
+      ]);
+
+      const result = await createRebalanceProposal();
+      delete process.env.REBALANCE_ALLOCATION_STRATEGY;
+
+      expect(result?.strategy).toBe('equal-weight');
+      expect(result?.newAllocations).toEqual([3334n, 3333n, 3333n]);
+      expect(mockReadContract.mock.calls[0][0].functionName).toBe('isRebalanceNeeded');
     });
   });
 
@@ -354,7 +502,11 @@ describe('RebalanceEngine', () => {
 
     it('should create proposal and submit to Gnosis Safe when rebalance needed', async () => {
       mockPrismaAssetAllocation.findMany.mockResolvedValue(mockAssetAllocations);
-      mockPrismaRebalanceHistory.create.mockResolvedValue({});
+      mockSafeService.isSafeServiceConfigured.mockReturnValue(true);
+      mockSafeService.proposeSafeTransaction.mockResolvedValueOnce({
+        safeTxHash: `0x${'cd'.repeat(32)}`,
+        nonce: 3n,
+      });
 
       mockReadContract
         .mockResolvedValueOnce([
@@ -368,12 +520,46 @@ describe('RebalanceEngine', () => {
           { token: mockAssetData[1].token, isBuy: true, amount: 100n, usdValue: 100n },
         ]);
 
+      mockProposalService.createProposalDraft.mockResolvedValueOnce('proposal-1');
+
       const result = await executeRebalanceCheck();
 
       expect(result.checked).toBe(true);
       expect(result.proposalCreated).toBe(true);
       expect(result.proposal).not.toBeNull();
-      expect(mockPrismaRebalanceHistory.create).toHaveBeenCalled();
+      expect(result.proposalId).toBe('proposal-1');
+      expect(mockSafeService.proposeSafeTransaction).toHaveBeenCalledTimes(1);
+      expect(mockProposalService.createProposalDraft).toHaveBeenCalledWith(
+        expect.objectContaining({ vaultAddress: process.env.PNGY_VAULT_ADDRESS })
+      );
+      expect(mockProposalService.markProposalProposed).toHaveBeenCalledWith('proposal-1', {
+        safeTxHash: `0x${'cd'.repeat(32)}`,
+        nonce: 3n,
+      });
+    });
+
+    it('should leave the proposal as a draft when the Safe service is not configured', async () => {
+      mockPrismaAssetAllocation.findMany.mockResolvedValue(mockAssetAllocations);
+      mockSafeService.isSafeServiceConfigured.mockReturnValue(false);
+      mockProposalService.createProposalDraft.mockResolvedValueOnce('proposal-2');
+
+      mockReadContract
+        .mockResolvedValueOnce([
+          { token: mockAssetData[0].token, targetAllocation: 3500n, allocationDelta: -500n },
+          { token: mockAssetData[1].token, targetAllocation: 3500n, allocationDelta: 500n },
+          { token: mockAssetData[2].token, targetAllocation: 3000n, allocationDelta: 0n },
+        ])
+        .mockResolvedValueOnce([true, 700n])
+        .mockResolvedValueOnce([
+          { token: mockAssetData[0].token, isBuy: false, amount: 100n, usdValue: 100n },
+          { token: mockAssetData[1].token, isBuy: true, amount: 100n, usdValue: 100n },
+        ]);
+
+      const result = await executeRebalanceCheck();
+
+      expect(result.proposalCreated).toBe(true);
+      expect(result.proposalId).toBe('proposal-2');
+      expect(mockProposalService.markProposalProposed).not.toHaveBeenCalled();
     });
 
     it('should handle errors gracefully', async () => {
@@ -391,7 +577,7 @@ describe('RebalanceEngine', () => {
       const mockHistory = [
         {
           id: '1',
-          txHash: 'pending-123',
+          txHash: '0xdef456',
           type: 'REBALANCE',
           fromAsset: '0x111',
           toAsset: '0x222',
@@ -411,6 +597,7 @@ describe('RebalanceEngine', () => {
         },
       ];
       mockPrismaRebalanceHistory.findMany.mockResolvedValue(mockHistory);
+      mockProposalService.countOpenProposals.mockResolvedValueOnce(1);
 
       const result = await getRebalanceStatus();
 
@@ -421,6 +608,7 @@ describe('RebalanceEngine', () => {
 
     it('should return null lastCheck when no history', async () => {
       mockPrismaRebalanceHistory.findMany.mockResolvedValue([]);
+      mockProposalService.countOpenProposals.mockResolvedValueOnce(0);
 
       const result = await getRebalanceStatus();
 
@@ -472,16 +660,11 @@ describe('RebalanceEngine - Edge Cases', () => {
       sellAmounts: [],
     };
 
-    mockPrismaRebalanceHistory.create.mockResolvedValue({});
+    mockSafeService.isSafeServiceConfigured.mockReturnValue(false);
 
     const result = await submitToGnosisSafe(proposalWithNoSells);
 
-    expect(result.transactionData).toMatch(/^0x/);
-    expect(mockPrismaRebalanceHistory.create).toHaveBeenCalledWith({
-      data: expect.objectContaining({
-        fromAsset: '0x0000000000000000000000000000000000000000',
-      }),
-    });
+    expect(result.transactionData).toBe(encodeRebalanceTransaction(proposalWithNoSells));
   });
 
   it('should handle proposal with no buy assets', async () => {
@@ -491,15 +674,10 @@ describe('RebalanceEngine - Edge Cases', () => {
       buyAmounts: [],
     };
 
-    mockPrismaRebalanceHistory.create.mockResolvedValue({});
+    mockSafeService.isSafeServiceConfigured.mockReturnValue(false);
 
     const result = await submitToGnosisSafe(proposalWithNoBuys);
 
-    expect(result.transactionData).toMatch(/^0x/);
-    expect(mockPrismaRebalanceHistory.create).toHaveBeenCalledWith({
-      data: expect.objectContaining({
-        toAsset: '0x0000000000000000000000000000000000000000',
-      }),
-    });
+    expect(result.transactionData).toBe(encodeRebalanceTransaction(proposalWithNoBuys));
   });
 });
@@ -0,0 +1,364 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import type { Address } from 'viem';
+
+// =============================================================================
+// Mock Setup - Must be before imports
+// =============================================================================
+
+const { mockPrisma, mockSafeService } = vi.hoisted(() => ({
+  mockPrisma: {
+    rebalanceProposal: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      count: vi.fn(),
+    },
+  },
+  mockSafeService: {
+    isSafeServiceConfigured: vi.fn(),
+    getSafeServiceClient: vi.fn(),
+    syncSafeTransaction: vi.fn(),
+  },
+}));
+
+vi.mock('../services/database', () => ({
+  prisma: mockPrisma,
+}));
+
+vi.mock('../services/safeService', () => mockSafeService);
+
+// Import after mock setup
+import {
+  canTransition,
+  resolveProposalStatus,
+  transitionProposal,
+  createProposalDraft,
+  syncProposalStatuses,
+  getProposals,
+  InvalidProposalTransitionError,
+} from '../services/rebalanceProposalService';
+import { rebalanceRoutes } from '../routes/rebalance';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const SAFE_TX_HASH = `0x${'ab'.repeat(32)}`;
+const TOKEN_A = '0x1111111111111111111111111111111111111111' as Address;
+const TOKEN_B = '0x2222222222222222222222222222222222222222' as Address;
+const TOKEN_C = '0x3333333333333333333333333333333333333333' as Address;
+
+function safeTx(overrides: Record<string, unknown> = {}) {
+  return {
+    nonce: 7n,
+    confirmations: 1,
+    confirmationsRequired: 2,
+    isExecuted: false,
+    isSuccessful: null,
+    executionTxHash: null,
+    executedAt: null,
+    ...overrides,
+  };
+}
+
+function proposalRow(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    status: 'PROPOSED',
+    statusReason: null,
+    vaultAddress: '0x4444444444444444444444444444444444444444',
+    callData: '0xdeadbeef',
+    targetAllocations: [
+      { token: TOKEN_A, allocation: 5000 },
+      { token: TOKEN_B, allocation: 5000 },
+    ],
+    totalValue: '1000',
+    maxDeviation: '6.5',
+    estimatedGas: '500000',
+    safeTxHash: SAFE_TX_HASH,
+    nonce: 7n,
+    expiresAt: new Date('2025-12-04T00:00:00Z'),
+    proposedAt: new Date('2025-12-01T00:00:00Z'),
+    confirmedAt: null,
+    executedAt: null,
+    createdAt: new Date('2025-12-01T00:00:00Z'),
+    updatedAt: new Date('2025-12-01T00:00:00Z'),
+    legs: [
+      { side: 'BUY', legIndex: 0, token: TOKEN_B, amount: '200' },
+      { side: 'SELL', legIndex: 0, token: TOKEN_A, amount: '100' },
+      { side: 'SELL', legIndex: 1, token: TOKEN_C, amount: '50' },
+    ],
+    safeTransaction: safeTx(),
+    ...overrides,
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('RebalanceProposalService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.rebalanceProposal.updateMany.mockResolvedValue({ count: 0 });
+  });
+
+  describe('state machine', () => {
+    it('should allow the forward lifecycle', () => {
+      expect(canTransition('DRAFT', 'PROPOSED')).toBe(true);
+      expect(canTransition('PROPOSED', 'CONFIRMED')).toBe(true);
+      expect(canTransition('CONFIRMED', 'EXECUTED')).toBe(true);
+      expect(canTransition('EXPIRED', 'EXECUTED')).toBe(true);
+    });
+
+    it('should not leave terminal states', () => {
+      expect(canTransition('EXECUTED', 'REJECTED')).toBe(false);
+      expect(canTransition('REJECTED', 'EXECUTED')).toBe(false);
+      expect(canTransition('CONFIRMED', 'PROPOSED')).toBe(false);
+    });
+
+    it('should reject invalid transitions', async () => {
+      mockPrisma.rebalanceProposal.findUnique.mockResolvedValueOnce({ status: 'EXECUTED' });
+
+      await expect(transitionProposal('p1', 'EXPIRED')).rejects.toBeInstanceOf(
+        InvalidProposalTransitionError
+      );
+      expect(mockPrisma.rebalanceProposal.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveProposalStatus', () => {
+    it('should confirm once the threshold is reached', () => {
+      expect(resolveProposalStatus('PROPOSED', safeTx({ confirmations: 2 }), 7n)).toEqual({
+        status: 'CONFIRMED',
+      });
+    });
+
+    it('should mark successful execution as executed', () => {
+      expect(
+        resolveProposalStatus('CONFIRMED', safeTx({ isExecuted: true, isSuccessful: true }), 8n)
+      ).toEqual({ status: 'EXECUTED' });
+    });
+
+    it('should reject when the Safe execution failed', () => {
+      expect(
+        resolveProposalStatus('CONFIRMED', safeTx({ isExecuted: true, isSuccessful: false }), 8n)
+          .status
+      ).toBe('REJECTED');
+    });
+
+    it('should reject when another transaction used the nonce', () => {
+      expect(resolveProposalStatus('PROPOSED', safeTx(), 8n)).toEqual({
+        status: 'REJECTED',
+        reason: 'Safe nonce 7 used by another transaction',
+      });
+    });
+  });
+
+  describe('createProposalDraft', () => {
+    it('should store every leg and target allocation', async () => {
+      mockPrisma.rebalanceProposal.create.mockResolvedValueOnce({ id: 'p1' });
+
+      const id = await createProposalDraft({
+        proposal: {
+          sellAssets: [TOKEN_A, TOKEN_C],
+          sellAmounts: [100n, 50n],
+          buyAssets: [TOKEN_B],
+          buyAmounts: [200n],
+          newAllocations: [4000n, 6000n, 0n],
+          allocationAssets: [TOKEN_A, TOKEN_B, TOKEN_C],
+          totalValue: 1000n,
+          maxDeviation: 6.5,
+          estimatedGas: 500000n,
+          strategy: 'risk-parity',
+        },
+        vaultAddress: '0x4444444444444444444444444444444444444444',
+        callData: '0xdeadbeef',
+      });
+
+      expect(id).toBe('p1');
+      const { data } = mockPrisma.rebalanceProposal.create.mock.calls[0][0];
+      expect(data.legs.create).toEqual([
+        { side: 'SELL', legIndex: 0, token: TOKEN_A, amount: '100' },
+        { side: 'SELL', legIndex: 1, token: TOKEN_C, amount: '50' },
+        { side: 'BUY', legIndex: 0, token: TOKEN_B, amount: '200' },
+      ]);
+      expect(data.targetAllocations).toEqual([
+        { token: TOKEN_A, allocation: 4000 },
+        { token: TOKEN_B, allocation: 6000 },
+        { token: TOKEN_C, allocation: 0 },
+      ]);
+      expect(data.callData).toBe('0xdeadbeef');
+      expect(data.strategy).toBe('risk-parity');
+      expect(data.estimatedGas).toBe('500000');
+      expect(data.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('syncProposalStatuses', () => {
+    beforeEach(() => {
+      mockSafeService.isSafeServiceConfigured.mockReturnValue(true);
+      mockSafeService.getSafeServiceClient.mockReturnValue({
+        getSafeInfo: vi.fn().mockResolvedValue({ nonce: 7n }),
+      });
+    });
+
+    it('should advance proposals from their Safe transactions', async () => {
+      const executedAt = new Date('2025-12-02T00:00:00Z');
+      mockPrisma.rebalanceProposal.findMany.mockResolvedValueOnce([
+        proposalRow('p1', { safeTransaction: safeTx({ confirmations: 2 }) }),
+        proposalRow('p2', {
+          status: 'CONFIRMED',
+          safeTransaction: safeTx({ nonce: 6n, isExecuted: true, executedAt }),
+        }),
+        proposalRow('p3'),
+      ]);
+      mockPrisma.rebalanceProposal.findUnique
+        .mockResolvedValueOnce({ status: 'PROPOSED' })
+        .mockResolvedValueOnce({ status: 'CONFIRMED' });
+
+      const result = await syncProposalStatuses();
+
+      expect(result.updated).toBe(2);
+      expect(mockPrisma.rebalanceProposal.update).toHaveBeenCalledWith({
+        where: { id: 'p1' },
+        data: expect.objectContaining({ status: 'CONFIRMED' }),
+      });
+      expect(mockPrisma.rebalanceProposal.update).toHaveBeenCalledWith({
+        where: { id: 'p2' },
+        data: expect.objectContaining({ status: 'EXECUTED', executedAt }),
+      });
+    });
+
+    it('should re-check a proposal whose nonce was passed before rejecting it', async () => {
+      mockSafeService.getSafeServiceClient.mockReturnValue({
+        getSafeInfo: vi.fn().mockResolvedValue({ nonce: 8n }),
+      });
+      mockPrisma.rebalanceProposal.findMany.mockResolvedValueOnce([proposalRow('p1')]);
+      mockSafeService.syncSafeTransaction.mockResolvedValueOnce(
+        safeTx({ isExecuted: true, isSuccessful: true })
+      );
+      mockPrisma.rebalanceProposal.findUnique.mockResolvedValueOnce({ status: 'PROPOSED' });
+
+      await syncProposalStatuses();
+
+      expect(mockSafeService.syncSafeTransaction).toHaveBeenCalledWith(SAFE_TX_HASH);
+      expect(mockPrisma.rebalanceProposal.update).toHaveBeenCalledWith({
+        where: { id: 'p1' },
+        data: expect.objectContaining({ status: 'EXECUTED' }),
+      });
+    });
+
+    it('should expire open proposals past their expiry', async () => {
+      mockPrisma.rebalanceProposal.findMany.mockResolvedValueOnce([]);
+      mockPrisma.rebalanceProposal.updateMany.mockResolvedValueOnce({ count: 2 });
+
+      const result = await syncProposalStatuses();
+
+      expect(result.expired).toBe(2);
+      expect(mockPrisma.rebalanceProposal.updateMany).toHaveBeenCalledWith({
+        where: {
+          status: { in: ['DRAFT', 'PROPOSED', 'CONFIRMED'] },
+          expiresAt: { lt: expect.any(Date) },
+        },
+        data: { status: 'EXPIRED', statusReason: 'Not executed before expiry' },
+      });
+    });
+  });
+
+  describe('getProposals', () => {
+    it('should return the next cursor when there are more rows', async () => {
+      mockPrisma.rebalanceProposal.findMany.mockResolvedValueOnce([
+        proposalRow('p3'),
+        proposalRow('p2'),
+        proposalRow('p1'),
+      ]);
+
+      const result = await getProposals({ limit: 2, status: 'PROPOSED' });
+
+      expect(mockPrisma.rebalanceProposal.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { status: 'PROPOSED' }, take: 3 })
+      );
+      expect(result.proposals.map((p) => p.id)).toEqual(['p3', 'p2']);
+      expect(result.nextCursor).toBe('p2');
+    });
+  });
+});
+
+describe('Rebalance Routes', () => {
+  let server: FastifyInstance;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    server = Fastify();
+    await server.register(rebalanceRoutes, { prefix: '/api' });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should list proposals with pagination', async () => {
+    mockPrisma.rebalanceProposal.findMany.mockResolvedValueOnce([proposalRow('p1')]);
+
+    const response = await server.inject({
+      method: 'GET',
+      url: '/api/rebalance/proposals?status=PROPOSED&limit=5',
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.data).toHaveLength(1);
+    expect(body.pagination).toEqual({ limit: 5, nextCursor: null, hasMore: false });
+  });
+
+  it('should reject an unknown status filter', async () => {
+    const response = await server.inject({
+      method: 'GET',
+      url: '/api/rebalance/proposals?status=PENDING',
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('should return a proposal with all legs', async () => {
+    mockPrisma.rebalanceProposal.findUnique.mockResolvedValueOnce(proposalRow('p1'));
+
+    const response = await server.inject({ method: 'GET', url: '/api/rebalance/proposals/p1' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().data).toMatchObject({
+      id: 'p1',
+      status: 'PROPOSED',
+      sells: [
+        { token: TOKEN_A, amount: '100' },
+        { token: TOKEN_C, amount: '50' },
+      ],
+      buys: [{ token: TOKEN_B, amount: '200' }],
+      maxDeviation: 6.5,
+      nonce: '7',
+      confirmations: 1,
+      confirmationsRequired: 2,
+    });
+  });
+
+  it('should return 404 for an unknown proposal', async () => {
+    mockPrisma.rebalanceProposal.findUnique.mockResolvedValueOnce(null);
+
+    const response = await server.inject({ method: 'GET', url: '/api/rebalance/proposals/nope' });
+
+    expect(response.statusCode).toBe(404);
+    expect(response.json()).toEqual({ success: false, error: 'Rebalance proposal not found' });
+  });
+
+  it('should return 500 when the database fails', async () => {
+    mockPrisma.rebalanceProposal.findMany.mockRejectedValueOnce(new Error('Database error'));
+
+    const response = await server.inject({ method: 'GET', url: '/api/rebalance/proposals' });
+
+    expect(response.statusCode).toBe(500);
+  });
+});
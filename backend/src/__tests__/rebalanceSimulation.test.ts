@@ -0,0 +1,466 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { encodeFunctionResult, type Address } from 'viem';
+
+// =============================================================================
+// Hoisted Mocks - Available during module load
+// =============================================================================
+
+const {
+  mockReadContract,
+  mockCall,
+  mockGetBlockNumber,
+  mockPrismaAssetAllocation,
+  mockIsVaultAdmin,
+} = vi.hoisted(() => ({
+  mockReadContract: vi.fn(),
+  mockCall: vi.fn(),
+  mockGetBlockNumber: vi.fn(),
+  mockPrismaAssetAllocation: {
+    findMany: vi.fn(),
+  },
+  mockIsVaultAdmin: vi.fn(),
+}));
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+vi.mock('viem', async () => {
+  const actual = await vi.importActual('viem');
+  return {
+    ...actual,
+    createPublicClient: vi.fn(() => ({
+      readContract: mockReadContract,
+      call: mockCall,
+      getBlockNumber: mockGetBlockNumber,
+      estimateGas: vi.fn(),
+    })),
+  };
+});
+
+vi.mock('../services/database', () => ({
+  prisma: {
+    assetAllocation: mockPrismaAssetAllocation,
+  },
+}));
+
+vi.mock('../services/safeService', () => ({}));
+vi.mock('../services/rebalanceProposalService', () => ({
+  REBALANCE_PROPOSAL_STATUSES: [
+    'DRAFT',
+    'PROPOSED',
+    'CONFIRMED',
+    'EXECUTED',
+    'EXPIRED',
+    'REJECTED',
+  ],
+  getProposals: vi.fn(),
+  getProposalById: vi.fn(),
+}));
+vi.mock('../jobs/notificationQueue', () => ({
+  addBroadcastNotificationJob: vi.fn(),
+}));
+vi.mock('../services/authService', async () => {
+  const actual =
+    await vi.importActual<typeof import('../services/authService')>('../services/authService');
+  return {
+    ...actual,
+    isVaultAdmin: (address: string) => mockIsVaultAdmin(address),
+  };
+});
+
+// =============================================================================
+// Imports (after mocks)
+// =============================================================================
+
+import { simulateRebalance, SimulationInputError } from '../services/rebalanceSimulationService';
+import { rebalanceRoutes } from '../routes/rebalance';
+import { createSessionToken } from '../services/authService';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const ONE = 10n ** 18n;
+const TOKEN_A = '0x1111111111111111111111111111111111111111' as Address;
+const TOKEN_B = '0x2222222222222222222222222222222222222222' as Address;
+const TOKEN_C = '0x3333333333333333333333333333333333333333' as Address;
+const ORACLE = '0x7777777777777777777777777777777777777777' as Address;
+const SAFE = '0x6666666666666666666666666666666666666666';
+const ADMIN_ADDRESS = '0x9999999999999999999999999999999999999999';
+
+const PRICES: Record<string, bigint> = {
+  [TOKEN_A]: ONE,
+  [TOKEN_B]: 2n * ONE,
+  [TOKEN_C]: ONE,
+};
+
+const REBALANCE_RESULT_ABI = [
+  {
+    name: 'rebalanceWithNewAllocations',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [],
+    outputs: [
+      { name: 'sellReceived', type: 'uint256[]' },
+      { name: 'buyReceived', type: 'uint256[]' },
+    ],
+  },
+] as const;
+
+const assetAllocations = [
+  { tokenAddress: TOKEN_A, allocation: 0.4, valueUsd: 1000n * ONE, apy: 5.5, isActive: true },
+  { tokenAddress: TOKEN_B, allocation: 0.3, valueUsd: 750n * ONE, apy: 7.2, isActive: true },
+  { tokenAddress: TOKEN_C, allocation: 0.3, valueUsd: 750n * ONE, apy: 4.8, isActive: true },
+];
+
+function mockChainReads() {
+  mockReadContract.mockImplementation(
+    ({ functionName, args }: { functionName: string; args?: unknown[] }) => {
+      switch (functionName) {
+        case 'calculateOptimalAllocation':
+          return Promise.resolve([
+            { token: TOKEN_A, targetAllocation: 3500n, allocationDelta: -500n },
+            { token: TOKEN_B, targetAllocation: 4000n, allocationDelta: 1000n },
+            { token: TOKEN_C, targetAllocation: 2500n, allocationDelta: -500n },
+          ]);
+        case 'generateRebalanceTx':
+          return Promise.resolve([
+            { token: TOKEN_A, isBuy: false, amount: 125n * ONE, usdValue: 125n * ONE },
+            { token: TOKEN_B, isBuy: true, amount: 250n * ONE, usdValue: 250n * ONE },
+            { token: TOKEN_C, isBuy: false, amount: 125n * ONE, usdValue: 125n * ONE },
+          ]);
+        case 'oracleAdapter':
+          return Promise.resolve(ORACLE);
+        case 'getPrice':
+          return Promise.resolve(PRICES[args![0] as string]);
+        default:
+          return Promise.reject(new Error(`Unexpected call ${functionName}`));
+      }
+    }
+  );
+}
+
+function authHeader(address: string, role: 'user' | 'admin' = 'admin') {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const token = createSessionToken({ address, role, issuedAt, expiresAt: issuedAt + 3600 });
+  return { authorization: `Bearer ${token}` };
+}
+
+function mockCallResult(sellReceived: bigint[], buyReceived: bigint[]) {
+  mockCall.mockResolvedValueOnce({
+    data: encodeFunctionResult({
+      abi: REBALANCE_RESULT_ABI,
+      functionName: 'rebalanceWithNewAllocations',
+      result: [sellReceived, buyReceived],
+    }),
+  });
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('RebalanceSimulationService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.PNGY_VAULT_ADDRESS = '0x4444444444444444444444444444444444444444';
+    process.env.REBALANCE_STRATEGY_ADDRESS = '0x5555555555555555555555555555555555555555';
+    process.env.GNOSIS_SAFE_ADDRESS = SAFE;
+    mockPrismaAssetAllocation.findMany.mockResolvedValue(assetAllocations);
+    mockGetBlockNumber.mockResolvedValue(1234n);
+    mockChainReads();
+  });
+
+  afterEach(() => {
+    delete process.env.PNGY_VAULT_ADDRESS;
+    delete process.env.REBALANCE_STRATEGY_ADDRESS;
+    delete process.env.GNOSIS_SAFE_ADDRESS;
+  });
+
+  it('should simulate the strategy optimum from the Safe at a pinned block', async () => {
+    mockCallResult([124n * ONE, 125n * ONE], [123n * ONE]);
+
+    const result = await simulateRebalance();
+
+    expect(mockCall).toHaveBeenCalledWith(
+      expect.objectContaining({
+        account: SAFE,
+        to: process.env.PNGY_VAULT_ADDRESS,
+        data: result.callData,
+        blockNumber: 1234n,
+      })
+    );
+    expect(result.execution).toEqual({ success: true, revertReason: null });
+    expect(result.blockNumber).toBe('1234');
+    expect(result.strategy).toBe('onchain');
+
+    expect(result.sells).toEqual([
+      {
+        token: TOKEN_A,
+        amount: (125n * ONE).toString(),
+        expectedOut: (125n * ONE).toString(),
+        simulatedOut: (124n * ONE).toString(),
+        slippageBps: 80,
+      },
+      {
+        token: TOKEN_C,
+        amount: (125n * ONE).toString(),
+        expectedOut: (125n * ONE).toString(),
+        simulatedOut: (125n * ONE).toString(),
+        slippageBps: 0,
+      },
+    ]);
+    // 250 USDT buys 125 tokens at $2; 123 were received
+    expect(result.buys[0]).toMatchObject({
+      expectedOut: (125n * ONE).toString(),
+      simulatedOut: (123n * ONE).toString(),
+      slippageBps: 160,
+    });
+  });
+
+  it('should report weights and deviation before and after the trades', async () => {
+    mockCallResult([124n * ONE, 125n * ONE], [123n * ONE]);
+
+    const result = await simulateRebalance();
+
+    expect(result.assets.map((a) => [a.weightBefore, a.weightAfter, a.targetWeight])).toEqual([
+      [4000, 3505, 3500],
+      [3000, 3990, 4000],
+      [3000, 2504, 2500],
+    ]);
+    expect(result.assets[1].valueAfter).toBe((996n * ONE).toString());
+    expect(result.maxDeviationBefore).toBe(10);
+    expect(result.maxDeviationAfter).toBe(0.1);
+    expect(result.residualCash).toBe((-1n * ONE).toString());
+  });
+
+  it('should weigh both sides by value, counting unspent USDT after the trades', async () => {
+    // The stored allocation column holds vault targets, not current weights
+    mockPrismaAssetAllocation.findMany.mockResolvedValue(
+      assetAllocations.map((a) => ({ ...a, allocation: 0.3334 }))
+    );
+    mockCallResult([126n * ONE, 125n * ONE], [125n * ONE]);
+
+    const result = await simulateRebalance();
+
+    expect(result.residualCash).toBe(ONE.toString());
+    expect(result.assets.map((a) => [a.weightBefore, a.weightAfter])).toEqual([
+      [4000, 3498],
+      [3000, 3998],
+      [3000, 2499],
+    ]);
+    expect(result.maxDeviationBefore).toBe(10);
+    expect(result.maxDeviationAfter).toBe(0.02);
+  });
+
+  it('should use override targets instead of the strategy', async () => {
+    mockCallResult([125n * ONE, 125n * ONE], [125n * ONE]);
+
+    const result = await simulateRebalance({
+      targetAllocations: [
+        { token: TOKEN_C, allocation: 2500 },
+        { token: TOKEN_A, allocation: 3500 },
+        { token: TOKEN_B, allocation: 4000 },
+      ],
+    });
+
+    expect(result.strategy).toBe('override');
+    const functions = mockReadContract.mock.calls.map(([call]) => call.functionName);
+    expect(functions).not.toContain('calculateOptimalAllocation');
+    const generateCall = mockReadContract.mock.calls.find(
+      ([call]) => call.functionName === 'generateRebalanceTx'
+    );
+    expect(generateCall![0].args[1]).toEqual([3500n, 4000n, 2500n]);
+  });
+
+  it('should simulate the targets of an off-chain strategy', async () => {
+    mockCallResult([125n * ONE, 125n * ONE], [125n * ONE]);
+
+    const result = await simulateRebalance({ strategy: 'equal-weight' });
+
+    expect(result.strategy).toBe('equal-weight');
+    expect(result.assets.map((a) => a.targetWeight)).toEqual([3334, 3333, 3333]);
+    const functions = mockReadContract.mock.calls.map(([call]) => call.functionName);
+    expect(functions).not.toContain('calculateOptimalAllocation');
+  });
+
+  it('should reject override targets that do not cover every asset', async () => {
+    await expect(
+      simulateRebalance({ targetAllocations: [{ token: TOKEN_A, allocation: 10000 }] })
+    ).rejects.toBeInstanceOf(SimulationInputError);
+  });
+
+  it('should reject override targets above 100%', async () => {
+    await expect(
+      simulateRebalance({
+        targetAllocations: [
+          { token: TOKEN_A, allocation: 5000 },
+          { token: TOKEN_B, allocation: 5000 },
+          { token: TOKEN_C, allocation: 1000 },
+        ],
+      })
+    ).rejects.toThrow('Target allocations exceed 10000 basis points');
+  });
+
+  it('should return the revert reason and oracle-only estimates when the call reverts', async () => {
+    mockCall.mockRejectedValueOnce(
+      new Error('execution reverted: AccessControlUnauthorizedAccount')
+    );
+
+    const result = await simulateRebalance({ from: TOKEN_A });
+
+    expect(mockCall).toHaveBeenCalledWith(expect.objectContaining({ account: TOKEN_A }));
+    expect(result.execution.success).toBe(false);
+    expect(result.execution.revertReason).toContain('AccessControlUnauthorizedAccount');
+    expect(result.sells[0]).toMatchObject({ simulatedOut: null, slippageBps: null });
+    // Oracle fills: B gains 125 tokens at $2
+    expect(result.assets[1].valueAfter).toBe((1000n * ONE).toString());
+  });
+});
+
+describe('POST /api/rebalance/simulate', () => {
+  let server: FastifyInstance;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    process.env.PNGY_VAULT_ADDRESS = '0x4444444444444444444444444444444444444444';
+    process.env.REBALANCE_STRATEGY_ADDRESS = '0x5555555555555555555555555555555555555555';
+    mockPrismaAssetAllocation.findMany.mockResolvedValue(assetAllocations);
+    mockGetBlockNumber.mockResolvedValue(1234n);
+    mockChainReads();
+    mockIsVaultAdmin.mockResolvedValue(true);
+    server = Fastify();
+    await server.register(rebalanceRoutes, { prefix: '/api' });
+  });
+
+  afterEach(async () => {
+    await server.close();
+    delete process.env.PNGY_VAULT_ADDRESS;
+    delete process.env.REBALANCE_STRATEGY_ADDRESS;
+  });
+
+  it('should return the simulation', async () => {
+    mockCallResult([124n * ONE, 125n * ONE], [123n * ONE]);
+
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/rebalance/simulate',
+      headers: authHeader(ADMIN_ADDRESS),
+    });
+
+    expect(response.statusCode).toBe(200);
+    const { data } = response.json();
+    expect(data.execution.success).toBe(true);
+    expect(data.sells).toHaveLength(2);
+    expect(data.assets[0]).toMatchObject({ token: TOKEN_A, weightBefore: 4000 });
+  });
+
+  it('should return 400 for invalid override targets', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/rebalance/simulate',
+      headers: authHeader(ADMIN_ADDRESS),
+      payload: { targetAllocations: [{ token: TOKEN_A, allocation: 10000 }] },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error).toBe(`Missing target allocation for ${TOKEN_B}`);
+  });
+
+  it('should validate the request body', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/rebalance/simulate',
+      headers: authHeader(ADMIN_ADDRESS),
+      payload: { targetAllocations: [{ token: 'not-an-address', allocation: 20000 }] },
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('should require a signed-in wallet', async () => {
+    const response = await server.inject({ method: 'POST', url: '/api/rebalance/simulate' });
+
+    expect(response.statusCode).toBe(401);
+    expect(mockGetBlockNumber).not.toHaveBeenCalled();
+  });
+
+  it('should reject a wallet without the admin role', async () => {
+    mockIsVaultAdmin.mockResolvedValueOnce(false);
+
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/rebalance/simulate',
+      headers: authHeader('0x1234567890123456789012345678901234567890', 'user'),
+    });
+
+    expect(response.statusCode).toBe(403);
+    expect(mockGetBlockNumber).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 when the chain cannot be read', async () => {
+    mockGetBlockNumber.mockRejectedValueOnce(new Error('RPC down'));
+
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/rebalance/simulate',
+      headers: authHeader(ADMIN_ADDRESS),
+    });
+
+    expect(response.statusCode).toBe(500);
+  });
+});
+
+describe('GET /api/rebalance/strategies', () => {
+  let server: FastifyInstance;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    process.env.REBALANCE_STRATEGY_ADDRESS = '0x5555555555555555555555555555555555555555';
+    mockPrismaAssetAllocation.findMany.mockResolvedValue(assetAllocations);
+    mockChainReads();
+    server = Fastify();
+    await server.register(rebalanceRoutes, { prefix: '/api' });
+  });
+
+  afterEach(async () => {
+    await server.close();
+    delete process.env.REBALANCE_STRATEGY_ADDRESS;
+  });
+
+  it('should return the targets of every strategy side by side', async () => {
+    const response = await server.inject({ method: 'GET', url: '/api/rebalance/strategies' });
+
+    expect(response.statusCode).toBe(200);
+    const { data } = response.json();
+    expect(data.activeStrategy).toBe('onchain');
+    expect(data.assets[1]).toEqual({ token: TOKEN_B, currentAllocation: 3000, apy: 720 });
+
+    const byName = Object.fromEntries(
+      data.strategies.map((s: { strategy: string }) => [s.strategy, s])
+    );
+    expect(
+      byName.onchain.allocations.map((a: { targetAllocation: number }) => a.targetAllocation)
+    ).toEqual([3500, 4000, 2500]);
+    expect(byName['equal-weight'].allocations[0]).toEqual({
+      token: TOKEN_A,
+      targetAllocation: 3334,
+      allocationDelta: -666,
+    });
+    expect(byName['apy-weighted'].error).toBeNull();
+  });
+
+  it('should report a strategy that cannot run instead of failing', async () => {
+    mockReadContract.mockRejectedValue(new Error('RPC down'));
+
+    const response = await server.inject({ method: 'GET', url: '/api/rebalance/strategies' });
+
+    expect(response.statusCode).toBe(200);
+    const onchain = response
+      .json()
+      .data.strategies.find((s: { strategy: string }) => s.strategy === 'onchain');
+    expect(onchain).toEqual({ strategy: 'onchain', allocations: null, error: 'RPC down' });
+  });
+});
@@ -69,6 +69,10 @@ Total Withdrawals (USDT),2000.000000
 Current PNGY Shares,7600.000000
 Total Yield (USDT),500.000000`;
 
+  const mockGainsCSV = `entry,date,fiscalYear,txHash,method,shares,acquiredFrom,acquiredTo,proceeds,costBasis,gain
+WITHDRAWAL,2024-01-14T08:00:00.000Z,2024,0xdef456,FIFO,475.000000,2023-06-01,2023-09-01,500.000000,480.000000,20.000000
+FISCAL_YEAR_TOTAL,,2024,,,475.000000,,,500.000000,480.000000,20.000000`;
+
   beforeAll(async () => {
     server = await buildServer();
     await server.ready();
@@ -229,6 +233,60 @@ Total Yield (USDT),500.000000`;
       expect(body.error).toContain('startDate must be before endDate');
     });
 
+    it('should export gains report as CSV', async () => {
+      vi.mocked(reportService.generateReport).mockResolvedValue(mockGainsCSV);
+      vi.mocked(reportService.getReportFilename).mockReturnValue('paimon-yield-gains-2024-01-15.csv');
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/reports/export?address=0x1234567890123456789012345678901234567890&type=gains',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.payload).toContain('FISCAL_YEAR_TOTAL');
+      expect(reportService.generateReport).toHaveBeenCalledWith(
+        expect.objectContaining({
+          reportType: 'gains',
+          fiscalYearStart: { month: 1, day: 1 },
+        })
+      );
+    });
+
+    it('should convert a fiscal year to its date range', async () => {
+      vi.mocked(reportService.generateReport).mockResolvedValue(mockGainsCSV);
+      vi.mocked(reportService.getReportFilename).mockReturnValue('test.csv');
+
+      await server.inject({
+        method: 'GET',
+        url: '/api/reports/export?address=0x1234567890123456789012345678901234567890&type=gains&fiscalYear=2024&fiscalYearStart=04-06',
+      });
+
+      const callArgs = vi.mocked(reportService.generateReport).mock.calls[0][0];
+      expect(callArgs.startDate?.toISOString()).toBe('2024-04-06T00:00:00.000Z');
+      expect(callArgs.endDate?.toISOString()).toBe('2025-04-05T23:59:59.999Z');
+      expect(callArgs.fiscalYearStart).toEqual({ month: 4, day: 6 });
+    });
+
+    it('should return 400 when fiscalYear is combined with a date range', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/reports/export?address=0x1234567890123456789012345678901234567890&fiscalYear=2024&startDate=2024-01-01',
+      });
+
+      expect(response.statusCode).toBe(400);
+      const body = JSON.parse(response.payload);
+      expect(body.error).toContain('fiscalYear');
+    });
+
+    it('should return 400 for an invalid fiscalYearStart', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/reports/export?address=0x1234567890123456789012345678901234567890&fiscalYear=2024&fiscalYearStart=02-29',
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
     it('should handle service errors gracefully', async () => {
       vi.mocked(reportService.generateReport).mockRejectedValue(new Error('Database error'));
 
@@ -270,10 +328,11 @@ Total Yield (USDT),500.000000`;
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.payload);
       expect(body.success).toBe(true);
-      expect(body.data).toHaveLength(3);
+      expect(body.data).toHaveLength(4);
       expect(body.data.map((r: { type: string }) => r.type)).toContain('transactions');
       expect(body.data.map((r: { type: string }) => r.type)).toContain('netvalue');
       expect(body.data.map((r: { type: string }) => r.type)).toContain('summary');
+      expect(body.data.map((r: { type: string }) => r.type)).toContain('gains');
     });
 
     it('should include descriptions for each report type', async () => {
@@ -0,0 +1,448 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import {
+  concat,
+  encodeAbiParameters,
+  keccak256,
+  recoverAddress,
+  toHex,
+  zeroAddress,
+  type Address,
+  type Hex,
+} from 'viem';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+vi.mock('../services/database', () => ({
+  prisma: {
+    safeTransaction: {
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+// =============================================================================
+// Imports (after mocks)
+// =============================================================================
+
+import { prisma } from '../services/database';
+import {
+  computeSafeTxHash,
+  isSafeServiceConfigured,
+  linkRebalanceExecution,
+  proposeSafeTransaction,
+  trackPendingSafeTransactions,
+  SafeServiceClient,
+  SafeServiceError,
+  type SafeTransactionData,
+} from '../services/safeService';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const SAFE_ADDRESS = '0x6666666666666666666666666666666666666666' as Address;
+const VAULT_ADDRESS = '0x4444444444444444444444444444444444444444' as Address;
+// Well-known Anvil/Hardhat test key #0
+const DELEGATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const DELEGATE_ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const BSC_TESTNET_CHAIN_ID = 97;
+
+function safeTx(overrides: Partial<SafeTransactionData> = {}): SafeTransactionData {
+  return {
+    to: VAULT_ADDRESS,
+    value: 0n,
+    data: '0x12345678',
+    operation: 0,
+    safeTxGas: 500000n,
+    baseGas: 0n,
+    gasPrice: 0n,
+    gasToken: zeroAddress,
+    refundReceiver: zeroAddress,
+    nonce: 7n,
+    ...overrides,
+  };
+}
+
+// =============================================================================
+// Mock Safe Transaction Service
+// =============================================================================
+
+interface MockSafeState {
+  nonce: number;
+  threshold: number;
+  queuedNonces: number[];
+  proposals: Array<Record<string, unknown>>;
+  transactions: Record<string, Record<string, unknown>>;
+  rejectProposals: boolean;
+}
+
+function createMockSafeService(state: MockSafeState): FastifyInstance {
+  const server = Fastify({ logger: false });
+
+  server.get('/api/v1/safes/:address/', () => ({
+    address: SAFE_ADDRESS,
+    nonce: state.nonce,
+    threshold: state.threshold,
+    owners: [SAFE_ADDRESS],
+  }));
+
+  server.get<{ Querystring: { nonce__gte: string } }>(
+    '/api/v1/safes/:address/multisig-transactions/',
+    (request) => {
+      const queued = state.queuedNonces
+        .filter((nonce) => nonce >= Number(request.query.nonce__gte))
+        .sort((a, b) => b - a);
+      return { count: queued.length, results: queued.slice(0, 1).map((nonce) => ({ nonce })) };
+    }
+  );
+
+  server.post('/api/v1/safes/:address/multisig-transactions/', (request, reply) => {
+    if (state.rejectProposals) {
+      return reply.status(422).send({ nonFieldErrors: ['Signer is not an owner or delegate'] });
+    }
+    state.proposals.push(request.body as Record<string, unknown>);
+    return reply.status(201).send();
+  });
+
+  server.get<{ Params: { safeTxHash: string } }>(
+    '/api/v1/multisig-transactions/:safeTxHash/',
+    (request, reply) => {
+      const tx = state.transactions[request.params.safeTxHash];
+      return tx ? tx : reply.status(404).send({ detail: 'Not found.' });
+    }
+  );
+
+  return server;
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('SafeService', () => {
+  let mockService: FastifyInstance;
+  let baseUrl: string;
+  let state: MockSafeState;
+
+  beforeAll(async () => {
+    state = {
+      nonce: 0,
+      threshold: 0,
+      queuedNonces: [],
+      proposals: [],
+      transactions: {},
+      rejectProposals: false,
+    };
+    mockService = createMockSafeService(state);
+    baseUrl = await mockService.listen({ port: 0, host: '127.0.0.1' });
+  });
+
+  afterAll(async () => {
+    await mockService.close();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.assign(state, {
+      nonce: 5,
+      threshold: 2,
+      queuedNonces: [],
+      proposals: [],
+      transactions: {},
+      rejectProposals: false,
+    });
+    process.env.GNOSIS_SAFE_ADDRESS = SAFE_ADDRESS;
+    process.env.SAFE_TX_SERVICE_URL = baseUrl;
+    process.env.SAFE_DELEGATE_PRIVATE_KEY = DELEGATE_KEY;
+    vi.mocked(prisma.safeTransaction.create).mockResolvedValue({} as any);
+    vi.mocked(prisma.safeTransaction.update).mockResolvedValue({} as any);
+  });
+
+  afterEach(() => {
+    delete process.env.GNOSIS_SAFE_ADDRESS;
+    delete process.env.SAFE_TX_SERVICE_URL;
+    delete process.env.SAFE_DELEGATE_PRIVATE_KEY;
+  });
+
+  describe('computeSafeTxHash', () => {
+    it('should match the Safe contract EIP-712 encoding', () => {
+      const tx = safeTx();
+
+      // Constants from Safe.sol (v1.3.0+)
+      const domainTypeHash = keccak256(
+        toHex('EIP712Domain(uint256 chainId,address verifyingContract)')
+      );
+      const safeTxTypeHash = keccak256(
+        toHex(
+          'SafeTx(address to,uint256 value,bytes data,uint8 operation,uint256 safeTxGas,uint256 baseGas,uint256 gasPrice,address gasToken,address refundReceiver,uint256 nonce)'
+        )
+      );
+      expect(domainTypeHash).toBe(
+        '0x47e79534a245952e8b16893a336b85a3d9ea9fa8c573f3d803afb92a79469218'
+      );
+      expect(safeTxTypeHash).toBe(
+        '0xbb8310d486368db6bd6f849402fdd73ad53d316b5a4b2644ad6efe0f941286d8'
+      );
+
+      const domainSeparator = keccak256(
+        encodeAbiParameters(
+          [{ type: 'bytes32' }, { type: 'uint256' }, { type: 'address' }],
+          [domainTypeHash, BigInt(BSC_TESTNET_CHAIN_ID), SAFE_ADDRESS]
+        )
+      );
+      const structHash = keccak256(
+        encodeAbiParameters(
+          [
+            { type: 'bytes32' },
+            { type: 'address' },
+            { type: 'uint256' },
+            { type: 'bytes32' },
+            { type: 'uint8' },
+            { type: 'uint256' },
+            { type: 'uint256' },
+            { type: 'uint256' },
+            { type: 'address' },
+            { type: 'address' },
+            { type: 'uint256' },
+          ],
+          [
+            safeTxTypeHash,
+            tx.to,
+            tx.value,
+            keccak256(tx.data),
+            tx.operation,
+            tx.safeTxGas,
+            tx.baseGas,
+            tx.gasPrice,
+            tx.gasToken,
+            tx.refundReceiver,
+            tx.nonce,
+          ]
+        )
+      );
+
+      expect(computeSafeTxHash(tx, SAFE_ADDRESS, BSC_TESTNET_CHAIN_ID)).toBe(
+        keccak256(concat(['0x1901', domainSeparator, structHash]))
+      );
+    });
+
+    it('should change when the nonce changes', () => {
+      expect(computeSafeTxHash(safeTx({ nonce: 1n }), SAFE_ADDRESS, 97)).not.toBe(
+        computeSafeTxHash(safeTx({ nonce: 2n }), SAFE_ADDRESS, 97)
+      );
+    });
+  });
+
+  describe('SafeServiceClient', () => {
+    it('should use the Safe nonce when nothing is queued', async () => {
+      const client = new SafeServiceClient({ baseUrl, safeAddress: SAFE_ADDRESS, chainId: 97 });
+
+      await expect(client.getNextNonce()).resolves.toBe(5n);
+    });
+
+    it('should skip nonces taken by queued proposals', async () => {
+      state.queuedNonces = [5, 6, 3];
+      const client = new SafeServiceClient({ baseUrl, safeAddress: SAFE_ADDRESS, chainId: 97 });
+
+      await expect(client.getNextNonce()).resolves.toBe(7n);
+    });
+
+    it('should map confirmations and execution status', async () => {
+      const safeTxHash = `0x${'11'.repeat(32)}` as Hex;
+      state.transactions[safeTxHash] = {
+        safeTxHash,
+        nonce: '7',
+        confirmationsRequired: 2,
+        confirmations: [{ owner: '0x1' }, { owner: '0x2' }],
+        isExecuted: true,
+        isSuccessful: true,
+        transactionHash: `0x${'22'.repeat(32)}`,
+        executionDate: '2025-12-01T00:00:00Z',
+      };
+      const client = new SafeServiceClient({ baseUrl, safeAddress: SAFE_ADDRESS, chainId: 97 });
+
+      await expect(client.getTransaction(safeTxHash)).resolves.toEqual({
+        safeTxHash,
+        nonce: 7n,
+        confirmations: 2,
+        confirmationsRequired: 2,
+        isExecuted: true,
+        isSuccessful: true,
+        transactionHash: `0x${'22'.repeat(32)}`,
+        executionDate: new Date('2025-12-01T00:00:00Z'),
+      });
+    });
+
+    it('should surface service errors with the HTTP status', async () => {
+      const client = new SafeServiceClient({ baseUrl, safeAddress: SAFE_ADDRESS, chainId: 97 });
+
+      const error = await client.getTransaction(`0x${'99'.repeat(32)}`).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(SafeServiceError);
+      expect((error as SafeServiceError).status).toBe(404);
+    });
+  });
+
+  describe('proposeSafeTransaction', () => {
+    it('should propose a delegate-signed transaction at the next free nonce', async () => {
+      state.queuedNonces = [5];
+
+      const { safeTxHash, nonce } = await proposeSafeTransaction({
+        to: VAULT_ADDRESS,
+        data: '0xabcdef',
+        safeTxGas: 500000n,
+      });
+
+      expect(nonce).toBe(6n);
+      expect(safeTxHash).toBe(
+        computeSafeTxHash(
+          safeTx({ data: '0xabcdef', nonce: 6n }),
+          SAFE_ADDRESS,
+          BSC_TESTNET_CHAIN_ID
+        )
+      );
+
+      expect(state.proposals).toHaveLength(1);
+      const proposal = state.proposals[0];
+      expect(proposal).toMatchObject({
+        to: VAULT_ADDRESS,
+        value: '0',
+        data: '0xabcdef',
+        operation: 0,
+        safeTxGas: '500000',
+        nonce: '6',
+        contractTransactionHash: safeTxHash,
+        sender: DELEGATE_ADDRESS,
+      });
+      await expect(
+        recoverAddress({ hash: safeTxHash, signature: proposal.signature as Hex })
+      ).resolves.toBe(DELEGATE_ADDRESS);
+
+      expect(prisma.safeTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          safeTxHash,
+          safeAddress: SAFE_ADDRESS,
+          to: VAULT_ADDRESS,
+          nonce: 6n,
+          proposer: DELEGATE_ADDRESS.toLowerCase(),
+          confirmationsRequired: 2,
+        }),
+      });
+    });
+
+    it('should not record a proposal the service rejected', async () => {
+      state.rejectProposals = true;
+
+      await expect(proposeSafeTransaction({ to: VAULT_ADDRESS, data: '0xabcdef' })).rejects.toThrow(
+        SafeServiceError
+      );
+      expect(prisma.safeTransaction.create).not.toHaveBeenCalled();
+    });
+
+    it('should require a delegate key', async () => {
+      delete process.env.SAFE_DELEGATE_PRIVATE_KEY;
+
+      expect(isSafeServiceConfigured()).toBe(false);
+      await expect(proposeSafeTransaction({ to: VAULT_ADDRESS, data: '0x' })).rejects.toThrow(
+        'SAFE_DELEGATE_PRIVATE_KEY not configured'
+      );
+    });
+  });
+
+  describe('trackPendingSafeTransactions', () => {
+    it('should sync confirmations and execution for pending proposals', async () => {
+      const executedHash = `0x${'33'.repeat(32)}`;
+      const pendingHash = `0x${'44'.repeat(32)}`;
+      const missingHash = `0x${'55'.repeat(32)}`;
+      state.transactions[executedHash] = {
+        safeTxHash: executedHash,
+        nonce: 5,
+        confirmationsRequired: 2,
+        confirmations: [{}, {}],
+        isExecuted: true,
+        isSuccessful: true,
+        transactionHash: `0x${'AA'.repeat(32)}`,
+        executionDate: '2025-12-01T00:00:00Z',
+      };
+      state.transactions[pendingHash] = {
+        safeTxHash: pendingHash,
+        nonce: 6,
+        confirmationsRequired: 2,
+        confirmations: [{}],
+        isExecuted: false,
+        isSuccessful: null,
+        transactionHash: null,
+        executionDate: null,
+      };
+      vi.mocked(prisma.safeTransaction.findMany).mockResolvedValueOnce([
+        { safeTxHash: executedHash },
+        { safeTxHash: pendingHash },
+        { safeTxHash: missingHash },
+      ] as any);
+
+      const result = await trackPendingSafeTransactions();
+
+      expect(result).toEqual({ checked: 3, executed: 1, failed: 1 });
+      expect(prisma.safeTransaction.update).toHaveBeenCalledWith({
+        where: { safeTxHash: executedHash },
+        data: {
+          confirmations: 2,
+          confirmationsRequired: 2,
+          isExecuted: true,
+          isSuccessful: true,
+          executionTxHash: `0x${'aa'.repeat(32)}`,
+          executedAt: new Date('2025-12-01T00:00:00Z'),
+        },
+      });
+      expect(prisma.safeTransaction.update).toHaveBeenCalledWith({
+        where: { safeTxHash: pendingHash },
+        data: expect.objectContaining({ confirmations: 1, isExecuted: false }),
+      });
+    });
+  });
+
+  describe('linkRebalanceExecution', () => {
+    it('should mark proposals executed by the rebalance transaction', async () => {
+      const timestamp = new Date('2025-12-01T00:00:00Z');
+      vi.mocked(prisma.safeTransaction.updateMany).mockResolvedValueOnce({ count: 1 });
+
+      const linked = await linkRebalanceExecution({
+        safeTxHashes: [`0x${'AB'.repeat(32)}`],
+        txHash: `0x${'CD'.repeat(32)}`,
+        blockNumber: 1234n,
+        timestamp,
+      });
+
+      expect(linked).toBe(1);
+      expect(prisma.safeTransaction.updateMany).toHaveBeenCalledWith({
+        where: { safeTxHash: { in: [`0x${'ab'.repeat(32)}`] } },
+        data: {
+          isExecuted: true,
+          isSuccessful: true,
+          executionTxHash: `0x${'cd'.repeat(32)}`,
+          executedAt: timestamp,
+          rebalanceTxHash: `0x${'cd'.repeat(32)}`,
+          rebalanceBlockNumber: 1234n,
+        },
+      });
+    });
+
+    it('should skip the database when the receipt had no Safe execution', async () => {
+      await expect(
+        linkRebalanceExecution({
+          safeTxHashes: [],
+          txHash: '0x01',
+          blockNumber: 1n,
+          timestamp: new Date(),
+        })
+      ).resolves.toBe(0);
+      expect(prisma.safeTransaction.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
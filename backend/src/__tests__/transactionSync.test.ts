@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// =============================================================================
+// Mocks - Must be defined before imports
+// =============================================================================
+
+const { mockBackfillRange } = vi.hoisted(() => ({
+  mockBackfillRange: vi.fn(),
+}));
+
+vi.mock('bullmq', () => ({
+  Worker: vi.fn(() => ({ on: vi.fn(), close: vi.fn().mockResolvedValue(undefined) })),
+  Job: vi.fn(),
+}));
+
+vi.mock('../config/redis', () => ({
+  getRedisOptions: vi.fn().mockReturnValue({ host: 'localhost', port: 6379 }),
+}));
+
+vi.mock('../services/notificationService', () => ({
+  sendNotification: vi.fn(),
+  broadcastNotification: vi.fn(),
+}));
+
+vi.mock('../services/webhookService', () => ({
+  deliverWebhook: vi.fn(),
+}));
+
+vi.mock('../services/blockchain', () => ({
+  contracts: { pngyVault: '0x1234567890123456789012345678901234567890' },
+}));
+
+vi.mock('../services/eventListener', () => ({
+  EventListener: vi.fn(() => ({ backfillRange: mockBackfillRange })),
+}));
+
+// =============================================================================
+// Imports (after mocks)
+// =============================================================================
+
+import type { Job } from 'bullmq';
+import type { BackfillOptions } from '../services/eventListener';
+import { processTransactionSyncJob } from '../jobs/workers';
+import type { TransactionSyncJobData } from '../jobs/queues';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Queued job as the worker sees it: block numbers serialized as strings,
+ * and updateData replacing job.data the way BullMQ does
+ */
+function createJob(data: Record<string, unknown>) {
+  const job = {
+    id: 'tx-sync-1',
+    data,
+    updateProgress: vi.fn().mockResolvedValue(undefined),
+    updateData: vi.fn(async (next: Record<string, unknown>) => {
+      job.data = next;
+    }),
+  };
+  return job;
+}
+
+function run(job: ReturnType<typeof createJob>) {
+  return processTransactionSyncJob(job as unknown as Job<TransactionSyncJobData>);
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('Transaction Sync Worker', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should walk the whole range as a historical sync and report progress', async () => {
+    mockBackfillRange.mockImplementation(
+      async (fromBlock: bigint, toBlock: bigint, options: BackfillOptions) => {
+        await options.onChunkProcessed?.(500n);
+        await options.onChunkProcessed?.(1000n);
+        return { fromBlock, toBlock, eventsProcessed: 7 };
+      }
+    );
+    const job = createJob({ fromBlock: '1', toBlock: '1000', eventType: 'all', historical: true });
+
+    const result = await run(job);
+
+    expect(mockBackfillRange).toHaveBeenCalledWith(
+      1n,
+      1000n,
+      expect.objectContaining({ eventType: 'all', historical: true })
+    );
+    expect(job.updateProgress.mock.calls).toEqual([[50], [100]]);
+    expect(result).toMatchObject({ success: true, blocksProcessed: 1000, eventsProcessed: 7 });
+  });
+
+  it('should resume a retried job at the first block it has not applied', async () => {
+    mockBackfillRange
+      .mockImplementationOnce(async (_from: bigint, _to: bigint, options: BackfillOptions) => {
+        await options.onChunkProcessed?.(400n);
+        throw new Error('RPC timeout');
+      })
+      .mockImplementationOnce(async (fromBlock: bigint, toBlock: bigint) => ({
+        fromBlock,
+        toBlock,
+        eventsProcessed: 3,
+      }));
+    const job = createJob({ fromBlock: '1', toBlock: '1000', eventType: 'all', historical: true });
+
+    await expect(run(job)).rejects.toThrow('RPC timeout');
+    expect(job.data.resumeFromBlock).toBe('401');
+
+    // BullMQ retries the same job with the data saved by the failed attempt
+    await run(job);
+
+    expect(mockBackfillRange).toHaveBeenCalledTimes(2);
+    expect(mockBackfillRange.mock.calls[1].slice(0, 2)).toEqual([401n, 1000n]);
+  });
+
+  it('should not record progress for a chunk that failed', async () => {
+    mockBackfillRange.mockRejectedValueOnce(new Error('RPC timeout'));
+    const job = createJob({ fromBlock: '1', toBlock: '1000', eventType: 'all', historical: true });
+
+    await expect(run(job)).rejects.toThrow('RPC timeout');
+
+    expect(job.updateData).not.toHaveBeenCalled();
+    expect(job.data.resumeFromBlock).toBeUndefined();
+  });
+});
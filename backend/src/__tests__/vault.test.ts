@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Fastify from 'fastify';
+
+// =============================================================================
+// Mock Setup - Must be before imports
+// =============================================================================
+
+vi.mock('../services/vault.service', () => ({
+  getTransactionsPage: vi.fn(),
+  getNetValueHistory: vi.fn(),
+  getLatestNetValue: vi.fn(),
+  getNetValueAt: vi.fn(),
+}));
+
+vi.mock('../jobs/netValueSync', () => ({
+  fetchVaultData: vi.fn(),
+  calculateSharePrice: (totalAssets: bigint, totalShares: bigint) =>
+    totalShares === 0n ? 10n ** 18n : (totalAssets * 10n ** 18n) / totalShares,
+}));
+
+// Import after mock setup
+import { vaultRoutes } from '../routes/vault';
+import { calculateTrailingApy } from '../services/vaultStatsService';
+import * as vaultService from '../services/vault.service';
+import * as netValueSync from '../jobs/netValueSync';
+
+// =============================================================================
+// Mock Data Factory
+// =============================================================================
+
+const ONE = 10n ** 18n;
+
+function netValue(timestamp: string, sharePrice: bigint) {
+  return {
+    id: timestamp,
+    timestamp: new Date(timestamp),
+    totalAssets: 1000n * sharePrice,
+    totalShares: 1000n * ONE,
+    sharePrice,
+    blockNumber: 1000n,
+    createdAt: new Date(),
+  };
+}
+
+function transaction(id: string) {
+  return {
+    id,
+    txHash: `0x${id}`,
+    logIndex: 0,
+    type: 'DEPOSIT',
+    userAddress: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+    amount: 100n * ONE,
+    shares: 100n * ONE,
+    sharePrice: ONE,
+    blockNumber: 500n,
+    timestamp: new Date('2025-11-20T00:00:00Z'),
+  };
+}
+
+async function buildTestServer() {
+  const server = Fastify({ logger: false });
+  await server.register(vaultRoutes, { prefix: '/api/vault' });
+  return server;
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('Vault API Routes', () => {
+  let server: ReturnType<typeof Fastify>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    server = await buildTestServer();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  describe('GET /api/vault/stats', () => {
+    const latest = netValue('2025-11-30T00:00:00Z', 1_100_000_000_000_000_000n);
+
+    beforeEach(() => {
+      vi.mocked(vaultService.getLatestNetValue).mockResolvedValue(latest as any);
+      vi.mocked(vaultService.getNetValueAt).mockImplementation((timestamp: Date) =>
+        Promise.resolve(
+          // 7d window starts 11-23, 30d window starts 10-31 (before any history)
+          timestamp >= new Date('2025-11-23T00:00:00Z')
+            ? (netValue('2025-11-23T00:00:00Z', 1_095_000_000_000_000_000n) as any)
+            : null
+        )
+      );
+    });
+
+    it('should return live contract values when the RPC is available', async () => {
+      vi.mocked(netValueSync.fetchVaultData).mockResolvedValueOnce({
+        totalAssets: 2000n * ONE,
+        totalShares: 1600n * ONE,
+        blockNumber: 123456n,
+      });
+
+      const response = await server.inject({ method: 'GET', url: '/api/vault/stats' });
+
+      expect(response.statusCode).toBe(200);
+      const { data } = response.json();
+      expect(data).toMatchObject({
+        totalAssets: (2000n * ONE).toString(),
+        totalShares: (1600n * ONE).toString(),
+        sharePrice: '1250000000000000000',
+        blockNumber: '123456',
+        source: 'chain',
+        stale: false,
+        apy30d: null,
+      });
+      expect(data.apy7d).toBeCloseTo(23.81, 2);
+    });
+
+    it('should fall back to the latest snapshot and flag it stale', async () => {
+      vi.mocked(netValueSync.fetchVaultData).mockRejectedValueOnce(new Error('RPC down'));
+
+      const response = await server.inject({ method: 'GET', url: '/api/vault/stats' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data).toMatchObject({
+        sharePrice: latest.sharePrice.toString(),
+        blockNumber: '1000',
+        source: 'snapshot',
+        stale: true,
+        lastUpdated: latest.timestamp.toISOString(),
+      });
+    });
+
+    it('should return 500 when stats cannot be loaded', async () => {
+      vi.mocked(vaultService.getLatestNetValue).mockRejectedValueOnce(new Error('Database error'));
+
+      const response = await server.inject({ method: 'GET', url: '/api/vault/stats' });
+
+      expect(response.statusCode).toBe(500);
+      expect(response.json().success).toBe(false);
+    });
+  });
+
+  describe('GET /api/vault/transactions', () => {
+    it('should return a page with the next cursor', async () => {
+      vi.mocked(vaultService.getTransactionsPage).mockResolvedValueOnce({
+        transactions: [transaction('tx2'), transaction('tx1')],
+        nextCursor: 'tx1',
+      } as any);
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/vault/transactions?limit=2&cursor=tx3',
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(vaultService.getTransactionsPage).toHaveBeenCalledWith({ limit: 2, cursor: 'tx3' });
+      expect(body.data).toHaveLength(2);
+      expect(body.data[0]).toMatchObject({
+        id: 'tx2',
+        type: 'deposit',
+        amount: (100n * ONE).toString(),
+        blockNumber: '500',
+      });
+      expect(body.pagination).toEqual({ limit: 2, nextCursor: 'tx1', hasMore: true });
+    });
+
+    it('should report the last page', async () => {
+      vi.mocked(vaultService.getTransactionsPage).mockResolvedValueOnce({
+        transactions: [transaction('tx1')],
+        nextCursor: null,
+      } as any);
+
+      const response = await server.inject({ method: 'GET', url: '/api/vault/transactions' });
+
+      expect(vaultService.getTransactionsPage).toHaveBeenCalledWith({
+        limit: 10,
+        cursor: undefined,
+      });
+      expect(response.json().pagination).toEqual({ limit: 10, nextCursor: null, hasMore: false });
+    });
+
+    it('should reject a limit above the maximum', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/vault/transactions?limit=500',
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('GET /api/vault/nav-history', () => {
+    it('should return NAV points for the requested window', async () => {
+      vi.mocked(vaultService.getNetValueHistory).mockResolvedValueOnce([
+        netValue('2025-11-01T00:00:00Z', ONE),
+        netValue('2025-11-02T00:00:00Z', ONE + 1n),
+      ] as any);
+
+      const response = await server.inject({ method: 'GET', url: '/api/vault/nav-history?days=7' });
+
+      expect(response.statusCode).toBe(200);
+      expect(vaultService.getNetValueHistory).toHaveBeenCalledWith(7);
+      expect(response.json().data[1]).toEqual({
+        timestamp: '2025-11-02T00:00:00.000Z',
+        sharePrice: (ONE + 1n).toString(),
+        totalAssets: (1000n * (ONE + 1n)).toString(),
+        totalShares: (1000n * ONE).toString(),
+        blockNumber: '1000',
+      });
+    });
+  });
+});
+
+describe('calculateTrailingApy', () => {
+  it('should annualize the share price change over the elapsed time', () => {
+    const apy = calculateTrailingApy(
+      netValue('2025-12-31T00:00:00Z', 1_010_000_000_000_000_000n),
+      netValue('2025-12-01T00:00:00Z', ONE)
+    );
+
+    // 1% over 30 days
+    expect(apy).toBeCloseTo(12.17, 2);
+  });
+
+  it('should return null when the baseline is not older than the latest point', () => {
+    const point = netValue('2025-12-01T00:00:00Z', ONE);
+
+    expect(calculateTrailingApy(point, point)).toBeNull();
+  });
+});
@@ -0,0 +1,510 @@
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { createHmac } from 'node:crypto';
+
+// =============================================================================
+// Mock Setup - Must be before imports
+// =============================================================================
+
+const { mockPrisma, mockAddWebhookDeliveryJob, mockLookup } = vi.hoisted(() => ({
+  mockPrisma: {
+    webhookSubscription: {
+      count: vi.fn(),
+      create: vi.fn(),
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    webhookDelivery: {
+      createMany: vi.fn(),
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      count: vi.fn(),
+    },
+  },
+  mockAddWebhookDeliveryJob: vi.fn(),
+  mockLookup: vi.fn(),
+}));
+
+vi.mock('../services/database', () => ({
+  prisma: mockPrisma,
+}));
+
+vi.mock('../jobs/queues', () => ({
+  addWebhookDeliveryJob: mockAddWebhookDeliveryJob,
+}));
+
+// URL validation lives next to the notification channels, which import the email sender
+vi.mock('../services/emailService', () => ({
+  sendEmail: vi.fn(),
+}));
+
+// Receiver host resolution, checked before every delivery
+vi.mock('node:dns/promises', () => ({
+  lookup: mockLookup,
+}));
+
+// Receiver endpoints (restored in afterAll so later test files get the real fetch)
+const originalFetch = global.fetch;
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+afterAll(() => {
+  global.fetch = originalFetch;
+});
+
+// Import after mock setup
+import {
+  createWebhookSubscription,
+  publishWebhookEvent,
+  deliverWebhook,
+  signWebhookPayload,
+  WebhookDeliveryError,
+  MAX_SUBSCRIPTIONS_PER_ADDRESS,
+} from '../services/webhookService';
+import webhookRoutes from '../routes/webhooks';
+import { createSessionToken } from '../services/authService';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const USER = '0x1111111111111111111111111111111111111111';
+const OTHER = '0x2222222222222222222222222222222222222222';
+const WEBHOOK_URL = 'https://hooks.example.com/paimon';
+const SECRET = 'whsec_test';
+const OCCURRED_AT = new Date('2025-03-01T12:00:00Z');
+
+const SUBSCRIPTION = {
+  id: 'sub-1',
+  ownerAddress: USER,
+  url: WEBHOOK_URL,
+  secret: SECRET,
+  eventTypes: ['DEPOSIT_COMPLETED'],
+  active: true,
+  description: null,
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  updatedAt: new Date('2025-01-01T00:00:00Z'),
+};
+
+const PAYLOAD = {
+  id: '0xdeposit-3',
+  type: 'DEPOSIT_COMPLETED',
+  createdAt: OCCURRED_AT.toISOString(),
+  data: { address: USER, assets: '1000' },
+};
+
+const DELIVERY = {
+  id: 'del-1',
+  subscriptionId: 'sub-1',
+  eventId: '0xdeposit-3',
+  eventType: 'DEPOSIT_COMPLETED',
+  payload: PAYLOAD,
+  status: 'PENDING',
+  attempts: 0,
+  responseStatus: null,
+  responseBody: null,
+  errorMessage: null,
+  deliveredAt: null,
+  createdAt: OCCURRED_AT,
+  updatedAt: OCCURRED_AT,
+};
+
+function authHeader(address: string) {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const token = createSessionToken({
+    address,
+    role: 'user',
+    issuedAt,
+    expiresAt: issuedAt + 3600,
+  });
+  return { authorization: `Bearer ${token}` };
+}
+
+// =============================================================================
+// Service Tests
+// =============================================================================
+
+describe('WebhookService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAddWebhookDeliveryJob.mockResolvedValue({});
+  });
+
+  describe('createWebhookSubscription', () => {
+    it('should store the subscription with a generated secret', async () => {
+      mockPrisma.webhookSubscription.count.mockResolvedValue(0);
+      mockPrisma.webhookSubscription.create.mockImplementation(({ data }) =>
+        Promise.resolve({ ...SUBSCRIPTION, ...data })
+      );
+
+      const { subscription, secret } = await createWebhookSubscription(
+        USER.toUpperCase().replace('0X', '0x'),
+        {
+          url: WEBHOOK_URL,
+          eventTypes: ['DEPOSIT_COMPLETED', 'DEPOSIT_COMPLETED'],
+        }
+      );
+
+      expect(secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+      expect(subscription).not.toHaveProperty('secret');
+      expect(mockPrisma.webhookSubscription.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          ownerAddress: USER,
+          secret,
+          eventTypes: ['DEPOSIT_COMPLETED'],
+        }),
+      });
+    });
+
+    it('should reject insecure URLs and wallets at the subscription limit', async () => {
+      await expect(
+        createWebhookSubscription(USER, {
+          url: 'http://hooks.example.com',
+          eventTypes: ['DEPOSIT_COMPLETED'],
+        })
+      ).rejects.toThrow('HTTPS');
+
+      mockPrisma.webhookSubscription.count.mockResolvedValue(MAX_SUBSCRIPTIONS_PER_ADDRESS);
+      await expect(
+        createWebhookSubscription(USER, { url: WEBHOOK_URL, eventTypes: ['DEPOSIT_COMPLETED'] })
+      ).rejects.toThrow('at most');
+      expect(mockPrisma.webhookSubscription.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('publishWebhookEvent', () => {
+    it("should queue deliveries for the wallet's subscriptions that predate the event", async () => {
+      mockPrisma.webhookSubscription.findMany.mockResolvedValue([{ id: 'sub-1' }]);
+      mockPrisma.webhookDelivery.createMany.mockResolvedValue({ count: 1 });
+      mockPrisma.webhookDelivery.findMany.mockResolvedValue([{ id: 'del-1' }]);
+
+      const queued = await publishWebhookEvent('DEPOSIT_COMPLETED', {
+        address: USER.toUpperCase().replace('0X', '0x'),
+        eventId: '0xdeposit-3',
+        occurredAt: OCCURRED_AT,
+        data: PAYLOAD.data,
+      });
+
+      expect(queued).toBe(1);
+      expect(mockPrisma.webhookSubscription.findMany).toHaveBeenCalledWith({
+        where: {
+          active: true,
+          eventTypes: { has: 'DEPOSIT_COMPLETED' },
+          createdAt: { lte: OCCURRED_AT },
+          ownerAddress: USER,
+        },
+        select: { id: true },
+      });
+      expect(mockPrisma.webhookDelivery.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            subscriptionId: 'sub-1',
+            eventId: '0xdeposit-3',
+            eventType: 'DEPOSIT_COMPLETED',
+            payload: PAYLOAD,
+          },
+        ],
+        skipDuplicates: true,
+      });
+      expect(mockAddWebhookDeliveryJob).toHaveBeenCalledWith('del-1');
+    });
+
+    it('should send protocol events to every subscriber', async () => {
+      mockPrisma.webhookSubscription.findMany.mockResolvedValue([]);
+
+      await publishWebhookEvent('PROTOCOL_PAUSED', {
+        eventId: '0xpause-1',
+        occurredAt: OCCURRED_AT,
+        data: {},
+      });
+
+      const { where } = mockPrisma.webhookSubscription.findMany.mock.calls[0][0];
+      expect(where).not.toHaveProperty('ownerAddress');
+      expect(mockPrisma.webhookDelivery.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should never throw', async () => {
+      mockPrisma.webhookSubscription.findMany.mockRejectedValue(new Error('DB down'));
+
+      await expect(
+        publishWebhookEvent('DEPOSIT_COMPLETED', {
+          address: USER,
+          eventId: '0xdeposit-3',
+          occurredAt: OCCURRED_AT,
+          data: {},
+        })
+      ).resolves.toBe(0);
+    });
+  });
+
+  describe('deliverWebhook', () => {
+    beforeEach(() => {
+      mockPrisma.webhookDelivery.findUnique.mockResolvedValue({
+        ...DELIVERY,
+        subscription: SUBSCRIPTION,
+      });
+      mockPrisma.webhookDelivery.update.mockResolvedValue({});
+      mockLookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+    });
+
+    it('should POST the payload with a verifiable signature', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200, text: () => Promise.resolve('ok') });
+
+      await expect(deliverWebhook('del-1')).resolves.toEqual({
+        status: 'SUCCEEDED',
+        responseStatus: 200,
+      });
+
+      const [url, init] = mockFetch.mock.calls[0] as [
+        string,
+        { body: string; headers: Record<string, string> },
+      ];
+      expect(url).toBe(WEBHOOK_URL);
+      expect(JSON.parse(init.body)).toEqual(PAYLOAD);
+      expect(init.headers).toMatchObject({
+        'X-Paimon-Event': 'DEPOSIT_COMPLETED',
+        'X-Paimon-Delivery': 'del-1',
+      });
+
+      // What a receiver would do
+      const [, t, v1] = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(init.headers['X-Paimon-Signature'])!;
+      expect(createHmac('sha256', SECRET).update(`${t}.${init.body}`).digest('hex')).toBe(v1);
+      expect(signWebhookPayload(SECRET, Number(t), init.body)).toBe(
+        init.headers['X-Paimon-Signature']
+      );
+
+      expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'del-1' },
+        data: expect.objectContaining({
+          status: 'SUCCEEDED',
+          attempts: { increment: 1 },
+          responseStatus: 200,
+          deliveredAt: expect.any(Date),
+        }),
+      });
+    });
+
+    it('should throw for retry when the receiver fails', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 503, text: () => Promise.resolve('busy') });
+
+      await expect(deliverWebhook('del-1')).rejects.toThrow(WebhookDeliveryError);
+      expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'del-1' },
+        data: expect.objectContaining({
+          status: 'RETRYING',
+          responseStatus: 503,
+          responseBody: 'busy',
+          errorMessage: 'HTTP 503',
+        }),
+      });
+    });
+
+    it('should mark the delivery failed on the final attempt', async () => {
+      mockFetch.mockRejectedValue(new Error('ECONNREFUSED'));
+
+      await expect(deliverWebhook('del-1', { finalAttempt: true })).resolves.toEqual({
+        status: 'FAILED',
+        responseStatus: undefined,
+      });
+      expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'del-1' },
+        data: expect.objectContaining({ status: 'FAILED', errorMessage: 'ECONNREFUSED' }),
+      });
+    });
+
+    it('should not send to hosts that now resolve to private addresses', async () => {
+      mockLookup.mockResolvedValue([{ address: '169.254.169.254', family: 4 }]);
+
+      await expect(deliverWebhook('del-1')).rejects.toThrow(WebhookDeliveryError);
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'del-1' },
+        data: expect.objectContaining({
+          status: 'RETRYING',
+          errorMessage: 'Webhook host does not resolve to a public address',
+        }),
+      });
+    });
+
+    it('should not send to disabled subscriptions', async () => {
+      mockPrisma.webhookDelivery.findUnique.mockResolvedValue({
+        ...DELIVERY,
+        subscription: { ...SUBSCRIPTION, active: false },
+      });
+
+      await expect(deliverWebhook('del-1')).resolves.toEqual({ status: 'FAILED' });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+});
+
+// =============================================================================
+// Route Tests
+// =============================================================================
+
+describe('Webhook Routes', () => {
+  let server: FastifyInstance;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockAddWebhookDeliveryJob.mockResolvedValue({});
+    mockPrisma.webhookSubscription.findFirst.mockImplementation(({ where }) =>
+      Promise.resolve(where.id === 'sub-1' && where.ownerAddress === USER ? SUBSCRIPTION : null)
+    );
+    server = Fastify();
+    await server.register(webhookRoutes, { prefix: '/api' });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  describe('POST /api/webhooks/:address', () => {
+    it('should return the secret once on creation', async () => {
+      mockPrisma.webhookSubscription.count.mockResolvedValue(0);
+      mockPrisma.webhookSubscription.create.mockImplementation(({ data }) =>
+        Promise.resolve({ ...SUBSCRIPTION, ...data })
+      );
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/api/webhooks/${USER}`,
+        headers: authHeader(USER),
+        payload: { url: WEBHOOK_URL, eventTypes: ['DEPOSIT_COMPLETED'] },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().data).toMatchObject({
+        id: 'sub-1',
+        url: WEBHOOK_URL,
+        eventTypes: ['DEPOSIT_COMPLETED'],
+        secret: expect.stringMatching(/^whsec_/),
+      });
+    });
+
+    it('should require a session for the wallet', async () => {
+      const payload = { url: WEBHOOK_URL, eventTypes: ['DEPOSIT_COMPLETED'] };
+
+      const anonymous = await server.inject({
+        method: 'POST',
+        url: `/api/webhooks/${USER}`,
+        payload,
+      });
+      const otherWallet = await server.inject({
+        method: 'POST',
+        url: `/api/webhooks/${USER}`,
+        headers: authHeader(OTHER),
+        payload,
+      });
+
+      expect(anonymous.statusCode).toBe(401);
+      expect(otherWallet.statusCode).toBe(403);
+      expect(mockPrisma.webhookSubscription.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown event types and insecure URLs', async () => {
+      const unknownType = await server.inject({
+        method: 'POST',
+        url: `/api/webhooks/${USER}`,
+        headers: authHeader(USER),
+        payload: { url: WEBHOOK_URL, eventTypes: ['NAV_UPDATED'] },
+      });
+      const insecure = await server.inject({
+        method: 'POST',
+        url: `/api/webhooks/${USER}`,
+        headers: authHeader(USER),
+        payload: { url: 'http://hooks.example.com', eventTypes: ['DEPOSIT_COMPLETED'] },
+      });
+
+      expect(unknownType.statusCode).toBe(400);
+      expect(insecure.statusCode).toBe(400);
+      expect(insecure.json().error).toContain('HTTPS');
+    });
+  });
+
+  it('should list subscriptions without their secrets', async () => {
+    mockPrisma.webhookSubscription.findMany.mockResolvedValue([SUBSCRIPTION]);
+
+    const response = await server.inject({
+      method: 'GET',
+      url: `/api/webhooks/${USER}`,
+      headers: authHeader(USER),
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().data).toHaveLength(1);
+    expect(response.json().data[0]).not.toHaveProperty('secret');
+  });
+
+  it("should not update another wallet's subscription", async () => {
+    const response = await server.inject({
+      method: 'PATCH',
+      url: `/api/webhooks/${OTHER}/sub-1`,
+      headers: authHeader(OTHER),
+      payload: { active: false },
+    });
+
+    expect(response.statusCode).toBe(404);
+    expect(mockPrisma.webhookSubscription.update).not.toHaveBeenCalled();
+  });
+
+  it('should page through the delivery log', async () => {
+    mockPrisma.webhookDelivery.findMany.mockResolvedValue([DELIVERY]);
+    mockPrisma.webhookDelivery.count.mockResolvedValue(3);
+
+    const response = await server.inject({
+      method: 'GET',
+      url: `/api/webhooks/${USER}/sub-1/deliveries?limit=1&status=FAILED`,
+      headers: authHeader(USER),
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({
+      data: [{ id: 'del-1', payload: PAYLOAD }],
+      pagination: { total: 3, limit: 1, offset: 0, hasMore: true },
+    });
+    expect(mockPrisma.webhookDelivery.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { subscriptionId: 'sub-1', status: 'FAILED' }, take: 1 })
+    );
+  });
+
+  describe('POST /api/webhooks/:address/:id/deliveries/:deliveryId/redeliver', () => {
+    it('should reset the delivery and queue it again', async () => {
+      mockPrisma.webhookDelivery.findFirst.mockResolvedValue({ ...DELIVERY, status: 'FAILED' });
+      mockPrisma.webhookDelivery.update.mockResolvedValue({ ...DELIVERY, attempts: 10 });
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/api/webhooks/${USER}/sub-1/deliveries/del-1/redeliver`,
+        headers: authHeader(USER),
+      });
+
+      expect(response.statusCode).toBe(202);
+      expect(mockPrisma.webhookDelivery.findFirst).toHaveBeenCalledWith({
+        where: { id: 'del-1', subscriptionId: 'sub-1', subscription: { ownerAddress: USER } },
+      });
+      expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'del-1' },
+        data: { status: 'PENDING', errorMessage: null },
+      });
+      expect(mockAddWebhookDeliveryJob).toHaveBeenCalledWith('del-1');
+    });
+
+    it('should return 404 for unknown deliveries', async () => {
+      mockPrisma.webhookDelivery.findFirst.mockResolvedValue(null);
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/api/webhooks/${USER}/sub-1/deliveries/missing/redeliver`,
+        headers: authHeader(USER),
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect(mockAddWebhookDeliveryJob).not.toHaveBeenCalled();
+    });
+  });
+});
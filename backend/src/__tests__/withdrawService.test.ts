@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from 'vitest';
 
 // =============================================================================
 // Mocks - Using vi.hoisted() for proper hoisting
@@ -13,6 +13,7 @@ const mockPrismaLargeWithdrawal = vi.hoisted(() => ({
 }));
 
 const mockAddBroadcastNotificationJob = vi.hoisted(() => vi.fn());
+const mockPublishWebhookEvent = vi.hoisted(() => vi.fn());
 
 // Mock Prisma
 vi.mock('../services/database', () => ({
@@ -26,10 +27,20 @@ vi.mock('../jobs/notificationQueue', () => ({
   addBroadcastNotificationJob: (...args: unknown[]) => mockAddBroadcastNotificationJob(...args),
 }));
 
-// Mock fetch for Telegram
+// Mock webhook fan-out
+vi.mock('../services/webhookService', () => ({
+  publishWebhookEvent: (...args: unknown[]) => mockPublishWebhookEvent(...args),
+}));
+
+// Mock fetch for Telegram (restored in afterAll so later test files get the real fetch)
+const originalFetch = global.fetch;
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
 
+afterAll(() => {
+  global.fetch = originalFetch;
+});
+
 // =============================================================================
 // Imports (after mocks)
 // =============================================================================
@@ -326,6 +337,39 @@ describe('WithdrawService', () => {
       expect(result.status).toBe('APPROVED');
     });
 
+    it('should publish the status change to webhook subscribers', async () => {
+      const updatedAt = new Date('2024-01-02T00:00:00Z');
+      mockPrismaLargeWithdrawal.update.mockResolvedValue({
+        id: 'w1',
+        userAddress: '0x1234567890123456789012345678901234567890',
+        shares: '1000000000000000000000',
+        estimatedAmount: '150000000000000000000000',
+        actualAmount: null,
+        status: 'READY',
+        priority: 3,
+        requestedAt: new Date('2024-01-01'),
+        processedAt: new Date(),
+        completedAt: null,
+        updatedAt,
+      });
+
+      await updateLargeWithdrawalStatus('w1', 'READY');
+
+      expect(mockPublishWebhookEvent).toHaveBeenCalledWith('LARGE_WITHDRAWAL_STATUS_CHANGED', {
+        address: '0x1234567890123456789012345678901234567890',
+        eventId: `large-withdrawal-w1-READY-${updatedAt.getTime()}`,
+        occurredAt: updatedAt,
+        data: {
+          id: 'w1',
+          address: '0x1234567890123456789012345678901234567890',
+          status: 'READY',
+          estimatedAmount: '150000000000000000000000',
+          actualAmount: null,
+          completeTxHash: null,
+        },
+      });
+    });
+
     it('should update status to COMPLETED with completedAt timestamp', async () => {
       const mockUpdated = {
         id: 'w1',
@@ -28,11 +28,49 @@ vi.mock('../services/withdrawService', () => ({
   LARGE_WITHDRAWAL_THRESHOLD: BigInt('100000000000000000000000'),
 }));
 
+const { mockIsVaultAdmin, mockGetUserWithdrawRequests } = vi.hoisted(() => ({
+  mockIsVaultAdmin: vi.fn(),
+  mockGetUserWithdrawRequests: vi.fn(),
+}));
+
+vi.mock('../services/withdrawQueueService', () => ({
+  getUserWithdrawRequests: mockGetUserWithdrawRequests,
+}));
+
+vi.mock('../services/authService', async () => {
+  const actual = await vi.importActual<typeof import('../services/authService')>(
+    '../services/authService'
+  );
+  return {
+    ...actual,
+    isVaultAdmin: (address: string) => mockIsVaultAdmin(address),
+  };
+});
+
 // =============================================================================
 // Imports (after mocks)
 // =============================================================================
 
 import withdrawalRoutes from '../routes/withdrawals';
+import { createSessionToken } from '../services/authService';
+
+// =============================================================================
+// Auth Helpers
+// =============================================================================
+
+const USER_ADDRESS = '0x1234567890123456789012345678901234567890';
+const ADMIN_ADDRESS = '0x9999999999999999999999999999999999999999';
+
+function authHeader(address: string, role: 'user' | 'admin' = 'user') {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const token = createSessionToken({
+    address,
+    role,
+    issuedAt,
+    expiresAt: issuedAt + 3600,
+  });
+  return { authorization: `Bearer ${token}` };
+}
 
 // =============================================================================
 // Test Setup
@@ -43,6 +81,9 @@ describe('Withdrawal Routes', () => {
 
   beforeEach(async () => {
     vi.clearAllMocks();
+    mockIsVaultAdmin.mockImplementation(
+      async (address: string) => address.toLowerCase() === ADMIN_ADDRESS
+    );
     server = Fastify();
     await server.register(withdrawalRoutes, { prefix: '/api/withdrawals' });
   });
@@ -106,6 +147,78 @@ describe('Withdrawal Routes', () => {
     });
   });
 
+  describe('GET /api/withdrawals/requests/:address', () => {
+    it('should return withdraw queue requests for a user', async () => {
+      mockGetUserWithdrawRequests.mockResolvedValue([
+        {
+          requestId: '3',
+          ownerAddress: USER_ADDRESS,
+          receiverAddress: USER_ADDRESS,
+          shares: '1000000000000000000000',
+          assets: '1050000000000000000000',
+          requestTime: new Date('2024-01-01T00:00:00Z'),
+          claimableTime: new Date('2024-01-02T00:00:00Z'),
+          requestTxHash: '0xabc',
+          status: 'claimable',
+          claimedAssets: null,
+          claimTxHash: null,
+          claimedAt: null,
+        },
+      ]);
+
+      const response = await server.inject({
+        method: 'GET',
+        url: `/api/withdrawals/requests/${USER_ADDRESS}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.success).toBe(true);
+      expect(body.data.requests).toHaveLength(1);
+      expect(body.data.requests[0].requestId).toBe('3');
+      expect(body.data.requests[0].status).toBe('claimable');
+      expect(mockGetUserWithdrawRequests).toHaveBeenCalledWith(USER_ADDRESS, {
+        status: undefined,
+        limit: 50,
+      });
+    });
+
+    it('should pass status and limit filters', async () => {
+      mockGetUserWithdrawRequests.mockResolvedValue([]);
+
+      const response = await server.inject({
+        method: 'GET',
+        url: `/api/withdrawals/requests/${USER_ADDRESS}?status=pending&limit=10`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockGetUserWithdrawRequests).toHaveBeenCalledWith(USER_ADDRESS, {
+        status: 'pending',
+        limit: 10,
+      });
+    });
+
+    it('should return 400 for invalid address format', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/withdrawals/requests/invalid-address',
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe('Invalid address format');
+    });
+
+    it('should return 400 for invalid status', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: `/api/withdrawals/requests/${USER_ADDRESS}?status=unknown`,
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockGetUserWithdrawRequests).not.toHaveBeenCalled();
+    });
+  });
+
   describe('GET /api/withdrawals/:id', () => {
     it('should return specific withdrawal', async () => {
       const mockWithdrawal = {
@@ -208,6 +321,7 @@ describe('Withdrawal Routes', () => {
       const response = await server.inject({
         method: 'POST',
         url: '/api/withdrawals/request',
+        headers: authHeader(USER_ADDRESS),
         payload: {
           userAddress: '0x1234567890123456789012345678901234567890',
           shares: '1000000000000000000000',
@@ -226,6 +340,7 @@ describe('Withdrawal Routes', () => {
       const response = await server.inject({
         method: 'POST',
         url: '/api/withdrawals/request',
+        headers: authHeader(USER_ADDRESS),
         payload: {
           userAddress: '0x1234567890123456789012345678901234567890',
         },
@@ -240,6 +355,7 @@ describe('Withdrawal Routes', () => {
       const response = await server.inject({
         method: 'POST',
         url: '/api/withdrawals/request',
+        headers: authHeader(USER_ADDRESS),
         payload: {
           userAddress: 'invalid',
           shares: '1000000000000000000000',
@@ -258,6 +374,7 @@ describe('Withdrawal Routes', () => {
       const response = await server.inject({
         method: 'POST',
         url: '/api/withdrawals/request',
+        headers: authHeader(USER_ADDRESS),
         payload: {
           userAddress: '0x1234567890123456789012345678901234567890',
           shares: '100000000000000000000',
@@ -287,6 +404,7 @@ describe('Withdrawal Routes', () => {
       const response = await server.inject({
         method: 'GET',
         url: '/api/withdrawals/admin/pending',
+        headers: authHeader(ADMIN_ADDRESS, 'admin'),
       });
 
       expect(response.statusCode).toBe(200);
@@ -312,6 +430,7 @@ describe('Withdrawal Routes', () => {
       const response = await server.inject({
         method: 'GET',
         url: '/api/withdrawals/admin/stats',
+        headers: authHeader(ADMIN_ADDRESS, 'admin'),
       });
 
       expect(response.statusCode).toBe(200);
@@ -335,6 +454,7 @@ describe('Withdrawal Routes', () => {
       const response = await server.inject({
         method: 'PATCH',
         url: '/api/withdrawals/admin/w1/status',
+        headers: authHeader(ADMIN_ADDRESS, 'admin'),
         payload: {
           status: 'APPROVED',
           adminNotes: 'Approved for processing',
@@ -352,6 +472,7 @@ describe('Withdrawal Routes', () => {
       const response = await server.inject({
         method: 'PATCH',
         url: '/api/withdrawals/admin/w1/status',
+        headers: authHeader(ADMIN_ADDRESS, 'admin'),
         payload: {
           status: 'INVALID_STATUS',
         },
@@ -367,6 +488,7 @@ describe('Withdrawal Routes', () => {
       const response = await server.inject({
         method: 'PATCH',
         url: '/api/withdrawals/admin/w1/status',
+        headers: authHeader(ADMIN_ADDRESS, 'admin'),
         payload: {},
       });
 
@@ -391,6 +513,85 @@ describe('Withdrawal Routes', () => {
     });
   });
 
+  // ===========================================================================
+  // Authorization
+  // ===========================================================================
+
+  describe('Authorization', () => {
+    it('should return 401 for admin routes without a session', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/withdrawals/admin/pending',
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(mockWithdrawService.getPendingLargeWithdrawals).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 for an invalid session token', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/withdrawals/admin/stats',
+        headers: { authorization: 'Bearer not-a-token' },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should return 403 for admin routes when wallet lacks ADMIN_ROLE', async () => {
+      const response = await server.inject({
+        method: 'PATCH',
+        url: '/api/withdrawals/admin/w1/status',
+        headers: authHeader(USER_ADDRESS),
+        payload: { status: 'APPROVED' },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(mockIsVaultAdmin).toHaveBeenCalledWith(USER_ADDRESS);
+      expect(mockWithdrawService.updateLargeWithdrawalStatus).not.toHaveBeenCalled();
+    });
+
+    it('should not trust the role claim in the token', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/withdrawals/admin/pending',
+        headers: authHeader(USER_ADDRESS, 'admin'),
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should return 401 when creating a request without a session', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/withdrawals/request',
+        payload: {
+          userAddress: USER_ADDRESS,
+          shares: '1000000000000000000000',
+          estimatedAmount: '150000000000000000000000',
+        },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should return 403 when creating a request for another wallet', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/withdrawals/request',
+        headers: authHeader(ADMIN_ADDRESS),
+        payload: {
+          userAddress: USER_ADDRESS,
+          shares: '1000000000000000000000',
+          estimatedAmount: '150000000000000000000000',
+        },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(mockWithdrawService.processLargeWithdrawal).not.toHaveBeenCalled();
+    });
+  });
+
   // ===========================================================================
   // Error Handling
   // ===========================================================================
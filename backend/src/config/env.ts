@@ -30,6 +30,11 @@ const envSchema = z.object({
   EVENT_LISTENER_START_BLOCK: z.coerce.bigint().optional(),
   EVENT_LISTENER_CONFIRMATIONS: z.coerce.number().default(12), // BSC ~12 blocks for finality
 
+  // Authentication (SIWE + session tokens)
+  JWT_SECRET: z.string().optional(),
+  AUTH_SESSION_TTL: z.coerce.number().default(86400), // 24 hours
+  SIWE_DOMAIN: z.string().default('localhost:3000'),
+
   // Email (Resend)
   RESEND_API_KEY: z.string().optional(),
   EMAIL_FROM: z.string().default('Paimon Yield <noreply@paimon.finance>'),
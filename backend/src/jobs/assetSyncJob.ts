@@ -0,0 +1,125 @@
+/**
+ * Asset Sync Cron Job
+ *
+ * Re-syncs AssetAllocation from the vault's RWA holdings, so balances and USD values
+ * follow the chain between RWAAssetAdded / RWAAssetRemoved / TargetAllocationUpdated events.
+ */
+
+import * as cron from 'node-cron';
+import { isAssetSyncConfigured, syncAssetAllocations } from '../services/assetSyncService.js';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+// Every 15 minutes
+const ASSET_SYNC_CRON_SCHEDULE = process.env.ASSET_SYNC_CRON_SCHEDULE || '*/15 * * * *';
+
+// =============================================================================
+// Job State
+// =============================================================================
+
+let scheduledTask: cron.ScheduledTask | null = null;
+let isRunning = false;
+let lastRunResult: {
+  timestamp: Date;
+  holdings: number;
+  synced: number;
+  deactivated: number;
+  errors: string[];
+  error?: string;
+} | null = null;
+
+// =============================================================================
+// Job Functions
+// =============================================================================
+
+export async function runAssetSyncJob(): Promise<void> {
+  if (isRunning) {
+    console.log('[AssetSyncJob] Previous run still in progress, skipping');
+    return;
+  }
+
+  isRunning = true;
+
+  try {
+    const result = await syncAssetAllocations();
+
+    lastRunResult = { timestamp: new Date(), ...result };
+
+    console.log(
+      `[AssetSyncJob] Synced ${result.synced}/${result.holdings} holdings, ${result.deactivated} deactivated`
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[AssetSyncJob] Failed:', errorMessage);
+
+    lastRunResult = {
+      timestamp: new Date(),
+      holdings: 0,
+      synced: 0,
+      deactivated: 0,
+      errors: [],
+      error: errorMessage,
+    };
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Start the asset sync cron job
+ */
+export function startAssetSyncJob(): void {
+  if (!isAssetSyncConfigured()) {
+    console.log('[AssetSyncJob] PNGY_VAULT_ADDRESS not configured, job disabled');
+    return;
+  }
+
+  if (scheduledTask) {
+    console.log('[AssetSyncJob] Job already running, skipping start');
+    return;
+  }
+
+  scheduledTask = cron.schedule(
+    ASSET_SYNC_CRON_SCHEDULE,
+    () => {
+      runAssetSyncJob().catch(console.error);
+    },
+    {
+      scheduled: true,
+      timezone: 'UTC',
+    }
+  );
+
+  console.log(`[AssetSyncJob] Started with schedule: ${ASSET_SYNC_CRON_SCHEDULE}`);
+}
+
+/**
+ * Stop the asset sync cron job
+ */
+export function stopAssetSyncJob(): void {
+  if (scheduledTask) {
+    scheduledTask.stop();
+    scheduledTask = null;
+    console.log('[AssetSyncJob] Cron job stopped');
+  }
+}
+
+/**
+ * Get the current job status
+ */
+export function getJobStatus() {
+  return {
+    running: scheduledTask !== null,
+    schedule: ASSET_SYNC_CRON_SCHEDULE,
+    lastRun: lastRunResult,
+  };
+}
+
+export default {
+  startAssetSyncJob,
+  stopAssetSyncJob,
+  runAssetSyncJob,
+  getJobStatus,
+};
@@ -1,6 +1,7 @@
 import cron from 'node-cron';
 import { publicClient, contracts } from '../services/blockchain.js';
 import { createNetValue, getLatestNetValue } from '../services/vault.service.js';
+import { evaluateAlertRules } from '../services/alertRuleService.js';
 import { env } from '../config/env.js';
 
 // =============================================================================
@@ -114,7 +115,8 @@ export async function fetchVaultData(): Promise<{
 }
 
 /**
- * Main sync function - fetches vault data, calculates NAV, stores in database
+ * Main sync function - fetches vault data, calculates NAV, stores in database,
+ * then evaluates user alert rules against the new NAV
  */
 export async function syncNetValue(): Promise<NetValueSyncResult> {
   if (isRunning) {
@@ -185,6 +187,11 @@ export async function syncNetValue(): Promise<NetValueSyncResult> {
       blockNumber: record.blockNumber,
     });
 
+    // Alerts are best-effort: a failure here must not fail the sync
+    await evaluateAlertRules(record).catch((error) => {
+      console.error('[NetValueSync] Alert rule evaluation failed:', error);
+    });
+
     lastRun = new Date();
     lastError = null;
     const duration = Date.now() - startTime;
@@ -0,0 +1,118 @@
+/**
+ * Notification Digest Cron Job
+ *
+ * Sends the daily and weekly notification digests that are due. Each user's
+ * digest covers the period since their previous one, so a missed run is caught
+ * up by the next.
+ */
+
+import * as cron from 'node-cron';
+import { sendDueDigests } from '../services/digestService.js';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+// Every day at 08:00 UTC
+const NOTIFICATION_DIGEST_CRON_SCHEDULE =
+  process.env.NOTIFICATION_DIGEST_CRON_SCHEDULE || '0 8 * * *';
+
+// =============================================================================
+// Job State
+// =============================================================================
+
+let scheduledTask: cron.ScheduledTask | null = null;
+let isRunning = false;
+let lastRunResult: {
+  timestamp: Date;
+  sent: number;
+  skipped: number;
+  failed: number;
+  error?: string;
+} | null = null;
+
+// =============================================================================
+// Job Functions
+// =============================================================================
+
+export async function runNotificationDigestJob(): Promise<void> {
+  if (isRunning) {
+    console.log('[NotificationDigestJob] Previous run still in progress, skipping');
+    return;
+  }
+
+  isRunning = true;
+
+  try {
+    const result = await sendDueDigests();
+
+    lastRunResult = { timestamp: new Date(), ...result };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[NotificationDigestJob] Failed:', errorMessage);
+
+    lastRunResult = {
+      timestamp: new Date(),
+      sent: 0,
+      skipped: 0,
+      failed: 0,
+      error: errorMessage,
+    };
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Start the notification digest cron job
+ */
+export function startNotificationDigestJob(): void {
+  if (scheduledTask) {
+    console.log('[NotificationDigestJob] Job already running, skipping start');
+    return;
+  }
+
+  scheduledTask = cron.schedule(
+    NOTIFICATION_DIGEST_CRON_SCHEDULE,
+    () => {
+      runNotificationDigestJob().catch(console.error);
+    },
+    {
+      scheduled: true,
+      timezone: 'UTC',
+    }
+  );
+
+  console.log(
+    `[NotificationDigestJob] Started with schedule: ${NOTIFICATION_DIGEST_CRON_SCHEDULE}`
+  );
+}
+
+/**
+ * Stop the notification digest cron job
+ */
+export function stopNotificationDigestJob(): void {
+  if (scheduledTask) {
+    scheduledTask.stop();
+    scheduledTask = null;
+    console.log('[NotificationDigestJob] Cron job stopped');
+  }
+}
+
+/**
+ * Get the current job status
+ */
+export function getJobStatus() {
+  return {
+    running: scheduledTask !== null,
+    schedule: NOTIFICATION_DIGEST_CRON_SCHEDULE,
+    lastRun: lastRunResult,
+  };
+}
+
+export default {
+  startNotificationDigestJob,
+  stopNotificationDigestJob,
+  runNotificationDigestJob,
+  getJobStatus,
+};
@@ -0,0 +1,130 @@
+/**
+ * Oracle Health Monitor Cron Job
+ *
+ * Checks every OracleAdapter asset for stale prices, primary/backup divergence and
+ * sudden jumps, recording incidents and alerting admins when one opens.
+ */
+
+import * as cron from 'node-cron';
+import { isOracleIndexerConfigured } from '../services/oracleService.js';
+import { runOracleHealthChecks } from '../services/oracleHealthService.js';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+// Every 5 minutes
+const ORACLE_HEALTH_CRON_SCHEDULE = process.env.ORACLE_HEALTH_CRON_SCHEDULE || '*/5 * * * *';
+
+// =============================================================================
+// Job State
+// =============================================================================
+
+let scheduledTask: cron.ScheduledTask | null = null;
+let isRunning = false;
+let lastRunResult: {
+  timestamp: Date;
+  assets: number;
+  opened: number;
+  ongoing: number;
+  resolved: number;
+  errors: string[];
+  error?: string;
+} | null = null;
+
+// =============================================================================
+// Job Functions
+// =============================================================================
+
+export async function runOracleHealthJob(): Promise<void> {
+  if (isRunning) {
+    console.log('[OracleHealthJob] Previous run still in progress, skipping');
+    return;
+  }
+
+  isRunning = true;
+
+  try {
+    const result = await runOracleHealthChecks();
+
+    lastRunResult = { timestamp: new Date(), ...result };
+
+    if (result.opened > 0 || result.resolved > 0) {
+      console.log(
+        `[OracleHealthJob] ${result.opened} incidents opened, ${result.resolved} resolved`
+      );
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[OracleHealthJob] Failed:', errorMessage);
+
+    lastRunResult = {
+      timestamp: new Date(),
+      assets: 0,
+      opened: 0,
+      ongoing: 0,
+      resolved: 0,
+      errors: [],
+      error: errorMessage,
+    };
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Start the oracle health cron job
+ */
+export function startOracleHealthJob(): void {
+  if (!isOracleIndexerConfigured()) {
+    console.log('[OracleHealthJob] OracleAdapter not configured, job disabled');
+    return;
+  }
+
+  if (scheduledTask) {
+    console.log('[OracleHealthJob] Job already running, skipping start');
+    return;
+  }
+
+  scheduledTask = cron.schedule(
+    ORACLE_HEALTH_CRON_SCHEDULE,
+    () => {
+      runOracleHealthJob().catch(console.error);
+    },
+    {
+      scheduled: true,
+      timezone: 'UTC',
+    }
+  );
+
+  console.log(`[OracleHealthJob] Started with schedule: ${ORACLE_HEALTH_CRON_SCHEDULE}`);
+}
+
+/**
+ * Stop the oracle health cron job
+ */
+export function stopOracleHealthJob(): void {
+  if (scheduledTask) {
+    scheduledTask.stop();
+    scheduledTask = null;
+    console.log('[OracleHealthJob] Cron job stopped');
+  }
+}
+
+/**
+ * Get the current job status
+ */
+export function getJobStatus() {
+  return {
+    running: scheduledTask !== null,
+    schedule: ORACLE_HEALTH_CRON_SCHEDULE,
+    lastRun: lastRunResult,
+  };
+}
+
+export default {
+  startOracleHealthJob,
+  stopOracleHealthJob,
+  runOracleHealthJob,
+  getJobStatus,
+};
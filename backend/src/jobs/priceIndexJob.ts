@@ -0,0 +1,138 @@
+/**
+ * Oracle Price Index Cron Job
+ *
+ * Polls the OracleAdapter for the price of every configured asset and stores
+ * new readings in PriceFeed, then indexes OracleFailover logs since the last run.
+ */
+
+import * as cron from 'node-cron';
+import {
+  isOracleIndexerConfigured,
+  indexOraclePrices,
+  indexOracleFailoverLogs,
+} from '../services/oracleService.js';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+// Every 5 minutes
+const PRICE_INDEX_CRON_SCHEDULE = process.env.PRICE_INDEX_CRON_SCHEDULE || '*/5 * * * *';
+
+// =============================================================================
+// Job State
+// =============================================================================
+
+let scheduledTask: cron.ScheduledTask | null = null;
+let isRunning = false;
+let lastRunResult: {
+  timestamp: Date;
+  assets: number;
+  indexed: number;
+  failovers: number;
+  errors: string[];
+  error?: string;
+} | null = null;
+
+// =============================================================================
+// Job Functions
+// =============================================================================
+
+export async function runPriceIndexJob(): Promise<void> {
+  if (isRunning) {
+    console.log('[PriceIndexJob] Previous run still in progress, skipping');
+    return;
+  }
+
+  isRunning = true;
+
+  try {
+    const { assets, indexed, failovers, errors } = await indexOraclePrices();
+    const failoverLogs = await indexOracleFailoverLogs();
+
+    lastRunResult = {
+      timestamp: new Date(),
+      assets,
+      indexed,
+      failovers: failovers + failoverLogs,
+      errors,
+    };
+
+    if (indexed > 0 || failovers + failoverLogs > 0) {
+      console.log(
+        `[PriceIndexJob] Indexed ${indexed}/${assets} prices, ${failovers + failoverLogs} failovers`
+      );
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[PriceIndexJob] Failed:', errorMessage);
+
+    lastRunResult = {
+      timestamp: new Date(),
+      assets: 0,
+      indexed: 0,
+      failovers: 0,
+      errors: [],
+      error: errorMessage,
+    };
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Start the price index cron job
+ */
+export function startPriceIndexJob(): void {
+  if (!isOracleIndexerConfigured()) {
+    console.log('[PriceIndexJob] OracleAdapter not configured, job disabled');
+    return;
+  }
+
+  if (scheduledTask) {
+    console.log('[PriceIndexJob] Job already running, skipping start');
+    return;
+  }
+
+  scheduledTask = cron.schedule(
+    PRICE_INDEX_CRON_SCHEDULE,
+    () => {
+      runPriceIndexJob().catch(console.error);
+    },
+    {
+      scheduled: true,
+      timezone: 'UTC',
+    }
+  );
+
+  console.log(`[PriceIndexJob] Started with schedule: ${PRICE_INDEX_CRON_SCHEDULE}`);
+}
+
+/**
+ * Stop the price index cron job
+ */
+export function stopPriceIndexJob(): void {
+  if (scheduledTask) {
+    scheduledTask.stop();
+    scheduledTask = null;
+    console.log('[PriceIndexJob] Cron job stopped');
+  }
+}
+
+/**
+ * Get the current job status
+ */
+export function getJobStatus() {
+  return {
+    running: scheduledTask !== null,
+    schedule: PRICE_INDEX_CRON_SCHEDULE,
+    lastRun: lastRunResult,
+  };
+}
+
+export default {
+  startPriceIndexJob,
+  stopPriceIndexJob,
+  runPriceIndexJob,
+  getJobStatus,
+};
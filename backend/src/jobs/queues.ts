@@ -79,6 +79,25 @@ export const notificationQueue = new Queue('notifications', {
   },
 });
 
+// Webhook Queue - Delivers signed events to integrator endpoints
+// Backoff doubles from 30s, so 10 attempts span roughly eight and a half hours
+export const webhookQueue = new Queue('webhooks', {
+  connection,
+  defaultJobOptions: {
+    attempts: 10,
+    backoff: {
+      type: 'exponential',
+      delay: 30_000,
+    },
+    removeOnComplete: {
+      count: 500,
+    },
+    removeOnFail: {
+      count: 200,
+    },
+  },
+});
+
 // =============================================================================
 // Queue Events (for monitoring)
 // =============================================================================
@@ -87,6 +106,7 @@ export const netValueSyncEvents = new QueueEvents('net-value-sync', { connection
 export const transactionSyncEvents = new QueueEvents('transaction-sync', { connection });
 export const rebalanceEvents = new QueueEvents('rebalance', { connection });
 export const notificationEvents = new QueueEvents('notifications', { connection });
+export const webhookEvents = new QueueEvents('webhooks', { connection });
 
 // =============================================================================
 // Job Types
@@ -100,7 +120,16 @@ export interface NetValueSyncJobData {
 export interface TransactionSyncJobData {
   fromBlock: bigint;
   toBlock: bigint;
-  eventType?: 'Deposit' | 'Withdraw' | 'all';
+  eventType?: 'Deposit' | 'Withdraw' | 'Transfer' | 'Rebalance' | 'all';
+  /**
+   * Replaying past blocks: index rows without notifications, broadcasts or webhooks
+   */
+  historical?: boolean;
+  /**
+   * First block not yet applied, set by the worker as chunks complete so a retry resumes
+   * there instead of applying later blocks first (stored as a string, like the block range)
+   */
+  resumeFromBlock?: string;
 }
 
 export interface RebalanceJobData {
@@ -112,7 +141,14 @@ export interface NotificationJobData {
   /**
    * Notification type matching Prisma NotificationType enum
    */
-  type: 'WITHDRAWAL_COMPLETE' | 'REBALANCE_EXECUTED' | 'EMERGENCY_PAUSE' | 'CIRCUIT_BREAKER';
+  type:
+    | 'WITHDRAWAL_COMPLETE'
+    | 'REBALANCE_EXECUTED'
+    | 'EMERGENCY_PAUSE'
+    | 'CIRCUIT_BREAKER'
+    | 'LARGE_WITHDRAWAL_ALERT'
+    | 'ORACLE_ALERT'
+    | 'THRESHOLD_ALERT';
   /**
    * Target user address (for user-specific notifications)
    * If undefined, notification will be broadcast to all subscribed users
@@ -128,6 +164,13 @@ export interface NotificationJobData {
   priority?: 'low' | 'normal' | 'high' | 'critical';
 }
 
+export interface WebhookJobData {
+  /**
+   * WebhookDelivery row to send (payload and status live in the database)
+   */
+  deliveryId: string;
+}
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
@@ -139,11 +182,38 @@ export async function addNetValueSyncJob(data: NetValueSyncJobData = {}) {
 }
 
 export async function addTransactionSyncJob(data: TransactionSyncJobData) {
-  return transactionSyncQueue.add('sync', {
-    ...data,
-    fromBlock: data.fromBlock.toString(),
-    toBlock: data.toBlock.toString(),
-  });
+  const eventType = data.eventType ?? 'all';
+
+  return transactionSyncQueue.add(
+    'sync',
+    {
+      ...data,
+      eventType,
+      fromBlock: data.fromBlock.toString(),
+      toBlock: data.toBlock.toString(),
+    },
+    {
+      // Drop a duplicate range while the first one is still queued or running
+      deduplication: { id: `tx-sync-${eventType}-${data.fromBlock}-${data.toBlock}` },
+    }
+  );
+}
+
+/**
+ * Queue a block range as a single historical transaction-sync job.
+ * The worker walks it in block order and a failed attempt resumes where it stopped,
+ * so positions and cost-basis lots are always updated in chain order.
+ */
+export async function addTransactionBackfillJob(
+  fromBlock: bigint,
+  toBlock: bigint,
+  eventType: TransactionSyncJobData['eventType'] = 'all'
+) {
+  if (toBlock < fromBlock) {
+    throw new Error(`Invalid block range: ${fromBlock}-${toBlock}`);
+  }
+
+  return addTransactionSyncJob({ fromBlock, toBlock, eventType, historical: true });
 }
 
 export async function addRebalanceJob(data: RebalanceJobData) {
@@ -200,6 +270,20 @@ export async function addBroadcastNotificationJob(
   });
 }
 
+/**
+ * Queue delivery of a webhook event (also used for manual redelivery)
+ */
+export async function addWebhookDeliveryJob(deliveryId: string) {
+  return webhookQueue.add(
+    'deliver',
+    { deliveryId },
+    {
+      // A delivery already queued or awaiting retry doesn't need a second job
+      deduplication: { id: `webhook-${deliveryId}` },
+    }
+  );
+}
+
 // =============================================================================
 // Scheduled Jobs (Repeatable)
 // =============================================================================
@@ -242,9 +326,11 @@ export async function closeQueues() {
     transactionSyncQueue.close(),
     rebalanceQueue.close(),
     notificationQueue.close(),
+    webhookQueue.close(),
     netValueSyncEvents.close(),
     transactionSyncEvents.close(),
     rebalanceEvents.close(),
     notificationEvents.close(),
+    webhookEvents.close(),
   ]);
 }
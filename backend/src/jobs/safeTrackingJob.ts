@@ -0,0 +1,118 @@
+/**
+ * Safe Tracking Cron Job
+ *
+ * Polls the Safe Transaction Service for confirmations and execution
+ * of rebalance proposals that haven't been executed yet, then advances
+ * the RebalanceProposal lifecycle from the refreshed Safe state.
+ */
+
+import * as cron from 'node-cron';
+import { isSafeServiceConfigured, trackPendingSafeTransactions } from '../services/safeService.js';
+import { syncProposalStatuses } from '../services/rebalanceProposalService.js';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+// Every 5 minutes
+const SAFE_TRACKING_CRON_SCHEDULE = process.env.SAFE_TRACKING_CRON_SCHEDULE || '*/5 * * * *';
+
+// =============================================================================
+// Job State
+// =============================================================================
+
+let scheduledTask: cron.ScheduledTask | null = null;
+let lastRunResult: {
+  timestamp: Date;
+  checked: number;
+  executed: number;
+  failed: number;
+  proposalsUpdated: number;
+  error?: string;
+} | null = null;
+
+// =============================================================================
+// Job Functions
+// =============================================================================
+
+async function runSafeTrackingJob(): Promise<void> {
+  try {
+    const result = await trackPendingSafeTransactions();
+    const { updated, expired } = await syncProposalStatuses();
+    lastRunResult = { timestamp: new Date(), ...result, proposalsUpdated: updated + expired };
+
+    if (result.checked > 0) {
+      console.log(
+        `[SafeTrackingJob] Checked ${result.checked} pending proposals, ${result.executed} executed`
+      );
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[SafeTrackingJob] Failed:', errorMessage);
+
+    lastRunResult = {
+      timestamp: new Date(),
+      checked: 0,
+      executed: 0,
+      failed: 0,
+      proposalsUpdated: 0,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Start the Safe tracking cron job
+ */
+export function startSafeTrackingJob(): void {
+  if (!isSafeServiceConfigured()) {
+    console.log('[SafeTrackingJob] Safe Transaction Service not configured, job disabled');
+    return;
+  }
+
+  if (scheduledTask) {
+    console.log('[SafeTrackingJob] Job already running, skipping start');
+    return;
+  }
+
+  scheduledTask = cron.schedule(
+    SAFE_TRACKING_CRON_SCHEDULE,
+    () => {
+      void runSafeTrackingJob();
+    },
+    {
+      scheduled: true,
+      timezone: 'UTC',
+    }
+  );
+
+  console.log(`[SafeTrackingJob] Started with schedule: ${SAFE_TRACKING_CRON_SCHEDULE}`);
+}
+
+/**
+ * Stop the Safe tracking cron job
+ */
+export function stopSafeTrackingJob(): void {
+  if (scheduledTask) {
+    scheduledTask.stop();
+    scheduledTask = null;
+    console.log('[SafeTrackingJob] Cron job stopped');
+  }
+}
+
+/**
+ * Get the current job status
+ */
+export function getJobStatus() {
+  return {
+    running: scheduledTask !== null,
+    schedule: SAFE_TRACKING_CRON_SCHEDULE,
+    lastRun: lastRunResult,
+  };
+}
+
+export default {
+  startSafeTrackingJob,
+  stopSafeTrackingJob,
+  getJobStatus,
+};
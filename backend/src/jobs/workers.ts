@@ -1,12 +1,17 @@
 import { Worker, Job } from 'bullmq';
 import { getRedisOptions } from '../config/redis.js';
-import { sendNotification, broadcastNotification } from '../services/emailService.js';
+import { sendNotification, broadcastNotification } from '../services/notificationService.js';
+import { EventListener } from '../services/eventListener.js';
+import { contracts } from '../services/blockchain.js';
+import { deliverWebhook } from '../services/webhookService.js';
 import type { NotificationType } from '@prisma/client';
+import type { NotificationResult } from '../services/notificationService.js';
 import type {
   NetValueSyncJobData,
   TransactionSyncJobData,
   RebalanceJobData,
   NotificationJobData,
+  WebhookJobData,
 } from './queues.js';
 
 const connection = getRedisOptions();
@@ -54,34 +59,65 @@ export const netValueSyncWorker = new Worker<NetValueSyncJobData>(
 // Transaction Sync Worker
 // =============================================================================
 
-export const transactionSyncWorker = new Worker<TransactionSyncJobData>(
-  'transaction-sync',
-  async (job: Job<TransactionSyncJobData>) => {
-    const { fromBlock, toBlock, eventType } = job.data;
-    console.warn(`[TransactionSync] Processing blocks ${fromBlock}-${toBlock}, type: ${eventType || 'all'}`);
+let backfillListener: EventListener | null = null;
 
-    try {
-      // TODO: Implement actual transaction indexing
-      // 1. Query Deposit/Withdraw events from vault contract
-      // 2. Parse event data
-      // 3. Create/update user records
-      // 4. Save transactions to database
+/**
+ * Listener used only for its handlers; never started, so it doesn't touch the live checkpoint
+ */
+function getBackfillListener(): EventListener {
+  if (!backfillListener) {
+    if (!contracts.pngyVault) {
+      throw new Error('PNGY_VAULT_ADDRESS not configured');
+    }
+    backfillListener = new EventListener({ vaultAddress: contracts.pngyVault });
+  }
+  return backfillListener;
+}
 
-      await job.updateProgress(100);
+/**
+ * Apply a transaction-sync job's block range in order. Each finished chunk is recorded
+ * on the job, so a retried attempt starts from the first block it has not applied yet.
+ */
+export async function processTransactionSyncJob(job: Job<TransactionSyncJobData>) {
+  // Block numbers arrive as strings (see addTransactionSyncJob)
+  const fromBlock = BigInt(job.data.fromBlock);
+  const toBlock = BigInt(job.data.toBlock);
+  const startBlock = job.data.resumeFromBlock ? BigInt(job.data.resumeFromBlock) : fromBlock;
+  const eventType = job.data.eventType || 'all';
+  console.warn(
+    `[TransactionSync] Processing blocks ${startBlock}-${toBlock} of ${fromBlock}-${toBlock}, type: ${eventType}`
+  );
+
+  try {
+    const result = await getBackfillListener().backfillRange(startBlock, toBlock, {
+      eventType,
+      historical: job.data.historical ?? false,
+      onChunkProcessed: async (chunkEnd) => {
+        await job.updateData({ ...job.data, resumeFromBlock: (chunkEnd + 1n).toString() });
+        await job.updateProgress(
+          Number(((chunkEnd - fromBlock + 1n) * 100n) / (toBlock - fromBlock + 1n))
+        );
+      },
+    });
+
+    return {
+      success: true,
+      blocksProcessed: Number(toBlock - fromBlock + 1n),
+      eventsProcessed: result.eventsProcessed,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    console.error(`[TransactionSync] Job ${job.id} failed:`, error);
+    throw error;
+  }
+}
 
-      return {
-        success: true,
-        blocksProcessed: Number(BigInt(toBlock) - BigInt(fromBlock)),
-        timestamp: new Date().toISOString(),
-      };
-    } catch (error) {
-      console.error(`[TransactionSync] Job ${job.id} failed:`, error);
-      throw error;
-    }
-  },
+export const transactionSyncWorker = new Worker<TransactionSyncJobData>(
+  'transaction-sync',
+  processTransactionSyncJob,
   {
     connection,
-    concurrency: 3, // Can process multiple block ranges in parallel
+    concurrency: 1, // One block range at a time so events apply in chain order
   }
 );
 
@@ -142,7 +178,7 @@ export const notificationWorker = new Worker<NotificationJobData>(
       let result;
 
       if (userAddress) {
-        // Send to specific user
+        // Send to specific user on each of their enabled channels
         console.log(`[Notification] Sending ${type} notification to user ${userAddress}`);
         result = await sendNotification({
           userAddress,
@@ -163,7 +199,7 @@ export const notificationWorker = new Worker<NotificationJobData>(
         recipient: userAddress || 'broadcast',
         timestamp: new Date().toISOString(),
         ...(userAddress
-          ? { messageId: result.messageId, error: result.error }
+          ? { deliveries: (result as NotificationResult).deliveries, error: (result as NotificationResult).error }
           : { sent: (result as { sent: number; failed: number }).sent, failed: (result as { sent: number; failed: number }).failed }),
       };
 
@@ -187,11 +223,37 @@ export const notificationWorker = new Worker<NotificationJobData>(
   }
 );
 
+// =============================================================================
+// Webhook Worker
+// =============================================================================
+
+export const webhookWorker = new Worker<WebhookJobData>(
+  'webhooks',
+  async (job: Job<WebhookJobData>) => {
+    const attemptNumber = job.attemptsMade + 1;
+    const maxAttempts = job.opts.attempts || 1;
+
+    // Throws on a failed attempt so BullMQ retries with backoff;
+    // the last attempt marks the delivery FAILED instead
+    return deliverWebhook(job.data.deliveryId, { finalAttempt: attemptNumber >= maxAttempts });
+  },
+  {
+    connection,
+    concurrency: 10,
+  }
+);
+
 // =============================================================================
 // Worker Event Handlers
 // =============================================================================
 
-const workers = [netValueSyncWorker, transactionSyncWorker, rebalanceWorker, notificationWorker];
+const workers = [
+  netValueSyncWorker,
+  transactionSyncWorker,
+  rebalanceWorker,
+  notificationWorker,
+  webhookWorker,
+];
 
 workers.forEach((worker) => {
   worker.on('completed', (job) => {
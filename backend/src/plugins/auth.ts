@@ -0,0 +1,281 @@
+/**
+ * Auth Plugin
+ * Sign-In with Ethereum (EIP-4361) endpoints and route guards
+ *
+ * POST /auth/nonce   - Issue a single-use SIWE nonce
+ * POST /auth/verify  - Verify a signed SIWE message and issue a session token
+ * GET  /auth/session - Return the current session
+ *
+ * Route guards (register in a preHandler array):
+ * - requireAuth: any signed-in wallet
+ * - requireAdmin: signed-in wallet holding ADMIN_ROLE on the vault
+ * - requireWalletOwner(selector): signed-in wallet must match the address being written
+ */
+
+import type {
+  FastifyInstance,
+  FastifyPluginAsync,
+  FastifyReply,
+  FastifyRequest,
+  preHandlerAsyncHookHandler,
+} from 'fastify';
+import type { Hex } from 'viem';
+import {
+  issueNonce,
+  signInWithEthereum,
+  isVaultAdmin,
+  verifySessionToken,
+  AuthError,
+  type AuthSession,
+} from '../services/authService.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    session?: AuthSession;
+  }
+}
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface VerifyBody {
+  message: string;
+  signature: Hex;
+}
+
+// =============================================================================
+// Route Guards
+// =============================================================================
+
+const ETH_ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/;
+
+function readBearerToken(request: FastifyRequest): string | null {
+  const header = request.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return null;
+  }
+  return header.slice('Bearer '.length).trim();
+}
+
+/**
+ * Resolve the session from the Authorization header and attach it to the request
+ */
+function authenticate(request: FastifyRequest): AuthSession | null {
+  const token = readBearerToken(request);
+  const session = token ? verifySessionToken(token) : null;
+
+  if (session) {
+    request.session = session;
+  }
+  return session;
+}
+
+function sendUnauthorized(reply: FastifyReply) {
+  return reply.status(401).send({
+    success: false,
+    error: 'Authentication required',
+  });
+}
+
+export const requireAuth: preHandlerAsyncHookHandler = async (request, reply) => {
+  if (!authenticate(request)) {
+    return sendUnauthorized(reply);
+  }
+};
+
+export const requireAdmin: preHandlerAsyncHookHandler = async (request, reply) => {
+  const session = authenticate(request);
+  if (!session) {
+    return sendUnauthorized(reply);
+  }
+
+  // Re-check on-chain so a revoked admin loses access without waiting for token expiry
+  if (!(await isVaultAdmin(session.address))) {
+    return reply.status(403).send({
+      success: false,
+      error: 'Admin role required',
+    });
+  }
+};
+
+/**
+ * Only allow writes for the wallet that signed in
+ * @param selectAddress Extracts the target address from the request (params or body)
+ */
+export function requireWalletOwner(
+  selectAddress: (request: FastifyRequest) => string | undefined
+): preHandlerAsyncHookHandler {
+  return async (request, reply) => {
+    const session = authenticate(request);
+    if (!session) {
+      return sendUnauthorized(reply);
+    }
+
+    // Malformed addresses are left to the route's own validation (400)
+    const target = selectAddress(request);
+    if (target && ETH_ADDRESS_REGEX.test(target) && target.toLowerCase() !== session.address) {
+      return reply.status(403).send({
+        success: false,
+        error: 'Signed-in wallet does not match target address',
+      });
+    }
+  };
+}
+
+// =============================================================================
+// Route Plugin
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/require-await
+export const authPlugin: FastifyPluginAsync = async (server: FastifyInstance): Promise<void> => {
+  // POST /auth/nonce - Issue a SIWE nonce
+  server.post(
+    '/auth/nonce',
+    {
+      schema: {
+        tags: ['auth'],
+        summary: 'Issue a single-use nonce for Sign-In with Ethereum',
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  nonce: { type: 'string' },
+                },
+              },
+            },
+          },
+          500: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    async (_request, reply) => {
+      try {
+        const nonce = await issueNonce();
+        return { success: true, data: { nonce } };
+      } catch (error) {
+        server.log.error(error, 'Failed to issue nonce');
+        return reply.status(500).send({
+          success: false,
+          error: 'Failed to issue nonce',
+        });
+      }
+    }
+  );
+
+  // POST /auth/verify - Verify SIWE signature and issue session token
+  server.post<{ Body: VerifyBody }>(
+    '/auth/verify',
+    {
+      schema: {
+        tags: ['auth'],
+        summary: 'Verify a signed SIWE message and issue a session token',
+        body: {
+          type: 'object',
+          required: ['message', 'signature'],
+          properties: {
+            message: { type: 'string', minLength: 1 },
+            signature: { type: 'string', pattern: '^0x[a-fA-F0-9]+$' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  token: { type: 'string' },
+                  address: { type: 'string' },
+                  role: { type: 'string', enum: ['user', 'admin'] },
+                  expiresAt: { type: 'string', format: 'date-time' },
+                },
+              },
+            },
+          },
+          401: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+            },
+          },
+          500: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { message, signature } = request.body;
+
+      try {
+        const { token, session } = await signInWithEthereum(message, signature);
+
+        return {
+          success: true,
+          data: {
+            token,
+            address: session.address,
+            role: session.role,
+            expiresAt: new Date(session.expiresAt * 1000).toISOString(),
+          },
+        };
+      } catch (error) {
+        if (error instanceof AuthError) {
+          return reply.status(401).send({
+            success: false,
+            error: error.message,
+          });
+        }
+
+        server.log.error(error, 'Failed to verify SIWE message');
+        return reply.status(500).send({
+          success: false,
+          error: 'Failed to verify sign-in',
+        });
+      }
+    }
+  );
+
+  // GET /auth/session - Current session
+  server.get(
+    '/auth/session',
+    {
+      preHandler: [requireAuth],
+      schema: {
+        tags: ['auth'],
+        summary: 'Get the current wallet session',
+      },
+    },
+    (request) => {
+      const session = request.session!;
+
+      return {
+        success: true,
+        data: {
+          address: session.address,
+          role: session.role,
+          expiresAt: new Date(session.expiresAt * 1000).toISOString(),
+        },
+      };
+    }
+  );
+};
+
+export default authPlugin;
@@ -0,0 +1,337 @@
+/**
+ * Alert Rule Routes
+ * User-defined threshold alerts (APY, share price change, position value)
+ *
+ * All endpoints require a SIWE session for the wallet that owns the rules.
+ * Rules are evaluated after each NAV sync and delivered on the wallet's
+ * notification channels.
+ */
+
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import {
+  createAlertRule,
+  getAlertRules,
+  updateAlertRule,
+  deleteAlertRule,
+  AlertRuleValidationError,
+  ALERT_METRICS,
+  ALERT_DIRECTIONS,
+  MAX_WINDOW_HOURS,
+  MAX_COOLDOWN_HOURS,
+} from '../services/alertRuleService.js';
+import { requireWalletOwner } from '../plugins/auth.js';
+import type { AlertDirection, AlertMetric } from '@prisma/client';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface AddressParams {
+  address: string;
+}
+
+interface RuleParams extends AddressParams {
+  id: string;
+}
+
+interface CreateRuleBody {
+  metric: AlertMetric;
+  direction: AlertDirection;
+  threshold: number;
+  windowHours?: number;
+  cooldownHours?: number;
+  label?: string;
+}
+
+interface UpdateRuleBody {
+  direction?: AlertDirection;
+  threshold?: number;
+  windowHours?: number;
+  cooldownHours?: number;
+  label?: string | null;
+  active?: boolean;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const addressParamsSchema = {
+  type: 'object',
+  required: ['address'],
+  properties: {
+    address: { type: 'string', pattern: '^0x[a-fA-F0-9]{40}$' },
+  },
+};
+
+const ruleParamsSchema = {
+  type: 'object',
+  required: ['address', 'id'],
+  properties: {
+    ...addressParamsSchema.properties,
+    id: { type: 'string' },
+  },
+};
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' },
+  },
+};
+
+const ruleFieldsSchema = {
+  direction: { type: 'string', enum: ALERT_DIRECTIONS },
+  threshold: { type: 'number' },
+  windowHours: { type: 'integer', minimum: 1, maximum: MAX_WINDOW_HOURS },
+  cooldownHours: { type: 'integer', minimum: 1, maximum: MAX_COOLDOWN_HOURS },
+};
+
+const ruleSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    userAddress: { type: 'string' },
+    metric: { type: 'string', enum: ALERT_METRICS },
+    direction: { type: 'string', enum: ALERT_DIRECTIONS },
+    threshold: { type: 'number' },
+    windowHours: { type: 'integer', nullable: true },
+    cooldownHours: { type: 'integer' },
+    label: { type: 'string', nullable: true },
+    active: { type: 'boolean' },
+    triggered: { type: 'boolean' },
+    lastValue: { type: 'number', nullable: true },
+    lastEvaluatedAt: { type: 'string', format: 'date-time', nullable: true },
+    lastTriggeredAt: { type: 'string', format: 'date-time', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+const ruleOwner = requireWalletOwner((request) => (request.params as AddressParams).address);
+
+// =============================================================================
+// Route Plugin
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/require-await
+export const alertRoutes: FastifyPluginAsync = async (server: FastifyInstance): Promise<void> => {
+  // POST /alerts/:address - Create an alert rule
+  server.post<{
+    Params: AddressParams;
+    Body: CreateRuleBody;
+  }>(
+    '/alerts/:address',
+    {
+      preHandler: [ruleOwner],
+      schema: {
+        tags: ['alerts'],
+        summary: 'Create a threshold alert rule',
+        description:
+          'APY and SHARE_PRICE_CHANGE thresholds are percentages over windowHours (default 168 for APY, 24 for price change); a 1% drop is SHARE_PRICE_CHANGE BELOW -1. POSITION_VALUE thresholds are in USDT. A rule alerts when its condition starts to hold, then again only after the condition clears and the cooldown (default 24h) has passed.',
+        security: [{ bearerAuth: [] }],
+        params: addressParamsSchema,
+        body: {
+          type: 'object',
+          required: ['metric', 'direction', 'threshold'],
+          properties: {
+            metric: { type: 'string', enum: ALERT_METRICS },
+            ...ruleFieldsSchema,
+            label: { type: 'string', maxLength: 255 },
+          },
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: ruleSchema,
+            },
+          },
+          400: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const rule = await createAlertRule(request.params.address, request.body);
+
+        return reply.status(201).send({
+          success: true,
+          data: rule,
+        });
+      } catch (error) {
+        if (error instanceof AlertRuleValidationError) {
+          return reply.status(400).send({
+            success: false,
+            error: error.message,
+          });
+        }
+
+        server.log.error(error, 'Failed to create alert rule');
+        return reply.status(500).send({
+          success: false,
+          error: 'Failed to create alert rule',
+        });
+      }
+    }
+  );
+
+  // GET /alerts/:address - List alert rules
+  server.get<{
+    Params: AddressParams;
+  }>(
+    '/alerts/:address',
+    {
+      preHandler: [ruleOwner],
+      schema: {
+        tags: ['alerts'],
+        summary: 'List alert rules for a wallet',
+        security: [{ bearerAuth: [] }],
+        params: addressParamsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: { type: 'array', items: ruleSchema },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const rules = await getAlertRules(request.params.address);
+
+        return {
+          success: true,
+          data: rules,
+        };
+      } catch (error) {
+        server.log.error(error, 'Failed to list alert rules');
+        return reply.status(500).send({
+          success: false,
+          error: 'Failed to list alert rules',
+        });
+      }
+    }
+  );
+
+  // PATCH /alerts/:address/:id - Update an alert rule
+  server.patch<{
+    Params: RuleParams;
+    Body: UpdateRuleBody;
+  }>(
+    '/alerts/:address/:id',
+    {
+      preHandler: [ruleOwner],
+      schema: {
+        tags: ['alerts'],
+        summary: 'Update or pause an alert rule',
+        description: 'Changing the direction, threshold or window re-arms the rule.',
+        security: [{ bearerAuth: [] }],
+        params: ruleParamsSchema,
+        body: {
+          type: 'object',
+          properties: {
+            ...ruleFieldsSchema,
+            label: { type: ['string', 'null'], maxLength: 255 },
+            active: { type: 'boolean' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: ruleSchema,
+            },
+          },
+          400: errorSchema,
+          404: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { address, id } = request.params;
+
+      try {
+        const rule = await updateAlertRule(address, id, request.body);
+
+        if (!rule) {
+          return reply.status(404).send({
+            success: false,
+            error: 'Alert rule not found',
+          });
+        }
+
+        return {
+          success: true,
+          data: rule,
+        };
+      } catch (error) {
+        if (error instanceof AlertRuleValidationError) {
+          return reply.status(400).send({
+            success: false,
+            error: error.message,
+          });
+        }
+
+        server.log.error(error, 'Failed to update alert rule');
+        return reply.status(500).send({
+          success: false,
+          error: 'Failed to update alert rule',
+        });
+      }
+    }
+  );
+
+  // DELETE /alerts/:address/:id - Delete an alert rule
+  server.delete<{
+    Params: RuleParams;
+  }>(
+    '/alerts/:address/:id',
+    {
+      preHandler: [ruleOwner],
+      schema: {
+        tags: ['alerts'],
+        summary: 'Delete an alert rule',
+        security: [{ bearerAuth: [] }],
+        params: ruleParamsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+            },
+          },
+          404: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { address, id } = request.params;
+
+      try {
+        if (!(await deleteAlertRule(address, id))) {
+          return reply.status(404).send({
+            success: false,
+            error: 'Alert rule not found',
+          });
+        }
+
+        return { success: true };
+      } catch (error) {
+        server.log.error(error, 'Failed to delete alert rule');
+        return reply.status(500).send({
+          success: false,
+          error: 'Failed to delete alert rule',
+        });
+      }
+    }
+  );
+};
+
+export default alertRoutes;
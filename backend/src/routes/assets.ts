@@ -3,10 +3,12 @@
  * Task #53 - 实现后端 API - 获取 RWA 资产配置数据
  *
  * GET /assets/allocation - Get RWA asset allocation data
+ * GET /assets/details - Per-asset registry metadata, oracle, holding, price and rebalance history
  */
 
 import { FastifyInstance, FastifyPluginAsync } from 'fastify';
 import { getActiveAllocations, getRecentRebalances } from '../services/vault.service.js';
+import { getAssetDetails, type AssetDetail } from '../services/assetDetailsService.js';
 
 // =============================================================================
 // Types
@@ -39,6 +41,13 @@ interface AllocationResponse {
   };
 }
 
+interface AssetDetailsResponse {
+  success: boolean;
+  data: {
+    assets: AssetDetail[];
+  };
+}
+
 // =============================================================================
 // Constants
 // =============================================================================
@@ -46,6 +55,79 @@ interface AllocationResponse {
 const PRECISION_DECIMALS = 18;
 const ALLOCATION_DECIMALS = 4; // 0.0000 - 1.0000
 
+const errorSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' },
+  },
+};
+
+const assetDetailSchema = {
+  type: 'object',
+  properties: {
+    tokenAddress: { type: 'string' },
+    name: { type: 'string' },
+    symbol: { type: 'string' },
+    registry: {
+      type: 'object',
+      nullable: true,
+      properties: {
+        assetType: { type: 'string' },
+        oracleSource: { type: 'string' },
+        registeredAt: { type: 'string', format: 'date-time' },
+        isActive: { type: 'boolean' },
+      },
+    },
+    oracle: {
+      type: 'object',
+      nullable: true,
+      properties: {
+        price: { type: 'string' },
+        source: { type: 'string' },
+        updatedAt: { type: 'string', format: 'date-time' },
+      },
+    },
+    balance: { type: 'string' },
+    valueUsd: { type: 'string' },
+    targetAllocation: { type: 'number' },
+    actualAllocation: { type: 'number' },
+    deviation: { type: 'number' },
+    apy: { type: 'number' },
+    priceHistory: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          time: { type: 'string', format: 'date-time' },
+          open: { type: 'string' },
+          high: { type: 'string' },
+          low: { type: 'string' },
+          close: { type: 'string' },
+          source: { type: 'string' },
+          samples: { type: 'integer' },
+        },
+      },
+    },
+    rebalances: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          txHash: { type: 'string' },
+          type: { type: 'string' },
+          fromAsset: { type: 'string' },
+          toAsset: { type: 'string' },
+          fromAmount: { type: 'string' },
+          toAmount: { type: 'string' },
+          timestamp: { type: 'string', format: 'date-time' },
+        },
+      },
+    },
+    lastUpdated: { type: 'string', format: 'date-time' },
+  },
+};
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
@@ -259,6 +341,49 @@ export const assetsRoutes: FastifyPluginAsync = async (
       }
     }
   );
+
+  // GET /assets/details - Per-asset details
+  server.get<{
+    Reply: AssetDetailsResponse | { success: false; error: string };
+  }>(
+    '/assets/details',
+    {
+      schema: {
+        tags: ['assets'],
+        summary: 'Get RWA asset details',
+        description:
+          'Returns registry metadata, latest oracle price, holding, target vs. actual weight, 30 days of daily price candles and recent rebalance trades for every active asset',
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  assets: { type: 'array', items: assetDetailSchema },
+                },
+              },
+            },
+          },
+          500: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const assets = await getAssetDetails();
+
+        return { success: true, data: { assets } };
+      } catch (error) {
+        request.log.error(error, 'Failed to fetch asset details');
+        return reply.status(500).send({
+          success: false,
+          error: 'Failed to fetch asset details',
+        });
+      }
+    }
+  );
 };
 
 export default assetsRoutes;
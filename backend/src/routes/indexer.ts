@@ -0,0 +1,76 @@
+/**
+ * Indexer Status Routes
+ *
+ * GET /indexer/status - EventListener checkpoints and lag behind chain head
+ */
+
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import { getIndexerStatus } from '../services/indexerService.js';
+
+// =============================================================================
+// Route Plugin
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/require-await
+export const indexerRoutes: FastifyPluginAsync = async (server: FastifyInstance): Promise<void> => {
+  // GET /indexer/status - Indexer checkpoints and lag
+  server.get(
+    '/indexer/status',
+    {
+      schema: {
+        tags: ['indexer'],
+        summary: 'Get event indexer progress',
+        description:
+          'Returns the last processed block of each indexer checkpoint and how many blocks it lags behind the chain head',
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  headBlock: { type: 'string', nullable: true },
+                  checkpoints: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        contractAddress: { type: 'string' },
+                        eventSet: { type: 'string' },
+                        lastProcessedBlock: { type: 'string' },
+                        lagBlocks: { type: 'string', nullable: true },
+                        updatedAt: { type: 'string', format: 'date-time' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          500: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    async (_request, reply) => {
+      try {
+        const status = await getIndexerStatus();
+        return { success: true, data: status };
+      } catch (error) {
+        server.log.error(error, 'Failed to fetch indexer status');
+        return reply.status(500).send({
+          success: false,
+          error: 'Failed to fetch indexer status',
+        });
+      }
+    }
+  );
+};
+
+export default indexerRoutes;
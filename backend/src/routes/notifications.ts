@@ -3,15 +3,33 @@
  * Task #56 - 实现通知系统 - 邮件通知
  *
  * API endpoints for managing notification preferences
+ * Writes require a SIWE session for the wallet being updated
+ * Emails are double opt-in: saving an email sends a single-use verification link
+ * Alerts go to every enabled channel: EMAIL, TELEGRAM, DISCORD or WEBHOOK
+ * Routine emails can be bundled into a daily or weekly digest instead
  */
 
 import { FastifyInstance, FastifyPluginAsync } from 'fastify';
 import {
   getNotificationPreferences,
   upsertNotificationPreferences,
-  verifyEmail,
   getNotificationHistory,
 } from '../services/emailService.js';
+import {
+  sendVerificationEmail,
+  verifyEmailToken,
+  EmailVerificationError,
+  VerificationRateLimitError,
+} from '../services/emailVerificationService.js';
+import {
+  NOTIFICATION_CHANNELS,
+  TELEGRAM_CHAT_ID_REGEX,
+  DISCORD_WEBHOOK_REGEX,
+  isValidWebhookUrl,
+} from '../services/notificationChannels.js';
+import { DIGEST_FREQUENCIES } from '../services/digestService.js';
+import { requireWalletOwner } from '../plugins/auth.js';
+import type { DigestFrequency, NotificationChannel } from '@prisma/client';
 
 // =============================================================================
 // Types
@@ -26,11 +44,33 @@ interface UpdatePreferencesBody {
   withdrawalAlert?: boolean;
   rebalanceAlert?: boolean;
   emergencyAlert?: boolean;
+  channels?: NotificationChannel[];
+  telegramChatId?: string | null;
+  discordWebhookUrl?: string | null;
+  webhookUrl?: string | null;
+  digestFrequency?: DigestFrequency;
+}
+
+interface StoredPreferences {
+  userAddress: string;
+  email: string | null;
+  emailVerified: boolean;
+  withdrawalAlert: boolean;
+  rebalanceAlert: boolean;
+  emergencyAlert: boolean;
+  channels: NotificationChannel[];
+  telegramChatId: string | null;
+  discordWebhookUrl: string | null;
+  webhookUrl: string | null;
+  digestFrequency: DigestFrequency;
 }
 
-interface VerifyEmailBody {
+interface VerifyEmailQuery {
+  token: string;
+}
+
+interface ResendVerificationBody {
   address: string;
-  // In production, this would include a verification token
 }
 
 interface HistoryQueryParams {
@@ -59,6 +99,49 @@ function isValidEmail(email: string): boolean {
   return EMAIL_REGEX.test(email);
 }
 
+/**
+ * Validate channel destinations; returns an error message or null
+ */
+function validateChannelSettings(body: UpdatePreferencesBody): string | null {
+  if (body.telegramChatId && !TELEGRAM_CHAT_ID_REGEX.test(body.telegramChatId)) {
+    return 'Invalid Telegram chat id';
+  }
+
+  if (body.discordWebhookUrl && !DISCORD_WEBHOOK_REGEX.test(body.discordWebhookUrl)) {
+    return 'Invalid Discord webhook URL';
+  }
+
+  if (body.webhookUrl && !isValidWebhookUrl(body.webhookUrl)) {
+    return 'Webhook URL must be an https:// URL';
+  }
+
+  return null;
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+/**
+ * Public view of preferences; channel destinations are reported as configured
+ * or not, since webhook URLs and chat ids act as credentials
+ */
+function formatPreferences(preferences: StoredPreferences) {
+  return {
+    userAddress: preferences.userAddress,
+    email: preferences.email,
+    emailVerified: preferences.emailVerified,
+    withdrawalAlert: preferences.withdrawalAlert,
+    rebalanceAlert: preferences.rebalanceAlert,
+    emergencyAlert: preferences.emergencyAlert,
+    channels: preferences.channels,
+    telegramConfigured: Boolean(preferences.telegramChatId),
+    discordConfigured: Boolean(preferences.discordWebhookUrl),
+    webhookConfigured: Boolean(preferences.webhookUrl),
+    digestFrequency: preferences.digestFrequency,
+  };
+}
+
 // =============================================================================
 // Route Plugin
 // =============================================================================
@@ -100,6 +183,14 @@ export const notificationRoutes: FastifyPluginAsync = async (
                   withdrawalAlert: { type: 'boolean' },
                   rebalanceAlert: { type: 'boolean' },
                   emergencyAlert: { type: 'boolean' },
+                  channels: {
+                    type: 'array',
+                    items: { type: 'string', enum: NOTIFICATION_CHANNELS },
+                  },
+                  telegramConfigured: { type: 'boolean' },
+                  discordConfigured: { type: 'boolean' },
+                  webhookConfigured: { type: 'boolean' },
+                  digestFrequency: { type: 'string', enum: DIGEST_FREQUENCIES },
                 },
               },
             },
@@ -125,20 +216,11 @@ export const notificationRoutes: FastifyPluginAsync = async (
       }
 
       try {
-        const preferences = await getNotificationPreferences(address);
+        const preferences: StoredPreferences | null = await getNotificationPreferences(address);
 
         return {
           success: true,
-          data: preferences
-            ? {
-                userAddress: preferences.userAddress,
-                email: preferences.email,
-                emailVerified: preferences.emailVerified,
-                withdrawalAlert: preferences.withdrawalAlert,
-                rebalanceAlert: preferences.rebalanceAlert,
-                emergencyAlert: preferences.emergencyAlert,
-              }
-            : null,
+          data: preferences ? formatPreferences(preferences) : null,
         };
       } catch (error) {
         server.log.error(error, 'Failed to get notification preferences');
@@ -157,9 +239,13 @@ export const notificationRoutes: FastifyPluginAsync = async (
   }>(
     '/notifications/preferences/:address',
     {
+      preHandler: [
+        requireWalletOwner((request) => (request.params as PreferencesPathParams).address),
+      ],
       schema: {
         tags: ['notifications'],
         summary: 'Update notification preferences',
+        security: [{ bearerAuth: [] }],
         params: {
           type: 'object',
           required: ['address'],
@@ -170,6 +256,8 @@ export const notificationRoutes: FastifyPluginAsync = async (
             },
           },
         },
+        description:
+          'Enabled channels without a destination (or EMAIL without a verified address) are skipped at delivery. Send null to clear a destination. With a DAILY or WEEKLY digestFrequency, routine emails are bundled into one summary email; urgent alerts are still sent immediately.',
         body: {
           type: 'object',
           properties: {
@@ -177,6 +265,15 @@ export const notificationRoutes: FastifyPluginAsync = async (
             withdrawalAlert: { type: 'boolean' },
             rebalanceAlert: { type: 'boolean' },
             emergencyAlert: { type: 'boolean' },
+            channels: {
+              type: 'array',
+              uniqueItems: true,
+              items: { type: 'string', enum: NOTIFICATION_CHANNELS },
+            },
+            telegramChatId: { type: ['string', 'null'], maxLength: 64 },
+            discordWebhookUrl: { type: ['string', 'null'], maxLength: 512 },
+            webhookUrl: { type: ['string', 'null'], maxLength: 512 },
+            digestFrequency: { type: 'string', enum: DIGEST_FREQUENCIES },
           },
         },
         response: {
@@ -193,8 +290,17 @@ export const notificationRoutes: FastifyPluginAsync = async (
                   withdrawalAlert: { type: 'boolean' },
                   rebalanceAlert: { type: 'boolean' },
                   emergencyAlert: { type: 'boolean' },
+                  channels: {
+                    type: 'array',
+                    items: { type: 'string', enum: NOTIFICATION_CHANNELS },
+                  },
+                  telegramConfigured: { type: 'boolean' },
+                  discordConfigured: { type: 'boolean' },
+                  webhookConfigured: { type: 'boolean' },
+                  digestFrequency: { type: 'string', enum: DIGEST_FREQUENCIES },
                 },
               },
+              verificationEmailSent: { type: 'boolean' },
             },
           },
           400: {
@@ -210,6 +316,8 @@ export const notificationRoutes: FastifyPluginAsync = async (
     async (request, reply) => {
       const { address } = request.params;
       const { email, withdrawalAlert, rebalanceAlert, emergencyAlert } = request.body;
+      const { channels, telegramChatId, discordWebhookUrl, webhookUrl, digestFrequency } =
+        request.body;
 
       if (!isValidEthAddress(address)) {
         return reply.status(400).send({
@@ -225,24 +333,43 @@ export const notificationRoutes: FastifyPluginAsync = async (
         });
       }
 
+      const channelError = validateChannelSettings(request.body);
+      if (channelError) {
+        return reply.status(400).send({
+          success: false,
+          error: channelError,
+        });
+      }
+
       try {
-        const preferences = await upsertNotificationPreferences(address, {
+        const preferences: StoredPreferences = await upsertNotificationPreferences(address, {
           email,
           withdrawalAlert,
           rebalanceAlert,
           emergencyAlert,
+          channels,
+          telegramChatId,
+          discordWebhookUrl,
+          webhookUrl,
+          digestFrequency,
         });
 
+        // Saving an unverified email (new or changed) sends a verification link
+        let verificationEmailSent = false;
+        if (email && !preferences.emailVerified) {
+          try {
+            verificationEmailSent = (await sendVerificationEmail(address)).sent;
+          } catch (error) {
+            if (!(error instanceof VerificationRateLimitError)) {
+              server.log.error(error, 'Failed to send verification email');
+            }
+          }
+        }
+
         return {
           success: true,
-          data: {
-            userAddress: preferences.userAddress,
-            email: preferences.email,
-            emailVerified: preferences.emailVerified,
-            withdrawalAlert: preferences.withdrawalAlert,
-            rebalanceAlert: preferences.rebalanceAlert,
-            emergencyAlert: preferences.emergencyAlert,
-          },
+          data: formatPreferences(preferences),
+          verificationEmailSent,
         };
       } catch (error) {
         server.log.error(error, 'Failed to update notification preferences');
@@ -254,20 +381,22 @@ export const notificationRoutes: FastifyPluginAsync = async (
     }
   );
 
-  // POST /notifications/verify-email - Verify email address
-  server.post<{
-    Body: VerifyEmailBody;
+  // GET /notifications/verify-email?token= - Verify email address from the emailed link
+  server.get<{
+    Querystring: VerifyEmailQuery;
   }>(
     '/notifications/verify-email',
     {
       schema: {
         tags: ['notifications'],
-        summary: 'Verify email address (simplified for demo)',
-        body: {
+        summary: 'Verify an email address with the token from the verification email',
+        description:
+          'Tokens are single-use, expire, and are invalidated when a newer link is sent or the email changes.',
+        querystring: {
           type: 'object',
-          required: ['address'],
+          required: ['token'],
           properties: {
-            address: { type: 'string', pattern: '^0x[a-fA-F0-9]{40}$' },
+            token: { type: 'string', minLength: 1 },
           },
         },
         response: {
@@ -275,7 +404,14 @@ export const notificationRoutes: FastifyPluginAsync = async (
             type: 'object',
             properties: {
               success: { type: 'boolean' },
-              verified: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  address: { type: 'string' },
+                  email: { type: 'string' },
+                  emailVerified: { type: 'boolean' },
+                },
+              },
             },
           },
           400: {
@@ -289,28 +425,133 @@ export const notificationRoutes: FastifyPluginAsync = async (
       },
     },
     async (request, reply) => {
-      const { address } = request.body;
+      try {
+        const verified = await verifyEmailToken(request.query.token);
 
-      if (!isValidEthAddress(address)) {
-        return reply.status(400).send({
+        return {
+          success: true,
+          data: {
+            address: verified.address,
+            email: verified.email,
+            emailVerified: true,
+          },
+        };
+      } catch (error) {
+        if (error instanceof EmailVerificationError) {
+          return reply.status(400).send({
+            success: false,
+            error: error.message,
+          });
+        }
+
+        server.log.error(error, 'Failed to verify email');
+        return reply.status(500).send({
           success: false,
-          error: 'Invalid Ethereum address',
+          error: 'Failed to verify email',
         });
       }
+    }
+  );
+
+  // POST /notifications/verify-email/resend - Send a new verification link
+  server.post<{
+    Body: ResendVerificationBody;
+  }>(
+    '/notifications/verify-email/resend',
+    {
+      preHandler: [
+        requireWalletOwner(
+          (request) => (request.body as ResendVerificationBody | undefined)?.address
+        ),
+      ],
+      schema: {
+        tags: ['notifications'],
+        summary: 'Resend the verification email',
+        description:
+          'Rate-limited per wallet. Any previously sent link stops working once a new one is issued.',
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['address'],
+          properties: {
+            address: { type: 'string', pattern: '^0x[a-fA-F0-9]{40}$' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  email: { type: 'string' },
+                  expiresAt: { type: 'string' },
+                },
+              },
+            },
+          },
+          400: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+            },
+          },
+          429: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              retryAfter: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { address } = request.body;
 
       try {
-        // In production, this would verify a token sent to the email
-        const verified = await verifyEmail(address);
+        const result = await sendVerificationEmail(address);
+
+        if (!result.sent) {
+          return reply.status(502).send({
+            success: false,
+            error: 'Failed to send verification email',
+          });
+        }
 
         return {
           success: true,
-          verified,
+          data: {
+            email: result.email,
+            expiresAt: result.expiresAt.toISOString(),
+          },
         };
       } catch (error) {
-        server.log.error(error, 'Failed to verify email');
+        if (error instanceof VerificationRateLimitError) {
+          return reply
+            .status(429)
+            .header('retry-after', String(error.retryAfter))
+            .send({
+              success: false,
+              error: error.message,
+              retryAfter: error.retryAfter,
+            });
+        }
+
+        if (error instanceof EmailVerificationError) {
+          return reply.status(400).send({
+            success: false,
+            error: error.message,
+          });
+        }
+
+        server.log.error(error, 'Failed to resend verification email');
         return reply.status(500).send({
           success: false,
-          error: 'Failed to verify email',
+          error: 'Failed to resend verification email',
         });
       }
     }
@@ -0,0 +1,159 @@
+/**
+ * Oracle Price Routes
+ *
+ * GET /prices/:token - OHLC candles of indexed oracle prices for charts
+ */
+
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import {
+  getPriceCandles,
+  PriceQueryError,
+  CANDLE_INTERVALS,
+  MAX_CANDLES,
+  type CandleInterval,
+  type PriceCandle,
+} from '../services/oracleService.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface PriceQueryParams {
+  from?: string;
+  to?: string;
+  interval?: CandleInterval;
+}
+
+interface PriceResponse {
+  success: true;
+  data: {
+    token: string;
+    interval: CandleInterval;
+    from: string;
+    to: string;
+    candles: PriceCandle[];
+  };
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_INTERVAL: CandleInterval = '1h';
+const DEFAULT_RANGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' },
+  },
+};
+
+// =============================================================================
+// Route Plugin
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/require-await
+export const pricesRoutes: FastifyPluginAsync = async (server: FastifyInstance): Promise<void> => {
+  // GET /prices/:token - OHLC candles
+  server.get<{
+    Params: { token: string };
+    Querystring: PriceQueryParams;
+    Reply: PriceResponse | { success: false; error: string };
+  }>(
+    '/prices/:token',
+    {
+      schema: {
+        tags: ['prices'],
+        summary: 'Get OHLC price candles for an RWA token',
+        description: `Oracle prices indexed from the OracleAdapter, bucketed by interval. Defaults to the last 7 days; at most ${MAX_CANDLES} candles per request. Buckets without readings are omitted.`,
+        params: {
+          type: 'object',
+          properties: {
+            token: { type: 'string', pattern: '^0x[a-fA-F0-9]{40}$' },
+          },
+          required: ['token'],
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            from: { type: 'string', format: 'date-time' },
+            to: { type: 'string', format: 'date-time' },
+            interval: {
+              type: 'string',
+              enum: Object.keys(CANDLE_INTERVALS),
+              default: DEFAULT_INTERVAL,
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  token: { type: 'string' },
+                  interval: { type: 'string' },
+                  from: { type: 'string', format: 'date-time' },
+                  to: { type: 'string', format: 'date-time' },
+                  candles: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        time: { type: 'string', format: 'date-time' },
+                        open: { type: 'string' },
+                        high: { type: 'string' },
+                        low: { type: 'string' },
+                        close: { type: 'string' },
+                        source: { type: 'string', enum: ['APRO', 'CHAINLINK', 'MANUAL'] },
+                        samples: { type: 'integer' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          400: errorSchema,
+          500: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const token = request.params.token.toLowerCase();
+      const { interval = DEFAULT_INTERVAL } = request.query;
+      const to = request.query.to ? new Date(request.query.to) : new Date();
+      const from = request.query.from
+        ? new Date(request.query.from)
+        : new Date(to.getTime() - DEFAULT_RANGE_MS);
+
+      try {
+        const candles = await getPriceCandles(token, { from, to, interval });
+
+        return {
+          success: true,
+          data: {
+            token,
+            interval,
+            from: from.toISOString(),
+            to: to.toISOString(),
+            candles,
+          },
+        };
+      } catch (error) {
+        if (error instanceof PriceQueryError) {
+          return reply.status(400).send({ success: false, error: error.message });
+        }
+
+        request.log.error(error, 'Failed to fetch price candles');
+        return reply.status(500).send({ success: false, error: 'Failed to fetch price candles' });
+      }
+    }
+  );
+};
+
+export default pricesRoutes;
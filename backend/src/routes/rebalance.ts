@@ -0,0 +1,421 @@
+/**
+ * Rebalance Proposal Routes
+ *
+ * GET /rebalance/proposals     - Proposals newest first, optionally filtered by status
+ * GET /rebalance/proposals/:id - A single proposal with every leg
+ * POST /rebalance/simulate     - Dry-run a rebalance via eth_call, nothing is proposed (admin only)
+ * GET /rebalance/strategies    - Target allocations of every allocation strategy
+ */
+
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import {
+  getProposals,
+  getProposalById,
+  REBALANCE_PROPOSAL_STATUSES,
+  type RebalanceProposalRecord,
+  type RebalanceProposalStatus,
+} from '../services/rebalanceProposalService.js';
+import {
+  simulateRebalance,
+  SimulationInputError,
+  type RebalanceSimulation,
+  type SimulateRebalanceOptions,
+} from '../services/rebalanceSimulationService.js';
+import { compareAllocationStrategies } from '../services/rebalanceEngine.js';
+import { ALLOCATION_STRATEGIES } from '../services/allocationStrategies.js';
+import { requireAdmin } from '../plugins/auth.js';
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+type ErrorReply = { success: false; error: string };
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' },
+  },
+};
+
+const legSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      token: { type: 'string' },
+      amount: { type: 'string' },
+    },
+  },
+};
+
+const proposalSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    status: { type: 'string', enum: REBALANCE_PROPOSAL_STATUSES },
+    statusReason: { type: 'string', nullable: true },
+    vaultAddress: { type: 'string' },
+    callData: { type: 'string' },
+    targetAllocations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          token: { type: 'string' },
+          allocation: { type: 'integer', description: 'Basis points' },
+        },
+      },
+    },
+    sells: legSchema,
+    buys: legSchema,
+    totalValue: { type: 'string' },
+    maxDeviation: { type: 'number', description: 'Percentage' },
+    estimatedGas: { type: 'string' },
+    strategy: { type: 'string' },
+    safeTxHash: { type: 'string', nullable: true },
+    nonce: { type: 'string', nullable: true },
+    confirmations: { type: 'integer', nullable: true },
+    confirmationsRequired: { type: 'integer', nullable: true },
+    executionTxHash: { type: 'string', nullable: true },
+    expiresAt: { type: 'string', format: 'date-time' },
+    proposedAt: { type: 'string', format: 'date-time', nullable: true },
+    confirmedAt: { type: 'string', format: 'date-time', nullable: true },
+    executedAt: { type: 'string', format: 'date-time', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+const simulatedLegSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      token: { type: 'string' },
+      amount: { type: 'string' },
+      expectedOut: { type: 'string', description: 'Output at the oracle price' },
+      simulatedOut: { type: 'string', nullable: true },
+      slippageBps: { type: 'integer', nullable: true },
+    },
+  },
+};
+
+const simulationSchema = {
+  type: 'object',
+  properties: {
+    strategy: { type: 'string', enum: [...ALLOCATION_STRATEGIES, 'override'] },
+    blockNumber: { type: 'string' },
+    from: { type: 'string', nullable: true },
+    vaultAddress: { type: 'string' },
+    callData: { type: 'string' },
+    execution: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean' },
+        revertReason: { type: 'string', nullable: true },
+      },
+    },
+    assets: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          token: { type: 'string' },
+          price: { type: 'string' },
+          valueBefore: { type: 'string' },
+          valueAfter: { type: 'string' },
+          weightBefore: { type: 'integer', description: 'Basis points' },
+          weightAfter: { type: 'integer', description: 'Basis points' },
+          targetWeight: { type: 'integer', description: 'Basis points' },
+        },
+      },
+    },
+    sells: simulatedLegSchema,
+    buys: simulatedLegSchema,
+    residualCash: { type: 'string' },
+    maxDeviationBefore: { type: 'number', description: 'Percentage' },
+    maxDeviationAfter: { type: 'number', description: 'Percentage' },
+  },
+};
+
+const addressPattern = '^0x[a-fA-F0-9]{40}$';
+
+// =============================================================================
+// Route Plugin
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/require-await
+export const rebalanceRoutes: FastifyPluginAsync = async (server: FastifyInstance) => {
+  // GET /rebalance/proposals - Paginated proposal list
+  server.get<{
+    Querystring: { status?: RebalanceProposalStatus; limit?: number; cursor?: string };
+    Reply:
+      | {
+          success: true;
+          data: RebalanceProposalRecord[];
+          pagination: { limit: number; nextCursor: string | null; hasMore: boolean };
+        }
+      | ErrorReply;
+  }>(
+    '/rebalance/proposals',
+    {
+      schema: {
+        tags: ['rebalance'],
+        summary: 'List rebalance proposals',
+        querystring: {
+          type: 'object',
+          properties: {
+            status: { type: 'string', enum: REBALANCE_PROPOSAL_STATUSES },
+            limit: { type: 'integer', minimum: 1, maximum: MAX_LIMIT, default: DEFAULT_LIMIT },
+            cursor: { type: 'string', description: 'nextCursor from the previous page' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: { type: 'array', items: proposalSchema },
+              pagination: {
+                type: 'object',
+                properties: {
+                  limit: { type: 'integer' },
+                  nextCursor: { type: 'string', nullable: true },
+                  hasMore: { type: 'boolean' },
+                },
+              },
+            },
+          },
+          500: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { status, limit = DEFAULT_LIMIT, cursor } = request.query;
+
+      try {
+        const { proposals, nextCursor } = await getProposals({ status, limit, cursor });
+
+        return {
+          success: true,
+          data: proposals,
+          pagination: { limit, nextCursor, hasMore: nextCursor !== null },
+        };
+      } catch (error) {
+        request.log.error(error, 'Failed to fetch rebalance proposals');
+        return reply
+          .status(500)
+          .send({ success: false, error: 'Failed to fetch rebalance proposals' });
+      }
+    }
+  );
+
+  // GET /rebalance/proposals/:id - Proposal detail
+  server.get<{
+    Params: { id: string };
+    Reply: { success: true; data: RebalanceProposalRecord } | ErrorReply;
+  }>(
+    '/rebalance/proposals/:id',
+    {
+      schema: {
+        tags: ['rebalance'],
+        summary: 'Get a rebalance proposal',
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: proposalSchema,
+            },
+          },
+          404: errorSchema,
+          500: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const proposal = await getProposalById(request.params.id);
+
+        if (!proposal) {
+          return reply.status(404).send({ success: false, error: 'Rebalance proposal not found' });
+        }
+
+        return { success: true, data: proposal };
+      } catch (error) {
+        request.log.error(error, 'Failed to fetch rebalance proposal');
+        return reply
+          .status(500)
+          .send({ success: false, error: 'Failed to fetch rebalance proposal' });
+      }
+    }
+  );
+
+  // POST /rebalance/simulate - Dry-run with optional override targets (admin only)
+  server.post<{
+    Body: SimulateRebalanceOptions;
+    Reply: { success: true; data: RebalanceSimulation } | ErrorReply;
+  }>(
+    '/rebalance/simulate',
+    {
+      preHandler: [requireAdmin],
+      schema: {
+        tags: ['rebalance'],
+        summary: 'Simulate a rebalance',
+        description:
+          'Runs rebalanceWithNewAllocations as an eth_call from the Safe and returns before/after weights, trade amounts and oracle-priced slippage. Without targetAllocations the RebalanceStrategy optimum is used.',
+        body: {
+          type: 'object',
+          nullable: true,
+          properties: {
+            targetAllocations: {
+              type: 'array',
+              minItems: 1,
+              items: {
+                type: 'object',
+                properties: {
+                  token: { type: 'string', pattern: addressPattern },
+                  allocation: { type: 'integer', minimum: 0, maximum: 10000 },
+                },
+                required: ['token', 'allocation'],
+              },
+            },
+            strategy: { type: 'string', enum: ALLOCATION_STRATEGIES },
+            from: { type: 'string', pattern: addressPattern },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: simulationSchema,
+            },
+          },
+          400: errorSchema,
+          500: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const simulation = await simulateRebalance(request.body ?? {});
+        return { success: true, data: simulation };
+      } catch (error) {
+        if (error instanceof SimulationInputError) {
+          return reply.status(400).send({ success: false, error: error.message });
+        }
+
+        request.log.error(error, 'Failed to simulate rebalance');
+        return reply.status(500).send({ success: false, error: 'Failed to simulate rebalance' });
+      }
+    }
+  );
+
+  // GET /rebalance/strategies - Side-by-side strategy targets
+  server.get(
+    '/rebalance/strategies',
+    {
+      schema: {
+        tags: ['rebalance'],
+        summary: 'Compare allocation strategies',
+        description:
+          'Target allocations (basis points) each strategy would produce for the current assets. A strategy that cannot run reports an error instead.',
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  activeStrategy: { type: 'string', enum: ALLOCATION_STRATEGIES },
+                  assets: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        token: { type: 'string' },
+                        currentAllocation: { type: 'integer' },
+                        apy: { type: 'integer' },
+                      },
+                    },
+                  },
+                  strategies: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        strategy: { type: 'string', enum: ALLOCATION_STRATEGIES },
+                        allocations: {
+                          type: 'array',
+                          nullable: true,
+                          items: {
+                            type: 'object',
+                            properties: {
+                              token: { type: 'string' },
+                              targetAllocation: { type: 'integer' },
+                              allocationDelta: { type: 'integer' },
+                            },
+                          },
+                        },
+                        error: { type: 'string', nullable: true },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          500: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { assets, activeStrategy, results } = await compareAllocationStrategies();
+
+        return {
+          success: true,
+          data: {
+            activeStrategy,
+            assets: assets.map((asset) => ({
+              token: asset.token,
+              currentAllocation: Number(asset.currentAllocation),
+              apy: Number(asset.apy),
+            })),
+            strategies: results.map((result) => ({
+              strategy: result.strategy,
+              allocations:
+                result.allocations?.map((a) => ({
+                  token: a.token,
+                  targetAllocation: Number(a.targetAllocation),
+                  allocationDelta: Number(a.allocationDelta),
+                })) ?? null,
+              error: result.error,
+            })),
+          },
+        };
+      } catch (error) {
+        request.log.error(error, 'Failed to compare allocation strategies');
+        return reply
+          .status(500)
+          .send({ success: false, error: 'Failed to compare allocation strategies' });
+      }
+    }
+  );
+};
+
+export default rebalanceRoutes;
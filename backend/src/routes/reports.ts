@@ -9,6 +9,7 @@ import { FastifyInstance, FastifyPluginAsync } from 'fastify';
 import {
   generateReport,
   getReportFilename,
+  type FiscalYearStart,
   type ReportType,
 } from '../services/reportService.js';
 
@@ -21,6 +22,8 @@ interface ExportQueryParams {
   type?: ReportType;
   startDate?: string;
   endDate?: string;
+  fiscalYear?: number;
+  fiscalYearStart?: string;
   format?: 'csv';
 }
 
@@ -29,8 +32,10 @@ interface ExportQueryParams {
 // =============================================================================
 
 const ETH_ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/;
-const VALID_REPORT_TYPES: ReportType[] = ['transactions', 'netvalue', 'summary'];
+const VALID_REPORT_TYPES: ReportType[] = ['transactions', 'netvalue', 'summary', 'gains'];
 const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_DAY_REGEX = /^\d{2}-\d{2}$/;
+const DEFAULT_FISCAL_YEAR_START = '01-01';
 
 // =============================================================================
 // Validation
@@ -59,6 +64,33 @@ function parseEndDate(dateStr: string): Date {
   return new Date(dateStr + 'T23:59:59.999Z');
 }
 
+/**
+ * Parse a fiscal year start in MM-DD format. Feb 29 is rejected since it doesn't
+ * exist every year.
+ */
+function parseFiscalYearStart(monthDay: string): FiscalYearStart | null {
+  if (!MONTH_DAY_REGEX.test(monthDay)) return null;
+
+  const [month, day] = monthDay.split('-').map(Number);
+  const date = new Date(Date.UTC(2001, month - 1, day)); // Non-leap year
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+
+  return { month, day };
+}
+
+/**
+ * First and last instant of a fiscal year, labelled by the calendar year it starts in
+ */
+function getFiscalYearRange(
+  fiscalYear: number,
+  start: FiscalYearStart
+): { startDate: Date; endDate: Date } {
+  return {
+    startDate: new Date(Date.UTC(fiscalYear, start.month - 1, start.day)),
+    endDate: new Date(Date.UTC(fiscalYear + 1, start.month - 1, start.day) - 1),
+  };
+}
+
 // =============================================================================
 // Route Plugin
 // =============================================================================
@@ -75,7 +107,7 @@ export const reportRoutes: FastifyPluginAsync = async (
       schema: {
         tags: ['reports'],
         summary: 'Export report as CSV',
-        description: 'Generate and download a CSV report for transaction history, net value, or summary data',
+        description: 'Generate and download a CSV report for transaction history, net value, summary or realized gains data. Use either startDate/endDate or fiscalYear.',
         querystring: {
           type: 'object',
           required: ['address'],
@@ -87,9 +119,9 @@ export const reportRoutes: FastifyPluginAsync = async (
             },
             type: {
               type: 'string',
-              enum: ['transactions', 'netvalue', 'summary'],
+              enum: ['transactions', 'netvalue', 'summary', 'gains'],
               default: 'transactions',
-              description: 'Report type: transactions (default), netvalue, or summary',
+              description: 'Report type: transactions (default), netvalue, summary, or gains',
             },
             startDate: {
               type: 'string',
@@ -101,6 +133,18 @@ export const reportRoutes: FastifyPluginAsync = async (
               pattern: '^\\d{4}-\\d{2}-\\d{2}$',
               description: 'End date in YYYY-MM-DD format',
             },
+            fiscalYear: {
+              type: 'integer',
+              minimum: 2000,
+              maximum: 2100,
+              description: 'Fiscal year to report on, labelled by the calendar year it starts in',
+            },
+            fiscalYearStart: {
+              type: 'string',
+              pattern: '^\\d{2}-\\d{2}$',
+              default: DEFAULT_FISCAL_YEAR_START,
+              description: 'First day of the fiscal year in MM-DD format (e.g. 04-06)',
+            },
             format: {
               type: 'string',
               enum: ['csv'],
@@ -130,6 +174,8 @@ export const reportRoutes: FastifyPluginAsync = async (
         type = 'transactions',
         startDate,
         endDate,
+        fiscalYear,
+        fiscalYearStart = DEFAULT_FISCAL_YEAR_START,
         format = 'csv',
       } = request.query;
 
@@ -149,10 +195,33 @@ export const reportRoutes: FastifyPluginAsync = async (
         });
       }
 
+      // Validate fiscal year options
+      const parsedFiscalYearStart = parseFiscalYearStart(fiscalYearStart);
+      if (!parsedFiscalYearStart) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid fiscalYearStart format. Use MM-DD',
+        });
+      }
+
+      if (fiscalYear !== undefined && (startDate || endDate)) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Use either fiscalYear or startDate/endDate, not both',
+        });
+      }
+
       // Validate and parse dates
       let parsedStartDate: Date | undefined;
       let parsedEndDate: Date | undefined;
 
+      if (fiscalYear !== undefined) {
+        ({ startDate: parsedStartDate, endDate: parsedEndDate } = getFiscalYearRange(
+          fiscalYear,
+          parsedFiscalYearStart
+        ));
+      }
+
       if (startDate) {
         if (!isValidDate(startDate)) {
           return reply.status(400).send({
@@ -188,6 +257,7 @@ export const reportRoutes: FastifyPluginAsync = async (
           reportType: type,
           startDate: parsedStartDate,
           endDate: parsedEndDate,
+          fiscalYearStart: parsedFiscalYearStart,
         });
 
         // Generate filename
@@ -261,6 +331,11 @@ export const reportRoutes: FastifyPluginAsync = async (
             description: 'Portfolio summary with yield calculations',
             requiresAddress: true,
           },
+          {
+            type: 'gains',
+            description: 'Realized gains per withdrawal with fiscal year totals',
+            requiresAddress: true,
+          },
         ],
       };
     }
@@ -12,10 +12,12 @@ import { PrismaClient, TransactionType } from '@prisma/client';
 const prisma = new PrismaClient();
 
 // Types
+type TransactionTypeParam = 'deposit' | 'withdraw' | 'transfer_in' | 'transfer_out';
+
 interface TransactionResponse {
   id: string;
   txHash: string;
-  type: 'deposit' | 'withdraw';
+  type: TransactionTypeParam;
   amount: string;
   shares: string;
   sharePrice: string;
@@ -41,7 +43,7 @@ interface TransactionQueryParams {
   days?: number;
   startDate?: string;
   endDate?: string;
-  type?: 'deposit' | 'withdraw';
+  type?: TransactionTypeParam;
 }
 
 interface TransactionPathParams {
@@ -52,6 +54,12 @@ interface TransactionPathParams {
 const DEFAULT_LIMIT = 20;
 const MAX_LIMIT = 100;
 const ETH_ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/;
+const TRANSACTION_TYPES: TransactionTypeParam[] = [
+  'deposit',
+  'withdraw',
+  'transfer_in',
+  'transfer_out',
+];
 
 // Validation helpers
 function isValidEthAddress(address: string): boolean {
@@ -77,7 +85,7 @@ function transformTransaction(tx: {
   return {
     id: tx.id,
     txHash: tx.txHash,
-    type: tx.type.toLowerCase() as 'deposit' | 'withdraw',
+    type: tx.type.toLowerCase() as TransactionTypeParam,
     amount: tx.amount.toString(),
     shares: tx.shares.toString(),
     sharePrice: tx.sharePrice.toString(),
@@ -146,7 +154,7 @@ export const transactionRoutes: FastifyPluginAsync = async (
             },
             type: {
               type: 'string',
-              enum: ['deposit', 'withdraw'],
+              enum: TRANSACTION_TYPES,
               description: 'Filter by transaction type',
             },
           },
@@ -162,7 +170,7 @@ export const transactionRoutes: FastifyPluginAsync = async (
                   properties: {
                     id: { type: 'string' },
                     txHash: { type: 'string' },
-                    type: { type: 'string', enum: ['deposit', 'withdraw'] },
+                    type: { type: 'string', enum: TRANSACTION_TYPES },
                     amount: { type: 'string' },
                     shares: { type: 'string' },
                     sharePrice: { type: 'string' },
@@ -243,9 +251,9 @@ export const transactionRoutes: FastifyPluginAsync = async (
       }
 
       // Validate type
-      if (type && !['deposit', 'withdraw'].includes(type)) {
+      if (type && !TRANSACTION_TYPES.includes(type)) {
         return reply.status(400).send({
-          error: 'Invalid type. Must be "deposit" or "withdraw"',
+          error: `Invalid type. Must be one of: ${TRANSACTION_TYPES.join(', ')}`,
         });
       }
 
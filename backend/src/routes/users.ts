@@ -0,0 +1,263 @@
+/**
+ * User Routes
+ *
+ * GET /users/:address/performance       - Daily position value, flows, yield and returns
+ * GET /users/:address/cost-basis-method - How withdrawals consume cost basis lots
+ * PUT /users/:address/cost-basis-method - Change it (wallet owner only)
+ */
+
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import {
+  getUserPerformance,
+  PerformanceQueryError,
+  MAX_PERFORMANCE_DAYS,
+  type UserPerformance,
+} from '../services/performanceService.js';
+import {
+  getCostBasisMethod,
+  setCostBasisMethod,
+  COST_BASIS_METHODS,
+  type CostBasisMethod,
+} from '../services/lotService.js';
+import { requireWalletOwner } from '../plugins/auth.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface PerformanceQueryParams {
+  from?: string;
+  to?: string;
+}
+
+interface PerformanceResponse {
+  success: true;
+  data: UserPerformance;
+}
+
+interface AddressParams {
+  address: string;
+}
+
+interface CostBasisMethodResponse {
+  success: true;
+  data: {
+    address: string;
+    method: CostBasisMethod;
+  };
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' },
+  },
+};
+
+const returnSchema = { type: ['number', 'null'] };
+
+const addressParamsSchema = {
+  type: 'object',
+  properties: {
+    address: { type: 'string', pattern: '^0x[a-fA-F0-9]{40}$' },
+  },
+  required: ['address'],
+};
+
+const costBasisMethodSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: {
+      type: 'object',
+      properties: {
+        address: { type: 'string' },
+        method: { type: 'string', enum: COST_BASIS_METHODS },
+      },
+    },
+  },
+};
+
+// =============================================================================
+// Route Plugin
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/require-await
+export const usersRoutes: FastifyPluginAsync = async (server: FastifyInstance): Promise<void> => {
+  // GET /users/:address/performance - Position history and PnL time series
+  server.get<{
+    Params: AddressParams;
+    Querystring: PerformanceQueryParams;
+    Reply: PerformanceResponse | { success: false; error: string };
+  }>(
+    '/users/:address/performance',
+    {
+      schema: {
+        tags: ['users'],
+        summary: 'Get position history and returns for a wallet address',
+        description: `Reconstructs the share balance from indexed transactions and values it daily (UTC) at the vault share price. Defaults to the first transaction up to now; at most ${MAX_PERFORMANCE_DAYS} days per request. Returns are percentages; the money-weighted return is annualized.`,
+        params: addressParamsSchema,
+        querystring: {
+          type: 'object',
+          properties: {
+            from: { type: 'string', format: 'date-time' },
+            to: { type: 'string', format: 'date-time' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  address: { type: 'string' },
+                  from: { type: 'string', format: 'date-time' },
+                  to: { type: 'string', format: 'date-time' },
+                  summary: {
+                    type: 'object',
+                    properties: {
+                      startValue: { type: 'string' },
+                      endValue: { type: 'string' },
+                      shares: { type: 'string' },
+                      netFlows: { type: 'string' },
+                      costBasis: { type: 'string' },
+                      realizedYield: { type: 'string' },
+                      unrealizedYield: { type: 'string' },
+                      totalYield: { type: 'string' },
+                      timeWeightedReturn: returnSchema,
+                      moneyWeightedReturn: returnSchema,
+                    },
+                  },
+                  series: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        date: { type: 'string', format: 'date' },
+                        shares: { type: 'string' },
+                        sharePrice: { type: 'string' },
+                        value: { type: 'string' },
+                        netFlow: { type: 'string' },
+                        costBasis: { type: 'string' },
+                        realizedYield: { type: 'string' },
+                        unrealizedYield: { type: 'string' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          400: errorSchema,
+          500: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { from, to } = request.query;
+
+      try {
+        const performance = await getUserPerformance(request.params.address, {
+          from: from ? new Date(from) : undefined,
+          to: to ? new Date(to) : undefined,
+        });
+
+        return { success: true, data: performance };
+      } catch (error) {
+        if (error instanceof PerformanceQueryError) {
+          return reply.status(400).send({ success: false, error: error.message });
+        }
+
+        request.log.error(error, 'Failed to fetch user performance');
+        return reply
+          .status(500)
+          .send({ success: false, error: 'Failed to fetch user performance' });
+      }
+    }
+  );
+
+  // GET /users/:address/cost-basis-method - Current cost basis method
+  server.get<{
+    Params: AddressParams;
+    Reply: CostBasisMethodResponse | { success: false; error: string };
+  }>(
+    '/users/:address/cost-basis-method',
+    {
+      schema: {
+        tags: ['users'],
+        summary: 'Get the cost basis method used for realized gains',
+        params: addressParamsSchema,
+        response: {
+          200: costBasisMethodSchema,
+          500: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const address = request.params.address.toLowerCase();
+
+      try {
+        const method = await getCostBasisMethod(address);
+        return { success: true, data: { address, method } };
+      } catch (error) {
+        request.log.error(error, 'Failed to fetch cost basis method');
+        return reply
+          .status(500)
+          .send({ success: false, error: 'Failed to fetch cost basis method' });
+      }
+    }
+  );
+
+  // PUT /users/:address/cost-basis-method - Change the cost basis method
+  server.put<{
+    Params: AddressParams;
+    Body: { method: CostBasisMethod };
+    Reply: CostBasisMethodResponse | { success: false; error: string };
+  }>(
+    '/users/:address/cost-basis-method',
+    {
+      preHandler: [requireWalletOwner((request) => (request.params as AddressParams).address)],
+      schema: {
+        tags: ['users'],
+        summary: 'Change the cost basis method used for realized gains',
+        description:
+          'FIFO consumes the oldest lots first; AVERAGE_COST consumes all open lots pro rata. Applies to later withdrawals and transfers only.',
+        security: [{ bearerAuth: [] }],
+        params: addressParamsSchema,
+        body: {
+          type: 'object',
+          required: ['method'],
+          properties: {
+            method: { type: 'string', enum: COST_BASIS_METHODS },
+          },
+        },
+        response: {
+          200: costBasisMethodSchema,
+          500: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const address = request.params.address.toLowerCase();
+
+      try {
+        const method = await setCostBasisMethod(address, request.body.method);
+        return { success: true, data: { address, method } };
+      } catch (error) {
+        request.log.error(error, 'Failed to update cost basis method');
+        return reply
+          .status(500)
+          .send({ success: false, error: 'Failed to update cost basis method' });
+      }
+    }
+  );
+};
+
+export default usersRoutes;
@@ -1,60 +1,99 @@
 import { FastifyInstance, FastifyPluginAsync } from 'fastify';
-
-interface VaultStats {
-  totalAssets: string;
-  totalShares: string;
-  sharePrice: string;
-  apy: string;
-  lastUpdated: string;
-}
+import { getTransactionsPage, getNetValueHistory } from '../services/vault.service.js';
+import { getVaultStats, type VaultStats } from '../services/vaultStatsService.js';
 
 interface Transaction {
   id: string;
-  type: 'deposit' | 'withdraw';
+  type: 'deposit' | 'withdraw' | 'transfer_in' | 'transfer_out';
   address: string;
   amount: string;
   shares: string;
+  sharePrice: string;
+  blockNumber: string;
   timestamp: string;
   txHash: string;
 }
 
+interface NavPoint {
+  timestamp: string;
+  sharePrice: string;
+  totalAssets: string;
+  totalShares: string;
+  blockNumber: string;
+}
+
+type ErrorReply = { success: false; error: string };
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' },
+  },
+};
+
 // eslint-disable-next-line @typescript-eslint/require-await
 export const vaultRoutes: FastifyPluginAsync = async (server: FastifyInstance): Promise<void> => {
   // Get vault statistics
-  server.get<{ Reply: VaultStats }>(
+  server.get<{ Reply: { success: true; data: VaultStats } | ErrorReply }>(
     '/stats',
     {
       schema: {
         tags: ['vault'],
         summary: 'Get vault statistics',
+        description:
+          'Live totalAssets/sharePrice from the vault contract (falls back to the latest NAV snapshot with stale=true) and trailing 7d/30d APY',
         response: {
           200: {
             type: 'object',
             properties: {
-              totalAssets: { type: 'string' },
-              totalShares: { type: 'string' },
-              sharePrice: { type: 'string' },
-              apy: { type: 'string' },
-              lastUpdated: { type: 'string', format: 'date-time' },
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  totalAssets: { type: 'string' },
+                  totalShares: { type: 'string' },
+                  sharePrice: { type: 'string' },
+                  blockNumber: { type: 'string', nullable: true },
+                  source: { type: 'string', enum: ['chain', 'snapshot'] },
+                  stale: { type: 'boolean' },
+                  lastUpdated: { type: 'string', format: 'date-time', nullable: true },
+                  apy7d: { type: 'number', nullable: true },
+                  apy30d: { type: 'number', nullable: true },
+                },
+              },
             },
           },
+          500: errorSchema,
         },
       },
     },
-    () => {
-      // TODO: Fetch from database/blockchain
-      return {
-        totalAssets: '0',
-        totalShares: '0',
-        sharePrice: '1000000000000000000', // 1e18
-        apy: '0',
-        lastUpdated: new Date().toISOString(),
-      };
+    async (request, reply) => {
+      try {
+        return { success: true, data: await getVaultStats() };
+      } catch (error) {
+        request.log.error(error, 'Failed to fetch vault stats');
+        return reply.status(500).send({ success: false, error: 'Failed to fetch vault stats' });
+      }
     }
   );
 
   // Get recent transactions
-  server.get<{ Reply: Transaction[] }>(
+  server.get<{
+    Querystring: { limit?: number; cursor?: string };
+    Reply:
+      | {
+          success: true;
+          data: Transaction[];
+          pagination: { limit: number; nextCursor: string | null; hasMore: boolean };
+        }
+      | ErrorReply;
+  }>(
     '/transactions',
     {
       schema: {
@@ -63,37 +102,96 @@ export const vaultRoutes: FastifyPluginAsync = async (server: FastifyInstance):
         querystring: {
           type: 'object',
           properties: {
-            limit: { type: 'integer', default: 10 },
-            offset: { type: 'integer', default: 0 },
+            limit: { type: 'integer', minimum: 1, maximum: MAX_LIMIT, default: DEFAULT_LIMIT },
+            cursor: { type: 'string', description: 'nextCursor from the previous page' },
           },
         },
         response: {
           200: {
-            type: 'array',
-            items: {
-              type: 'object',
-              properties: {
-                id: { type: 'string' },
-                type: { type: 'string', enum: ['deposit', 'withdraw'] },
-                address: { type: 'string' },
-                amount: { type: 'string' },
-                shares: { type: 'string' },
-                timestamp: { type: 'string', format: 'date-time' },
-                txHash: { type: 'string' },
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: {
+                      type: 'string',
+                      enum: ['deposit', 'withdraw', 'transfer_in', 'transfer_out'],
+                    },
+                    address: { type: 'string' },
+                    amount: { type: 'string' },
+                    shares: { type: 'string' },
+                    sharePrice: { type: 'string' },
+                    blockNumber: { type: 'string' },
+                    timestamp: { type: 'string', format: 'date-time' },
+                    txHash: { type: 'string' },
+                  },
+                },
+              },
+              pagination: {
+                type: 'object',
+                properties: {
+                  limit: { type: 'integer' },
+                  nextCursor: { type: 'string', nullable: true },
+                  hasMore: { type: 'boolean' },
+                },
               },
             },
           },
+          500: errorSchema,
         },
       },
     },
-    () => {
-      // TODO: Fetch from database
-      return [];
+    async (request, reply) => {
+      const { limit = DEFAULT_LIMIT, cursor } = request.query;
+
+      try {
+        const { transactions, nextCursor } = await getTransactionsPage({ limit, cursor });
+
+        return {
+          success: true,
+          data: transactions.map(
+            (tx: {
+              id: string;
+              type: string;
+              userAddress: string;
+              amount: { toString(): string };
+              shares: { toString(): string };
+              sharePrice: { toString(): string };
+              blockNumber: bigint;
+              timestamp: Date;
+              txHash: string;
+            }) => ({
+              id: tx.id,
+              type: tx.type.toLowerCase() as Transaction['type'],
+              address: tx.userAddress,
+              amount: tx.amount.toString(),
+              shares: tx.shares.toString(),
+              sharePrice: tx.sharePrice.toString(),
+              blockNumber: tx.blockNumber.toString(),
+              timestamp: tx.timestamp.toISOString(),
+              txHash: tx.txHash,
+            })
+          ),
+          pagination: { limit, nextCursor, hasMore: nextCursor !== null },
+        };
+      } catch (error) {
+        request.log.error(error, 'Failed to fetch vault transactions');
+        return reply
+          .status(500)
+          .send({ success: false, error: 'Failed to fetch vault transactions' });
+      }
     }
   );
 
   // Get net value history
-  server.get(
+  server.get<{
+    Querystring: { days?: number };
+    Reply: { success: true; data: NavPoint[] } | ErrorReply;
+  }>(
     '/nav-history',
     {
       schema: {
@@ -102,14 +200,61 @@ export const vaultRoutes: FastifyPluginAsync = async (server: FastifyInstance):
         querystring: {
           type: 'object',
           properties: {
-            days: { type: 'integer', default: 30 },
+            days: { type: 'integer', minimum: 1, maximum: MAX_DAYS, default: DEFAULT_DAYS },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    timestamp: { type: 'string', format: 'date-time' },
+                    sharePrice: { type: 'string' },
+                    totalAssets: { type: 'string' },
+                    totalShares: { type: 'string' },
+                    blockNumber: { type: 'string' },
+                  },
+                },
+              },
+            },
           },
+          500: errorSchema,
         },
       },
     },
-    () => {
-      // TODO: Fetch from database
-      return [];
+    async (request, reply) => {
+      const { days = DEFAULT_DAYS } = request.query;
+
+      try {
+        const records = await getNetValueHistory(days);
+
+        return {
+          success: true,
+          data: records.map(
+            (record: {
+              timestamp: Date;
+              sharePrice: { toString(): string };
+              totalAssets: { toString(): string };
+              totalShares: { toString(): string };
+              blockNumber: bigint;
+            }) => ({
+              timestamp: record.timestamp.toISOString(),
+              sharePrice: record.sharePrice.toString(),
+              totalAssets: record.totalAssets.toString(),
+              totalShares: record.totalShares.toString(),
+              blockNumber: record.blockNumber.toString(),
+            })
+          ),
+        };
+      } catch (error) {
+        request.log.error(error, 'Failed to fetch NAV history');
+        return reply.status(500).send({ success: false, error: 'Failed to fetch NAV history' });
+      }
     }
   );
 };
@@ -0,0 +1,506 @@
+/**
+ * Webhook Routes
+ * Signed event delivery subscriptions for integrators
+ *
+ * All endpoints require a SIWE session for the wallet that owns the subscriptions.
+ * The signing secret is returned once, when a subscription is created.
+ */
+
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import {
+  createWebhookSubscription,
+  getWebhookSubscriptions,
+  updateWebhookSubscription,
+  deleteWebhookSubscription,
+  getWebhookDeliveries,
+  redeliverWebhook,
+  WebhookValidationError,
+  WEBHOOK_EVENT_TYPES,
+  SIGNATURE_HEADER,
+} from '../services/webhookService.js';
+import { requireWalletOwner } from '../plugins/auth.js';
+import type { WebhookDeliveryStatus, WebhookEventType } from '@prisma/client';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface AddressParams {
+  address: string;
+}
+
+interface SubscriptionParams extends AddressParams {
+  id: string;
+}
+
+interface DeliveryParams extends SubscriptionParams {
+  deliveryId: string;
+}
+
+interface CreateSubscriptionBody {
+  url: string;
+  eventTypes: WebhookEventType[];
+  description?: string;
+}
+
+interface UpdateSubscriptionBody {
+  url?: string;
+  eventTypes?: WebhookEventType[];
+  active?: boolean;
+  description?: string | null;
+}
+
+interface DeliveriesQuery {
+  limit?: number;
+  offset?: number;
+  status?: WebhookDeliveryStatus;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['PENDING', 'RETRYING', 'SUCCEEDED', 'FAILED'];
+
+const addressParamsSchema = {
+  type: 'object',
+  required: ['address'],
+  properties: {
+    address: { type: 'string', pattern: '^0x[a-fA-F0-9]{40}$' },
+  },
+};
+
+const subscriptionParamsSchema = {
+  type: 'object',
+  required: ['address', 'id'],
+  properties: {
+    ...addressParamsSchema.properties,
+    id: { type: 'string' },
+  },
+};
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' },
+  },
+};
+
+const subscriptionSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    ownerAddress: { type: 'string' },
+    url: { type: 'string' },
+    eventTypes: { type: 'array', items: { type: 'string', enum: WEBHOOK_EVENT_TYPES } },
+    active: { type: 'boolean' },
+    description: { type: 'string', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+const deliverySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    subscriptionId: { type: 'string' },
+    eventId: { type: 'string' },
+    eventType: { type: 'string', enum: WEBHOOK_EVENT_TYPES },
+    payload: { type: 'object', additionalProperties: true },
+    status: { type: 'string', enum: DELIVERY_STATUSES },
+    attempts: { type: 'integer' },
+    responseStatus: { type: 'integer', nullable: true },
+    responseBody: { type: 'string', nullable: true },
+    errorMessage: { type: 'string', nullable: true },
+    deliveredAt: { type: 'string', format: 'date-time', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+const subscriptionOwner = requireWalletOwner(
+  (request) => (request.params as AddressParams).address
+);
+
+// =============================================================================
+// Route Plugin
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/require-await
+export const webhookRoutes: FastifyPluginAsync = async (server: FastifyInstance): Promise<void> => {
+  // POST /webhooks/:address - Register a webhook subscription
+  server.post<{
+    Params: AddressParams;
+    Body: CreateSubscriptionBody;
+  }>(
+    '/webhooks/:address',
+    {
+      preHandler: [subscriptionOwner],
+      schema: {
+        tags: ['webhooks'],
+        summary: 'Register a webhook subscription',
+        description: `Events are POSTed as JSON and signed with the returned secret: the ${SIGNATURE_HEADER} header is "t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">". The secret is only returned by this call. Failed deliveries are retried with exponential backoff.`,
+        security: [{ bearerAuth: [] }],
+        params: addressParamsSchema,
+        body: {
+          type: 'object',
+          required: ['url', 'eventTypes'],
+          properties: {
+            url: { type: 'string', maxLength: 512 },
+            eventTypes: {
+              type: 'array',
+              minItems: 1,
+              uniqueItems: true,
+              items: { type: 'string', enum: WEBHOOK_EVENT_TYPES },
+            },
+            description: { type: 'string', maxLength: 255 },
+          },
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  ...subscriptionSchema.properties,
+                  secret: { type: 'string' },
+                },
+              },
+            },
+          },
+          400: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { address } = request.params;
+
+      try {
+        const { subscription, secret } = await createWebhookSubscription(address, request.body);
+
+        return reply.status(201).send({
+          success: true,
+          data: { ...subscription, secret },
+        });
+      } catch (error) {
+        if (error instanceof WebhookValidationError) {
+          return reply.status(400).send({
+            success: false,
+            error: error.message,
+          });
+        }
+
+        server.log.error(error, 'Failed to create webhook subscription');
+        return reply.status(500).send({
+          success: false,
+          error: 'Failed to create webhook subscription',
+        });
+      }
+    }
+  );
+
+  // GET /webhooks/:address - List webhook subscriptions
+  server.get<{
+    Params: AddressParams;
+  }>(
+    '/webhooks/:address',
+    {
+      preHandler: [subscriptionOwner],
+      schema: {
+        tags: ['webhooks'],
+        summary: 'List webhook subscriptions for a wallet',
+        security: [{ bearerAuth: [] }],
+        params: addressParamsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: { type: 'array', items: subscriptionSchema },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const subscriptions = await getWebhookSubscriptions(request.params.address);
+
+        return {
+          success: true,
+          data: subscriptions,
+        };
+      } catch (error) {
+        server.log.error(error, 'Failed to list webhook subscriptions');
+        return reply.status(500).send({
+          success: false,
+          error: 'Failed to list webhook subscriptions',
+        });
+      }
+    }
+  );
+
+  // PATCH /webhooks/:address/:id - Update a webhook subscription
+  server.patch<{
+    Params: SubscriptionParams;
+    Body: UpdateSubscriptionBody;
+  }>(
+    '/webhooks/:address/:id',
+    {
+      preHandler: [subscriptionOwner],
+      schema: {
+        tags: ['webhooks'],
+        summary: 'Update or pause a webhook subscription',
+        security: [{ bearerAuth: [] }],
+        params: subscriptionParamsSchema,
+        body: {
+          type: 'object',
+          properties: {
+            url: { type: 'string', maxLength: 512 },
+            eventTypes: {
+              type: 'array',
+              minItems: 1,
+              uniqueItems: true,
+              items: { type: 'string', enum: WEBHOOK_EVENT_TYPES },
+            },
+            active: { type: 'boolean' },
+            description: { type: ['string', 'null'], maxLength: 255 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: subscriptionSchema,
+            },
+          },
+          400: errorSchema,
+          404: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { address, id } = request.params;
+
+      try {
+        const subscription = await updateWebhookSubscription(address, id, request.body);
+
+        if (!subscription) {
+          return reply.status(404).send({
+            success: false,
+            error: 'Webhook subscription not found',
+          });
+        }
+
+        return {
+          success: true,
+          data: subscription,
+        };
+      } catch (error) {
+        if (error instanceof WebhookValidationError) {
+          return reply.status(400).send({
+            success: false,
+            error: error.message,
+          });
+        }
+
+        server.log.error(error, 'Failed to update webhook subscription');
+        return reply.status(500).send({
+          success: false,
+          error: 'Failed to update webhook subscription',
+        });
+      }
+    }
+  );
+
+  // DELETE /webhooks/:address/:id - Delete a webhook subscription
+  server.delete<{
+    Params: SubscriptionParams;
+  }>(
+    '/webhooks/:address/:id',
+    {
+      preHandler: [subscriptionOwner],
+      schema: {
+        tags: ['webhooks'],
+        summary: 'Delete a webhook subscription and its delivery log',
+        security: [{ bearerAuth: [] }],
+        params: subscriptionParamsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+            },
+          },
+          404: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { address, id } = request.params;
+
+      try {
+        if (!(await deleteWebhookSubscription(address, id))) {
+          return reply.status(404).send({
+            success: false,
+            error: 'Webhook subscription not found',
+          });
+        }
+
+        return { success: true };
+      } catch (error) {
+        server.log.error(error, 'Failed to delete webhook subscription');
+        return reply.status(500).send({
+          success: false,
+          error: 'Failed to delete webhook subscription',
+        });
+      }
+    }
+  );
+
+  // GET /webhooks/:address/:id/deliveries - Delivery log for a subscription
+  server.get<{
+    Params: SubscriptionParams;
+    Querystring: DeliveriesQuery;
+  }>(
+    '/webhooks/:address/:id/deliveries',
+    {
+      preHandler: [subscriptionOwner],
+      schema: {
+        tags: ['webhooks'],
+        summary: 'Get the delivery log for a webhook subscription',
+        security: [{ bearerAuth: [] }],
+        params: subscriptionParamsSchema,
+        querystring: {
+          type: 'object',
+          properties: {
+            limit: { type: 'integer', minimum: 1, maximum: MAX_LIMIT, default: DEFAULT_LIMIT },
+            offset: { type: 'integer', minimum: 0, default: 0 },
+            status: { type: 'string', enum: DELIVERY_STATUSES },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: { type: 'array', items: deliverySchema },
+              pagination: {
+                type: 'object',
+                properties: {
+                  total: { type: 'integer' },
+                  limit: { type: 'integer' },
+                  offset: { type: 'integer' },
+                  hasMore: { type: 'boolean' },
+                },
+              },
+            },
+          },
+          404: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { address, id } = request.params;
+      const { limit = DEFAULT_LIMIT, offset = 0, status } = request.query;
+
+      try {
+        const result = await getWebhookDeliveries(address, id, { limit, offset, status });
+
+        if (!result) {
+          return reply.status(404).send({
+            success: false,
+            error: 'Webhook subscription not found',
+          });
+        }
+
+        return {
+          success: true,
+          data: result.deliveries,
+          pagination: {
+            total: result.total,
+            limit,
+            offset,
+            hasMore: offset + result.deliveries.length < result.total,
+          },
+        };
+      } catch (error) {
+        server.log.error(error, 'Failed to get webhook deliveries');
+        return reply.status(500).send({
+          success: false,
+          error: 'Failed to get webhook deliveries',
+        });
+      }
+    }
+  );
+
+  // POST /webhooks/:address/:id/deliveries/:deliveryId/redeliver - Send a delivery again
+  server.post<{
+    Params: DeliveryParams;
+  }>(
+    '/webhooks/:address/:id/deliveries/:deliveryId/redeliver',
+    {
+      preHandler: [subscriptionOwner],
+      schema: {
+        tags: ['webhooks'],
+        summary: 'Queue a delivery to be sent again with its original payload',
+        description:
+          'The payload keeps its original id, so receivers that dedupe on it can ignore repeats.',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['address', 'id', 'deliveryId'],
+          properties: {
+            ...subscriptionParamsSchema.properties,
+            deliveryId: { type: 'string' },
+          },
+        },
+        response: {
+          202: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: deliverySchema,
+            },
+          },
+          404: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { address, id, deliveryId } = request.params;
+
+      try {
+        const delivery = await redeliverWebhook(address, id, deliveryId);
+
+        if (!delivery) {
+          return reply.status(404).send({
+            success: false,
+            error: 'Webhook delivery not found',
+          });
+        }
+
+        return reply.status(202).send({
+          success: true,
+          data: delivery,
+        });
+      } catch (error) {
+        server.log.error(error, 'Failed to redeliver webhook');
+        return reply.status(500).send({
+          success: false,
+          error: 'Failed to redeliver webhook',
+        });
+      }
+    }
+  );
+};
+
+export default webhookRoutes;
@@ -5,7 +5,11 @@
  * Provides endpoints for:
  * - Checking large withdrawal status
  * - Viewing withdrawal history
+ * - Viewing async withdraw queue requests (requestWithdraw / claimWithdraw)
  * - Admin operations (approve, reject, update status)
+ *
+ * Admin routes require a SIWE session for a wallet holding ADMIN_ROLE;
+ * creating a request requires a session for the requesting wallet.
  */
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
@@ -19,6 +23,11 @@ import {
   isLargeWithdrawal,
   LARGE_WITHDRAWAL_THRESHOLD,
 } from '../services/withdrawService.js';
+import {
+  getUserWithdrawRequests,
+  type WithdrawRequestStatus,
+} from '../services/withdrawQueueService.js';
+import { requireAdmin, requireWalletOwner } from '../plugins/auth.js';
 import type { LargeWithdrawalStatus } from '@prisma/client';
 
 // =============================================================================
@@ -29,6 +38,11 @@ interface GetUserWithdrawalsParams {
   address: string;
 }
 
+interface GetWithdrawRequestsQuery {
+  status?: WithdrawRequestStatus;
+  limit?: string;
+}
+
 interface GetWithdrawalByIdParams {
   id: string;
 }
@@ -90,6 +104,64 @@ export default async function withdrawalRoutes(fastify: FastifyInstance) {
     }
   );
 
+  /**
+   * GET /api/withdrawals/requests/:address
+   * Get async withdraw queue requests (T+1) for a specific user
+   */
+  fastify.get<{ Params: GetUserWithdrawalsParams; Querystring: GetWithdrawRequestsQuery }>(
+    '/requests/:address',
+    async (
+      request: FastifyRequest<{
+        Params: GetUserWithdrawalsParams;
+        Querystring: GetWithdrawRequestsQuery;
+      }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const { address } = request.params;
+        const { status, limit } = request.query;
+
+        // Validate address format
+        if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+          return reply.status(400).send({
+            error: 'Invalid address format',
+          });
+        }
+
+        if (status && !['pending', 'claimable', 'claimed'].includes(status)) {
+          return reply.status(400).send({
+            error: 'Invalid status. Must be one of: pending, claimable, claimed',
+          });
+        }
+
+        const parsedLimit = limit ? parseInt(limit, 10) : 50;
+        if (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > 100) {
+          return reply.status(400).send({
+            error: 'Limit must be between 1 and 100',
+          });
+        }
+
+        const requests = await getUserWithdrawRequests(address, {
+          status,
+          limit: parsedLimit,
+        });
+
+        return reply.send({
+          success: true,
+          data: {
+            address,
+            requests,
+          },
+        });
+      } catch (error) {
+        console.error('[Withdrawals] Error fetching withdraw requests:', error);
+        return reply.status(500).send({
+          error: 'Failed to fetch withdraw requests',
+        });
+      }
+    }
+  );
+
   /**
    * GET /api/withdrawals/:id
    * Get a specific large withdrawal by ID
@@ -170,6 +242,13 @@ export default async function withdrawalRoutes(fastify: FastifyInstance) {
    */
   fastify.post<{ Body: CreateLargeWithdrawalBody }>(
     '/request',
+    {
+      preHandler: [
+        requireWalletOwner(
+          (request) => (request.body as CreateLargeWithdrawalBody | undefined)?.userAddress
+        ),
+      ],
+    },
     async (request: FastifyRequest<{ Body: CreateLargeWithdrawalBody }>, reply: FastifyReply) => {
       try {
         const { userAddress, shares, estimatedAmount, requestTxHash } = request.body;
@@ -229,10 +308,9 @@ export default async function withdrawalRoutes(fastify: FastifyInstance) {
    */
   fastify.get(
     '/admin/pending',
+    { preHandler: [requireAdmin] },
     async (_request: FastifyRequest, reply: FastifyReply) => {
       try {
-        // TODO: Add admin authentication check
-
         const withdrawals = await getPendingLargeWithdrawals();
 
         return reply.send({
@@ -257,10 +335,9 @@ export default async function withdrawalRoutes(fastify: FastifyInstance) {
    */
   fastify.get(
     '/admin/stats',
+    { preHandler: [requireAdmin] },
     async (_request: FastifyRequest, reply: FastifyReply) => {
       try {
-        // TODO: Add admin authentication check
-
         const stats = await getLargeWithdrawalStats();
 
         return reply.send({
@@ -282,13 +359,12 @@ export default async function withdrawalRoutes(fastify: FastifyInstance) {
    */
   fastify.patch<{ Params: GetWithdrawalByIdParams; Body: UpdateWithdrawalStatusBody }>(
     '/admin/:id/status',
+    { preHandler: [requireAdmin] },
     async (
       request: FastifyRequest<{ Params: GetWithdrawalByIdParams; Body: UpdateWithdrawalStatusBody }>,
       reply: FastifyReply
     ) => {
       try {
-        // TODO: Add admin authentication check
-
         const { id } = request.params;
         const { status, adminNotes } = request.body;
 
@@ -0,0 +1,85 @@
+/**
+ * Transaction Backfill Command
+ * Re-indexes historical vault events through the transaction-sync queue
+ *
+ * Usage:
+ *   pnpm backfill <fromBlock> <toBlock> [--event-type=all] [--local]
+ *
+ * This command:
+ * - Queues the block range as one transaction-sync job
+ * - Waits for the job to finish and prints a summary
+ * - With --local, runs the queue workers in this process instead of a separate worker
+ *
+ * Handlers skip events that are already indexed, so a range can be re-run safely.
+ * The job walks the range in block order, and a retried attempt resumes at the first
+ * block it has not applied. It runs as a historical sync: no user notifications,
+ * rebalance broadcasts or webhooks are sent for replayed events.
+ */
+
+import 'dotenv/config';
+import {
+  addTransactionBackfillJob,
+  transactionSyncEvents,
+  closeQueues,
+  type TransactionSyncJobData,
+} from '../jobs/queues.js';
+
+const EVENT_TYPES = ['Deposit', 'Withdraw', 'Transfer', 'Rebalance', 'all'] as const;
+
+function parseArgs(argv: string[]) {
+  const positional = argv.filter((arg) => !arg.startsWith('--'));
+  const flags = new Map(
+    argv
+      .filter((arg) => arg.startsWith('--'))
+      .map((arg) => {
+        const [key, value] = arg.slice(2).split('=');
+        return [key, value ?? 'true'] as const;
+      })
+  );
+
+  if (positional.length !== 2) {
+    throw new Error('Usage: backfill <fromBlock> <toBlock> [--event-type=all] [--local]');
+  }
+
+  const eventType = (flags.get('event-type') ?? 'all') as NonNullable<
+    TransactionSyncJobData['eventType']
+  >;
+  if (!EVENT_TYPES.includes(eventType)) {
+    throw new Error(`Invalid --event-type. Must be one of: ${EVENT_TYPES.join(', ')}`);
+  }
+
+  return {
+    fromBlock: BigInt(positional[0]),
+    toBlock: BigInt(positional[1]),
+    eventType,
+    local: flags.has('local'),
+  };
+}
+
+async function main() {
+  const { fromBlock, toBlock, eventType, local } = parseArgs(process.argv.slice(2));
+
+  const workers = local ? await import('../jobs/workers.js') : null;
+
+  const job = await addTransactionBackfillJob(fromBlock, toBlock, eventType);
+  console.log(`[Backfill] Queued job ${job.id} for blocks ${fromBlock}-${toBlock} (${eventType})`);
+
+  try {
+    const result = (await job.waitUntilFinished(transactionSyncEvents)) as {
+      eventsProcessed?: number;
+    };
+    console.log(`[Backfill] Done: ${result.eventsProcessed ?? 0} events processed`);
+  } catch (error) {
+    console.error(`[Backfill] Blocks ${fromBlock}-${toBlock} failed:`, error);
+    process.exitCode = 1;
+  }
+
+  await workers?.stopWorkers();
+  await closeQueues();
+}
+
+main().catch(async (error) => {
+  console.error('[Backfill] Failed:', error instanceof Error ? error.message : error);
+  await closeQueues();
+  process.exit(1);
+});
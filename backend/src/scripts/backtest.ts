@@ -0,0 +1,114 @@
+/**
+ * Rebalance Backtest Command
+ * Replays stored PriceFeed and NetValue history with a strategy and rebalance threshold
+ *
+ * Usage:
+ *   pnpm backtest <from> <to> [--strategy=equal-weight] [--threshold=500]
+ *                 [--swap-cost=30] [--format=json|csv] [--out=backtest.json]
+ *
+ * Dates are YYYY-MM-DD (UTC). Without --strategy the REBALANCE_ALLOCATION_STRATEGY
+ * config is used. The summary (rebalances, turnover, return and drawdown versus the
+ * actual share price) is always printed; daily rows go to --out or stdout.
+ */
+
+import 'dotenv/config';
+import { writeFile } from 'node:fs/promises';
+import { runBacktest, toBacktestCSV, type BacktestResult } from '../services/backtestService.js';
+import {
+  ALLOCATION_STRATEGIES,
+  type AllocationStrategyName,
+} from '../services/allocationStrategies.js';
+import { disconnectDatabase } from '../services/database.js';
+
+const FORMATS = ['json', 'csv'] as const;
+const USAGE =
+  'Usage: backtest <from> <to> [--strategy=<name>] [--threshold=500] [--swap-cost=30] [--format=json|csv] [--out=<file>]';
+
+function parseDate(value: string): Date {
+  const date = new Date(`${value}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}. Expected YYYY-MM-DD`);
+  }
+  return date;
+}
+
+function parseBps(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const bps = Number(value);
+  if (!Number.isInteger(bps) || bps < 0 || bps > 10000) {
+    throw new Error(`Invalid --${flag}. Must be an integer number of basis points`);
+  }
+  return bps;
+}
+
+function parseArgs(argv: string[]) {
+  const positional = argv.filter((arg) => !arg.startsWith('--'));
+  const flags = new Map(
+    argv
+      .filter((arg) => arg.startsWith('--'))
+      .map((arg) => {
+        const [key, value] = arg.slice(2).split('=');
+        return [key, value ?? 'true'] as const;
+      })
+  );
+
+  if (positional.length !== 2) {
+    throw new Error(USAGE);
+  }
+
+  const strategy = flags.get('strategy') as AllocationStrategyName | undefined;
+  if (strategy && !ALLOCATION_STRATEGIES.includes(strategy)) {
+    throw new Error(`Invalid --strategy. Must be one of: ${ALLOCATION_STRATEGIES.join(', ')}`);
+  }
+
+  const format = (flags.get('format') ?? 'json') as (typeof FORMATS)[number];
+  if (!FORMATS.includes(format)) {
+    throw new Error(`Invalid --format. Must be one of: ${FORMATS.join(', ')}`);
+  }
+
+  return {
+    from: parseDate(positional[0]),
+    to: parseDate(positional[1]),
+    strategy,
+    thresholdBps: parseBps('threshold', flags.get('threshold')),
+    swapCostBps: parseBps('swap-cost', flags.get('swap-cost')),
+    format,
+    out: flags.get('out'),
+  };
+}
+
+function printSummary({ strategy, thresholdBps, swapCostBps, from, to, summary }: BacktestResult) {
+  console.warn(
+    `[Backtest] ${strategy}, threshold ${thresholdBps} bps, swap cost ${swapCostBps} bps, ${from} to ${to} (${summary.days} days)`
+  );
+  console.warn(
+    `[Backtest] Rebalances: ${summary.rebalances}, turnover: ${summary.turnover}%, swap cost: ${summary.swapCost}%`
+  );
+  console.warn(
+    `[Backtest] Return: ${summary.totalReturn}% (actual ${summary.actualTotalReturn ?? 'n/a'}%), max drawdown: ${summary.maxDrawdown}% (actual ${summary.actualMaxDrawdown ?? 'n/a'}%)`
+  );
+}
+
+async function main() {
+  const { format, out, ...options } = parseArgs(process.argv.slice(2));
+
+  const result = await runBacktest(options);
+  printSummary(result);
+
+  const output = format === 'csv' ? toBacktestCSV(result) : JSON.stringify(result, null, 2);
+
+  if (out) {
+    await writeFile(out, `${output}\n`);
+    console.warn(`[Backtest] Wrote ${result.days.length} days to ${out}`);
+  } else {
+    process.stdout.write(`${output}\n`);
+  }
+
+  await disconnectDatabase();
+}
+
+main().catch(async (error) => {
+  console.error('[Backtest] Failed:', error instanceof Error ? error.message : error);
+  await disconnectDatabase();
+  process.exit(1);
+});
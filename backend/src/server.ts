@@ -12,6 +12,13 @@ import { assetsRoutes } from './routes/assets.js';
 import { notificationRoutes } from './routes/notifications.js';
 import { reportRoutes } from './routes/reports.js';
 import withdrawalRoutes from './routes/withdrawals.js';
+import { indexerRoutes } from './routes/indexer.js';
+import { rebalanceRoutes } from './routes/rebalance.js';
+import { pricesRoutes } from './routes/prices.js';
+import { usersRoutes } from './routes/users.js';
+import { webhookRoutes } from './routes/webhooks.js';
+import { alertRoutes } from './routes/alerts.js';
+import { authPlugin } from './plugins/auth.js';
 
 export async function buildServer(): Promise<FastifyInstance> {
   const server = Fastify({
@@ -61,6 +68,7 @@ export async function buildServer(): Promise<FastifyInstance> {
       ],
       tags: [
         { name: 'health', description: 'Health check endpoints' },
+        { name: 'auth', description: 'Sign-In with Ethereum sessions' },
         { name: 'vault', description: 'Vault operations' },
         { name: 'transactions', description: 'Transaction history' },
         { name: 'netvalue', description: 'Historical net value data' },
@@ -68,7 +76,18 @@ export async function buildServer(): Promise<FastifyInstance> {
         { name: 'notifications', description: 'Notification preferences and history' },
         { name: 'reports', description: 'B2B custom report export' },
         { name: 'withdrawals', description: 'Large withdrawal priority processing' },
+        { name: 'indexer', description: 'On-chain event indexer status' },
+        { name: 'rebalance', description: 'Rebalance proposals and their Safe approval status' },
+        { name: 'prices', description: 'Indexed oracle prices' },
+        { name: 'users', description: 'Per-user position history and returns' },
+        { name: 'webhooks', description: 'Signed event webhooks for integrators' },
+        { name: 'alerts', description: 'User-defined threshold alerts' },
       ],
+      components: {
+        securitySchemes: {
+          bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+        },
+      },
     },
   });
 
@@ -80,6 +99,9 @@ export async function buildServer(): Promise<FastifyInstance> {
     },
   });
 
+  // Authentication
+  await server.register(authPlugin, { prefix: '/api' });
+
   // Register routes
   await server.register(healthRoutes, { prefix: '/api' });
   await server.register(vaultRoutes, { prefix: '/api/vault' });
@@ -89,6 +111,12 @@ export async function buildServer(): Promise<FastifyInstance> {
   await server.register(notificationRoutes, { prefix: '/api' });
   await server.register(reportRoutes, { prefix: '/api' });
   await server.register(withdrawalRoutes, { prefix: '/api/withdrawals' });
+  await server.register(indexerRoutes, { prefix: '/api' });
+  await server.register(rebalanceRoutes, { prefix: '/api' });
+  await server.register(pricesRoutes, { prefix: '/api' });
+  await server.register(usersRoutes, { prefix: '/api' });
+  await server.register(webhookRoutes, { prefix: '/api' });
+  await server.register(alertRoutes, { prefix: '/api' });
 
   return server;
 }
@@ -0,0 +1,60 @@
+/**
+ * Admin Alert Service
+ * Sends operational alerts to protocol administrators
+ *
+ * Alerts go through the notification queue (critical priority) and, when
+ * TELEGRAM_BOT_TOKEN and TELEGRAM_ADMIN_CHAT_ID are set, to the admin Telegram group.
+ */
+
+import { addBroadcastNotificationJob } from '../jobs/notificationQueue.js';
+import type { NotificationJobData } from '../jobs/queues.js';
+import { sendTelegramMessage } from './telegramService.js';
+
+// =============================================================================
+// Admin Alerts
+// =============================================================================
+
+/**
+ * Queue an admin alert and post the message to Telegram.
+ * Failures are logged, never thrown, so alerting can't break the caller.
+ */
+export async function sendAdminAlert(
+  type: NotificationJobData['type'],
+  data: Record<string, unknown>,
+  message: string
+): Promise<void> {
+  console.log(`[AdminAlert] ${type}`);
+  console.log(message);
+
+  try {
+    await addBroadcastNotificationJob(type, data, 'critical');
+  } catch (error) {
+    console.error(`[AdminAlert] Failed to queue ${type} notification:`, error);
+  }
+
+  await sendTelegramNotification(message);
+}
+
+/**
+ * Send a message to the admin Telegram group, if configured
+ */
+export async function sendTelegramNotification(message: string): Promise<void> {
+  const chatId = process.env.TELEGRAM_ADMIN_CHAT_ID;
+
+  if (!process.env.TELEGRAM_BOT_TOKEN || !chatId) {
+    return;
+  }
+
+  const result = await sendTelegramMessage(chatId, message, { parseMode: 'HTML' });
+
+  if (result.success) {
+    console.log('[AdminAlert] Telegram notification sent');
+  } else {
+    console.error('[AdminAlert] Telegram notification failed:', result.error);
+  }
+}
+
+export default {
+  sendAdminAlert,
+  sendTelegramNotification,
+};
@@ -0,0 +1,488 @@
+/**
+ * Alert Rule Service
+ * User-defined threshold alerts on vault and position metrics
+ *
+ * This service:
+ * - Manages alert rules per wallet (e.g. "APY below 4%", "share price down more
+ *   than 1% in 24h", "position value above 50,000 USDT")
+ * - Evaluates every active rule against each new NAV snapshot
+ * - Queues THRESHOLD_ALERT notifications, delivered on the user's channels
+ *
+ * A rule fires when its condition starts to hold, then stays quiet until the
+ * condition clears (deduplication) and at most once per cooldown, so a value
+ * hovering around the threshold doesn't send an alert every sync.
+ */
+
+import { formatUnits } from 'viem';
+import { prisma } from './database.js';
+import { getNetValueAt } from './vault.service.js';
+import { calculateTrailingApy } from './vaultStatsService.js';
+import { addUserNotificationJob } from '../jobs/queues.js';
+import type { AlertDirection, AlertMetric } from '@prisma/client';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AlertRuleInput {
+  metric: AlertMetric;
+  direction: AlertDirection;
+  /**
+   * Percent for APY and SHARE_PRICE_CHANGE (a 1% drop is BELOW -1), USDT for POSITION_VALUE
+   */
+  threshold: number;
+  /**
+   * Lookback for APY and SHARE_PRICE_CHANGE; defaults per metric
+   */
+  windowHours?: number;
+  cooldownHours?: number;
+  label?: string;
+}
+
+export interface AlertRuleUpdate {
+  direction?: AlertDirection;
+  threshold?: number;
+  windowHours?: number;
+  cooldownHours?: number;
+  label?: string | null;
+  active?: boolean;
+}
+
+export interface AlertRuleInfo {
+  id: string;
+  userAddress: string;
+  metric: AlertMetric;
+  direction: AlertDirection;
+  threshold: number;
+  windowHours: number | null;
+  cooldownHours: number;
+  label: string | null;
+  active: boolean;
+  triggered: boolean;
+  lastValue: number | null;
+  lastEvaluatedAt: Date | null;
+  lastTriggeredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * NAV snapshot the rules are evaluated against
+ */
+export interface AlertSnapshot {
+  timestamp: Date;
+  sharePrice: bigint;
+}
+
+export interface AlertEvaluationResult {
+  evaluated: number;
+  triggered: number;
+}
+
+type AlertRuleRow = Omit<AlertRuleInfo, 'threshold' | 'lastValue'> & {
+  threshold: { toString(): string };
+  lastValue: { toString(): string } | null;
+};
+
+interface NetValuePoint {
+  timestamp: Date;
+  sharePrice: { toString(): string };
+}
+
+export class AlertRuleValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlertRuleValidationError';
+  }
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const ALERT_METRICS: AlertMetric[] = ['APY', 'SHARE_PRICE_CHANGE', 'POSITION_VALUE'];
+
+export const ALERT_DIRECTIONS: AlertDirection[] = ['ABOVE', 'BELOW'];
+
+export const MAX_ALERT_RULES_PER_ADDRESS = 20;
+
+export const MAX_WINDOW_HOURS = 30 * 24;
+export const MAX_COOLDOWN_HOURS = 30 * 24;
+
+// APY matches the 7d figure shown on the vault stats
+const DEFAULT_WINDOW_HOURS: Record<AlertMetric, number | null> = {
+  APY: 7 * 24,
+  SHARE_PRICE_CHANGE: 24,
+  POSITION_VALUE: null,
+};
+
+const DEFAULT_COOLDOWN_HOURS = 24;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const ONE = 10n ** 18n;
+
+// =============================================================================
+// Rule Management
+// =============================================================================
+
+function validateRuleFields(
+  metric: AlertMetric,
+  fields: { threshold?: number; windowHours?: number | null; cooldownHours?: number }
+) {
+  if (!ALERT_METRICS.includes(metric)) {
+    throw new AlertRuleValidationError(`Unknown alert metric: ${metric}`);
+  }
+
+  if (fields.threshold !== undefined) {
+    if (!Number.isFinite(fields.threshold)) {
+      throw new AlertRuleValidationError('Threshold must be a number');
+    }
+    if (metric === 'POSITION_VALUE' && fields.threshold < 0) {
+      throw new AlertRuleValidationError('Position value threshold cannot be negative');
+    }
+  }
+
+  if (fields.windowHours != null) {
+    if (metric === 'POSITION_VALUE') {
+      throw new AlertRuleValidationError('Position value alerts do not use a window');
+    }
+    if (
+      !Number.isInteger(fields.windowHours) ||
+      fields.windowHours < 1 ||
+      fields.windowHours > MAX_WINDOW_HOURS
+    ) {
+      throw new AlertRuleValidationError(`Window must be between 1 and ${MAX_WINDOW_HOURS} hours`);
+    }
+  }
+
+  if (
+    fields.cooldownHours !== undefined &&
+    (!Number.isInteger(fields.cooldownHours) ||
+      fields.cooldownHours < 1 ||
+      fields.cooldownHours > MAX_COOLDOWN_HOURS)
+  ) {
+    throw new AlertRuleValidationError(
+      `Cooldown must be between 1 and ${MAX_COOLDOWN_HOURS} hours`
+    );
+  }
+}
+
+export async function createAlertRule(
+  userAddress: string,
+  input: AlertRuleInput
+): Promise<AlertRuleInfo> {
+  const address = userAddress.toLowerCase();
+  validateRuleFields(input.metric, input);
+
+  if (!ALERT_DIRECTIONS.includes(input.direction)) {
+    throw new AlertRuleValidationError(`Unknown alert direction: ${input.direction}`);
+  }
+
+  const existing: number = await prisma.alertRule.count({ where: { userAddress: address } });
+  if (existing >= MAX_ALERT_RULES_PER_ADDRESS) {
+    throw new AlertRuleValidationError(
+      `A wallet can have at most ${MAX_ALERT_RULES_PER_ADDRESS} alert rules`
+    );
+  }
+
+  const rule: AlertRuleRow = await prisma.alertRule.create({
+    data: {
+      userAddress: address,
+      metric: input.metric,
+      direction: input.direction,
+      threshold: input.threshold.toString(),
+      windowHours: input.windowHours ?? DEFAULT_WINDOW_HOURS[input.metric],
+      cooldownHours: input.cooldownHours ?? DEFAULT_COOLDOWN_HOURS,
+      label: input.label,
+    },
+  });
+
+  console.log(`[AlertRuleService] Rule ${rule.id} created for ${address}`);
+
+  return formatRule(rule);
+}
+
+export async function getAlertRules(userAddress: string): Promise<AlertRuleInfo[]> {
+  const rules: AlertRuleRow[] = await prisma.alertRule.findMany({
+    where: { userAddress: userAddress.toLowerCase() },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return rules.map(formatRule);
+}
+
+/**
+ * Update a wallet's rule, or return null when it doesn't own one with this id
+ * Changing the condition re-arms the rule so it is checked afresh on the next sync
+ */
+export async function updateAlertRule(
+  userAddress: string,
+  id: string,
+  update: AlertRuleUpdate
+): Promise<AlertRuleInfo | null> {
+  const existing: AlertRuleRow | null = await prisma.alertRule.findFirst({
+    where: { id, userAddress: userAddress.toLowerCase() },
+  });
+
+  if (!existing) {
+    return null;
+  }
+
+  validateRuleFields(existing.metric, update);
+
+  const conditionChanged =
+    update.direction !== undefined ||
+    update.threshold !== undefined ||
+    update.windowHours !== undefined;
+
+  const rule: AlertRuleRow = await prisma.alertRule.update({
+    where: { id },
+    data: {
+      ...update,
+      threshold: update.threshold?.toString(),
+      ...(conditionChanged && { triggered: false }),
+    },
+  });
+
+  return formatRule(rule);
+}
+
+export async function deleteAlertRule(userAddress: string, id: string): Promise<boolean> {
+  const { count }: { count: number } = await prisma.alertRule.deleteMany({
+    where: { id, userAddress: userAddress.toLowerCase() },
+  });
+
+  return count > 0;
+}
+
+// =============================================================================
+// Metrics
+// =============================================================================
+
+/**
+ * Percent change between two share prices, to 6 decimals
+ */
+export function calculatePriceChange(start: bigint, end: bigint): number | null {
+  if (start === 0n) {
+    return null;
+  }
+  return Number(((end - start) * 100_000_000n) / start) / 1_000_000;
+}
+
+/**
+ * USDT value of each rule owner's position at the snapshot share price
+ * Wallets without a position are worth 0
+ */
+async function getPositionValues(
+  rules: AlertRuleRow[],
+  sharePrice: bigint
+): Promise<Map<string, number>> {
+  const addresses = [
+    ...new Set(
+      rules.filter((rule) => rule.metric === 'POSITION_VALUE').map((rule) => rule.userAddress)
+    ),
+  ];
+  if (addresses.length === 0) {
+    return new Map();
+  }
+
+  const positions: { userAddress: string; shares: { toString(): string } }[] =
+    await prisma.userPosition.findMany({
+      where: { userAddress: { in: addresses } },
+      select: { userAddress: true, shares: true },
+    });
+
+  const values = new Map(addresses.map((address) => [address, 0]));
+  for (const position of positions) {
+    const value = (BigInt(position.shares.toString()) * sharePrice) / ONE;
+    values.set(position.userAddress, Number(formatUnits(value, 18)));
+  }
+  return values;
+}
+
+/**
+ * Current value of a rule's metric, or null when there isn't enough NAV history yet
+ */
+async function getMetricValue(
+  rule: AlertRuleRow,
+  snapshot: AlertSnapshot,
+  positionValues: Map<string, number>,
+  getBaseline: (windowHours: number) => Promise<NetValuePoint | null>
+): Promise<number | null> {
+  if (rule.metric === 'POSITION_VALUE') {
+    return positionValues.get(rule.userAddress) ?? 0;
+  }
+
+  const baseline = await getBaseline(rule.windowHours ?? DEFAULT_WINDOW_HOURS[rule.metric]!);
+  if (!baseline) {
+    return null;
+  }
+
+  if (rule.metric === 'APY') {
+    return calculateTrailingApy(snapshot, baseline);
+  }
+
+  return calculatePriceChange(BigInt(baseline.sharePrice.toString()), snapshot.sharePrice);
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+function formatWindow(hours: number): string {
+  return hours % 24 === 0 ? `${hours / 24}d` : `${hours}h`;
+}
+
+function formatMetricValue(metric: AlertMetric, value: number): string {
+  if (metric === 'POSITION_VALUE') {
+    const amount = value.toLocaleString('en-US', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+    return `${amount} USDT`;
+  }
+  return `${Math.round(value * 100) / 100}%`;
+}
+
+/**
+ * Notification title and sentence for a fired rule
+ */
+export function describeAlert(
+  rule: Pick<AlertRuleInfo, 'metric' | 'direction' | 'threshold' | 'windowHours' | 'label'>,
+  value: number
+): { title: string; description: string } {
+  const names: Record<AlertMetric, string> = {
+    APY: `Vault APY (${formatWindow(rule.windowHours ?? 0)})`,
+    SHARE_PRICE_CHANGE: `Share price change (${formatWindow(rule.windowHours ?? 0)})`,
+    POSITION_VALUE: 'Your position value',
+  };
+  const name = names[rule.metric];
+  const direction = rule.direction === 'ABOVE' ? 'above' : 'below';
+  const threshold = formatMetricValue(rule.metric, rule.threshold);
+
+  return {
+    title: rule.label || `${name} ${direction} ${threshold}`,
+    description: `${name} is ${formatMetricValue(rule.metric, value)}, ${direction} your ${threshold} threshold.`,
+  };
+}
+
+/**
+ * Record a rule's latest value and queue its alert if it fires
+ * Returns whether an alert was queued
+ */
+async function applyRule(rule: AlertRuleInfo, value: number, now: Date): Promise<boolean> {
+  const holds = rule.direction === 'ABOVE' ? value > rule.threshold : value < rule.threshold;
+  const cooledDown =
+    !rule.lastTriggeredAt ||
+    now.getTime() - rule.lastTriggeredAt.getTime() >= rule.cooldownHours * MS_PER_HOUR;
+  const fire = holds && !rule.triggered && cooledDown;
+
+  // Queued before the rule is marked, so a failed update can repeat an alert but never lose one
+  if (fire) {
+    await addUserNotificationJob(
+      rule.userAddress,
+      'THRESHOLD_ALERT',
+      {
+        ruleId: rule.id,
+        metric: rule.metric,
+        direction: rule.direction,
+        threshold: rule.threshold,
+        value,
+        ...describeAlert(rule, value),
+        timestamp: now.toISOString(),
+      },
+      'high'
+    );
+  }
+
+  await prisma.alertRule.update({
+    where: { id: rule.id },
+    data: {
+      lastValue: value.toFixed(6),
+      lastEvaluatedAt: now,
+      // Re-arm once the condition clears; held-but-cooling-down rules fire when the cooldown ends
+      ...(fire && { triggered: true, lastTriggeredAt: now }),
+      ...(!holds && rule.triggered && { triggered: false }),
+    },
+  });
+
+  return fire;
+}
+
+/**
+ * Evaluate every active rule against a new NAV snapshot (called after each NAV sync)
+ * A failing rule is logged and skipped so it can't block the others
+ */
+export async function evaluateAlertRules(snapshot: AlertSnapshot): Promise<AlertEvaluationResult> {
+  const rows: AlertRuleRow[] = await prisma.alertRule.findMany({ where: { active: true } });
+  if (rows.length === 0) {
+    return { evaluated: 0, triggered: 0 };
+  }
+
+  const positionValues = await getPositionValues(rows, snapshot.sharePrice);
+
+  // Rules sharing a window share one baseline lookup
+  const baselines = new Map<number, Promise<NetValuePoint | null>>();
+  const getBaseline = (windowHours: number) => {
+    if (!baselines.has(windowHours)) {
+      const windowStart = new Date(snapshot.timestamp.getTime() - windowHours * MS_PER_HOUR);
+      baselines.set(windowHours, getNetValueAt(windowStart));
+    }
+    return baselines.get(windowHours)!;
+  };
+
+  const result: AlertEvaluationResult = { evaluated: 0, triggered: 0 };
+
+  for (const row of rows) {
+    try {
+      const value = await getMetricValue(row, snapshot, positionValues, getBaseline);
+      if (value === null) {
+        continue;
+      }
+
+      result.evaluated++;
+      if (await applyRule(formatRule(row), value, snapshot.timestamp)) {
+        result.triggered++;
+      }
+    } catch (error) {
+      console.error(`[AlertRuleService] Failed to evaluate rule ${row.id}:`, error);
+    }
+  }
+
+  console.log(
+    `[AlertRuleService] Evaluated ${result.evaluated} rule(s), triggered ${result.triggered}`
+  );
+  return result;
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+function formatRule(rule: AlertRuleRow): AlertRuleInfo {
+  return {
+    id: rule.id,
+    userAddress: rule.userAddress,
+    metric: rule.metric,
+    direction: rule.direction,
+    threshold: Number(rule.threshold.toString()),
+    windowHours: rule.windowHours,
+    cooldownHours: rule.cooldownHours,
+    label: rule.label,
+    active: rule.active,
+    triggered: rule.triggered,
+    lastValue: rule.lastValue === null ? null : Number(rule.lastValue.toString()),
+    lastEvaluatedAt: rule.lastEvaluatedAt,
+    lastTriggeredAt: rule.lastTriggeredAt,
+    createdAt: rule.createdAt,
+    updatedAt: rule.updatedAt,
+  };
+}
+
+export default {
+  createAlertRule,
+  getAlertRules,
+  updateAlertRule,
+  deleteAlertRule,
+  evaluateAlertRules,
+};
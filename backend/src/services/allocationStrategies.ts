@@ -0,0 +1,275 @@
+/**
+ * Allocation Strategies
+ * Off-chain alternatives to the RebalanceStrategy contract's APY-sensitivity formula
+ *
+ * Every strategy maps the same AssetData[] to target weights, so the engine can turn
+ * any of them into AllocationResult[] and proposals can be compared side by side:
+ * - equal-weight:  1 / n per asset
+ * - risk-parity:   inverse volatility of daily PriceFeed closes
+ * - apy-weighted:  proportional to APY, capped per asset (excess goes to the others)
+ *
+ * The on-chain strategy stays in rebalanceEngine (it needs the contract client).
+ */
+
+import { prisma } from './database.js';
+import type { AssetData } from './rebalanceEngine.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AllocationStrategyName = 'onchain' | 'equal-weight' | 'risk-parity' | 'apy-weighted';
+
+export type OffchainStrategyName = Exclude<AllocationStrategyName, 'onchain'>;
+
+export interface AllocationStrategyConfig {
+  maxWeightBps: number; // Per-asset cap for apy-weighted
+  minLiquidityBps: number; // Share of the vault kept unallocated (USDT) for redemptions
+  riskParityLookbackDays: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const ALLOCATION_STRATEGIES: AllocationStrategyName[] = [
+  'onchain',
+  'equal-weight',
+  'risk-parity',
+  'apy-weighted',
+];
+
+const BASIS_POINTS = 10000;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MIN_VOLATILITY = 1e-6; // Floor so near-constant NAV tokens don't take the whole book
+
+export function getAllocationStrategyName(): AllocationStrategyName {
+  const name = (process.env.REBALANCE_ALLOCATION_STRATEGY || 'onchain') as AllocationStrategyName;
+
+  if (!ALLOCATION_STRATEGIES.includes(name)) {
+    throw new Error(`Unknown REBALANCE_ALLOCATION_STRATEGY: ${name}`);
+  }
+
+  return name;
+}
+
+export function getAllocationStrategyConfig(): AllocationStrategyConfig {
+  return {
+    maxWeightBps: Number(process.env.ALLOCATION_MAX_WEIGHT_BPS) || 4000,
+    minLiquidityBps: Number(process.env.ALLOCATION_MIN_LIQUIDITY_BPS) || 0,
+    riskParityLookbackDays: Number(process.env.RISK_PARITY_LOOKBACK_DAYS) || 30,
+  };
+}
+
+// =============================================================================
+// Weight Helpers
+// =============================================================================
+
+/**
+ * Normalize non-negative scores to weights summing to 1 (equal weights if all are 0)
+ */
+export function normalizeScores(scores: number[]): number[] {
+  const total = scores.reduce((sum, s) => sum + s, 0);
+  return total > 0 ? scores.map((s) => s / total) : scores.map(() => 1 / scores.length);
+}
+
+/**
+ * Cap each weight and hand the excess to uncapped assets in proportion to their weight.
+ * If every asset hits the cap, the remainder is left unallocated.
+ */
+export function capWeights(weights: number[], cap: number): number[] {
+  const result = [...weights];
+  const capped = new Set<number>();
+
+  for (;;) {
+    const over = result.findIndex((w, i) => !capped.has(i) && w > cap + 1e-12);
+    if (over === -1) break;
+
+    result.forEach((w, i) => {
+      if (!capped.has(i) && w > cap) {
+        result[i] = cap;
+        capped.add(i);
+      }
+    });
+
+    const remaining = 1 - capped.size * cap;
+    const uncapped = result.map((_, i) => i).filter((i) => !capped.has(i));
+    const uncappedTotal = uncapped.reduce((sum, i) => sum + weights[i], 0);
+
+    if (uncapped.length === 0 || remaining <= 0) break;
+
+    for (const i of uncapped) {
+      result[i] =
+        uncappedTotal > 0 ? (weights[i] / uncappedTotal) * remaining : remaining / uncapped.length;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert weights to integer basis points of `total`, using largest remainders so
+ * the result sums exactly to round(total * sum(weights))
+ */
+export function toBasisPoints(weights: number[], total: number = BASIS_POINTS): bigint[] {
+  const exact = weights.map((w) => w * total);
+  const floored = exact.map(Math.floor);
+  let leftover =
+    Math.round(exact.reduce((sum, v) => sum + v, 0)) - floored.reduce((a, b) => a + b, 0);
+
+  const order = exact
+    .map((v, i) => ({ i, remainder: v - floored[i] }))
+    .sort((a, b) => b.remainder - a.remainder);
+
+  for (const { i } of order) {
+    if (leftover <= 0) break;
+    floored[i]++;
+    leftover--;
+  }
+
+  return floored.map(BigInt);
+}
+
+/**
+ * Keep minLiquidityBps of the vault unallocated by scaling targets down
+ */
+export function applyLiquidityReserve(targets: bigint[], minLiquidityBps: number): bigint[] {
+  if (minLiquidityBps <= 0) return targets;
+
+  const investable = BASIS_POINTS - minLiquidityBps;
+  const total = targets.reduce((sum, t) => sum + t, 0n);
+  if (total <= BigInt(investable)) return targets;
+
+  const weights = normalizeScores(targets.map(Number));
+  return toBasisPoints(weights, investable);
+}
+
+// =============================================================================
+// Volatility
+// =============================================================================
+
+/**
+ * Last price of each UTC day, keyed by days since the epoch, in ascending order
+ */
+export function dailyCloses(
+  points: Array<{ price: number; timestamp: Date }>
+): Map<number, number> {
+  const closes = new Map<number, number>();
+  for (const point of [...points].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())) {
+    closes.set(Math.floor(point.timestamp.getTime() / MS_PER_DAY), point.price);
+  }
+  return closes;
+}
+
+/**
+ * Standard deviation of daily returns, using the last price of each UTC day
+ */
+export function dailyVolatility(points: Array<{ price: number; timestamp: Date }>): number | null {
+  const prices = [...dailyCloses(points).values()];
+  const returns: number[] = [];
+  for (let i = 1; i < prices.length; i++) {
+    if (prices[i - 1] > 0) returns.push(prices[i] / prices[i - 1] - 1);
+  }
+
+  if (returns.length < 2) return null;
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  return Math.sqrt(variance);
+}
+
+async function getVolatilities(
+  tokens: string[],
+  lookbackDays: number,
+  asOf: Date
+): Promise<(number | null)[]> {
+  const since = new Date(asOf.getTime() - lookbackDays * MS_PER_DAY);
+
+  const feeds = await prisma.priceFeed.findMany({
+    where: {
+      tokenAddress: { in: tokens.map((t) => t.toLowerCase()) },
+      timestamp: { gte: since, lte: asOf },
+    },
+    select: { tokenAddress: true, price: true, timestamp: true },
+    orderBy: { timestamp: 'asc' },
+  });
+
+  return tokens.map((token) =>
+    dailyVolatility(
+      feeds
+        .filter(
+          (feed: { tokenAddress: string }) =>
+            feed.tokenAddress.toLowerCase() === token.toLowerCase()
+        )
+        .map((feed: { price: { toString(): string }; timestamp: Date }) => ({
+          price: Number(feed.price.toString()),
+          timestamp: feed.timestamp,
+        }))
+    )
+  );
+}
+
+// =============================================================================
+// Strategies
+// =============================================================================
+
+const strategies: Record<
+  OffchainStrategyName,
+  (assets: AssetData[], config: AllocationStrategyConfig, asOf: Date) => Promise<number[]>
+> = {
+  'equal-weight': (assets) => Promise.resolve(assets.map(() => 1 / assets.length)),
+
+  'risk-parity': async (assets, config, asOf) => {
+    const vols = await getVolatilities(
+      assets.map((a) => a.token),
+      config.riskParityLookbackDays,
+      asOf
+    );
+    const known = vols.filter((v): v is number => v !== null);
+
+    if (known.length === 0) {
+      throw new Error('Not enough PriceFeed history for risk-parity allocation');
+    }
+
+    // Assets without history get the average volatility of the rest
+    const fallback = known.reduce((sum, v) => sum + v, 0) / known.length;
+    return normalizeScores(vols.map((v) => 1 / Math.max(v ?? fallback, MIN_VOLATILITY)));
+  },
+
+  'apy-weighted': (assets, config) =>
+    Promise.resolve(
+      capWeights(
+        normalizeScores(assets.map((a) => Math.max(Number(a.apy), 0))),
+        config.maxWeightBps / BASIS_POINTS
+      )
+    ),
+};
+
+/**
+ * Target allocations (basis points, same order as assets) for an off-chain strategy.
+ * `asOf` bounds the price history used, so backtests don't see the future.
+ */
+export async function runAllocationStrategy(
+  name: OffchainStrategyName,
+  assets: AssetData[],
+  config: AllocationStrategyConfig = getAllocationStrategyConfig(),
+  asOf: Date = new Date()
+): Promise<bigint[]> {
+  const strategy = strategies[name];
+
+  if (!strategy) {
+    throw new Error(`Unknown allocation strategy: ${name}`);
+  }
+
+  if (assets.length === 0) return [];
+
+  const weights = await strategy(assets, config, asOf);
+  return toBasisPoints(weights, BASIS_POINTS - config.minLiquidityBps);
+}
+
+export default {
+  getAllocationStrategyName,
+  getAllocationStrategyConfig,
+  runAllocationStrategy,
+  applyLiquidityReserve,
+};
@@ -0,0 +1,211 @@
+/**
+ * Asset Details Service
+ * Per-asset detail view for the RWA assets page
+ *
+ * Combines for every active AssetAllocation row:
+ * - AssetRegistry metadata (asset type, oracle source, registration time)
+ * - The latest indexed oracle price, its source and update time
+ * - The vault's holding and target vs. actual weight
+ * - 30 days of daily price candles
+ * - Rebalance trades that bought or sold the asset
+ *
+ * Registry metadata is read live; if the registry is unavailable the other
+ * fields are still returned with registry set to null. AssetRegistry stores no
+ * issuer, rating or audit data, so none is returned.
+ */
+
+import { prisma } from './database.js';
+import { getActiveAllocations } from './vault.service.js';
+import { getRegistryAssets, type RegistryAsset, type RWAAssetType } from './assetSyncService.js';
+import { getPriceCandles, type PriceCandle, type PriceSource } from './oracleService.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AssetRebalanceRecord {
+  txHash: string;
+  type: string;
+  fromAsset: string;
+  toAsset: string;
+  fromAmount: string;
+  toAmount: string;
+  timestamp: string;
+}
+
+export interface AssetDetail {
+  tokenAddress: string;
+  name: string;
+  symbol: string;
+  registry: {
+    assetType: RWAAssetType;
+    oracleSource: string;
+    registeredAt: string;
+    isActive: boolean;
+  } | null;
+  oracle: {
+    price: string; // USD, 18 decimals
+    source: PriceSource;
+    updatedAt: string;
+  } | null;
+  balance: string;
+  valueUsd: string; // 18 decimals
+  targetAllocation: number; // Percentage
+  actualAllocation: number; // Percentage
+  deviation: number; // actual - target, percentage points
+  apy: number;
+  priceHistory: PriceCandle[];
+  rebalances: AssetRebalanceRecord[];
+  lastUpdated: string;
+}
+
+type DecimalLike = { toString(): string };
+
+interface AllocationRow {
+  tokenAddress: string;
+  tokenName: string;
+  tokenSymbol: string;
+  allocation: DecimalLike;
+  balance: DecimalLike;
+  valueUsd: DecimalLike;
+  apy: DecimalLike;
+  updatedAt: Date;
+}
+
+interface RebalanceRow {
+  txHash: string;
+  type: string;
+  fromAsset: string;
+  toAsset: string;
+  fromAmount: DecimalLike;
+  toAmount: DecimalLike;
+  timestamp: Date;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const PRICE_HISTORY_DAYS = 30;
+const REBALANCE_HISTORY_LIMIT = 20;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function toPercentage(value: number): number {
+  return Math.round(value * 100 * 100) / 100; // Round to 2 decimals
+}
+
+/**
+ * Registry metadata, or null when there is no registry or it can't be read
+ */
+async function getRegistryMetadata(): Promise<Map<string, RegistryAsset> | null> {
+  try {
+    return await getRegistryAssets(true);
+  } catch (error) {
+    console.error(
+      '[AssetDetails] Failed to read AssetRegistry:',
+      error instanceof Error ? error.message : error
+    );
+    return null;
+  }
+}
+
+async function getLatestPrice(tokenAddress: string): Promise<AssetDetail['oracle']> {
+  const feed = await prisma.priceFeed.findFirst({
+    where: { tokenAddress },
+    orderBy: { timestamp: 'desc' },
+    select: { price: true, source: true, timestamp: true },
+  });
+
+  if (!feed) return null;
+
+  return {
+    price: feed.price.toString(),
+    source: feed.source,
+    updatedAt: feed.timestamp.toISOString(),
+  };
+}
+
+async function getAssetRebalances(tokenAddress: string): Promise<AssetRebalanceRecord[]> {
+  const rebalances: RebalanceRow[] = await prisma.rebalanceHistory.findMany({
+    where: { OR: [{ fromAsset: tokenAddress }, { toAsset: tokenAddress }] },
+    orderBy: { timestamp: 'desc' },
+    take: REBALANCE_HISTORY_LIMIT,
+  });
+
+  return rebalances.map((rebalance) => ({
+    txHash: rebalance.txHash,
+    type: rebalance.type,
+    fromAsset: rebalance.fromAsset,
+    toAsset: rebalance.toAsset,
+    fromAmount: rebalance.fromAmount.toString(),
+    toAmount: rebalance.toAmount.toString(),
+    timestamp: rebalance.timestamp.toISOString(),
+  }));
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Details for every active asset, in the same order as /assets/allocation
+ */
+export async function getAssetDetails(now: Date = new Date()): Promise<AssetDetail[]> {
+  const [allocations, registry]: [AllocationRow[], Map<string, RegistryAsset> | null] =
+    await Promise.all([getActiveAllocations(), getRegistryMetadata()]);
+
+  const totalValueUsd = allocations.reduce(
+    (sum, alloc) => sum + BigInt(alloc.valueUsd.toString()),
+    0n
+  );
+  const historyFrom = new Date(now.getTime() - PRICE_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+
+  return Promise.all(
+    allocations.map(async (alloc) => {
+      const tokenAddress = alloc.tokenAddress.toLowerCase();
+      const valueUsd = BigInt(alloc.valueUsd.toString());
+
+      const [oracle, priceHistory, rebalances] = await Promise.all([
+        getLatestPrice(tokenAddress),
+        getPriceCandles(tokenAddress, { from: historyFrom, to: now, interval: '1d' }),
+        getAssetRebalances(tokenAddress),
+      ]);
+
+      const targetAllocation = toPercentage(Number(alloc.allocation));
+      const actualAllocation =
+        totalValueUsd === 0n ? 0 : toPercentage(Number(valueUsd) / Number(totalValueUsd));
+      const metadata = registry?.get(tokenAddress);
+
+      return {
+        tokenAddress,
+        name: alloc.tokenName,
+        symbol: alloc.tokenSymbol,
+        registry: metadata
+          ? {
+              assetType: metadata.assetType,
+              oracleSource: metadata.oracleSource,
+              registeredAt: metadata.registeredAt.toISOString(),
+              isActive: metadata.isActive,
+            }
+          : null,
+        oracle,
+        balance: alloc.balance.toString(),
+        valueUsd: valueUsd.toString(),
+        targetAllocation,
+        actualAllocation,
+        deviation: Math.round((actualAllocation - targetAllocation) * 100) / 100,
+        apy: Math.round(Number(alloc.apy) * 100) / 100,
+        priceHistory,
+        rebalances,
+        lastUpdated: alloc.updatedAt.toISOString(),
+      };
+    })
+  );
+}
+
+export default {
+  getAssetDetails,
+};
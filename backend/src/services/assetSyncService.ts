@@ -0,0 +1,360 @@
+/**
+ * Asset Sync Service
+ * Keeps AssetAllocation in sync with the vault's on-chain RWA holdings
+ *
+ * This service:
+ * - Reads PNGYVault.getRWAHoldings() for target allocations and holding status
+ * - Reads token metadata from AssetRegistry.getActiveAssets() (ERC-20 name/symbol
+ *   for tokens the registry doesn't know)
+ * - Values the vault's token balance with the OracleAdapter price
+ * - Soft-deactivates rows for assets that are no longer held or active
+ * - Applies RWAAssetAdded / RWAAssetRemoved / TargetAllocationUpdated events as
+ *   the event listener sees them, between full syncs
+ *
+ * ASSET_REGISTRY_ADDRESS overrides the registry the vault points at. APY is not
+ * on-chain and is left untouched.
+ */
+
+import { erc20Abi, zeroAddress, type Address } from 'viem';
+import { prisma } from './database.js';
+import { publicClient, contracts } from './blockchain.js';
+import { getOracleAdapterAddress, ORACLE_ADAPTER_ABI } from './oracleService.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AssetSyncResult {
+  holdings: number;
+  synced: number;
+  deactivated: number;
+  errors: string[];
+}
+
+interface AssetMetadata {
+  name: string;
+  symbol: string;
+}
+
+export type RWAAssetType = (typeof RWA_ASSET_TYPES)[number];
+
+export interface RegistryAsset extends AssetMetadata {
+  tokenAddress: string; // Lowercase
+  assetType: RWAAssetType;
+  oracleSource: string;
+  isActive: boolean;
+  registeredAt: Date;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const BASIS_POINTS = 10000;
+
+// IAssetRegistry.AssetType
+export const RWA_ASSET_TYPES = [
+  'TOKENIZED_BOND',
+  'TOKENIZED_STOCK',
+  'TOKENIZED_COMMODITY',
+  'REAL_ESTATE',
+  'YIELD_BEARING',
+  'OTHER',
+] as const;
+
+const REGISTRY_ASSET_COMPONENTS = [
+  { name: 'tokenAddress', type: 'address' },
+  { name: 'name', type: 'string' },
+  { name: 'symbol', type: 'string' },
+  { name: 'assetType', type: 'uint8' },
+  { name: 'oracleSource', type: 'address' },
+  { name: 'isActive', type: 'bool' },
+  { name: 'registeredAt', type: 'uint256' },
+] as const;
+
+const VAULT_ASSET_ABI = [
+  {
+    name: 'getRWAHoldings',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple[]',
+        components: [
+          { name: 'tokenAddress', type: 'address' },
+          { name: 'targetAllocation', type: 'uint256' },
+          { name: 'isActive', type: 'bool' },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'assetRegistry',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+] as const;
+
+const ASSET_REGISTRY_ABI = [
+  {
+    name: 'getActiveAssets',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'tuple[]', components: REGISTRY_ASSET_COMPONENTS }],
+  },
+  {
+    name: 'getAllAssets',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'tuple[]', components: REGISTRY_ASSET_COMPONENTS }],
+  },
+] as const;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function getVaultAddress(): Address {
+  if (!contracts.pngyVault) {
+    throw new Error('PNGY_VAULT_ADDRESS not configured');
+  }
+  return contracts.pngyVault;
+}
+
+/**
+ * AssetRegistry address from ASSET_REGISTRY_ADDRESS, or the one the vault uses.
+ * Null when the vault runs without a registry.
+ */
+export async function getAssetRegistryAddress(): Promise<Address | null> {
+  if (process.env.ASSET_REGISTRY_ADDRESS) {
+    return process.env.ASSET_REGISTRY_ADDRESS as Address;
+  }
+
+  const registry = await publicClient.readContract({
+    address: getVaultAddress(),
+    abi: VAULT_ASSET_ABI,
+    functionName: 'assetRegistry',
+  });
+
+  return registry === zeroAddress ? null : registry;
+}
+
+export function isAssetSyncConfigured(): boolean {
+  return Boolean(contracts.pngyVault);
+}
+
+/**
+ * Registry assets keyed by lowercase token address, or null without a registry.
+ * Only active assets unless includeInactive is set.
+ */
+export async function getRegistryAssets(
+  includeInactive = false
+): Promise<Map<string, RegistryAsset> | null> {
+  const registry = await getAssetRegistryAddress();
+  if (!registry) return null;
+
+  const assets = await publicClient.readContract({
+    address: registry,
+    abi: ASSET_REGISTRY_ABI,
+    functionName: includeInactive ? 'getAllAssets' : 'getActiveAssets',
+  });
+
+  return new Map(
+    assets.map((asset) => {
+      const tokenAddress = asset.tokenAddress.toLowerCase();
+      return [
+        tokenAddress,
+        {
+          tokenAddress,
+          name: asset.name,
+          symbol: asset.symbol,
+          assetType: RWA_ASSET_TYPES[asset.assetType] ?? 'OTHER',
+          oracleSource: asset.oracleSource,
+          isActive: asset.isActive,
+          registeredAt: new Date(Number(asset.registeredAt) * 1000),
+        },
+      ];
+    })
+  );
+}
+
+async function getTokenMetadata(token: Address): Promise<AssetMetadata> {
+  const [name, symbol] = await Promise.all([
+    publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'name' }),
+    publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'symbol' }),
+  ]);
+  return { name, symbol };
+}
+
+/**
+ * Vault balance of a token and its USD value (18 decimals) at the oracle price
+ */
+async function getHoldingValue(token: Address): Promise<{ balance: bigint; valueUsd: bigint }> {
+  const vault = getVaultAddress();
+  const adapter = await getOracleAdapterAddress();
+
+  if (!adapter) {
+    throw new Error('OracleAdapter address not configured');
+  }
+
+  const [balance, decimals, [price]] = await Promise.all([
+    publicClient.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: 'balanceOf',
+      args: [vault],
+    }),
+    publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'decimals' }),
+    publicClient.readContract({
+      address: adapter,
+      abi: ORACLE_ADAPTER_ABI,
+      functionName: 'getPriceWithSource',
+      args: [token],
+    }),
+  ]);
+
+  // Same valuation as PNGYVault._calculateRWAValue, kept at 18 decimals
+  return { balance, valueUsd: (balance * price) / 10n ** BigInt(decimals) };
+}
+
+function toAllocation(targetAllocationBps: bigint): string {
+  return (Number(targetAllocationBps) / BASIS_POINTS).toFixed(4);
+}
+
+/**
+ * Upsert one asset's metadata, balance, value and target allocation
+ */
+async function upsertAsset(
+  token: Address,
+  targetAllocationBps: bigint,
+  metadata?: AssetMetadata
+): Promise<void> {
+  const tokenAddress = token.toLowerCase();
+  const [{ name, symbol }, { balance, valueUsd }] = await Promise.all([
+    metadata ?? getTokenMetadata(token),
+    getHoldingValue(token),
+  ]);
+
+  const data = {
+    tokenSymbol: symbol.slice(0, 20),
+    tokenName: name.slice(0, 100),
+    allocation: toAllocation(targetAllocationBps),
+    balance: balance.toString(),
+    valueUsd: valueUsd.toString(),
+    isActive: true,
+  };
+
+  await prisma.assetAllocation.upsert({
+    where: { tokenAddress },
+    update: data,
+    create: { tokenAddress, ...data, apy: 0 },
+  });
+}
+
+// =============================================================================
+// Full Sync
+// =============================================================================
+
+/**
+ * Sync every vault holding into AssetAllocation. Assets that fail to sync keep
+ * their previous row; rows for assets no longer held (or inactive) are deactivated.
+ */
+export async function syncAssetAllocations(): Promise<AssetSyncResult> {
+  const holdings = await publicClient.readContract({
+    address: getVaultAddress(),
+    abi: VAULT_ASSET_ABI,
+    functionName: 'getRWAHoldings',
+  });
+  const registryAssets = await getRegistryAssets();
+
+  const result: AssetSyncResult = {
+    holdings: holdings.length,
+    synced: 0,
+    deactivated: 0,
+    errors: [],
+  };
+  const active = new Set<string>();
+
+  for (const holding of holdings) {
+    const tokenAddress = holding.tokenAddress.toLowerCase();
+    const metadata = registryAssets?.get(tokenAddress);
+
+    // With a registry, deactivated registry assets stop counting as held
+    if (!holding.isActive || (registryAssets && !metadata)) continue;
+    active.add(tokenAddress);
+
+    try {
+      await upsertAsset(holding.tokenAddress, holding.targetAllocation, metadata);
+      result.synced++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      result.errors.push(`${tokenAddress}: ${message}`);
+      console.error(`[AssetSync] Failed to sync ${tokenAddress}:`, message);
+    }
+  }
+
+  const { count } = await prisma.assetAllocation.updateMany({
+    where: { isActive: true, tokenAddress: { notIn: [...active] } },
+    data: { isActive: false },
+  });
+  result.deactivated = count;
+
+  return result;
+}
+
+// =============================================================================
+// Event Handlers
+// =============================================================================
+
+/**
+ * RWAAssetAdded: create or reactivate the asset with its initial target allocation
+ */
+export async function handleAssetAdded(token: Address, targetAllocation: bigint): Promise<void> {
+  const registryAssets = await getRegistryAssets();
+  await upsertAsset(token, targetAllocation, registryAssets?.get(token.toLowerCase()));
+  console.log(`[AssetSync] Added ${token.toLowerCase()}`);
+}
+
+/**
+ * RWAAssetRemoved: soft-deactivate so history and reports keep the row
+ */
+export async function handleAssetRemoved(token: Address): Promise<void> {
+  await prisma.assetAllocation.updateMany({
+    where: { tokenAddress: token.toLowerCase() },
+    data: { isActive: false },
+  });
+  console.log(`[AssetSync] Deactivated ${token.toLowerCase()}`);
+}
+
+/**
+ * TargetAllocationUpdated: update the target, syncing the asset if it has no row yet
+ */
+export async function handleTargetAllocationUpdated(
+  token: Address,
+  newAllocation: bigint
+): Promise<void> {
+  const { count } = await prisma.assetAllocation.updateMany({
+    where: { tokenAddress: token.toLowerCase() },
+    data: { allocation: toAllocation(newAllocation) },
+  });
+
+  if (count === 0) {
+    await handleAssetAdded(token, newAllocation);
+  }
+}
+
+export default {
+  getAssetRegistryAddress,
+  getRegistryAssets,
+  isAssetSyncConfigured,
+  syncAssetAllocations,
+  handleAssetAdded,
+  handleAssetRemoved,
+  handleTargetAllocationUpdated,
+};
@@ -0,0 +1,280 @@
+/**
+ * Auth Service
+ * Sign-In with Ethereum (EIP-4361) and wallet sessions
+ *
+ * This service:
+ * - Issues single-use SIWE nonces (stored in Redis with a short TTL)
+ * - Verifies signed SIWE messages (EOAs and ERC-1271/6492 smart wallets)
+ * - Issues and verifies HS256 session tokens bound to the signing address
+ * - Resolves admin role by checking the vault's ADMIN_ROLE via hasRole
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { keccak256, toHex, type Address, type Hex } from 'viem';
+import { generateSiweNonce, parseSiweMessage, validateSiweMessage } from 'viem/siwe';
+import { publicClient, contracts } from './blockchain.js';
+import { getRedisConnection } from '../config/redis.js';
+import { env } from '../config/env.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AuthRole = 'user' | 'admin';
+
+export interface AuthSession {
+  address: string; // lowercase wallet address
+  role: AuthRole;
+  issuedAt: number; // unix seconds
+  expiresAt: number; // unix seconds
+}
+
+export interface SignInResult {
+  token: string;
+  session: AuthSession;
+}
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+// Nonces must be used within 5 minutes of being issued
+const NONCE_TTL_SECONDS = 300;
+const NONCE_KEY_PREFIX = 'auth:nonce:';
+
+// hasRole lookups are cached briefly to avoid an RPC call on every admin request
+const ROLE_CACHE_TTL_MS = 60_000;
+
+// keccak256("ADMIN_ROLE") - matches PNGYVault.ADMIN_ROLE
+export const ADMIN_ROLE = keccak256(toHex('ADMIN_ROLE'));
+
+const DEV_JWT_SECRET = 'paimon-dev-jwt-secret';
+
+const VAULT_ACCESS_CONTROL_ABI = [
+  {
+    name: 'hasRole',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'role', type: 'bytes32' },
+      { name: 'account', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+] as const;
+
+// =============================================================================
+// Nonces
+// =============================================================================
+
+/**
+ * Issue a new SIWE nonce that can be consumed exactly once
+ */
+export async function issueNonce(): Promise<string> {
+  const nonce = generateSiweNonce();
+  await getRedisConnection().set(`${NONCE_KEY_PREFIX}${nonce}`, '1', 'EX', NONCE_TTL_SECONDS);
+  return nonce;
+}
+
+/**
+ * Consume a nonce; returns false if it was never issued, expired, or already used
+ */
+async function consumeNonce(nonce: string): Promise<boolean> {
+  const removed = await getRedisConnection().del(`${NONCE_KEY_PREFIX}${nonce}`);
+  return removed === 1;
+}
+
+// =============================================================================
+// Sign-In
+// =============================================================================
+
+/**
+ * Verify a signed SIWE message and issue a session token for the signer
+ */
+export async function signInWithEthereum(message: string, signature: Hex): Promise<SignInResult> {
+  const parsed = parseSiweMessage(message);
+
+  if (!parsed.address || !parsed.nonce) {
+    throw new AuthError('Malformed SIWE message');
+  }
+
+  if (parsed.chainId !== publicClient.chain.id) {
+    throw new AuthError(`SIWE message must target chain ${publicClient.chain.id}`);
+  }
+
+  if (!validateSiweMessage({ message: parsed, domain: env.SIWE_DOMAIN })) {
+    throw new AuthError('SIWE message is expired, not yet valid, or for another domain');
+  }
+
+  // Consume the nonce before checking the signature so a message can never be replayed
+  if (!(await consumeNonce(parsed.nonce))) {
+    throw new AuthError('Invalid or expired nonce');
+  }
+
+  const valid = await publicClient.verifySiweMessage({
+    message,
+    signature,
+    domain: env.SIWE_DOMAIN,
+    nonce: parsed.nonce,
+  });
+
+  if (!valid) {
+    throw new AuthError('Invalid signature');
+  }
+
+  const address = parsed.address.toLowerCase();
+  const role: AuthRole = (await isVaultAdmin(address)) ? 'admin' : 'user';
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const session: AuthSession = {
+    address,
+    role,
+    issuedAt,
+    expiresAt: issuedAt + env.AUTH_SESSION_TTL,
+  };
+
+  console.log(`[AuthService] Signed in ${address} as ${role}`);
+
+  return { token: createSessionToken(session), session };
+}
+
+// =============================================================================
+// Roles
+// =============================================================================
+
+const roleCache = new Map<string, { isAdmin: boolean; checkedAt: number }>();
+
+/**
+ * Check whether an address holds ADMIN_ROLE on the PNGY vault
+ * Denies by default when the vault is not configured or the RPC call fails
+ */
+export async function isVaultAdmin(address: string): Promise<boolean> {
+  const normalizedAddress = address.toLowerCase();
+  const cached = roleCache.get(normalizedAddress);
+
+  if (cached && Date.now() - cached.checkedAt < ROLE_CACHE_TTL_MS) {
+    return cached.isAdmin;
+  }
+
+  if (!contracts.pngyVault) {
+    return false;
+  }
+
+  try {
+    const isAdmin = await publicClient.readContract({
+      address: contracts.pngyVault,
+      abi: VAULT_ACCESS_CONTROL_ABI,
+      functionName: 'hasRole',
+      args: [ADMIN_ROLE, normalizedAddress as Address],
+    });
+
+    roleCache.set(normalizedAddress, { isAdmin, checkedAt: Date.now() });
+    return isAdmin;
+  } catch (error) {
+    console.error(`[AuthService] hasRole check failed for ${normalizedAddress}:`, error);
+    return false;
+  }
+}
+
+// =============================================================================
+// Session Tokens (HS256 JWT)
+// =============================================================================
+
+/**
+ * HMAC secret for session tokens and other signed links (e.g. email verification)
+ */
+export function getJwtSecret(): string {
+  if (env.JWT_SECRET) {
+    return env.JWT_SECRET;
+  }
+
+  if (env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET must be configured in production');
+  }
+
+  return DEV_JWT_SECRET;
+}
+
+function base64UrlEncode(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', getJwtSecret()).update(data).digest('base64url');
+}
+
+/**
+ * Create a signed session token for an authenticated wallet
+ */
+export function createSessionToken(session: AuthSession): string {
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64UrlEncode(
+    JSON.stringify({
+      sub: session.address,
+      role: session.role,
+      iat: session.issuedAt,
+      exp: session.expiresAt,
+    })
+  );
+
+  return `${header}.${payload}.${sign(`${header}.${payload}`)}`;
+}
+
+/**
+ * Verify a session token and return its session, or null if invalid/expired
+ */
+export function verifySessionToken(token: string): AuthSession | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  const [header, payload, signature] = parts;
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as {
+      sub?: string;
+      role?: AuthRole;
+      iat?: number;
+      exp?: number;
+    };
+
+    if (!claims.sub || !claims.exp || !claims.iat) {
+      return null;
+    }
+
+    if (claims.exp <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    return {
+      address: claims.sub.toLowerCase(),
+      role: claims.role === 'admin' ? 'admin' : 'user',
+      issuedAt: claims.iat,
+      expiresAt: claims.exp,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export default {
+  issueNonce,
+  signInWithEthereum,
+  isVaultAdmin,
+  createSessionToken,
+  verifySessionToken,
+  ADMIN_ROLE,
+};
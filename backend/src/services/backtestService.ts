@@ -0,0 +1,365 @@
+/**
+ * Backtest Service
+ * Replays stored price and NAV history to evaluate a rebalance strategy and threshold
+ *
+ * This service:
+ * - Rebuilds daily closes for every active asset from PriceFeed (forward-filled)
+ * - Starts a portfolio at the strategy's targets and lets it drift with prices
+ * - Rebalances whenever an asset drifts more than the threshold from its target,
+ *   charging the swap cost on every traded leg
+ * - Compares simulated NAV, turnover and drawdown with the actual NetValue share price
+ *
+ * Limitations: AssetAllocation only holds the current APY, so strategies see today's
+ * yields on every replayed day; the 'onchain' strategy calls the live contract.
+ */
+
+import { prisma } from './database.js';
+import {
+  fetchAssetData,
+  calculateTargetAllocations,
+  DEVIATION_THRESHOLD,
+  type AssetData,
+} from './rebalanceEngine.js';
+import {
+  dailyCloses,
+  getAllocationStrategyName,
+  type AllocationStrategyName,
+} from './allocationStrategies.js';
+import { toCSV } from './reportService.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface BacktestOptions {
+  from: Date;
+  to: Date;
+  strategy?: AllocationStrategyName;
+  thresholdBps?: number; // Max deviation before rebalancing
+  swapCostBps?: number; // Charged on the value of every buy and sell
+}
+
+export interface BacktestDay {
+  date: string;
+  nav: number; // Simulated, 1.0 at the start
+  actualNav: number | null; // NetValue share price, 1.0 at the start
+  drawdown: number; // Percentage below the running peak
+  actualDrawdown: number | null;
+  maxDeviationBps: number; // Before any rebalance that day
+  rebalanced: boolean;
+  turnover: number; // Percentage of NAV sold that day
+  swapCost: number; // Percentage of NAV paid that day
+}
+
+export interface BacktestSummary {
+  days: number;
+  rebalances: number;
+  turnover: number; // Cumulative percentage of NAV sold
+  swapCost: number; // Cumulative percentage of NAV paid
+  totalReturn: number; // Percentage
+  maxDrawdown: number;
+  actualTotalReturn: number | null;
+  actualMaxDrawdown: number | null;
+}
+
+export interface BacktestResult {
+  strategy: AllocationStrategyName;
+  thresholdBps: number;
+  swapCostBps: number;
+  from: string;
+  to: string;
+  assets: string[];
+  summary: BacktestSummary;
+  days: BacktestDay[];
+}
+
+export class BacktestInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BacktestInputError';
+  }
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const BASIS_POINTS = 10000;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_SWAP_COST_BPS = 30; // PancakeSwap fee plus typical RWA spread
+
+const CSV_HEADERS = [
+  'date',
+  'nav',
+  'actualNav',
+  'drawdown',
+  'actualDrawdown',
+  'maxDeviationBps',
+  'rebalanced',
+  'turnover',
+  'swapCost',
+];
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function toDayIndex(date: Date): number {
+  return Math.floor(date.getTime() / MS_PER_DAY);
+}
+
+function formatDay(day: number): string {
+  return new Date(day * MS_PER_DAY).toISOString().split('T')[0];
+}
+
+function round(value: number, decimals = 6): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function decimalToNumber(value: { toString(): string }): number {
+  return Number(value.toString()) / 1e18;
+}
+
+/**
+ * Running drawdown (percentage below the peak so far) of a series
+ */
+function drawdowns(series: number[]): number[] {
+  let peak = 0;
+  return series.map((value) => {
+    peak = Math.max(peak, value);
+    return peak > 0 ? ((peak - value) / peak) * 100 : 0;
+  });
+}
+
+/**
+ * Forward-fill daily closes over [startDay, endDay]; days before the first close are null
+ */
+function fillDays(
+  closes: Map<number, number>,
+  startDay: number,
+  endDay: number
+): (number | null)[] {
+  const filled: (number | null)[] = [];
+  let last: number | null = null;
+
+  for (const [day, price] of closes) {
+    if (day >= startDay) break;
+    last = price;
+  }
+
+  for (let day = startDay; day <= endDay; day++) {
+    last = closes.get(day) ?? last;
+    filled.push(last);
+  }
+
+  return filled;
+}
+
+// =============================================================================
+// Backtest
+// =============================================================================
+
+/**
+ * Replay history day by day with the given strategy and rebalance threshold
+ */
+export async function runBacktest(options: BacktestOptions): Promise<BacktestResult> {
+  const strategy = options.strategy ?? getAllocationStrategyName();
+  const thresholdBps = options.thresholdBps ?? DEVIATION_THRESHOLD;
+  const swapCostBps = options.swapCostBps ?? DEFAULT_SWAP_COST_BPS;
+
+  if (options.from.getTime() > options.to.getTime()) {
+    throw new BacktestInputError('from must not be after to');
+  }
+
+  const assets = await fetchAssetData();
+  if (assets.length === 0) {
+    throw new BacktestInputError('No active assets to backtest');
+  }
+
+  const fromDay = toDayIndex(options.from);
+  const toDay = toDayIndex(options.to);
+  const endOfRange = new Date((toDay + 1) * MS_PER_DAY - 1);
+
+  const [feeds, netValues] = await Promise.all([
+    prisma.priceFeed.findMany({
+      where: {
+        tokenAddress: { in: assets.map((a) => a.token.toLowerCase()) },
+        timestamp: { lte: endOfRange },
+      },
+      select: { tokenAddress: true, price: true, timestamp: true },
+      orderBy: { timestamp: 'asc' },
+    }),
+    prisma.netValue.findMany({
+      where: { timestamp: { lte: endOfRange } },
+      select: { timestamp: true, sharePrice: true },
+      orderBy: { timestamp: 'asc' },
+    }),
+  ]);
+
+  const closesByAsset = assets.map((asset) =>
+    dailyCloses(
+      feeds
+        .filter(
+          (feed: { tokenAddress: string }) =>
+            feed.tokenAddress.toLowerCase() === asset.token.toLowerCase()
+        )
+        .map((feed: { price: { toString(): string }; timestamp: Date }) => ({
+          price: decimalToNumber(feed.price),
+          timestamp: feed.timestamp,
+        }))
+    )
+  );
+
+  // Start on the first day every asset can be priced
+  const missing = assets.filter((_, i) => closesByAsset[i].size === 0);
+  if (missing.length > 0) {
+    throw new BacktestInputError(
+      `No PriceFeed history for ${missing.map((a) => a.token).join(', ')}`
+    );
+  }
+  const startDay = Math.max(fromDay, ...closesByAsset.map((closes) => Math.min(...closes.keys())));
+  if (startDay > toDay) {
+    throw new BacktestInputError('Not every asset has a price within the backtest range');
+  }
+
+  const prices = closesByAsset.map((closes) => fillDays(closes, startDay, toDay) as number[]);
+  const sharePrices = fillDays(
+    dailyCloses(
+      netValues.map((nv: { sharePrice: { toString(): string }; timestamp: Date }) => ({
+        price: decimalToNumber(nv.sharePrice),
+        timestamp: nv.timestamp,
+      }))
+    ),
+    startDay,
+    toDay
+  );
+
+  const targetsOn = async (values: number[], nav: number, day: number): Promise<number[]> => {
+    const snapshot: AssetData[] = assets.map((asset, i) => ({
+      token: asset.token,
+      currentAllocation: BigInt(Math.round((values[i] / nav) * BASIS_POINTS)),
+      currentValue: BigInt(Math.round(values[i] * 1e18)),
+      apy: asset.apy,
+    }));
+    const targets = await calculateTargetAllocations(
+      snapshot,
+      strategy,
+      undefined,
+      new Date((day + 1) * MS_PER_DAY - 1)
+    );
+    return targets.map((t) => Number(t.targetAllocation) / BASIS_POINTS);
+  };
+
+  // Day 0: invest 1.0 at the strategy's targets, the rest stays in cash
+  const initialWeights = await targetsOn(
+    assets.map((a) => Number(a.currentAllocation) / BASIS_POINTS),
+    1,
+    startDay
+  );
+  let units = initialWeights.map((w, i) => w / prices[i][0]);
+  let cash = 1 - initialWeights.reduce((sum, w) => sum + w, 0);
+
+  const navs: number[] = [];
+  const rows: Omit<BacktestDay, 'drawdown' | 'actualDrawdown' | 'actualNav'>[] = [];
+  let rebalances = 0;
+  let turnover = 0;
+  let swapCost = 0;
+
+  for (let d = 0; d <= toDay - startDay; d++) {
+    const day = startDay + d;
+    const values = units.map((u, i) => u * prices[i][d]);
+    let nav = cash + values.reduce((sum, v) => sum + v, 0);
+
+    const targets = d === 0 ? initialWeights : await targetsOn(values, nav, day);
+    const maxDeviationBps = Math.max(
+      ...values.map((v, i) => Math.abs(v / nav - targets[i]) * BASIS_POINTS)
+    );
+
+    const rebalanced = d > 0 && maxDeviationBps > thresholdBps;
+    let dayTurnover = 0;
+    let dayCost = 0;
+    if (rebalanced) {
+      const traded = values.reduce((sum, v, i) => sum + Math.abs(targets[i] * nav - v), 0);
+      const sold = values.reduce((sum, v, i) => sum + Math.max(v - targets[i] * nav, 0), 0);
+      const cost = (traded * swapCostBps) / BASIS_POINTS;
+
+      dayTurnover = (sold / nav) * 100;
+      dayCost = (cost / nav) * 100;
+      nav -= cost;
+      units = targets.map((w, i) => (w * nav) / prices[i][d]);
+      cash = nav - targets.reduce((sum, w) => sum + w * nav, 0);
+
+      rebalances++;
+      turnover += dayTurnover;
+      swapCost += dayCost;
+    }
+
+    navs.push(nav);
+    rows.push({
+      date: formatDay(day),
+      nav: round(nav),
+      maxDeviationBps: Math.round(maxDeviationBps),
+      rebalanced,
+      turnover: round(dayTurnover, 4),
+      swapCost: round(dayCost, 4),
+    });
+  }
+
+  // Actual NAV is the share price relative to its first known value in range
+  const baseSharePrice = sharePrices.find((p) => p !== null) ?? null;
+  const actualNavs = sharePrices.map((p) =>
+    p === null || baseSharePrice === null ? null : p / baseSharePrice
+  );
+  const knownActual = actualNavs.filter((v): v is number => v !== null);
+  const actualDrawdowns = drawdowns(knownActual);
+  const simulatedDrawdowns = drawdowns(navs);
+  const firstActual = actualNavs.length - knownActual.length;
+
+  const days: BacktestDay[] = rows.map((row, i) => ({
+    ...row,
+    actualNav: actualNavs[i] === null ? null : round(actualNavs[i]),
+    drawdown: round(simulatedDrawdowns[i], 4),
+    actualDrawdown: i < firstActual ? null : round(actualDrawdowns[i - firstActual], 4),
+  }));
+
+  return {
+    strategy,
+    thresholdBps,
+    swapCostBps,
+    from: formatDay(startDay),
+    to: formatDay(toDay),
+    assets: assets.map((a) => a.token),
+    summary: {
+      days: days.length,
+      rebalances,
+      turnover: round(turnover, 4),
+      swapCost: round(swapCost, 4),
+      totalReturn: round((navs[navs.length - 1] - 1) * 100, 4),
+      maxDrawdown: round(Math.max(...simulatedDrawdowns), 4),
+      actualTotalReturn:
+        knownActual.length > 0 ? round((knownActual[knownActual.length - 1] - 1) * 100, 4) : null,
+      actualMaxDrawdown: knownActual.length > 0 ? round(Math.max(...actualDrawdowns), 4) : null,
+    },
+    days,
+  };
+}
+
+/**
+ * Daily backtest rows as CSV
+ */
+export function toBacktestCSV(result: BacktestResult): string {
+  return toCSV(
+    result.days.map((day) =>
+      Object.fromEntries(
+        CSV_HEADERS.map((header) => [header, String(day[header as keyof BacktestDay] ?? '')])
+      )
+    ),
+    CSV_HEADERS
+  );
+}
+
+export default {
+  runBacktest,
+  toBacktestCSV,
+};
@@ -0,0 +1,332 @@
+/**
+ * Notification Digest Service
+ * Daily and weekly email summaries for users who opt out of per-event emails
+ *
+ * Users with a DAILY or WEEKLY digest frequency have routine email notifications
+ * (withdrawals, rebalances) held as PendingDigestEvent rows instead of sent. Each
+ * digest bundles, for the period since the previous one:
+ * - The held notifications
+ * - Position value change and yield earned (from the performance service)
+ * - Protocol events (pauses, circuit breaker, emergency mode)
+ *
+ * A digest is one email and one NotificationLog entry. Held events are only
+ * cleared once the digest is sent, so a failed send is retried by the next run.
+ * Urgent alerts (emergency pause, circuit breaker) and threshold alerts are never held.
+ */
+
+import { formatUnits } from 'viem';
+import { prisma } from './database.js';
+import { emailTemplates, sendEmail } from './emailService.js';
+import {
+  getUserPerformance,
+  MAX_PERFORMANCE_DAYS,
+  type UserPerformance,
+} from './performanceService.js';
+import type { NotificationMessage } from './notificationChannels.js';
+import type { DigestFrequency, NotificationType, Prisma, ProtocolEventType } from '@prisma/client';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DigestContent {
+  frequency: Exclude<DigestFrequency, 'INSTANT'>;
+  periodStart: Date;
+  periodEnd: Date;
+  events: { subject: string; text: string; createdAt: Date }[];
+  protocolEvents: { label: string; timestamp: Date }[];
+  startValue: bigint;
+  endValue: bigint;
+  yieldEarned: bigint;
+}
+
+export interface DigestRunResult {
+  sent: number;
+  skipped: number;
+  failed: number;
+}
+
+interface DigestPreferenceRow {
+  userAddress: string;
+  email: string | null;
+  emailVerified: boolean;
+  digestFrequency: DigestFrequency;
+  lastDigestAt: Date | null;
+}
+
+interface PendingEventRow {
+  id: string;
+  subject: string;
+  text: string;
+  createdAt: Date;
+}
+
+interface ProtocolEventRow {
+  type: ProtocolEventType;
+  timestamp: Date;
+  data: Prisma.JsonValue;
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+export const DIGEST_FREQUENCIES: DigestFrequency[] = ['INSTANT', 'DAILY', 'WEEKLY'];
+
+export const DIGEST_PERIOD_MS: Record<Exclude<DigestFrequency, 'INSTANT'>, number> = {
+  DAILY: 24 * MS_PER_HOUR,
+  WEEKLY: 7 * 24 * MS_PER_HOUR,
+};
+
+// A digest is due slightly early so a daily cron never skips a day due to run timing
+const DUE_GRACE_MS = MS_PER_HOUR;
+
+// Urgent alerts and the user's own threshold alerts are always delivered immediately
+const INSTANT_ONLY_TYPES: NotificationType[] = [
+  'EMERGENCY_PAUSE',
+  'CIRCUIT_BREAKER',
+  'THRESHOLD_ALERT',
+];
+
+// NAV updates happen every sync and would drown out the events users care about
+const PROTOCOL_EVENT_LABELS: Partial<
+  Record<ProtocolEventType, (data: Prisma.JsonObject) => string>
+> = {
+  PAUSED: () => 'Vault paused',
+  UNPAUSED: () => 'Vault resumed',
+  CIRCUIT_BREAKER_TRIGGERED: () => 'Circuit breaker triggered',
+  CIRCUIT_BREAKER_RESET: () => 'Circuit breaker reset',
+  EMERGENCY_MODE_CHANGED: (data) =>
+    data.enabled === false ? 'Emergency mode disabled' : 'Emergency mode enabled',
+};
+
+// =============================================================================
+// Holding Notifications
+// =============================================================================
+
+/**
+ * Whether an email of this type should wait for the user's digest
+ */
+export function shouldHoldForDigest(frequency: DigestFrequency, type: NotificationType): boolean {
+  return frequency !== 'INSTANT' && !INSTANT_ONLY_TYPES.includes(type);
+}
+
+/**
+ * Hold a rendered notification for the user's next digest
+ */
+export async function addPendingDigestEvent(message: NotificationMessage): Promise<void> {
+  await prisma.pendingDigestEvent.create({
+    data: {
+      userAddress: message.userAddress,
+      type: message.type,
+      subject: message.subject,
+      text: message.text,
+    },
+  });
+}
+
+// =============================================================================
+// Building Digests
+// =============================================================================
+
+function formatUsdt(amount: bigint, signed = false): string {
+  const value = Number(formatUnits(amount, 18)).toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+  return signed && amount > 0n ? `+${value}` : value;
+}
+
+/**
+ * Render a digest with the shared email layout
+ */
+export function generateDigestEmail(content: DigestContent) {
+  return emailTemplates.digest({
+    title: content.frequency === 'DAILY' ? 'Your Daily Summary' : 'Your Weekly Summary',
+    period: `${content.periodStart.toUTCString()} - ${content.periodEnd.toUTCString()}`,
+    positionValue: formatUsdt(content.endValue),
+    valueChange: formatUsdt(content.endValue - content.startValue, true),
+    yieldEarned: formatUsdt(content.yieldEarned, true),
+    events: content.events.map((event) => ({
+      subject: event.subject,
+      text: event.text,
+      time: event.createdAt.toUTCString(),
+    })),
+    protocolEvents: content.protocolEvents.map((event) => ({
+      label: event.label,
+      time: event.timestamp.toUTCString(),
+    })),
+  });
+}
+
+function isJsonObject(value: Prisma.JsonValue): value is Prisma.JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+async function getProtocolEvents(from: Date, to: Date): Promise<DigestContent['protocolEvents']> {
+  const rows: ProtocolEventRow[] = await prisma.protocolEvent.findMany({
+    where: {
+      type: { in: Object.keys(PROTOCOL_EVENT_LABELS) as ProtocolEventType[] },
+      timestamp: { gte: from, lt: to },
+    },
+    orderBy: { timestamp: 'asc' },
+    select: { type: true, timestamp: true, data: true },
+  });
+
+  return rows.map((row) => ({
+    label: PROTOCOL_EVENT_LABELS[row.type]!(isJsonObject(row.data) ? row.data : {}),
+    timestamp: row.timestamp,
+  }));
+}
+
+// =============================================================================
+// Sending Digests
+// =============================================================================
+
+/**
+ * Send one user's digest covering the period since their last one
+ * Returns 'skipped' when there is nothing to report (the period still advances)
+ */
+export async function sendDigest(
+  preferences: DigestPreferenceRow,
+  now: Date = new Date()
+): Promise<'sent' | 'skipped' | 'failed'> {
+  const { userAddress, email, digestFrequency: frequency } = preferences;
+  if (frequency === 'INSTANT' || !email || !preferences.emailVerified) {
+    return 'skipped';
+  }
+
+  // Covers any periods missed by failed sends, within the performance service's range limit
+  const earliest = now.getTime() - MAX_PERFORMANCE_DAYS * 24 * MS_PER_HOUR;
+  const periodStart = new Date(
+    Math.max(
+      preferences.lastDigestAt?.getTime() ?? now.getTime() - DIGEST_PERIOD_MS[frequency],
+      earliest
+    )
+  );
+
+  const [events, protocolEvents, performance]: [
+    PendingEventRow[],
+    DigestContent['protocolEvents'],
+    UserPerformance,
+  ] = await Promise.all([
+    prisma.pendingDigestEvent.findMany({
+      where: { userAddress, createdAt: { lt: now } },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true, subject: true, text: true, createdAt: true },
+    }),
+    getProtocolEvents(periodStart, now),
+    getUserPerformance(userAddress, { from: periodStart, to: now }),
+  ]);
+
+  const content: DigestContent = {
+    frequency,
+    periodStart,
+    periodEnd: now,
+    events,
+    protocolEvents,
+    startValue: BigInt(performance.summary.startValue),
+    endValue: BigInt(performance.summary.endValue),
+    yieldEarned: BigInt(performance.summary.totalYield),
+  };
+
+  const hasPosition = content.startValue > 0n || content.endValue > 0n;
+  if (events.length === 0 && protocolEvents.length === 0 && !hasPosition) {
+    await prisma.notificationPreference.update({
+      where: { userAddress },
+      data: { lastDigestAt: now },
+    });
+    return 'skipped';
+  }
+
+  const { subject, html, text } = generateDigestEmail(content);
+
+  const logEntry: { id: string } = await prisma.notificationLog.create({
+    data: {
+      userAddress,
+      type: 'DIGEST',
+      channel: 'EMAIL',
+      recipient: email,
+      subject,
+      status: 'PENDING',
+    },
+  });
+
+  const result = await sendEmail({ to: email, subject, html, text });
+
+  await prisma.notificationLog.update({
+    where: { id: logEntry.id },
+    data: {
+      status: result.success ? 'SENT' : 'FAILED',
+      errorMessage: result.error,
+      sentAt: result.success ? new Date() : null,
+    },
+  });
+
+  if (!result.success) {
+    console.error(`[DigestService] ${frequency} digest for ${userAddress} failed:`, result.error);
+    return 'failed';
+  }
+
+  await prisma.pendingDigestEvent.deleteMany({
+    where: { id: { in: events.map((event) => event.id) } },
+  });
+  await prisma.notificationPreference.update({
+    where: { userAddress },
+    data: { lastDigestAt: now },
+  });
+
+  return 'sent';
+}
+
+/**
+ * Send every digest that is due (a full period since the user's last one)
+ */
+export async function sendDueDigests(now: Date = new Date()): Promise<DigestRunResult> {
+  const dueBefore = (frequency: 'DAILY' | 'WEEKLY') =>
+    new Date(now.getTime() - DIGEST_PERIOD_MS[frequency] + DUE_GRACE_MS);
+
+  const preferences: DigestPreferenceRow[] = await prisma.notificationPreference.findMany({
+    where: {
+      email: { not: null },
+      emailVerified: true,
+      channels: { has: 'EMAIL' },
+      OR: (['DAILY', 'WEEKLY'] as const).map((frequency) => ({
+        digestFrequency: frequency,
+        OR: [{ lastDigestAt: null }, { lastDigestAt: { lte: dueBefore(frequency) } }],
+      })),
+    },
+    select: {
+      userAddress: true,
+      email: true,
+      emailVerified: true,
+      digestFrequency: true,
+      lastDigestAt: true,
+    },
+  });
+
+  const result: DigestRunResult = { sent: 0, skipped: 0, failed: 0 };
+
+  for (const preference of preferences) {
+    try {
+      result[await sendDigest(preference, now)]++;
+    } catch (error) {
+      console.error(`[DigestService] Digest for ${preference.userAddress} failed:`, error);
+      result.failed++;
+    }
+  }
+
+  console.log(
+    `[DigestService] Digests: sent=${result.sent}, skipped=${result.skipped}, failed=${result.failed}`
+  );
+  return result;
+}
+
+export default {
+  shouldHoldForDigest,
+  addPendingDigestEvent,
+  sendDigest,
+  sendDueDigests,
+};
@@ -8,7 +8,7 @@
 import { Resend } from 'resend';
 import { env } from '../config/env.js';
 import { prisma } from './database.js';
-import type { NotificationType, NotificationStatus } from '@prisma/client';
+import type { DigestFrequency, NotificationChannel, NotificationType } from '@prisma/client';
 
 // =============================================================================
 // Types
@@ -21,18 +21,18 @@ export interface EmailOptions {
   text?: string;
 }
 
-export interface NotificationContext {
-  userAddress: string;
-  type: NotificationType;
-  data: Record<string, unknown>;
-}
-
 export interface SendResult {
   success: boolean;
   messageId?: string;
   error?: string;
 }
 
+export interface ThresholdAlertEmailData {
+  title: string;
+  description: string;
+  timestamp: string;
+}
+
 // =============================================================================
 // Email Client
 // =============================================================================
@@ -156,6 +156,98 @@ export const emailTemplates = {
     `,
     text: `Circuit Breaker Activated\n\nThe protocol's circuit breaker has been triggered.\n\nTrigger: ${data.trigger}\nMax Withdrawal: ${data.maxWithdrawal} USDT\nTime: ${data.timestamp}\n\nWithdrawals are limited until conditions stabilize.`,
   }),
+
+  emailVerification: (data: {
+    verifyUrl: string;
+    expiresAt: string;
+  }) => ({
+    subject: 'Confirm your email for Paimon Yield alerts',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h1 style="color: #1a1a2e;">Confirm Your Email</h1>
+        <p>Please confirm this address to start receiving Paimon Yield notifications.</p>
+        <p style="margin: 30px 0;">
+          <a href="${data.verifyUrl}" style="background: #1a1a2e; color: #fff; padding: 12px 24px; border-radius: 6px; text-decoration: none;">Confirm Email</a>
+        </p>
+        <p>This link can be used once and expires at ${data.expiresAt}.</p>
+        <p>If you did not request this, you can ignore this email.</p>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
+        <p style="color: #666; font-size: 12px;">
+          Paimon Yield Protocol - RWA Yield Aggregator on BSC
+        </p>
+      </div>
+    `,
+    text: `Confirm Your Email\n\nPlease confirm this address to start receiving Paimon Yield notifications:\n${data.verifyUrl}\n\nThis link can be used once and expires at ${data.expiresAt}.\n\nIf you did not request this, you can ignore this email.`,
+  }),
+
+  digest: (data: {
+    title: string;
+    period: string;
+    positionValue: string;
+    valueChange: string;
+    yieldEarned: string;
+    events: { subject: string; text: string; time: string }[];
+    protocolEvents: { label: string; time: string }[];
+  }) => ({
+    subject: `Paimon Yield: ${data.title}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h1 style="color: #1a1a2e;">${data.title}</h1>
+        <p style="color: #666;">${data.period}</p>
+        <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <p><strong>Position Value:</strong> ${data.positionValue} USDT</p>
+          <p><strong>Value Change:</strong> ${data.valueChange} USDT</p>
+          <p><strong>Yield Earned:</strong> ${data.yieldEarned} USDT</p>
+        </div>
+        ${data.events.length > 0 ? `
+        <h2 style="color: #1a1a2e; font-size: 18px;">Your Activity</h2>
+        ${data.events.map((event) => `
+        <div style="border-left: 3px solid #1a1a2e; padding-left: 12px; margin: 12px 0;">
+          <p style="margin: 0;"><strong>${event.subject}</strong> <span style="color: #666; font-size: 12px;">${event.time}</span></p>
+          <p style="margin: 4px 0; white-space: pre-line;">${event.text}</p>
+        </div>`).join('')}` : ''}
+        ${data.protocolEvents.length > 0 ? `
+        <h2 style="color: #1a1a2e; font-size: 18px;">Protocol Events</h2>
+        <ul>
+          ${data.protocolEvents.map((event) => `<li>${event.label} <span style="color: #666; font-size: 12px;">${event.time}</span></li>`).join('')}
+        </ul>` : ''}
+        <p style="color: #666; font-size: 12px;">You receive this summary instead of individual emails. Urgent alerts are still sent immediately.</p>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
+        <p style="color: #666; font-size: 12px;">
+          Paimon Yield Protocol - RWA Yield Aggregator on BSC
+        </p>
+      </div>
+    `,
+    text: [
+      `${data.title}\n${data.period}`,
+      `Position Value: ${data.positionValue} USDT\nValue Change: ${data.valueChange} USDT\nYield Earned: ${data.yieldEarned} USDT`,
+      ...(data.events.length > 0
+        ? [`Your Activity\n\n${data.events.map((event) => `${event.subject} (${event.time})\n${event.text}`).join('\n\n')}`]
+        : []),
+      ...(data.protocolEvents.length > 0
+        ? [`Protocol Events\n${data.protocolEvents.map((event) => `- ${event.label} (${event.time})`).join('\n')}`]
+        : []),
+    ].join('\n\n'),
+  }),
+
+  thresholdAlert: (data: ThresholdAlertEmailData) => ({
+    subject: `Alert: ${data.title}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h1 style="color: #1a1a2e;">${data.title}</h1>
+        <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <p>${data.description}</p>
+          <p><strong>Time:</strong> ${data.timestamp}</p>
+        </div>
+        <p style="color: #666; font-size: 12px;">You set up this alert. It fires again once the condition clears and is met again.</p>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
+        <p style="color: #666; font-size: 12px;">
+          Paimon Yield Protocol - RWA Yield Aggregator on BSC
+        </p>
+      </div>
+    `,
+    text: `${data.title}\n\n${data.description}\nTime: ${data.timestamp}\n\nYou set up this alert. It fires again once the condition clears and is met again.`,
+  }),
 };
 
 // =============================================================================
@@ -196,94 +288,11 @@ export async function sendEmail(options: EmailOptions): Promise<SendResult> {
   }
 }
 
-/**
- * Send a notification to a user
- */
-export async function sendNotification(context: NotificationContext): Promise<SendResult> {
-  const { userAddress, type, data } = context;
-
-  // Get user's notification preferences
-  const preferences = await prisma.notificationPreference.findUnique({
-    where: { userAddress: userAddress.toLowerCase() },
-  });
-
-  if (!preferences || !preferences.email || !preferences.emailVerified) {
-    console.log(`[EmailService] User ${userAddress} has no verified email, skipping`);
-    return { success: false, error: 'No verified email' };
-  }
-
-  // Check if user wants this type of notification
-  const alertEnabled = isAlertEnabled(preferences, type);
-  if (!alertEnabled) {
-    console.log(`[EmailService] User ${userAddress} disabled ${type} alerts, skipping`);
-    return { success: false, error: 'Alert type disabled' };
-  }
-
-  // Generate email content based on type
-  const emailContent = generateEmailContent(type, data);
-  if (!emailContent) {
-    return { success: false, error: 'Unknown notification type' };
-  }
-
-  // Create notification log entry
-  const logEntry = await prisma.notificationLog.create({
-    data: {
-      userAddress: userAddress.toLowerCase(),
-      type,
-      channel: 'EMAIL',
-      recipient: preferences.email,
-      subject: emailContent.subject,
-      status: 'PENDING',
-    },
-  });
-
-  // Send the email
-  const result = await sendEmail({
-    to: preferences.email,
-    ...emailContent,
-  });
-
-  // Update log entry with result
-  await prisma.notificationLog.update({
-    where: { id: logEntry.id },
-    data: {
-      status: result.success ? 'SENT' : 'FAILED',
-      errorMessage: result.error,
-      sentAt: result.success ? new Date() : null,
-    },
-  });
-
-  return result;
-}
-
-/**
- * Check if a specific alert type is enabled for a user
- */
-function isAlertEnabled(
-  preferences: {
-    withdrawalAlert: boolean;
-    rebalanceAlert: boolean;
-    emergencyAlert: boolean;
-  },
-  type: NotificationType
-): boolean {
-  switch (type) {
-    case 'WITHDRAWAL_COMPLETE':
-      return preferences.withdrawalAlert;
-    case 'REBALANCE_EXECUTED':
-      return preferences.rebalanceAlert;
-    case 'EMERGENCY_PAUSE':
-    case 'CIRCUIT_BREAKER':
-      return preferences.emergencyAlert;
-    default:
-      return false;
-  }
-}
-
 /**
  * Generate email content based on notification type
+ * The subject and text are reused for the other notification channels
  */
-function generateEmailContent(
+export function generateEmailContent(
   type: NotificationType,
   data: Record<string, unknown>
 ): { subject: string; html: string; text: string } | null {
@@ -296,68 +305,26 @@ function generateEmailContent(
       return emailTemplates.emergencyPause(data as any);
     case 'CIRCUIT_BREAKER':
       return emailTemplates.circuitBreaker(data as any);
+    case 'THRESHOLD_ALERT': {
+      const alert = toThresholdAlertData(data);
+      return alert && emailTemplates.thresholdAlert(alert);
+    }
     default:
       return null;
   }
 }
 
 /**
- * Send notification to all users with a specific alert enabled
- */
-export async function broadcastNotification(
-  type: NotificationType,
-  data: Record<string, unknown>
-): Promise<{ sent: number; failed: number }> {
-  // Find all users with verified emails and the alert enabled
-  const alertField = getAlertField(type);
-  if (!alertField) {
-    return { sent: 0, failed: 0 };
-  }
-
-  const preferences = await prisma.notificationPreference.findMany({
-    where: {
-      emailVerified: true,
-      email: { not: null },
-      [alertField]: true,
-    },
-  });
-
-  let sent = 0;
-  let failed = 0;
-
-  for (const pref of preferences) {
-    const result = await sendNotification({
-      userAddress: pref.userAddress,
-      type,
-      data,
-    });
-
-    if (result.success) {
-      sent++;
-    } else {
-      failed++;
-    }
-  }
-
-  console.log(`[EmailService] Broadcast ${type}: sent=${sent}, failed=${failed}`);
-  return { sent, failed };
-}
-
-/**
- * Get the alert field name for a notification type
+ * Threshold alert fields from a queued notification, or null when any is missing
  */
-function getAlertField(type: NotificationType): string | null {
-  switch (type) {
-    case 'WITHDRAWAL_COMPLETE':
-      return 'withdrawalAlert';
-    case 'REBALANCE_EXECUTED':
-      return 'rebalanceAlert';
-    case 'EMERGENCY_PAUSE':
-    case 'CIRCUIT_BREAKER':
-      return 'emergencyAlert';
-    default:
-      return null;
-  }
+function toThresholdAlertData(data: Record<string, unknown>): ThresholdAlertEmailData | null {
+  const { title, description, timestamp } = data;
+
+  return typeof title === 'string' &&
+    typeof description === 'string' &&
+    typeof timestamp === 'string'
+    ? { title, description, timestamp }
+    : null;
 }
 
 // =============================================================================
@@ -377,39 +344,56 @@ export async function upsertNotificationPreferences(
     withdrawalAlert?: boolean;
     rebalanceAlert?: boolean;
     emergencyAlert?: boolean;
+    channels?: NotificationChannel[];
+    telegramChatId?: string | null;
+    discordWebhookUrl?: string | null;
+    webhookUrl?: string | null;
+    digestFrequency?: DigestFrequency;
   }
 ) {
+  const normalizedAddress = userAddress.toLowerCase();
+
+  const existing =
+    data.email !== undefined || data.digestFrequency !== undefined
+      ? await prisma.notificationPreference.findUnique({
+          where: { userAddress: normalizedAddress },
+          select: { email: true, digestFrequency: true },
+        })
+      : null;
+
+  // Reset verification only when the email actually changes
+  const emailChanged =
+    data.email !== undefined && existing?.email?.toLowerCase() !== data.email.toLowerCase();
+
+  // The first digest after switching covers the period from the switch onwards
+  const digestStarted =
+    data.digestFrequency !== undefined &&
+    data.digestFrequency !== 'INSTANT' &&
+    data.digestFrequency !== existing?.digestFrequency;
+
   return prisma.notificationPreference.upsert({
-    where: { userAddress: userAddress.toLowerCase() },
+    where: { userAddress: normalizedAddress },
     update: {
       ...data,
-      // Reset verification if email changed
-      emailVerified: data.email ? false : undefined,
+      emailVerified: emailChanged ? false : undefined,
+      lastDigestAt: digestStarted ? new Date() : undefined,
     },
     create: {
-      userAddress: userAddress.toLowerCase(),
+      userAddress: normalizedAddress,
       email: data.email,
       withdrawalAlert: data.withdrawalAlert ?? true,
       rebalanceAlert: data.rebalanceAlert ?? true,
       emergencyAlert: data.emergencyAlert ?? true,
+      channels: data.channels,
+      telegramChatId: data.telegramChatId,
+      discordWebhookUrl: data.discordWebhookUrl,
+      webhookUrl: data.webhookUrl,
+      digestFrequency: data.digestFrequency,
+      lastDigestAt: digestStarted ? new Date() : undefined,
     },
   });
 }
 
-export async function verifyEmail(userAddress: string): Promise<boolean> {
-  const result = await prisma.notificationPreference.updateMany({
-    where: {
-      userAddress: userAddress.toLowerCase(),
-      email: { not: null },
-    },
-    data: {
-      emailVerified: true,
-    },
-  });
-
-  return result.count > 0;
-}
-
 export async function getNotificationHistory(
   userAddress: string,
   limit = 20,
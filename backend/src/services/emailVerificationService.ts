@@ -0,0 +1,263 @@
+/**
+ * Email Verification Service
+ * Double opt-in for notification emails
+ *
+ * This service:
+ * - Issues signed, expiring verification tokens bound to a wallet and email address
+ * - Keeps only the latest token per wallet (stored in Redis), so each link works once
+ * - Rejects tokens issued for an email address the wallet has since replaced
+ * - Rate-limits verification emails per wallet (cooldown plus an hourly cap)
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { prisma } from './database.js';
+import { emailTemplates, sendEmail } from './emailService.js';
+import { getJwtSecret } from './authService.js';
+import { getRedisConnection } from '../config/redis.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface VerificationEmailResult {
+  sent: boolean;
+  email: string;
+  expiresAt: Date;
+  error?: string;
+}
+
+export interface VerifiedEmail {
+  address: string;
+  email: string;
+}
+
+interface VerificationClaims {
+  sub: string; // lowercase wallet address
+  email: string; // lowercase email address
+  jti: string;
+  exp: number; // unix seconds
+}
+
+export class EmailVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailVerificationError';
+  }
+}
+
+export class VerificationRateLimitError extends Error {
+  constructor(public readonly retryAfter: number) {
+    super(`Too many verification emails, try again in ${retryAfter} seconds`);
+    this.name = 'VerificationRateLimitError';
+  }
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DEFAULT_TOKEN_TTL_HOURS = 24;
+const DEFAULT_VERIFY_URL = 'http://localhost:3001/api/notifications/verify-email';
+
+// At most one email per minute and five per hour for each wallet
+const RESEND_COOLDOWN_SECONDS = 60;
+const MAX_SENDS_PER_HOUR = 5;
+
+const TOKEN_KEY_PREFIX = 'notifications:email-verification:';
+const COOLDOWN_KEY_PREFIX = 'notifications:email-verification:cooldown:';
+const HOURLY_KEY_PREFIX = 'notifications:email-verification:hourly:';
+
+// Keeps verification signatures distinct from session token signatures
+const TOKEN_SIGNING_PREFIX = 'email-verification.';
+
+function getTokenTtlSeconds(): number {
+  const hours = Number(process.env.EMAIL_VERIFICATION_TTL_HOURS) || DEFAULT_TOKEN_TTL_HOURS;
+  return Math.round(hours * 60 * 60);
+}
+
+function getVerifyUrl(token: string): string {
+  const baseUrl = process.env.EMAIL_VERIFICATION_URL || DEFAULT_VERIFY_URL;
+  return `${baseUrl}?token=${encodeURIComponent(token)}`;
+}
+
+// =============================================================================
+// Tokens
+// =============================================================================
+
+function sign(payload: string): string {
+  return createHmac('sha256', getJwtSecret())
+    .update(`${TOKEN_SIGNING_PREFIX}${payload}`)
+    .digest('base64url');
+}
+
+/**
+ * Create a signed verification token (`<payload>.<signature>`)
+ */
+export function createVerificationToken(claims: VerificationClaims): string {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Check a token's signature and shape; expiry and single use are checked by verifyEmailToken
+ */
+function decodeVerificationToken(token: string): VerificationClaims | null {
+  const parts = token.split('.');
+  if (parts.length !== 2) {
+    return null;
+  }
+
+  const [payload, signature] = parts;
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(
+      Buffer.from(payload, 'base64url').toString('utf8')
+    ) as Partial<VerificationClaims>;
+
+    if (!claims.sub || !claims.email || !claims.jti || !claims.exp) {
+      return null;
+    }
+
+    return claims as VerificationClaims;
+  } catch {
+    return null;
+  }
+}
+
+// =============================================================================
+// Rate Limiting
+// =============================================================================
+
+/**
+ * Reserve a send slot for a wallet, or throw with the seconds until the next one
+ */
+async function reserveSendSlot(address: string): Promise<void> {
+  const redis = getRedisConnection();
+  const cooldownKey = `${COOLDOWN_KEY_PREFIX}${address}`;
+  const hourlyKey = `${HOURLY_KEY_PREFIX}${address}`;
+
+  const reserved = await redis.set(cooldownKey, '1', 'EX', RESEND_COOLDOWN_SECONDS, 'NX');
+  if (!reserved) {
+    const ttl = await redis.ttl(cooldownKey);
+    throw new VerificationRateLimitError(ttl > 0 ? ttl : RESEND_COOLDOWN_SECONDS);
+  }
+
+  const sends = await redis.incr(hourlyKey);
+  if (sends === 1) {
+    await redis.expire(hourlyKey, 60 * 60);
+  }
+
+  if (sends > MAX_SENDS_PER_HOUR) {
+    const ttl = await redis.ttl(hourlyKey);
+    throw new VerificationRateLimitError(ttl > 0 ? ttl : 60 * 60);
+  }
+}
+
+// =============================================================================
+// Verification Flow
+// =============================================================================
+
+/**
+ * Email a verification link for the wallet's current (unverified) address
+ * Issuing a new link invalidates any earlier one for the same wallet
+ */
+export async function sendVerificationEmail(userAddress: string): Promise<VerificationEmailResult> {
+  const address = userAddress.toLowerCase();
+
+  const preferences = await prisma.notificationPreference.findUnique({
+    where: { userAddress: address },
+  });
+
+  if (!preferences?.email) {
+    throw new EmailVerificationError('No email address to verify');
+  }
+
+  if (preferences.emailVerified) {
+    throw new EmailVerificationError('Email address is already verified');
+  }
+
+  await reserveSendSlot(address);
+
+  const ttl = getTokenTtlSeconds();
+  const exp = Math.floor(Date.now() / 1000) + ttl;
+  const jti = randomBytes(16).toString('hex');
+  const token = createVerificationToken({
+    sub: address,
+    email: preferences.email.toLowerCase(),
+    jti,
+    exp,
+  });
+
+  await getRedisConnection().set(`${TOKEN_KEY_PREFIX}${address}`, jti, 'EX', ttl);
+
+  const expiresAt = new Date(exp * 1000);
+  const result = await sendEmail({
+    to: preferences.email,
+    ...emailTemplates.emailVerification({
+      verifyUrl: getVerifyUrl(token),
+      expiresAt: expiresAt.toUTCString(),
+    }),
+  });
+
+  console.log(
+    `[EmailVerification] Verification email for ${address}: ${result.success ? 'sent' : result.error}`
+  );
+
+  return { sent: result.success, email: preferences.email, expiresAt, error: result.error };
+}
+
+/**
+ * Verify a token from a verification link and mark the email as verified
+ */
+export async function verifyEmailToken(token: string): Promise<VerifiedEmail> {
+  const claims = decodeVerificationToken(token);
+  if (!claims) {
+    throw new EmailVerificationError('Invalid verification token');
+  }
+
+  if (claims.exp <= Math.floor(Date.now() / 1000)) {
+    throw new EmailVerificationError('Verification token has expired');
+  }
+
+  const redis = getRedisConnection();
+  const tokenKey = `${TOKEN_KEY_PREFIX}${claims.sub}`;
+
+  if ((await redis.get(tokenKey)) !== claims.jti) {
+    throw new EmailVerificationError('Verification token has already been used or replaced');
+  }
+
+  const preferences = await prisma.notificationPreference.findUnique({
+    where: { userAddress: claims.sub },
+  });
+
+  if (!preferences?.email || preferences.email.toLowerCase() !== claims.email) {
+    await redis.del(tokenKey);
+    throw new EmailVerificationError('Email address has changed since this link was sent');
+  }
+
+  // Consume the token before marking the email verified so it can never be replayed
+  if ((await redis.del(tokenKey)) !== 1) {
+    throw new EmailVerificationError('Verification token has already been used or replaced');
+  }
+
+  await prisma.notificationPreference.updateMany({
+    where: { userAddress: claims.sub, email: preferences.email },
+    data: { emailVerified: true },
+  });
+
+  console.log(`[EmailVerification] Verified ${preferences.email} for ${claims.sub}`);
+
+  return { address: claims.sub, email: preferences.email };
+}
+
+export default {
+  sendVerificationEmail,
+  verifyEmailToken,
+  createVerificationToken,
+};
@@ -3,6 +3,7 @@ import {
   http,
   webSocket,
   parseAbiItem,
+  parseEventLogs,
   formatUnits,
   type Log,
   type PublicClient,
@@ -12,6 +13,16 @@ import { bsc, bscTestnet } from 'viem/chains';
 import { prisma } from './database';
 import { env } from '../config/env';
 import { addUserNotificationJob, addBroadcastNotificationJob } from '../jobs/queues.js';
+import { notifyCircuitBreaker, notifyEmergencyPause } from '../jobs/notificationQueue.js';
+import { linkRebalanceExecution } from './safeService.js';
+import {
+  handleAssetAdded,
+  handleAssetRemoved,
+  handleTargetAllocationUpdated,
+} from './assetSyncService.js';
+import { addLot, recordWithdrawal, transferLots, revertLots } from './lotService.js';
+import { publishWebhookEvent } from './webhookService.js';
+import type { Prisma, ProtocolEventType, WebhookEventType } from '@prisma/client';
 
 // =============================================================================
 // Types
@@ -30,6 +41,29 @@ export interface ProcessedEvent {
   logIndex: number;
 }
 
+export type BackfillEventType = 'Deposit' | 'Withdraw' | 'Transfer' | 'Rebalance' | 'all';
+
+export interface BackfillOptions {
+  eventType?: BackfillEventType;
+  /** Index rows only: no user notifications, broadcasts or webhooks for past events */
+  historical?: boolean;
+  /** Called after each RPC chunk with the share of the range completed (0-100) */
+  onProgress?: (percent: number) => Promise<void> | void;
+  /** Called once every event up to and including chunkEnd has been applied */
+  onChunkProcessed?: (chunkEnd: bigint) => Promise<void> | void;
+}
+
+export interface BackfillResult {
+  fromBlock: bigint;
+  toBlock: bigint;
+  eventsProcessed: number;
+}
+
+interface QueuedEvent {
+  log: Log;
+  process: () => Promise<void>;
+}
+
 // =============================================================================
 // ABI Definitions
 // =============================================================================
@@ -46,12 +80,124 @@ const REBALANCE_EXECUTED_EVENT = parseAbiItem(
   'event RebalanceExecuted(address[] sellAssets, uint256[] sellAmounts, uint256[] sellReceived, address[] buyAssets, uint256[] buyAmounts, uint256[] buyReceived, uint256 timestamp)'
 );
 
+const WITHDRAW_REQUESTED_EVENT = parseAbiItem(
+  'event WithdrawRequested(uint256 indexed requestId, address indexed owner, address receiver, uint256 shares, uint256 assets, uint256 claimableTime)'
+);
+
+const WITHDRAW_CLAIMED_EVENT = parseAbiItem(
+  'event WithdrawClaimed(uint256 indexed requestId, address indexed owner, address receiver, uint256 assets)'
+);
+
+// PNGYVault is itself the PNGY share token, so share movements between wallets
+// are visible as ERC-20 Transfer events on the vault address
+const TRANSFER_EVENT = parseAbiItem(
+  'event Transfer(address indexed from, address indexed to, uint256 value)'
+);
+
+// Protocol state events (persisted to ProtocolEvent)
+const NAV_UPDATED_EVENT = parseAbiItem(
+  'event NavUpdated(uint256 oldNav, uint256 newNav, uint256 timestamp)'
+);
+
+const CIRCUIT_BREAKER_TRIGGERED_EVENT = parseAbiItem(
+  'event CircuitBreakerTriggered(uint256 currentNav, uint256 referenceNav, uint256 dropBasisPoints)'
+);
+
+const CIRCUIT_BREAKER_RESET_EVENT = parseAbiItem(
+  'event CircuitBreakerReset(uint256 newReferenceNav)'
+);
+
+const EMERGENCY_MODE_CHANGED_EVENT = parseAbiItem('event EmergencyModeChanged(bool enabled)');
+
+const PAUSED_EVENT = parseAbiItem('event Paused(address account)');
+
+const UNPAUSED_EVENT = parseAbiItem('event Unpaused(address account)');
+
+// Emitted by the Gnosis Safe in the same tx when it executes a rebalance proposal
+const SAFE_EXECUTION_SUCCESS_EVENT = parseAbiItem(
+  'event ExecutionSuccess(bytes32 txHash, uint256 payment)'
+);
+
+// RWA holding changes (applied to AssetAllocation)
+const RWA_ASSET_ADDED_EVENT = parseAbiItem(
+  'event RWAAssetAdded(address indexed tokenAddress, uint256 targetAllocation)'
+);
+
+const RWA_ASSET_REMOVED_EVENT = parseAbiItem('event RWAAssetRemoved(address indexed tokenAddress)');
+
+const TARGET_ALLOCATION_UPDATED_EVENT = parseAbiItem(
+  'event TargetAllocationUpdated(address indexed tokenAddress, uint256 oldAllocation, uint256 newAllocation)'
+);
+
+const ASSET_EVENTS = [
+  RWA_ASSET_ADDED_EVENT,
+  RWA_ASSET_REMOVED_EVENT,
+  TARGET_ALLOCATION_UPDATED_EVENT,
+] as const;
+
+const PROTOCOL_EVENTS = [
+  NAV_UPDATED_EVENT,
+  CIRCUIT_BREAKER_TRIGGERED_EVENT,
+  CIRCUIT_BREAKER_RESET_EVENT,
+  EMERGENCY_MODE_CHANGED_EVENT,
+  PAUSED_EVENT,
+  UNPAUSED_EVENT,
+] as const;
+
+type TransferEventLog = Log<bigint, number, false, typeof TRANSFER_EVENT>;
+
+type WithdrawRequestedEventLog = Log<bigint, number, false, typeof WITHDRAW_REQUESTED_EVENT>;
+
+type WithdrawClaimedEventLog = Log<bigint, number, false, typeof WITHDRAW_CLAIMED_EVENT>;
+
+type AssetEventLog = Log<bigint, number, false, undefined, undefined, typeof ASSET_EVENTS>;
+
+type ProtocolEventLog = Log<bigint, number, false, undefined, undefined, typeof PROTOCOL_EVENTS>;
+
+const PROTOCOL_EVENT_TYPES: Record<string, ProtocolEventType> = {
+  NavUpdated: 'NAV_UPDATED',
+  CircuitBreakerTriggered: 'CIRCUIT_BREAKER_TRIGGERED',
+  CircuitBreakerReset: 'CIRCUIT_BREAKER_RESET',
+  EmergencyModeChanged: 'EMERGENCY_MODE_CHANGED',
+  Paused: 'PAUSED',
+  Unpaused: 'UNPAUSED',
+};
+
+// Protocol events forwarded to every webhook subscriber
+const PROTOCOL_WEBHOOK_EVENTS: Record<string, WebhookEventType> = {
+  Paused: 'PROTOCOL_PAUSED',
+  Unpaused: 'PROTOCOL_UNPAUSED',
+  EmergencyModeChanged: 'EMERGENCY_MODE_CHANGED',
+};
+
 export const PNGY_VAULT_ABI = [
   DEPOSIT_PROCESSED_EVENT,
   WITHDRAW_PROCESSED_EVENT,
   REBALANCE_EXECUTED_EVENT,
+  TRANSFER_EVENT,
+  WITHDRAW_REQUESTED_EVENT,
+  WITHDRAW_CLAIMED_EVENT,
+  ...PROTOCOL_EVENTS,
+  ...ASSET_EVENTS,
 ] as const;
 
+// Matches PNGYVault.CIRCUIT_BREAKER_LIMIT (max assets per withdrawal while the breaker is active)
+const CIRCUIT_BREAKER_WITHDRAWAL_LIMIT = 10_000n * 10n ** 18n;
+
+// Checkpoint key for the vault event set indexed by this listener
+export const VAULT_EVENT_SET = 'pngy-vault';
+
+// Max block span per eth_getLogs request
+const LOG_CHUNK_SIZE = 10000n;
+
+// Block hashes are kept this far behind the latest indexed block for reorg detection
+const REORG_HISTORY_BLOCKS = 1000n;
+
+// Don't broadcast alerts for old events replayed during historical sync
+const PROTOCOL_ALERT_MAX_AGE_MS = 60 * 60 * 1000; // 1 hour
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
 // =============================================================================
 // EventListener Class
 // =============================================================================
@@ -63,7 +209,7 @@ export class EventListener {
   private isRunning = false;
   private unwatch: WatchContractEventReturnType | null = null;
   private lastProcessedBlock: bigint = 0n;
-  private processedEvents: Set<string> = new Set();
+  private syncQueue: Promise<void> = Promise.resolve();
 
   constructor(config: EventListenerConfig) {
     const chain = env.NODE_ENV === 'production' ? bsc : bscTestnet;
@@ -138,11 +284,71 @@ export class EventListener {
     }
   }
 
+  /**
+   * Re-index an arbitrary block range with the live handlers.
+   * Handlers skip rows that already exist, so ranges can be replayed safely.
+   * Does not move the live checkpoint.
+   */
+  async backfillRange(
+    fromBlock: bigint,
+    toBlock: bigint,
+    options: BackfillOptions = {}
+  ): Promise<BackfillResult> {
+    const { eventType = 'all', historical = false, onProgress, onChunkProcessed } = options;
+
+    if (toBlock < fromBlock) {
+      throw new Error(`Invalid block range: ${fromBlock}-${toBlock}`);
+    }
+
+    const totalBlocks = toBlock - fromBlock + 1n;
+    let eventsProcessed = 0;
+    let chunkStart = fromBlock;
+
+    while (chunkStart <= toBlock) {
+      const chunkEnd =
+        chunkStart + LOG_CHUNK_SIZE - 1n > toBlock ? toBlock : chunkStart + LOG_CHUNK_SIZE - 1n;
+
+      const events = await this.collectEvents(chunkStart, chunkEnd, eventType, historical);
+      for (const event of events) {
+        await event.process();
+      }
+      eventsProcessed += events.length;
+
+      await onChunkProcessed?.(chunkEnd);
+      await onProgress?.(Number(((chunkEnd - fromBlock + 1n) * 100n) / totalBlocks));
+      chunkStart = chunkEnd + 1n;
+    }
+
+    console.log(
+      `[EventListener] Backfilled ${eventsProcessed} ${eventType} events in blocks ${fromBlock}-${toBlock}`
+    );
+
+    return { fromBlock, toBlock, eventsProcessed };
+  }
+
   // ---------------------------------------------------------------------------
   // Historical Event Sync
   // ---------------------------------------------------------------------------
 
+  private get checkpointKey() {
+    return {
+      contractAddress: this.config.vaultAddress.toLowerCase(),
+      eventSet: VAULT_EVENT_SET,
+    };
+  }
+
   private async loadLastProcessedBlock(): Promise<void> {
+    const checkpoint = await prisma.indexerCheckpoint.findUnique({
+      where: { contractAddress_eventSet: this.checkpointKey },
+    });
+
+    if (checkpoint) {
+      this.lastProcessedBlock = checkpoint.lastProcessedBlock;
+      console.log(`[EventListener] Resuming from checkpoint at block ${this.lastProcessedBlock}`);
+      return;
+    }
+
+    // No checkpoint yet (first run or pre-checkpoint deployment): fall back to indexed data
     const lastTx = await prisma.transaction.findFirst({
       orderBy: { blockNumber: 'desc' },
       select: { blockNumber: true },
@@ -166,62 +372,141 @@ export class EventListener {
       return;
     }
 
+    // Make sure the chain we resume on still contains the last indexed block
+    const forkBlock = await this.detectReorg(this.lastProcessedBlock + 1n);
+    if (forkBlock !== null) {
+      await this.handleReorg(forkBlock);
+      return;
+    }
+
     console.log(`[EventListener] Syncing from block ${this.lastProcessedBlock} to ${safeBlock}`);
 
     // Process in chunks to avoid RPC limits
-    const CHUNK_SIZE = 10000n;
     let fromBlock = this.lastProcessedBlock + 1n;
 
     while (fromBlock <= safeBlock) {
-      const toBlock = fromBlock + CHUNK_SIZE - 1n > safeBlock ? safeBlock : fromBlock + CHUNK_SIZE - 1n;
+      const toBlock =
+        fromBlock + LOG_CHUNK_SIZE - 1n > safeBlock ? safeBlock : fromBlock + LOG_CHUNK_SIZE - 1n;
 
       await this.fetchAndProcessEvents(fromBlock, toBlock);
       fromBlock = toBlock + 1n;
     }
 
-    this.lastProcessedBlock = safeBlock;
     console.log(`[EventListener] Historical sync complete at block ${safeBlock}`);
   }
 
+  /**
+   * Index a block range and advance the checkpoint past it. A failing handler
+   * aborts the range before the checkpoint moves, so the next sync replays it.
+   */
   private async fetchAndProcessEvents(fromBlock: bigint, toBlock: bigint): Promise<void> {
     console.log(`[EventListener] Fetching events from ${fromBlock} to ${toBlock}`);
 
-    // Fetch deposit events
-    const depositLogs = await this.httpClient.getLogs({
-      address: this.config.vaultAddress,
-      event: DEPOSIT_PROCESSED_EVENT,
-      fromBlock,
-      toBlock,
-    });
+    const events = await this.collectEvents(fromBlock, toBlock);
 
-    // Fetch withdraw events
-    const withdrawLogs = await this.httpClient.getLogs({
-      address: this.config.vaultAddress,
-      event: WITHDRAW_PROCESSED_EVENT,
-      fromBlock,
-      toBlock,
-    });
+    for (const event of events) {
+      await event.process();
+    }
 
-    // Fetch rebalance events
-    const rebalanceLogs = await this.httpClient.getLogs({
-      address: this.config.vaultAddress,
-      event: REBALANCE_EXECUTED_EVENT,
-      fromBlock,
-      toBlock,
-    });
+    await this.saveCheckpoint(toBlock);
+    this.lastProcessedBlock = toBlock;
+  }
 
-    // Process all events
-    for (const log of depositLogs) {
-      await this.processDepositEvent(log);
-    }
+  /**
+   * Fetch logs for a block range and pair each with its handler, in processing order
+   */
+  private async collectEvents(
+    fromBlock: bigint,
+    toBlock: bigint,
+    eventType: BackfillEventType = 'all',
+    historical = false
+  ): Promise<QueuedEvent[]> {
+    const includes = (type: Exclude<BackfillEventType, 'all'>) =>
+      eventType === 'all' || eventType === type;
+    const fetchLogs = async <TEvent extends (typeof PNGY_VAULT_ABI)[number]>(
+      event: TEvent,
+      enabled: boolean
+    ) =>
+      enabled
+        ? this.httpClient.getLogs({ address: this.config.vaultAddress, event, fromBlock, toBlock })
+        : [];
 
-    for (const log of withdrawLogs) {
-      await this.processWithdrawEvent(log);
-    }
+    // Fetch deposit events
+    const depositLogs = await fetchLogs(DEPOSIT_PROCESSED_EVENT, includes('Deposit'));
 
-    for (const log of rebalanceLogs) {
-      await this.processRebalanceEvent(log);
-    }
+    // Fetch withdraw events
+    const withdrawLogs = await fetchLogs(WITHDRAW_PROCESSED_EVENT, includes('Withdraw'));
+
+    // Fetch rebalance events
+    const rebalanceLogs = await fetchLogs(REBALANCE_EXECUTED_EVENT, includes('Rebalance'));
+
+    // Fetch share transfer events
+    const transferLogs = await fetchLogs(TRANSFER_EVENT, includes('Transfer'));
+
+    // Fetch withdraw queue events
+    const withdrawRequestedLogs = await fetchLogs(WITHDRAW_REQUESTED_EVENT, includes('Withdraw'));
+    const withdrawClaimedLogs = await fetchLogs(WITHDRAW_CLAIMED_EVENT, includes('Withdraw'));
+
+    // Process position-changing events in chain order so cost basis moves with
+    // the shares a wallet actually held at the time of each transfer
+    const positionEvents = [
+      ...depositLogs.map((log) => ({
+        log,
+        process: () => this.processDepositEvent(log, historical),
+      })),
+      ...withdrawLogs.map((log) => ({
+        log,
+        process: () => this.processWithdrawEvent(log, historical),
+      })),
+      ...transferLogs.map((log) => ({ log, process: () => this.processTransferEvent(log) })),
+      ...withdrawRequestedLogs.map((log) => ({
+        log,
+        process: () => this.processWithdrawRequestedEvent(log, historical),
+      })),
+      ...withdrawClaimedLogs.map((log) => ({
+        log,
+        process: () => this.processWithdrawClaimedEvent(log, historical),
+      })),
+    ].sort((a, b) => compareLogPosition(a.log, b.log));
+
+    const rebalanceEvents = rebalanceLogs.map((log) => ({
+      log,
+      process: () => this.processRebalanceEvent(log, historical),
+    }));
+
+    // Fetch protocol state events
+    const protocolLogs =
+      eventType === 'all'
+        ? await this.httpClient.getLogs({
+            address: this.config.vaultAddress,
+            events: PROTOCOL_EVENTS,
+            fromBlock,
+            toBlock,
+          })
+        : [];
+
+    const protocolEvents = [...protocolLogs].sort(compareLogPosition).map((log) => ({
+      log,
+      process: () => this.processProtocolEvent(log, historical),
+    }));
+
+    // Fetch RWA holding changes
+    const assetLogs =
+      eventType === 'all'
+        ? await this.httpClient.getLogs({
+            address: this.config.vaultAddress,
+            events: ASSET_EVENTS,
+            fromBlock,
+            toBlock,
+          })
+        : [];
+
+    const assetEvents = [...assetLogs].sort(compareLogPosition).map((log) => ({
+      log,
+      process: () => this.processAssetEvent(log),
+    }));
+
+    return [...positionEvents, ...rebalanceEvents, ...protocolEvents, ...assetEvents];
   }
 
   // ---------------------------------------------------------------------------
@@ -236,11 +521,7 @@ export class EventListener {
       address: this.config.vaultAddress,
       abi: PNGY_VAULT_ABI,
       eventName: 'DepositProcessed',
-      onLogs: async (logs) => {
-        for (const log of logs) {
-          await this.handleRealtimeEvent(log, 'deposit');
-        }
-      },
+      onLogs: (logs) => this.handleRealtimeLogs(logs),
       onError: (error) => {
         console.error('[EventListener] WebSocket deposit watch error:', error);
         this.handleWatchError();
@@ -252,11 +533,7 @@ export class EventListener {
       address: this.config.vaultAddress,
       abi: PNGY_VAULT_ABI,
       eventName: 'WithdrawProcessed',
-      onLogs: async (logs) => {
-        for (const log of logs) {
-          await this.handleRealtimeEvent(log, 'withdraw');
-        }
-      },
+      onLogs: (logs) => this.handleRealtimeLogs(logs),
       onError: (error) => {
         console.error('[EventListener] WebSocket withdraw watch error:', error);
         this.handleWatchError();
@@ -268,53 +545,96 @@ export class EventListener {
       address: this.config.vaultAddress,
       abi: PNGY_VAULT_ABI,
       eventName: 'RebalanceExecuted',
-      onLogs: async (logs) => {
-        for (const log of logs) {
-          await this.handleRealtimeEvent(log, 'rebalance');
-        }
-      },
+      onLogs: (logs) => this.handleRealtimeLogs(logs),
       onError: (error) => {
         console.error('[EventListener] WebSocket rebalance watch error:', error);
         this.handleWatchError();
       },
     });
-  }
 
-  private async handleRealtimeEvent(log: Log, eventType: string): Promise<void> {
-    const eventKey = `${log.transactionHash}-${log.logIndex}`;
+    // Watch for share transfer events
+    this.wsClient.watchContractEvent({
+      address: this.config.vaultAddress,
+      abi: PNGY_VAULT_ABI,
+      eventName: 'Transfer',
+      onLogs: (logs) => this.handleRealtimeLogs(logs),
+      onError: (error) => {
+        console.error('[EventListener] WebSocket transfer watch error:', error);
+        this.handleWatchError();
+      },
+    });
 
-    // Skip if already processed
-    if (this.processedEvents.has(eventKey)) {
-      return;
-    }
+    // Watch for withdraw queue events
+    this.wsClient.watchContractEvent({
+      address: this.config.vaultAddress,
+      abi: PNGY_VAULT_ABI,
+      eventName: 'WithdrawRequested',
+      onLogs: (logs) => this.handleRealtimeLogs(logs),
+      onError: (error) => {
+        console.error('[EventListener] WebSocket withdraw request watch error:', error);
+        this.handleWatchError();
+      },
+    });
 
-    // Check confirmations
-    const currentBlock = await this.httpClient.getBlockNumber();
-    const confirmations = currentBlock - (log.blockNumber ?? 0n);
-
-    if (confirmations < BigInt(this.config.confirmations)) {
-      console.log(`[EventListener] Event ${eventKey} waiting for confirmations (${confirmations}/${this.config.confirmations})`);
-      // Schedule reprocessing after delay
-      setTimeout(async () => {
-        await this.handleRealtimeEvent(log, eventType);
-      }, 5000);
-      return;
-    }
+    this.wsClient.watchContractEvent({
+      address: this.config.vaultAddress,
+      abi: PNGY_VAULT_ABI,
+      eventName: 'WithdrawClaimed',
+      onLogs: (logs) => this.handleRealtimeLogs(logs),
+      onError: (error) => {
+        console.error('[EventListener] WebSocket withdraw claim watch error:', error);
+        this.handleWatchError();
+      },
+    });
 
-    // Process the confirmed event
-    this.processedEvents.add(eventKey);
+    // Watch for protocol state events
+    this.wsClient.watchEvent({
+      address: this.config.vaultAddress,
+      events: PROTOCOL_EVENTS,
+      onLogs: (logs) => this.handleRealtimeLogs(logs),
+      onError: (error) => {
+        console.error('[EventListener] WebSocket protocol event watch error:', error);
+        this.handleWatchError();
+      },
+    });
+
+    // Watch for RWA holding changes
+    this.wsClient.watchEvent({
+      address: this.config.vaultAddress,
+      events: ASSET_EVENTS,
+      onLogs: (logs) => this.handleRealtimeLogs(logs),
+      onError: (error) => {
+        console.error('[EventListener] WebSocket asset event watch error:', error);
+        this.handleWatchError();
+      },
+    });
+  }
 
-    switch (eventType) {
-      case 'deposit':
-        await this.processDepositEvent(log);
-        break;
-      case 'withdraw':
-        await this.processWithdrawEvent(log);
-        break;
-      case 'rebalance':
-        await this.processRebalanceEvent(log);
-        break;
+  /**
+   * WebSocket logs only signal that there is something new to index. Indexing goes
+   * through the same sync as polling, so realtime events get the same confirmation
+   * depth, checkpoint, block-hash recording and reorg check.
+   */
+  private handleRealtimeLogs(logs: Log[]): void {
+    const newestBlock = logs.reduce(
+      (newest, log) =>
+        log.blockNumber !== null && log.blockNumber > newest ? log.blockNumber : newest,
+      0n
+    );
+
+    if (newestBlock <= this.lastProcessedBlock) {
+      return;
     }
+
+    void this.requestSync().then(() => {
+      // Not confirmed yet: check again once more blocks are built on top
+      if (this.isRunning && newestBlock > this.lastProcessedBlock) {
+        console.log(
+          `[EventListener] Block ${newestBlock} waiting for ${this.config.confirmations} confirmations`
+        );
+        setTimeout(() => this.handleRealtimeLogs(logs), 5000);
+      }
+    });
   }
 
   private handleWatchError(): void {
@@ -331,31 +651,57 @@ export class EventListener {
     const poll = async (): Promise<void> => {
       if (!this.isRunning) return;
 
-      try {
-        const currentBlock = await this.httpClient.getBlockNumber();
-        const safeBlock = currentBlock - BigInt(this.config.confirmations);
-
-        if (safeBlock > this.lastProcessedBlock) {
-          await this.fetchAndProcessEvents(this.lastProcessedBlock + 1n, safeBlock);
-          this.lastProcessedBlock = safeBlock;
-        }
-      } catch (error) {
-        console.error('[EventListener] Polling error:', error);
-      }
+      await this.requestSync();
 
       if (this.isRunning) {
-        setTimeout(poll, this.config.pollInterval);
+        setTimeout(() => void poll(), this.config.pollInterval);
       }
     };
 
-    poll();
+    void poll();
+  }
+
+  /**
+   * Queue a sync behind any sync already in flight, so the poller and the
+   * WebSocket watcher never index block ranges concurrently
+   */
+  private requestSync(): Promise<void> {
+    this.syncQueue = this.syncQueue
+      .then(() => this.syncToSafeBlock())
+      .catch((error) => {
+        console.error('[EventListener] Sync error:', error);
+      });
+
+    return this.syncQueue;
+  }
+
+  /**
+   * Index confirmed blocks past the checkpoint, rolling back first if the chain
+   * the checkpoint was built on has been reorganized
+   */
+  private async syncToSafeBlock(): Promise<void> {
+    const currentBlock = await this.httpClient.getBlockNumber();
+    const safeBlock = currentBlock - BigInt(this.config.confirmations);
+
+    if (safeBlock <= this.lastProcessedBlock) {
+      return;
+    }
+
+    const forkBlock = await this.detectReorg(this.lastProcessedBlock + 1n);
+
+    if (forkBlock !== null) {
+      // handleReorg rolls back and re-syncs up to the current safe block
+      await this.handleReorg(forkBlock);
+    } else {
+      await this.fetchAndProcessEvents(this.lastProcessedBlock + 1n, safeBlock);
+    }
   }
 
   // ---------------------------------------------------------------------------
   // Event Processing
   // ---------------------------------------------------------------------------
 
-  private async processDepositEvent(log: Log): Promise<void> {
+  private async processDepositEvent(log: Log, historical = false): Promise<void> {
     if (!log.transactionHash || log.blockNumber === null) return;
 
     const eventKey = `${log.transactionHash}-${log.logIndex}`;
@@ -363,7 +709,13 @@ export class EventListener {
     try {
       // Check if already exists
       const existing = await prisma.transaction.findUnique({
-        where: { txHash: log.transactionHash },
+        where: {
+          txHash_logIndex_type: {
+            txHash: log.transactionHash,
+            logIndex: log.logIndex ?? 0,
+            type: 'DEPOSIT',
+          },
+        },
       });
 
       if (existing) {
@@ -383,33 +735,52 @@ export class EventListener {
       // Calculate share price at time of deposit
       const sharePrice = shares > 0n ? (assets * 10n ** 18n) / shares : 10n ** 18n;
 
-      // Ensure user exists
-      await this.ensureUserExists(receiver);
+      const timestamp = new Date(Number(block.timestamp) * 1000);
+      const lotEvent = {
+        txHash: log.transactionHash,
+        logIndex: log.logIndex ?? 0,
+        blockNumber: log.blockNumber,
+        timestamp,
+      };
+
+      // One transaction per event: if the row insert hits the unique key (the event
+      // was indexed concurrently) the lot and position changes roll back with it
+      await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        await this.ensureUserExists(receiver, tx);
+
+        await tx.transaction.create({
+          data: {
+            ...lotEvent,
+            type: 'DEPOSIT',
+            userAddress: receiver.toLowerCase(),
+            amount: assets.toString(),
+            shares: shares.toString(),
+            sharePrice: sharePrice.toString(),
+            costBasis: assets.toString(),
+          },
+        });
 
-      // Insert transaction
-      await prisma.transaction.create({
-        data: {
-          txHash: log.transactionHash,
-          type: 'DEPOSIT',
-          userAddress: receiver.toLowerCase(),
-          amount: assets.toString(),
-          shares: shares.toString(),
-          sharePrice: sharePrice.toString(),
-          blockNumber: log.blockNumber,
-          timestamp: new Date(Number(block.timestamp) * 1000),
-        },
+        // Open a cost basis lot, then update user position
+        await addLot(receiver, shares, assets, lotEvent, tx);
+        await this.updateUserPosition(receiver, shares, assets, true, tx);
       });
 
-      // Update user position
-      await this.updateUserPosition(receiver, shares, assets, true);
-
       console.log(`[EventListener] Processed deposit: ${log.transactionHash} (${assets} assets, ${shares} shares)`);
+      if (historical) return;
+
+      await this.publishTransactionWebhook('DEPOSIT_COMPLETED', receiver, log, timestamp, {
+        sender: sender.toLowerCase(),
+        assets,
+        shares,
+        sharePrice,
+      });
     } catch (error) {
       console.error(`[EventListener] Error processing deposit ${eventKey}:`, error);
+      throw error;
     }
   }
 
-  private async processWithdrawEvent(log: Log): Promise<void> {
+  private async processWithdrawEvent(log: Log, historical = false): Promise<void> {
     if (!log.transactionHash || log.blockNumber === null) return;
 
     const eventKey = `${log.transactionHash}-${log.logIndex}`;
@@ -417,7 +788,13 @@ export class EventListener {
     try {
       // Check if already exists
       const existing = await prisma.transaction.findUnique({
-        where: { txHash: log.transactionHash },
+        where: {
+          txHash_logIndex_type: {
+            txHash: log.transactionHash,
+            logIndex: log.logIndex ?? 0,
+            type: 'WITHDRAW',
+          },
+        },
       });
 
       if (existing) {
@@ -437,51 +814,385 @@ export class EventListener {
       // Calculate share price at time of withdrawal
       const sharePrice = shares > 0n ? (assets * 10n ** 18n) / shares : 10n ** 18n;
 
-      // Ensure user exists
-      await this.ensureUserExists(owner);
+      const timestamp = new Date(Number(block.timestamp) * 1000);
+      const lotEvent = {
+        txHash: log.transactionHash,
+        logIndex: log.logIndex ?? 0,
+        blockNumber: log.blockNumber,
+        timestamp,
+      };
+
+      // Lots, position and row commit together; a duplicate row rolls back the rest
+      await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        await this.ensureUserExists(owner, tx);
+
+        // Consume lots and record the realized gain, then update user position
+        // (recording the cost basis removed so a reorg can restore it)
+        const { costBasis: removedCostBasis } = await recordWithdrawal(
+          owner,
+          shares,
+          assets,
+          lotEvent,
+          tx
+        );
+        await this.updateUserPosition(owner, shares, removedCostBasis, false, tx);
+
+        await tx.transaction.create({
+          data: {
+            ...lotEvent,
+            type: 'WITHDRAW',
+            userAddress: owner.toLowerCase(),
+            amount: assets.toString(),
+            shares: shares.toString(),
+            sharePrice: sharePrice.toString(),
+            costBasis: removedCostBasis.toString(),
+          },
+        });
+      });
+
+      console.log(`[EventListener] Processed withdraw: ${log.transactionHash} (${assets} assets, ${shares} shares)`);
+      if (historical) return;
 
-      // Insert transaction
-      await prisma.transaction.create({
+      await this.publishTransactionWebhook('WITHDRAWAL_COMPLETED', owner, log, timestamp, {
+        receiver: receiver.toLowerCase(),
+        assets,
+        shares,
+        sharePrice,
+      });
+
+      // Queue notification for withdrawal completion
+      await this.queueWithdrawalNotification(owner, assets, shares, log.transactionHash);
+    } catch (error) {
+      console.error(`[EventListener] Error processing withdraw ${eventKey}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a queued (T+1) withdrawal request; its shares are locked in the vault until claimed
+   */
+  private async processWithdrawRequestedEvent(
+    log: WithdrawRequestedEventLog,
+    historical = false
+  ): Promise<void> {
+    if (!log.transactionHash || log.blockNumber === null) return;
+
+    const eventKey = `${log.transactionHash}-${log.logIndex}`;
+
+    try {
+      const { requestId, owner, receiver, shares, assets, claimableTime } = log.args;
+      if (
+        requestId === undefined ||
+        !owner ||
+        !receiver ||
+        shares === undefined ||
+        assets === undefined ||
+        claimableTime === undefined
+      ) {
+        return;
+      }
+
+      // Check if already exists
+      const existing = await prisma.withdrawRequest.findUnique({
+        where: { requestId },
+      });
+
+      if (existing) {
+        console.log(`[EventListener] Withdraw request ${requestId} already exists`);
+        return;
+      }
+
+      // Get block timestamp
+      const block = await this.httpClient.getBlock({ blockNumber: log.blockNumber });
+      const timestamp = new Date(Number(block.timestamp) * 1000);
+
+      await prisma.withdrawRequest.create({
         data: {
-          txHash: log.transactionHash,
-          type: 'WITHDRAW',
-          userAddress: owner.toLowerCase(),
-          amount: assets.toString(),
+          requestId,
+          ownerAddress: owner.toLowerCase(),
+          receiverAddress: receiver.toLowerCase(),
           shares: shares.toString(),
-          sharePrice: sharePrice.toString(),
-          blockNumber: log.blockNumber,
-          timestamp: new Date(Number(block.timestamp) * 1000),
+          assets: assets.toString(),
+          requestTime: timestamp,
+          claimableTime: new Date(Number(claimableTime) * 1000),
+          requestTxHash: log.transactionHash,
+          requestBlockNumber: log.blockNumber,
         },
       });
 
-      // Update user position
-      await this.updateUserPosition(owner, shares, assets, false);
+      console.log(
+        `[EventListener] Processed withdraw request ${requestId}: ${log.transactionHash} (${shares} shares)`
+      );
+      if (historical) return;
+
+      await this.publishTransactionWebhook('WITHDRAWAL_REQUESTED', owner, log, timestamp, {
+        requestId,
+        receiver: receiver.toLowerCase(),
+        assets,
+        shares,
+        claimableTime: new Date(Number(claimableTime) * 1000).toISOString(),
+      });
+    } catch (error) {
+      console.error(`[EventListener] Error processing withdraw request ${eventKey}:`, error);
+      throw error;
+    }
+  }
 
-      console.log(`[EventListener] Processed withdraw: ${log.transactionHash} (${assets} assets, ${shares} shares)`);
+  /**
+   * Mark a queued withdrawal as claimed and settle the owner's position
+   * Anyone may call claimWithdraw, so the event's owner is the caller; the
+   * request owner is taken from the stored WithdrawRequested row instead
+   */
+  private async processWithdrawClaimedEvent(
+    log: WithdrawClaimedEventLog,
+    historical = false
+  ): Promise<void> {
+    if (!log.transactionHash || log.blockNumber === null) return;
 
-      // Queue notification for withdrawal completion
-      try {
-        await addUserNotificationJob(
-          owner.toLowerCase(),
-          'WITHDRAWAL_COMPLETE',
-          {
-            amount: formatUnits(assets, 18), // Assuming 18 decimals for USDT display
-            shares: formatUnits(shares, 18),
+    const eventKey = `${log.transactionHash}-${log.logIndex}`;
+
+    try {
+      const { requestId, assets } = log.args;
+      if (requestId === undefined || assets === undefined) return;
+
+      const request = await prisma.withdrawRequest.findUnique({
+        where: { requestId },
+      });
+
+      if (!request) {
+        console.warn(`[EventListener] Claim ${eventKey} for unknown withdraw request ${requestId}`);
+        return;
+      }
+
+      if (request.claimTxHash) {
+        console.log(`[EventListener] Withdraw request ${requestId} already claimed`);
+        return;
+      }
+
+      // Get block timestamp
+      const block = await this.httpClient.getBlock({ blockNumber: log.blockNumber });
+      const timestamp = new Date(Number(block.timestamp) * 1000);
+
+      const owner = request.ownerAddress;
+      const shares = BigInt(request.shares.toString());
+      const sharePrice = shares > 0n ? (assets * 10n ** 18n) / shares : 10n ** 18n;
+      const txHash = log.transactionHash;
+      const blockNumber = log.blockNumber;
+
+      // The claim burns the locked shares, so it settles like a regular withdrawal.
+      // The request is only marked claimed once settlement is written, in the same
+      // transaction, so a failed claim is retried rather than skipped.
+      await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        await this.ensureUserExists(owner, tx);
+
+        const { costBasis: removedCostBasis } = await recordWithdrawal(
+          owner,
+          shares,
+          assets,
+          { txHash, logIndex: log.logIndex ?? 0, blockNumber, timestamp },
+          tx
+        );
+        await this.updateUserPosition(owner, shares, removedCostBasis, false, tx);
+
+        await tx.transaction.create({
+          data: {
+            txHash,
+            logIndex: log.logIndex ?? 0,
+            type: 'WITHDRAW',
+            userAddress: owner,
+            amount: assets.toString(),
+            shares: shares.toString(),
+            sharePrice: sharePrice.toString(),
+            costBasis: removedCostBasis.toString(),
+            blockNumber,
+            timestamp,
+          },
+        });
+
+        await tx.withdrawRequest.update({
+          where: { requestId },
+          data: {
+            claimedAssets: assets.toString(),
+            claimTxHash: txHash,
+            claimBlockNumber: blockNumber,
+            claimedAt: timestamp,
+          },
+        });
+      });
+
+      console.log(
+        `[EventListener] Processed withdraw claim ${requestId}: ${log.transactionHash} (${assets} assets)`
+      );
+      if (historical) return;
+
+      await this.publishTransactionWebhook('WITHDRAWAL_CLAIMED', owner, log, timestamp, {
+        requestId,
+        assets,
+        shares,
+        sharePrice,
+      });
+
+      await this.queueWithdrawalNotification(owner, assets, shares, log.transactionHash);
+    } catch (error) {
+      console.error(`[EventListener] Error processing withdraw claim ${eventKey}:`, error);
+      throw error;
+    }
+  }
+
+  private async queueWithdrawalNotification(
+    owner: string,
+    assets: bigint,
+    shares: bigint,
+    txHash: string
+  ): Promise<void> {
+    try {
+      await addUserNotificationJob(
+        owner.toLowerCase(),
+        'WITHDRAWAL_COMPLETE',
+        {
+          amount: formatUnits(assets, 18), // Assuming 18 decimals for USDT display
+          shares: formatUnits(shares, 18),
+          txHash,
+        },
+        'normal'
+      );
+      console.log(`[EventListener] Queued withdrawal notification for ${owner}`);
+    } catch (notifyError) {
+      console.error(`[EventListener] Failed to queue withdrawal notification:`, notifyError);
+      // Don't fail the event processing if notification fails
+    }
+  }
+
+  /**
+   * Forward an indexed vault event to the wallet's webhook subscribers
+   * The event id (`<txHash>-<logIndex>`) stays the same if the log is indexed again
+   */
+  private async publishTransactionWebhook(
+    type: WebhookEventType,
+    address: string,
+    log: Log,
+    timestamp: Date,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    await publishWebhookEvent(type, {
+      address,
+      eventId: `${log.transactionHash}-${log.logIndex}`,
+      occurredAt: timestamp,
+      data: {
+        address: address.toLowerCase(),
+        ...serializeEventArgs(data),
+        txHash: log.transactionHash,
+        blockNumber: log.blockNumber?.toString(),
+        logIndex: log.logIndex,
+      },
+    });
+  }
+
+  /**
+   * Record a PNGY share transfer between two wallets
+   * Mints/burns are covered by DepositProcessed/WithdrawProcessed, and transfers
+   * into or out of the vault itself belong to the withdraw queue, so both are skipped
+   */
+  private async processTransferEvent(log: TransferEventLog): Promise<void> {
+    if (!log.transactionHash || log.blockNumber === null) return;
+
+    const eventKey = `${log.transactionHash}-${log.logIndex}`;
+
+    try {
+      const { from, to, value } = log.args;
+      if (!from || !to || value === undefined) return;
+      const fromAddress = from.toLowerCase();
+      const toAddress = to.toLowerCase();
+      const vaultAddress = this.config.vaultAddress.toLowerCase();
+
+      if (
+        value === 0n ||
+        fromAddress === toAddress ||
+        fromAddress === ZERO_ADDRESS ||
+        toAddress === ZERO_ADDRESS ||
+        fromAddress === vaultAddress ||
+        toAddress === vaultAddress
+      ) {
+        return;
+      }
+
+      const logIndex = log.logIndex ?? 0;
+
+      // Check if already exists
+      const existing = await prisma.transaction.findUnique({
+        where: {
+          txHash_logIndex_type: {
             txHash: log.transactionHash,
+            logIndex,
+            type: 'TRANSFER_OUT',
           },
-          'normal'
-        );
-        console.log(`[EventListener] Queued withdrawal notification for ${owner}`);
-      } catch (notifyError) {
-        console.error(`[EventListener] Failed to queue withdrawal notification:`, notifyError);
-        // Don't fail the event processing if notification fails
+        },
+      });
+
+      if (existing) {
+        console.log(`[EventListener] Transfer ${eventKey} already exists`);
+        return;
       }
+
+      // Get block timestamp
+      const block = await this.httpClient.getBlock({ blockNumber: log.blockNumber });
+      const timestamp = new Date(Number(block.timestamp) * 1000);
+
+      // Value the transfer at the last recorded NAV per share before it happened
+      const netValue = await prisma.netValue.findFirst({
+        where: { timestamp: { lte: timestamp } },
+        orderBy: { timestamp: 'desc' },
+        select: { sharePrice: true },
+      });
+      const sharePrice = netValue ? BigInt(netValue.sharePrice.toString()) : 10n ** 18n;
+      const amount = (value * sharePrice) / 10n ** 18n;
+
+      const lotEvent = {
+        txHash: log.transactionHash,
+        logIndex,
+        blockNumber: log.blockNumber,
+        timestamp,
+      };
+
+      // Lots, both positions and both rows commit together; a duplicate row rolls back the rest
+      const movedCostBasis = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        // Ensure both users exist
+        await this.ensureUserExists(fromAddress, tx);
+        await this.ensureUserExists(toAddress, tx);
+
+        // Move shares and the cost basis of the sender's consumed lots to the receiver
+        const costBasis = await transferLots(fromAddress, toAddress, value, lotEvent, tx);
+        await this.transferUserPosition(fromAddress, toAddress, value, costBasis, tx);
+
+        // Insert one transaction row per side of the transfer
+        const common = {
+          ...lotEvent,
+          amount: amount.toString(),
+          shares: value.toString(),
+          sharePrice: sharePrice.toString(),
+          costBasis: costBasis.toString(),
+        };
+
+        await tx.transaction.createMany({
+          data: [
+            { ...common, type: 'TRANSFER_OUT', userAddress: fromAddress },
+            { ...common, type: 'TRANSFER_IN', userAddress: toAddress },
+          ],
+        });
+
+        return costBasis;
+      });
+
+      console.log(
+        `[EventListener] Processed transfer: ${eventKey} (${value} shares, ${movedCostBasis} cost basis from ${fromAddress} to ${toAddress})`
+      );
     } catch (error) {
-      console.error(`[EventListener] Error processing withdraw ${eventKey}:`, error);
+      console.error(`[EventListener] Error processing transfer ${eventKey}:`, error);
+      throw error;
     }
   }
 
-  private async processRebalanceEvent(log: Log): Promise<void> {
+  private async processRebalanceEvent(log: Log, historical = false): Promise<void> {
     if (!log.transactionHash || log.blockNumber === null) return;
 
     try {
@@ -495,6 +1206,8 @@ export class EventListener {
       const block = await this.httpClient.getBlock({ blockNumber: log.blockNumber });
       const blockTimestamp = new Date(Number(block.timestamp) * 1000);
 
+      let recorded = 0;
+
       // Record sell transactions
       for (let i = 0; i < sellAssets.length; i++) {
         const txHashUnique = `${log.transactionHash}-sell-${i}`;
@@ -516,6 +1229,7 @@ export class EventListener {
               timestamp: blockTimestamp,
             },
           });
+          recorded++;
         }
       }
 
@@ -540,11 +1254,18 @@ export class EventListener {
               timestamp: blockTimestamp,
             },
           });
+          recorded++;
         }
       }
 
       console.log(`[EventListener] Processed rebalance: ${log.transactionHash}`);
 
+      await this.linkSafeExecution(log.transactionHash, log.blockNumber, blockTimestamp);
+
+      // Replayed rebalance (overlapping sync): rows and broadcast already done.
+      // Historical backfills never announce a rebalance.
+      if (recorded === 0 || historical) return;
+
       // Queue broadcast notification for rebalance execution
       try {
         // Get asset symbols for better notification content
@@ -569,6 +1290,175 @@ export class EventListener {
       }
     } catch (error) {
       console.error(`[EventListener] Error processing rebalance ${log.transactionHash}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Link the Safe proposal executed by a rebalance tx, found via the Safe's ExecutionSuccess log
+   */
+  private async linkSafeExecution(
+    txHash: `0x${string}`,
+    blockNumber: bigint,
+    timestamp: Date
+  ): Promise<void> {
+    try {
+      const receipt = await this.httpClient.getTransactionReceipt({ hash: txHash });
+      const executions = parseEventLogs({
+        abi: [SAFE_EXECUTION_SUCCESS_EVENT],
+        logs: receipt.logs,
+      });
+
+      const linked = await linkRebalanceExecution({
+        safeTxHashes: executions.map((execution) => execution.args.txHash),
+        txHash,
+        blockNumber,
+        timestamp,
+      });
+
+      if (linked > 0) {
+        console.log(`[EventListener] Linked rebalance ${txHash} to ${linked} Safe proposal(s)`);
+      }
+    } catch (error) {
+      console.error(`[EventListener] Failed to link rebalance ${txHash} to Safe proposal:`, error);
+    }
+  }
+
+  /**
+   * Persist a protocol state event (NAV update, circuit breaker, emergency mode, pause)
+   * and broadcast the matching user alert and webhook event
+   */
+  private async processProtocolEvent(log: ProtocolEventLog, historical = false): Promise<void> {
+    if (!log.transactionHash || log.blockNumber === null) return;
+
+    const eventKey = `${log.transactionHash}-${log.logIndex}`;
+
+    try {
+      const { eventName, args } = log;
+      const type = PROTOCOL_EVENT_TYPES[eventName];
+      if (!type) return;
+
+      const logIndex = log.logIndex ?? 0;
+
+      // Check if already exists
+      const existing = await prisma.protocolEvent.findUnique({
+        where: { txHash_logIndex: { txHash: log.transactionHash, logIndex } },
+      });
+
+      if (existing) {
+        console.log(`[EventListener] ${eventName} ${eventKey} already exists`);
+        return;
+      }
+
+      // Get block timestamp
+      const block = await this.httpClient.getBlock({ blockNumber: log.blockNumber });
+      const timestamp = new Date(Number(block.timestamp) * 1000);
+
+      await prisma.protocolEvent.create({
+        data: {
+          type,
+          txHash: log.transactionHash,
+          logIndex,
+          blockNumber: log.blockNumber,
+          timestamp,
+          data: serializeEventArgs(args),
+        },
+      });
+
+      console.log(`[EventListener] Processed ${eventName}: ${eventKey}`);
+      if (historical) return;
+
+      const webhookType = PROTOCOL_WEBHOOK_EVENTS[eventName];
+      if (webhookType) {
+        await publishWebhookEvent(webhookType, {
+          eventId: eventKey,
+          occurredAt: timestamp,
+          data: {
+            ...serializeEventArgs(args),
+            txHash: log.transactionHash,
+            blockNumber: log.blockNumber.toString(),
+            logIndex,
+          },
+        });
+      }
+
+      await this.broadcastProtocolAlert(eventName, args, timestamp);
+    } catch (error) {
+      console.error(`[EventListener] Error processing protocol event ${eventKey}:`, error);
+      throw error;
+    }
+  }
+
+  private async broadcastProtocolAlert(
+    eventName: string,
+    args: Record<string, unknown>,
+    timestamp: Date
+  ): Promise<void> {
+    if (Date.now() - timestamp.getTime() > PROTOCOL_ALERT_MAX_AGE_MS) {
+      console.log(`[EventListener] Skipping alert for historical ${eventName} event`);
+      return;
+    }
+
+    try {
+      switch (eventName) {
+        case 'CircuitBreakerTriggered': {
+          const dropBasisPoints = args.dropBasisPoints as bigint;
+          const trigger =
+            dropBasisPoints > 0n
+              ? `NAV dropped ${(Number(dropBasisPoints) / 100).toFixed(2)}% below the reference NAV`
+              : 'Manually activated by protocol administrators';
+
+          await notifyCircuitBreaker(trigger, formatUnits(CIRCUIT_BREAKER_WITHDRAWAL_LIMIT, 18));
+          break;
+        }
+        case 'Paused':
+          await notifyEmergencyPause(`Vault paused by ${String(args.account)}`);
+          break;
+      }
+    } catch (notifyError) {
+      console.error(`[EventListener] Failed to queue ${eventName} notification:`, notifyError);
+      // Don't fail the event processing if notification fails
+    }
+  }
+
+  /**
+   * Apply an RWAAssetAdded / RWAAssetRemoved / TargetAllocationUpdated event to AssetAllocation.
+   * Balances and values are read at the latest block; the asset sync job corrects any drift.
+   */
+  private async processAssetEvent(log: AssetEventLog): Promise<void> {
+    if (!log.transactionHash || log.blockNumber === null) return;
+
+    const eventKey = `${log.transactionHash}-${log.logIndex}`;
+    const { eventName } = log;
+
+    try {
+      switch (log.eventName) {
+        case 'RWAAssetAdded': {
+          const { tokenAddress, targetAllocation } = log.args;
+          if (!tokenAddress || targetAllocation === undefined) return;
+          await handleAssetAdded(tokenAddress, targetAllocation);
+          break;
+        }
+        case 'RWAAssetRemoved': {
+          const { tokenAddress } = log.args;
+          if (!tokenAddress) return;
+          await handleAssetRemoved(tokenAddress);
+          break;
+        }
+        case 'TargetAllocationUpdated': {
+          const { tokenAddress, newAllocation } = log.args;
+          if (!tokenAddress || newAllocation === undefined) return;
+          await handleTargetAllocationUpdated(tokenAddress, newAllocation);
+          break;
+        }
+        default:
+          return;
+      }
+
+      console.log(`[EventListener] Processed ${eventName}: ${eventKey}`);
+    } catch (error) {
+      console.error(`[EventListener] Error processing asset event ${eventKey}:`, error);
+      throw error;
     }
   }
 
@@ -591,25 +1481,33 @@ export class EventListener {
   // Helper Methods
   // ---------------------------------------------------------------------------
 
-  private async ensureUserExists(address: string): Promise<void> {
+  private async ensureUserExists(
+    address: string,
+    db: Prisma.TransactionClient = prisma
+  ): Promise<void> {
     const normalizedAddress = address.toLowerCase();
 
-    await prisma.user.upsert({
+    await db.user.upsert({
       where: { address: normalizedAddress },
       update: {},
       create: { address: normalizedAddress },
     });
   }
 
+  /**
+   * Apply a deposit or withdrawal to a user's position
+   * @param costBasis Assets deposited, or the cost basis of the lots a withdrawal consumed
+   */
   private async updateUserPosition(
     address: string,
     shares: bigint,
-    assets: bigint,
-    isDeposit: boolean
+    costBasis: bigint,
+    isDeposit: boolean,
+    db: Prisma.TransactionClient = prisma
   ): Promise<void> {
     const normalizedAddress = address.toLowerCase();
 
-    const existingPosition = await prisma.userPosition.findUnique({
+    const existingPosition = await db.userPosition.findUnique({
       where: { userAddress: normalizedAddress },
     });
 
@@ -618,21 +1516,76 @@ export class EventListener {
       const currentCostBasis = BigInt(existingPosition.costBasis.toString());
 
       const newShares = isDeposit ? currentShares + shares : currentShares - shares;
-      const newCostBasis = isDeposit ? currentCostBasis + assets : currentCostBasis - assets;
+      const newCostBasis = isDeposit ? currentCostBasis + costBasis : currentCostBasis - costBasis;
 
-      await prisma.userPosition.update({
+      await db.userPosition.update({
         where: { userAddress: normalizedAddress },
         data: {
           shares: newShares.toString(),
-          costBasis: newCostBasis > 0n ? newCostBasis.toString() : '0',
+          costBasis: (newCostBasis > 0n ? newCostBasis : 0n).toString(),
         },
       });
     } else if (isDeposit) {
-      await prisma.userPosition.create({
+      await db.userPosition.create({
         data: {
           userAddress: normalizedAddress,
           shares: shares.toString(),
-          costBasis: assets.toString(),
+          costBasis: costBasis.toString(),
+        },
+      });
+    }
+  }
+
+  /**
+   * Move shares and the given cost basis between positions
+   */
+  private async transferUserPosition(
+    fromAddress: string,
+    toAddress: string,
+    shares: bigint,
+    movedCostBasis: bigint,
+    db: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    const senderPosition = await db.userPosition.findUnique({
+      where: { userAddress: fromAddress },
+    });
+
+    if (senderPosition) {
+      const senderShares = BigInt(senderPosition.shares.toString());
+      const senderCostBasis = BigInt(senderPosition.costBasis.toString());
+      const movedShares = shares < senderShares ? shares : senderShares;
+      const remainingCostBasis = senderCostBasis - movedCostBasis;
+
+      await db.userPosition.update({
+        where: { userAddress: fromAddress },
+        data: {
+          shares: (senderShares - movedShares).toString(),
+          costBasis: (remainingCostBasis > 0n ? remainingCostBasis : 0n).toString(),
+        },
+      });
+    }
+
+    const receiverPosition = await db.userPosition.findUnique({
+      where: { userAddress: toAddress },
+    });
+
+    if (receiverPosition) {
+      const receiverShares = BigInt(receiverPosition.shares.toString());
+      const receiverCostBasis = BigInt(receiverPosition.costBasis.toString());
+
+      await db.userPosition.update({
+        where: { userAddress: toAddress },
+        data: {
+          shares: (receiverShares + shares).toString(),
+          costBasis: (receiverCostBasis + movedCostBasis).toString(),
+        },
+      });
+    } else {
+      await db.userPosition.create({
+        data: {
+          userAddress: toAddress,
+          shares: shares.toString(),
+          costBasis: movedCostBasis.toString(),
         },
       });
     }
@@ -642,34 +1595,255 @@ export class EventListener {
   // Chain Reorganization Handling
   // ---------------------------------------------------------------------------
 
-  async handleReorg(reorgBlockNumber: bigint): Promise<void> {
-    console.log(`[EventListener] Handling chain reorg at block ${reorgBlockNumber}`);
+  /**
+   * Persist progress after a processed range. The hash of the range's last block
+   * (used by later polls to verify the chain they build on) and the checkpoint
+   * are written in one transaction so they never disagree.
+   */
+  private async saveCheckpoint(blockNumber: bigint): Promise<void> {
+    const block = await this.httpClient.getBlock({ blockNumber });
+
+    await prisma.$transaction([
+      prisma.indexedBlock.upsert({
+        where: { blockNumber },
+        update: { blockHash: block.hash, parentHash: block.parentHash },
+        create: { blockNumber, blockHash: block.hash, parentHash: block.parentHash },
+      }),
+      prisma.indexerCheckpoint.upsert({
+        where: { contractAddress_eventSet: this.checkpointKey },
+        update: { lastProcessedBlock: blockNumber },
+        create: { ...this.checkpointKey, lastProcessedBlock: blockNumber },
+      }),
+    ]);
+
+    // Only recent blocks can still be reorganized
+    await prisma.indexedBlock.deleteMany({
+      where: { blockNumber: { lt: blockNumber - REORG_HISTORY_BLOCKS } },
+    });
+  }
 
-    // Remove transactions from reorged blocks
-    await prisma.transaction.deleteMany({
-      where: {
-        blockNumber: { gte: reorgBlockNumber },
-      },
+  /**
+   * Compare the parent hash of the next block to index with the recorded hash
+   * of the block before it
+   * @returns The first block to roll back from, or null if the chain is consistent
+   */
+  private async detectReorg(nextBlockNumber: bigint): Promise<bigint | null> {
+    const previous = await prisma.indexedBlock.findUnique({
+      where: { blockNumber: nextBlockNumber - 1n },
+    });
+
+    if (!previous) {
+      return null;
+    }
+
+    const nextBlock = await this.httpClient.getBlock({ blockNumber: nextBlockNumber });
+
+    if (nextBlock.parentHash === previous.blockHash) {
+      return null;
+    }
+
+    console.warn(
+      `[EventListener] Reorg detected: block ${nextBlockNumber} parent ${nextBlock.parentHash} != indexed ${previous.blockHash}`
+    );
+
+    return this.findForkPoint();
+  }
+
+  /**
+   * Walk back through recorded blocks until one still matches the canonical chain
+   */
+  private async findForkPoint(): Promise<bigint> {
+    const recordedBlocks = await prisma.indexedBlock.findMany({
+      orderBy: { blockNumber: 'desc' },
     });
 
-    // Remove rebalance history from reorged blocks
-    await prisma.rebalanceHistory.deleteMany({
-      where: {
-        blockNumber: { gte: reorgBlockNumber },
+    for (const recorded of recordedBlocks) {
+      const canonical = await this.httpClient.getBlock({ blockNumber: recorded.blockNumber });
+
+      if (canonical.hash === recorded.blockHash) {
+        return recorded.blockNumber + 1n;
+      }
+    }
+
+    // Deeper than the recorded history: re-index everything we still have hashes for
+    const oldest = recordedBlocks[recordedBlocks.length - 1];
+    console.error('[EventListener] Reorg is deeper than recorded block history');
+    return oldest ? oldest.blockNumber : this.config.startBlock;
+  }
+
+  /**
+   * Undo the position change made by an orphaned transaction row
+   */
+  private async revertUserPosition(
+    tx: {
+      type: string;
+      userAddress: string;
+      shares: { toString(): string };
+      amount: { toString(): string };
+      costBasis: { toString(): string } | null;
+    },
+    db: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    const position = await db.userPosition.findUnique({
+      where: { userAddress: tx.userAddress },
+    });
+
+    if (!position) return;
+
+    const isInflow = tx.type === 'DEPOSIT' || tx.type === 'TRANSFER_IN';
+    const shares = BigInt(tx.shares.toString());
+    // Rows indexed before costBasis was recorded fall back to their amount
+    const costBasis = BigInt((tx.costBasis ?? tx.amount).toString());
+
+    const currentShares = BigInt(position.shares.toString());
+    const currentCostBasis = BigInt(position.costBasis.toString());
+
+    const newShares = isInflow ? currentShares - shares : currentShares + shares;
+    const newCostBasis = isInflow ? currentCostBasis - costBasis : currentCostBasis + costBasis;
+
+    await db.userPosition.update({
+      where: { userAddress: tx.userAddress },
+      data: {
+        shares: (newShares > 0n ? newShares : 0n).toString(),
+        costBasis: (newCostBasis > 0n ? newCostBasis : 0n).toString(),
       },
     });
+  }
 
-    // Reset last processed block
-    this.lastProcessedBlock = reorgBlockNumber - 1n;
-    this.processedEvents.clear();
+  /**
+   * Roll back everything indexed from reorgBlockNumber onwards, then re-sync.
+   * The rollback is one transaction: a partial one would leave reverted positions
+   * next to the Transaction rows that caused them, and a retry would revert them twice.
+   */
+  async handleReorg(reorgBlockNumber: bigint): Promise<void> {
+    console.log(`[EventListener] Handling chain reorg at block ${reorgBlockNumber}`);
+
+    const lastProcessedBlock = reorgBlockNumber - 1n;
+
+    await prisma.$transaction(
+      async (tx: Prisma.TransactionClient) => {
+        // Reverse position changes of orphaned transactions, newest first
+        const orphanedTransactions = await tx.transaction.findMany({
+          where: {
+            blockNumber: { gte: reorgBlockNumber },
+          },
+          orderBy: [{ blockNumber: 'desc' }, { logIndex: 'desc' }],
+        });
 
-    // Re-sync from reorg point
+        for (const orphaned of orphanedTransactions) {
+          await this.revertUserPosition(orphaned, tx);
+        }
+
+        // Restore consumed lots and drop lots and realized gains from orphaned blocks
+        await revertLots(reorgBlockNumber, tx);
+
+        // Remove transactions from reorged blocks
+        await tx.transaction.deleteMany({
+          where: {
+            blockNumber: { gte: reorgBlockNumber },
+          },
+        });
+
+        // Remove withdraw requests from reorged blocks and re-open claims made in them
+        await tx.withdrawRequest.deleteMany({
+          where: {
+            requestBlockNumber: { gte: reorgBlockNumber },
+          },
+        });
+
+        await tx.withdrawRequest.updateMany({
+          where: {
+            claimBlockNumber: { gte: reorgBlockNumber },
+          },
+          data: {
+            claimedAssets: null,
+            claimTxHash: null,
+            claimBlockNumber: null,
+            claimedAt: null,
+          },
+        });
+
+        // Remove protocol events from reorged blocks
+        await tx.protocolEvent.deleteMany({
+          where: {
+            blockNumber: { gte: reorgBlockNumber },
+          },
+        });
+
+        // Remove rebalance history from reorged blocks
+        await tx.rebalanceHistory.deleteMany({
+          where: {
+            blockNumber: { gte: reorgBlockNumber },
+          },
+        });
+
+        // Unlink Safe proposals whose execution was orphaned (the Safe service re-syncs execution)
+        await tx.safeTransaction.updateMany({
+          where: {
+            rebalanceBlockNumber: { gte: reorgBlockNumber },
+          },
+          data: {
+            isExecuted: false,
+            isSuccessful: null,
+            executionTxHash: null,
+            executedAt: null,
+            rebalanceTxHash: null,
+            rebalanceBlockNumber: null,
+          },
+        });
+
+        // Forget block hashes from the orphaned branch
+        await tx.indexedBlock.deleteMany({
+          where: {
+            blockNumber: { gte: reorgBlockNumber },
+          },
+        });
+
+        // Rewind the checkpoint with the rows it covers
+        await tx.indexerCheckpoint.updateMany({
+          where: this.checkpointKey,
+          data: { lastProcessedBlock },
+        });
+      },
+      // Deep reorgs revert many rows; allow more than the 5s interactive default
+      { timeout: 60_000 }
+    );
+
+    this.lastProcessedBlock = lastProcessedBlock;
+
+    // Re-sync from reorg point once the rollback has committed
     await this.syncHistoricalEvents();
 
     console.log(`[EventListener] Reorg handled, re-synced from block ${reorgBlockNumber}`);
   }
 }
 
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Convert decoded event args to JSON-safe values (uint256 -> decimal string)
+ */
+function serializeEventArgs(args: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(args).map(([key, value]) => [
+      key,
+      typeof value === 'bigint' ? value.toString() : value,
+    ])
+  );
+}
+
+function compareLogPosition(a: Log, b: Log): number {
+  const blockA = a.blockNumber ?? 0n;
+  const blockB = b.blockNumber ?? 0n;
+
+  if (blockA !== blockB) {
+    return blockA < blockB ? -1 : 1;
+  }
+  return (a.logIndex ?? 0) - (b.logIndex ?? 0);
+}
+
 // =============================================================================
 // Singleton Instance
 // =============================================================================
@@ -0,0 +1,80 @@
+/**
+ * Indexer Status Service
+ * Reports EventListener progress from persisted indexer checkpoints
+ *
+ * This service:
+ * - Reads IndexerCheckpoint rows (one per contract + event set)
+ * - Compares each checkpoint with the chain head to report lag in blocks
+ */
+
+import { prisma } from './database.js';
+import { getCurrentBlock } from './blockchain.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface IndexerCheckpointStatus {
+  contractAddress: string;
+  eventSet: string;
+  lastProcessedBlock: string;
+  lagBlocks: string | null; // null when the chain head is unavailable
+  updatedAt: Date;
+}
+
+export interface IndexerStatus {
+  headBlock: string | null;
+  checkpoints: IndexerCheckpointStatus[];
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Get all indexer checkpoints with their lag behind the chain head
+ */
+export async function getIndexerStatus(): Promise<IndexerStatus> {
+  const checkpoints = await prisma.indexerCheckpoint.findMany({
+    orderBy: [{ contractAddress: 'asc' }, { eventSet: 'asc' }],
+  });
+
+  // Still report checkpoints when the RPC is down
+  let headBlock: bigint | null = null;
+  try {
+    headBlock = await getCurrentBlock();
+  } catch (error) {
+    console.error('[IndexerService] Failed to fetch chain head:', error);
+  }
+
+  return {
+    headBlock: headBlock?.toString() ?? null,
+    checkpoints: checkpoints.map(
+      (checkpoint: {
+        contractAddress: string;
+        eventSet: string;
+        lastProcessedBlock: bigint;
+        updatedAt: Date;
+      }) => {
+        const lag =
+          headBlock === null
+            ? null
+            : headBlock > checkpoint.lastProcessedBlock
+              ? headBlock - checkpoint.lastProcessedBlock
+              : 0n;
+
+        return {
+          contractAddress: checkpoint.contractAddress,
+          eventSet: checkpoint.eventSet,
+          lastProcessedBlock: checkpoint.lastProcessedBlock.toString(),
+          lagBlocks: lag?.toString() ?? null,
+          updatedAt: checkpoint.updatedAt,
+        };
+      }
+    ),
+  };
+}
+
+export default {
+  getIndexerStatus,
+};
@@ -0,0 +1,538 @@
+/**
+ * Lot Service
+ * Cost basis lots and realized gains per wallet
+ *
+ * Every deposit opens a PositionLot (shares and the USDT paid for them). A
+ * withdrawal consumes lots with the wallet's cost basis method and stores a
+ * RealizedGain (proceeds minus the consumed cost basis) plus one LotDisposal per
+ * lot it touched:
+ * - FIFO: oldest lots first
+ * - AVERAGE_COST: every open lot pro rata, i.e. at the position's average cost
+ *
+ * Share transfers consume the sender's lots the same way and hand the consumed
+ * portions to the receiver as new lots that keep their acquisition date; no gain
+ * is realized. Positions indexed before lots existed get a single opening lot from
+ * their UserPosition the first time they change. Changing the method only affects
+ * later disposals.
+ */
+
+import { prisma } from './database.js';
+import type { Prisma } from '@prisma/client';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type CostBasisMethod = 'FIFO' | 'AVERAGE_COST';
+
+export interface LotEvent {
+  txHash: string;
+  logIndex: number;
+  blockNumber: bigint;
+  timestamp: Date;
+}
+
+export interface OpenLot {
+  id: string;
+  remainingShares: bigint;
+  remainingCostBasis: bigint;
+  acquiredAt: Date;
+}
+
+export interface LotPortion {
+  lotId: string;
+  acquiredAt: Date;
+  shares: bigint;
+  costBasis: bigint;
+}
+
+export interface WithdrawalGain {
+  method: CostBasisMethod;
+  costBasis: bigint;
+  gain: bigint;
+}
+
+export interface RealizedGainRecord {
+  txHash: string;
+  method: CostBasisMethod;
+  shares: bigint;
+  proceeds: bigint;
+  costBasis: bigint;
+  gain: bigint;
+  realizedAt: Date;
+  acquiredFrom: Date | null; // Earliest acquisition date of the consumed lots
+  acquiredTo: Date | null; // Latest acquisition date of the consumed lots
+}
+
+export interface RealizedGainSummary {
+  withdrawals: number;
+  proceeds: bigint;
+  costBasis: bigint;
+  gain: bigint;
+}
+
+type DecimalLike = { toString(): string };
+
+/** The shared client, or the transaction an indexer handler runs in */
+type Db = Prisma.TransactionClient;
+
+interface RealizedGainRow {
+  txHash: string;
+  method: CostBasisMethod;
+  shares: DecimalLike;
+  proceeds: DecimalLike;
+  costBasis: DecimalLike;
+  gain: DecimalLike;
+  realizedAt: Date;
+  disposals: { lot: { acquiredAt: Date } }[];
+}
+
+interface LotRow {
+  id: string;
+  remainingShares: DecimalLike;
+  remainingCostBasis: DecimalLike;
+  acquiredAt: Date;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = ['FIFO', 'AVERAGE_COST'];
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'FIFO';
+
+// =============================================================================
+// Cost Basis Method
+// =============================================================================
+
+export async function getCostBasisMethod(
+  address: string,
+  db: Db = prisma
+): Promise<CostBasisMethod> {
+  const user = await db.user.findUnique({
+    where: { address: address.toLowerCase() },
+    select: { costBasisMethod: true },
+  });
+
+  return user?.costBasisMethod ?? DEFAULT_COST_BASIS_METHOD;
+}
+
+export async function setCostBasisMethod(
+  address: string,
+  method: CostBasisMethod
+): Promise<CostBasisMethod> {
+  const normalizedAddress = address.toLowerCase();
+
+  await prisma.user.upsert({
+    where: { address: normalizedAddress },
+    update: { costBasisMethod: method },
+    create: { address: normalizedAddress, costBasisMethod: method },
+  });
+
+  return method;
+}
+
+// =============================================================================
+// Lot Selection
+// =============================================================================
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+/**
+ * Split `shares` across open lots (oldest first). Shares beyond what the lots
+ * hold are left unallocated.
+ */
+export function allocateLots(
+  lots: OpenLot[],
+  shares: bigint,
+  method: CostBasisMethod
+): LotPortion[] {
+  const openLots = lots.filter((lot) => lot.remainingShares > 0n);
+  const totalShares = openLots.reduce((sum, lot) => sum + lot.remainingShares, 0n);
+  const portions: LotPortion[] = [];
+
+  if (shares <= 0n || totalShares === 0n) {
+    return portions;
+  }
+
+  // Disposing of everything is the same under both methods
+  if (method === 'FIFO' || shares >= totalShares) {
+    let left = shares;
+
+    for (const lot of openLots) {
+      if (left === 0n) break;
+
+      const taken = min(lot.remainingShares, left);
+      const costBasis =
+        taken === lot.remainingShares
+          ? lot.remainingCostBasis
+          : (lot.remainingCostBasis * taken) / lot.remainingShares;
+
+      portions.push({ lotId: lot.id, acquiredAt: lot.acquiredAt, shares: taken, costBasis });
+      left -= taken;
+    }
+
+    return portions;
+  }
+
+  // Average cost: take the same fraction of every lot, then hand rounding
+  // remainders to the oldest lots that still have room
+  const totalCostBasis = openLots.reduce((sum, lot) => sum + lot.remainingCostBasis, 0n);
+  const takenShares = openLots.map((lot) => (lot.remainingShares * shares) / totalShares);
+  const takenCostBasis = openLots.map((lot) => (lot.remainingCostBasis * shares) / totalShares);
+  let leftShares = shares - takenShares.reduce((sum, taken) => sum + taken, 0n);
+  let leftCostBasis =
+    (totalCostBasis * shares) / totalShares - takenCostBasis.reduce((sum, cost) => sum + cost, 0n);
+
+  openLots.forEach((lot, index) => {
+    const extraShares = min(leftShares, lot.remainingShares - takenShares[index]);
+    const extraCostBasis = min(leftCostBasis, lot.remainingCostBasis - takenCostBasis[index]);
+    leftShares -= extraShares;
+    leftCostBasis -= extraCostBasis;
+
+    const taken = takenShares[index] + extraShares;
+    const costBasis = takenCostBasis[index] + extraCostBasis;
+
+    if (taken > 0n || costBasis > 0n) {
+      portions.push({ lotId: lot.id, acquiredAt: lot.acquiredAt, shares: taken, costBasis });
+    }
+  });
+
+  return portions;
+}
+
+function sumCostBasis(portions: LotPortion[]): bigint {
+  return portions.reduce((sum, portion) => sum + portion.costBasis, 0n);
+}
+
+// =============================================================================
+// Lot Storage
+// =============================================================================
+
+/**
+ * Seed an opening lot for a position that predates lot tracking
+ */
+async function ensureOpeningLot(address: string, db: Db): Promise<void> {
+  const lotCount = await db.positionLot.count({ where: { userAddress: address } });
+  if (lotCount > 0) return;
+
+  const position = await db.userPosition.findUnique({ where: { userAddress: address } });
+  if (!position || BigInt(position.shares.toString()) === 0n) return;
+
+  const firstTransaction = await db.transaction.findFirst({
+    where: { userAddress: address },
+    orderBy: { timestamp: 'asc' },
+    select: { timestamp: true },
+  });
+
+  await db.positionLot.create({
+    data: {
+      userAddress: address,
+      txHash: null,
+      shares: position.shares.toString(),
+      costBasis: position.costBasis.toString(),
+      remainingShares: position.shares.toString(),
+      remainingCostBasis: position.costBasis.toString(),
+      acquiredAt: firstTransaction?.timestamp ?? position.updatedAt,
+      blockNumber: 0n, // Never rolled back by a reorg
+    },
+  });
+
+  console.log(`[Lots] Seeded opening lot for ${address}`);
+}
+
+async function getOpenLots(address: string, db: Db): Promise<OpenLot[]> {
+  const lots: LotRow[] = await db.positionLot.findMany({
+    where: { userAddress: address, remainingShares: { gt: 0 } },
+    orderBy: [{ acquiredAt: 'asc' }, { createdAt: 'asc' }],
+    select: { id: true, remainingShares: true, remainingCostBasis: true, acquiredAt: true },
+  });
+
+  return lots.map((lot) => ({
+    id: lot.id,
+    remainingShares: BigInt(lot.remainingShares.toString()),
+    remainingCostBasis: BigInt(lot.remainingCostBasis.toString()),
+    acquiredAt: lot.acquiredAt,
+  }));
+}
+
+/**
+ * Select the lots a disposal consumes. Must run before the UserPosition is updated
+ * so an opening lot can still be seeded from it.
+ */
+async function selectPortions(
+  address: string,
+  shares: bigint,
+  method: CostBasisMethod,
+  db: Db
+): Promise<LotPortion[]> {
+  await ensureOpeningLot(address, db);
+
+  const portions = allocateLots(await getOpenLots(address, db), shares, method);
+  const allocated = portions.reduce((sum, portion) => sum + portion.shares, 0n);
+
+  if (allocated < shares) {
+    console.warn(
+      `[Lots] ${address} disposed of ${shares} shares but lots only cover ${allocated}; the rest has no cost basis`
+    );
+  }
+
+  return portions;
+}
+
+async function consumePortions(
+  address: string,
+  portions: LotPortion[],
+  type: 'WITHDRAW' | 'TRANSFER_OUT',
+  event: LotEvent,
+  realizedGainId: string | null,
+  db: Db
+): Promise<void> {
+  for (const portion of portions) {
+    await db.positionLot.update({
+      where: { id: portion.lotId },
+      data: {
+        remainingShares: { decrement: portion.shares.toString() },
+        remainingCostBasis: { decrement: portion.costBasis.toString() },
+      },
+    });
+  }
+
+  await db.lotDisposal.createMany({
+    data: portions.map((portion) => ({
+      lotId: portion.lotId,
+      realizedGainId,
+      userAddress: address,
+      type,
+      txHash: event.txHash,
+      logIndex: event.logIndex,
+      shares: portion.shares.toString(),
+      costBasis: portion.costBasis.toString(),
+      disposedAt: event.timestamp,
+      blockNumber: event.blockNumber,
+    })),
+  });
+}
+
+// =============================================================================
+// Position Events
+// =============================================================================
+
+/**
+ * Open a lot for a deposit. Call before updating the UserPosition.
+ */
+export async function addLot(
+  address: string,
+  shares: bigint,
+  costBasis: bigint,
+  event: LotEvent,
+  db: Db = prisma
+): Promise<void> {
+  const userAddress = address.toLowerCase();
+  await ensureOpeningLot(userAddress, db);
+
+  await db.positionLot.create({
+    data: {
+      userAddress,
+      txHash: event.txHash,
+      logIndex: event.logIndex,
+      shares: shares.toString(),
+      costBasis: costBasis.toString(),
+      remainingShares: shares.toString(),
+      remainingCostBasis: costBasis.toString(),
+      acquiredAt: event.timestamp,
+      blockNumber: event.blockNumber,
+    },
+  });
+}
+
+/**
+ * Consume lots for a withdrawal and store its realized gain. Call before updating
+ * the UserPosition.
+ * @param db Transaction to run in, so the lots change together with the position
+ */
+export async function recordWithdrawal(
+  address: string,
+  shares: bigint,
+  proceeds: bigint,
+  event: LotEvent,
+  db: Db = prisma
+): Promise<WithdrawalGain> {
+  const userAddress = address.toLowerCase();
+  const method = await getCostBasisMethod(userAddress, db);
+  const portions = await selectPortions(userAddress, shares, method, db);
+  const costBasis = sumCostBasis(portions);
+  const gain = proceeds - costBasis;
+
+  const realizedGain = await db.realizedGain.create({
+    data: {
+      userAddress,
+      txHash: event.txHash,
+      logIndex: event.logIndex,
+      method,
+      shares: shares.toString(),
+      proceeds: proceeds.toString(),
+      costBasis: costBasis.toString(),
+      gain: gain.toString(),
+      realizedAt: event.timestamp,
+      blockNumber: event.blockNumber,
+    },
+  });
+
+  await consumePortions(userAddress, portions, 'WITHDRAW', event, realizedGain.id, db);
+
+  return { method, costBasis, gain };
+}
+
+/**
+ * Move lots for a share transfer using the sender's method. Call before updating
+ * either UserPosition.
+ * @returns The cost basis moved to the receiver
+ */
+export async function transferLots(
+  fromAddress: string,
+  toAddress: string,
+  shares: bigint,
+  event: LotEvent,
+  db: Db = prisma
+): Promise<bigint> {
+  const sender = fromAddress.toLowerCase();
+  const receiver = toAddress.toLowerCase();
+  const method = await getCostBasisMethod(sender, db);
+  const portions = await selectPortions(sender, shares, method, db);
+
+  await ensureOpeningLot(receiver, db);
+  await consumePortions(sender, portions, 'TRANSFER_OUT', event, null, db);
+
+  await db.positionLot.createMany({
+    data: portions.map((portion) => ({
+      userAddress: receiver,
+      txHash: event.txHash,
+      logIndex: event.logIndex,
+      shares: portion.shares.toString(),
+      costBasis: portion.costBasis.toString(),
+      remainingShares: portion.shares.toString(),
+      remainingCostBasis: portion.costBasis.toString(),
+      acquiredAt: portion.acquiredAt,
+      blockNumber: event.blockNumber,
+    })),
+  });
+
+  return sumCostBasis(portions);
+}
+
+/**
+ * Undo lot changes from orphaned blocks: restore consumed lots, then remove
+ * disposals, realized gains and lots created at or after `fromBlock`
+ * @param db Transaction to run in, so the lots roll back together with the positions
+ */
+export async function revertLots(fromBlock: bigint, db: Db = prisma): Promise<void> {
+  const disposals: { lotId: string; shares: DecimalLike; costBasis: DecimalLike }[] =
+    await db.lotDisposal.findMany({
+      where: { blockNumber: { gte: fromBlock } },
+      select: { lotId: true, shares: true, costBasis: true },
+    });
+
+  for (const disposal of disposals) {
+    await db.positionLot.update({
+      where: { id: disposal.lotId },
+      data: {
+        remainingShares: { increment: disposal.shares.toString() },
+        remainingCostBasis: { increment: disposal.costBasis.toString() },
+      },
+    });
+  }
+
+  await db.lotDisposal.deleteMany({ where: { blockNumber: { gte: fromBlock } } });
+  await db.realizedGain.deleteMany({ where: { blockNumber: { gte: fromBlock } } });
+  await db.positionLot.deleteMany({ where: { blockNumber: { gte: fromBlock } } });
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+function realizedGainFilter(address: string, startDate?: Date, endDate?: Date) {
+  return {
+    userAddress: address.toLowerCase(),
+    ...(startDate || endDate
+      ? {
+          realizedAt: {
+            ...(startDate ? { gte: startDate } : {}),
+            ...(endDate ? { lte: endDate } : {}),
+          },
+        }
+      : {}),
+  };
+}
+
+/**
+ * A wallet's realized gains in a period with the acquisition date range of the
+ * lots each withdrawal consumed, oldest first
+ */
+export async function getRealizedGains(
+  address: string,
+  startDate?: Date,
+  endDate?: Date
+): Promise<RealizedGainRecord[]> {
+  const gains: RealizedGainRow[] = await prisma.realizedGain.findMany({
+    where: realizedGainFilter(address, startDate, endDate),
+    orderBy: [{ realizedAt: 'asc' }, { logIndex: 'asc' }],
+    include: { disposals: { select: { lot: { select: { acquiredAt: true } } } } },
+  });
+
+  return gains.map((row) => {
+    const acquired = row.disposals.map((disposal) => disposal.lot.acquiredAt.getTime());
+
+    return {
+      txHash: row.txHash,
+      method: row.method,
+      shares: BigInt(row.shares.toString()),
+      proceeds: BigInt(row.proceeds.toString()),
+      costBasis: BigInt(row.costBasis.toString()),
+      gain: BigInt(row.gain.toString()),
+      realizedAt: row.realizedAt,
+      acquiredFrom: acquired.length > 0 ? new Date(Math.min(...acquired)) : null,
+      acquiredTo: acquired.length > 0 ? new Date(Math.max(...acquired)) : null,
+    };
+  });
+}
+
+/**
+ * Totals of the gains realized by a wallet's withdrawals in a period
+ */
+export async function getRealizedGainSummary(
+  address: string,
+  startDate?: Date,
+  endDate?: Date
+): Promise<RealizedGainSummary> {
+  const gains: { proceeds: DecimalLike; costBasis: DecimalLike; gain: DecimalLike }[] =
+    await prisma.realizedGain.findMany({
+      where: realizedGainFilter(address, startDate, endDate),
+      select: { proceeds: true, costBasis: true, gain: true },
+    });
+
+  return gains.reduce<RealizedGainSummary>(
+    (summary, row) => ({
+      withdrawals: summary.withdrawals + 1,
+      proceeds: summary.proceeds + BigInt(row.proceeds.toString()),
+      costBasis: summary.costBasis + BigInt(row.costBasis.toString()),
+      gain: summary.gain + BigInt(row.gain.toString()),
+    }),
+    { withdrawals: 0, proceeds: 0n, costBasis: 0n, gain: 0n }
+  );
+}
+
+export default {
+  getCostBasisMethod,
+  setCostBasisMethod,
+  allocateLots,
+  addLot,
+  recordWithdrawal,
+  transferLots,
+  revertLots,
+  getRealizedGains,
+  getRealizedGainSummary,
+};
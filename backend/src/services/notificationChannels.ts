@@ -0,0 +1,253 @@
+/**
+ * Notification Channels
+ * Delivery implementations for user notifications
+ *
+ * Each channel resolves a destination from the user's NotificationPreference
+ * and sends a rendered message to it:
+ * - EMAIL: verified email address via Resend
+ * - TELEGRAM: chat id that has started the bot (TELEGRAM_BOT_TOKEN)
+ * - DISCORD: channel webhook URL
+ * - WEBHOOK: generic HTTPS endpoint receiving a JSON POST
+ */
+
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import type { NotificationChannel, NotificationType } from '@prisma/client';
+import { sendEmail, type SendResult } from './emailService.js';
+import { sendTelegramMessage } from './telegramService.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface NotificationMessage {
+  userAddress: string;
+  type: NotificationType;
+  subject: string;
+  text: string;
+  html: string;
+  data: Record<string, unknown>;
+}
+
+export interface ChannelPreferences {
+  email: string | null;
+  emailVerified: boolean;
+  telegramChatId: string | null;
+  discordWebhookUrl: string | null;
+  webhookUrl: string | null;
+}
+
+export interface NotificationChannelSender {
+  channel: NotificationChannel;
+  /**
+   * Destination for this user, or null when the channel isn't set up
+   */
+  getRecipient(preferences: ChannelPreferences): string | null;
+  /**
+   * Recipient as stored in NotificationLog (webhook secrets stripped)
+   */
+  describeRecipient(recipient: string): string;
+  send(recipient: string, message: NotificationMessage): Promise<SendResult>;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = [
+  'EMAIL',
+  'TELEGRAM',
+  'DISCORD',
+  'WEBHOOK',
+];
+
+export const TELEGRAM_CHAT_ID_REGEX = /^-?[0-9]{1,20}$/;
+export const DISCORD_WEBHOOK_REGEX =
+  /^https:\/\/(?:canary\.|ptb\.)?(?:discord|discordapp)\.com\/api\/webhooks\/\d+\/[\w-]+$/;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const DISCORD_EMBED_COLOR = 0x1a1a2e;
+
+// Loopback, private, link-local and other non-routable ranges webhooks must not reach.
+// IPv4-mapped IPv6 addresses are matched against the IPv4 ranges.
+const NON_PUBLIC_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+];
+const NON_PUBLIC_IPV6_RANGES: [string, number][] = [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+];
+
+const nonPublicAddresses = new BlockList();
+for (const [network, prefix] of NON_PUBLIC_IPV4_RANGES) {
+  nonPublicAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of NON_PUBLIC_IPV6_RANGES) {
+  nonPublicAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && !nonPublicAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+// URL.hostname keeps the brackets around IPv6 literals
+function hostOf(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, '');
+}
+
+/**
+ * Whether a user-supplied webhook URL is an acceptable HTTPS endpoint.
+ * Rejects localhost and IP literals outside public address space; hostnames
+ * are re-checked by resolvesToPublicAddress before each delivery.
+ */
+export function isValidWebhookUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    const host = hostOf(parsed).toLowerCase();
+
+    if (parsed.protocol !== 'https:' || parsed.username || parsed.password) return false;
+    if (host === 'localhost' || host.endsWith('.localhost')) return false;
+
+    return isIP(host) === 0 || isPublicAddress(host);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether every address a webhook URL's host resolves to is public, so a
+ * hostname can't be pointed at internal services after it was accepted
+ */
+export async function resolvesToPublicAddress(url: string): Promise<boolean> {
+  try {
+    const host = hostOf(new URL(url));
+    const addresses = isIP(host) ? [{ address: host }] : await lookup(host, { all: true });
+
+    return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * POST a JSON body and map the response to a SendResult
+ */
+async function postJson(url: string, body: unknown): Promise<SendResult> {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      // A redirect could lead to an internal address
+      redirect: 'error',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      return { success: false, error: `HTTP ${response.status}: ${await response.text()}` };
+    }
+
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+// =============================================================================
+// Channel Implementations
+// =============================================================================
+
+const emailChannel: NotificationChannelSender = {
+  channel: 'EMAIL',
+  getRecipient: (preferences) =>
+    preferences.email && preferences.emailVerified ? preferences.email : null,
+  describeRecipient: (recipient) => recipient,
+  send: (recipient, message) =>
+    sendEmail({
+      to: recipient,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+    }),
+};
+
+const telegramChannel: NotificationChannelSender = {
+  channel: 'TELEGRAM',
+  getRecipient: (preferences) => preferences.telegramChatId,
+  describeRecipient: (recipient) => recipient,
+  send: (recipient, message) =>
+    sendTelegramMessage(recipient, `${message.subject}\n\n${message.text}`),
+};
+
+const discordChannel: NotificationChannelSender = {
+  channel: 'DISCORD',
+  getRecipient: (preferences) => preferences.discordWebhookUrl,
+  // Drop the webhook token: .../api/webhooks/<id>/<token>
+  describeRecipient: (recipient) => recipient.replace(/\/[^/]+$/, ''),
+  send: (recipient, message) =>
+    postJson(recipient, {
+      username: 'Paimon Yield',
+      embeds: [
+        {
+          title: message.subject,
+          description: message.text,
+          color: DISCORD_EMBED_COLOR,
+          timestamp: new Date().toISOString(),
+        },
+      ],
+    }),
+};
+
+const webhookChannel: NotificationChannelSender = {
+  channel: 'WEBHOOK',
+  getRecipient: (preferences) => preferences.webhookUrl,
+  // Keep only the origin and path; query strings often carry secrets
+  describeRecipient: (recipient) => {
+    const url = new URL(recipient);
+    return `${url.origin}${url.pathname}`;
+  },
+  send: async (recipient, message) => {
+    if (!(await resolvesToPublicAddress(recipient))) {
+      return { success: false, error: 'Webhook host does not resolve to a public address' };
+    }
+
+    return postJson(recipient, {
+      type: message.type,
+      userAddress: message.userAddress,
+      subject: message.subject,
+      text: message.text,
+      data: message.data,
+      timestamp: new Date().toISOString(),
+    });
+  },
+};
+
+export const notificationChannels: Record<NotificationChannel, NotificationChannelSender> = {
+  EMAIL: emailChannel,
+  TELEGRAM: telegramChannel,
+  DISCORD: discordChannel,
+  WEBHOOK: webhookChannel,
+};
+
+export default {
+  notificationChannels,
+  isValidWebhookUrl,
+  resolvesToPublicAddress,
+};
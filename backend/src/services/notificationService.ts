@@ -0,0 +1,269 @@
+/**
+ * Notification Service
+ * Delivers user notifications across every channel the user has enabled
+ *
+ * Each delivery attempt gets its own NotificationLog entry (one per channel),
+ * so a failed Discord webhook doesn't hide a successful email.
+ * Users on a daily or weekly digest get routine emails in their digest instead.
+ */
+
+import { prisma } from './database.js';
+import { generateEmailContent } from './emailService.js';
+import { addPendingDigestEvent, shouldHoldForDigest } from './digestService.js';
+import {
+  notificationChannels,
+  type ChannelPreferences,
+  type NotificationMessage,
+} from './notificationChannels.js';
+import type { DigestFrequency, NotificationChannel, NotificationType } from '@prisma/client';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface NotificationContext {
+  userAddress: string;
+  type: NotificationType;
+  data: Record<string, unknown>;
+}
+
+export interface ChannelDelivery {
+  channel: NotificationChannel;
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+export interface NotificationResult {
+  success: boolean;
+  deliveries: ChannelDelivery[];
+  /**
+   * The email was held for the user's next digest
+   */
+  heldForDigest?: boolean;
+  error?: string;
+}
+
+type PreferenceRow = ChannelPreferences & {
+  userAddress: string;
+  withdrawalAlert: boolean;
+  rebalanceAlert: boolean;
+  emergencyAlert: boolean;
+  channels: NotificationChannel[];
+  digestFrequency: DigestFrequency;
+};
+
+// =============================================================================
+// Delivery
+// =============================================================================
+
+/**
+ * Send a notification to a user on each enabled, configured channel
+ * Succeeds when at least one channel delivered it
+ */
+export async function sendNotification(context: NotificationContext): Promise<NotificationResult> {
+  const { userAddress, type, data } = context;
+
+  const preferences: PreferenceRow | null = await prisma.notificationPreference.findUnique({
+    where: { userAddress: userAddress.toLowerCase() },
+  });
+
+  if (!preferences) {
+    console.log(`[NotificationService] User ${userAddress} has no preferences, skipping`);
+    return { success: false, deliveries: [], error: 'No notification preferences' };
+  }
+
+  if (!isAlertEnabled(preferences, type)) {
+    console.log(`[NotificationService] User ${userAddress} disabled ${type} alerts, skipping`);
+    return { success: false, deliveries: [], error: 'Alert type disabled' };
+  }
+
+  const content = generateEmailContent(type, data);
+  if (!content) {
+    return { success: false, deliveries: [], error: 'Unknown notification type' };
+  }
+
+  const targets = getDeliveryTargets(preferences);
+  if (targets.length === 0) {
+    console.log(`[NotificationService] User ${userAddress} has no configured channel, skipping`);
+    return { success: false, deliveries: [], error: 'No notification channel configured' };
+  }
+
+  const message: NotificationMessage = {
+    userAddress: preferences.userAddress,
+    type,
+    data,
+    ...content,
+  };
+
+  const deliveries: ChannelDelivery[] = [];
+  let heldForDigest = false;
+
+  for (const { channel, recipient } of targets) {
+    if (channel === 'EMAIL' && shouldHoldForDigest(preferences.digestFrequency, type)) {
+      await addPendingDigestEvent(message);
+      heldForDigest = true;
+      continue;
+    }
+
+    deliveries.push(await deliver(channel, recipient, message));
+  }
+
+  const success = heldForDigest || deliveries.some((delivery) => delivery.success);
+  return {
+    success,
+    deliveries,
+    ...(heldForDigest && { heldForDigest }),
+    error: success ? undefined : 'All channels failed',
+  };
+}
+
+/**
+ * Resolve the enabled channels that have a destination configured
+ */
+export function getDeliveryTargets(
+  preferences: ChannelPreferences & { channels: NotificationChannel[] }
+): { channel: NotificationChannel; recipient: string }[] {
+  return preferences.channels.flatMap((channel) => {
+    const recipient = notificationChannels[channel].getRecipient(preferences);
+    return recipient ? [{ channel, recipient }] : [];
+  });
+}
+
+/**
+ * Send through one channel, recording the attempt in NotificationLog
+ */
+async function deliver(
+  channel: NotificationChannel,
+  recipient: string,
+  message: NotificationMessage
+): Promise<ChannelDelivery> {
+  const sender = notificationChannels[channel];
+
+  const logEntry: { id: string } = await prisma.notificationLog.create({
+    data: {
+      userAddress: message.userAddress,
+      type: message.type,
+      channel,
+      recipient: sender.describeRecipient(recipient),
+      subject: message.subject,
+      status: 'PENDING',
+    },
+  });
+
+  const result = await sender.send(recipient, message);
+
+  await prisma.notificationLog.update({
+    where: { id: logEntry.id },
+    data: {
+      status: result.success ? 'SENT' : 'FAILED',
+      errorMessage: result.error,
+      sentAt: result.success ? new Date() : null,
+    },
+  });
+
+  if (!result.success) {
+    console.error(
+      `[NotificationService] ${channel} delivery to ${message.userAddress} failed:`,
+      result.error
+    );
+  }
+
+  return { channel, success: result.success, messageId: result.messageId, error: result.error };
+}
+
+/**
+ * Send notification to all users with a specific alert enabled
+ */
+export async function broadcastNotification(
+  type: NotificationType,
+  data: Record<string, unknown>
+): Promise<{ sent: number; failed: number }> {
+  const alertField = getAlertField(type);
+  if (!alertField) {
+    return { sent: 0, failed: 0 };
+  }
+
+  // Users with the alert enabled and at least one channel they can be reached on
+  const preferences: { userAddress: string }[] = await prisma.notificationPreference.findMany({
+    where: {
+      [alertField]: true,
+      OR: [
+        { channels: { has: 'EMAIL' }, emailVerified: true, email: { not: null } },
+        { channels: { has: 'TELEGRAM' }, telegramChatId: { not: null } },
+        { channels: { has: 'DISCORD' }, discordWebhookUrl: { not: null } },
+        { channels: { has: 'WEBHOOK' }, webhookUrl: { not: null } },
+      ],
+    },
+    select: { userAddress: true },
+  });
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const pref of preferences) {
+    const result = await sendNotification({
+      userAddress: pref.userAddress,
+      type,
+      data,
+    });
+
+    if (result.success) {
+      sent++;
+    } else {
+      failed++;
+    }
+  }
+
+  console.log(`[NotificationService] Broadcast ${type}: sent=${sent}, failed=${failed}`);
+  return { sent, failed };
+}
+
+// =============================================================================
+// Alert Settings
+// =============================================================================
+
+/**
+ * Check if a specific alert type is enabled for a user
+ */
+function isAlertEnabled(
+  preferences: {
+    withdrawalAlert: boolean;
+    rebalanceAlert: boolean;
+    emergencyAlert: boolean;
+  },
+  type: NotificationType
+): boolean {
+  // Users opt into threshold alerts by creating the rule
+  if (type === 'THRESHOLD_ALERT') {
+    return true;
+  }
+
+  const alertField = getAlertField(type);
+  return alertField ? preferences[alertField] : false;
+}
+
+/**
+ * Get the alert field name for a notification type
+ */
+function getAlertField(
+  type: NotificationType
+): 'withdrawalAlert' | 'rebalanceAlert' | 'emergencyAlert' | null {
+  switch (type) {
+    case 'WITHDRAWAL_COMPLETE':
+      return 'withdrawalAlert';
+    case 'REBALANCE_EXECUTED':
+      return 'rebalanceAlert';
+    case 'EMERGENCY_PAUSE':
+    case 'CIRCUIT_BREAKER':
+      return 'emergencyAlert';
+    default:
+      return null;
+  }
+}
+
+export default {
+  sendNotification,
+  broadcastNotification,
+  getDeliveryTargets,
+};
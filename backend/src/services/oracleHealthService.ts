@@ -0,0 +1,344 @@
+/**
+ * Oracle Health Service
+ * Monitors OracleAdapter prices and raises incidents for admins
+ *
+ * For every asset configured on the adapter this service checks:
+ * - Staleness: the adapter's own isPriceStale() against its per-asset threshold
+ * - Divergence: primary vs backup oracle price above ORACLE_DIVERGENCE_THRESHOLD_BPS
+ * - Jumps: the latest price vs the previous indexed PriceFeed reading above
+ *   ORACLE_JUMP_THRESHOLD_BPS
+ *
+ * Each (token, check) pair has at most one OPEN OracleIncident. Admins are alerted
+ * when an incident opens; repeats only bump lastSeenAt, and the incident is resolved
+ * once the check passes again.
+ */
+
+import { zeroAddress, type Address } from 'viem';
+import { prisma } from './database.js';
+import { publicClient } from './blockchain.js';
+import { sendAdminAlert } from './adminAlertService.js';
+import { getOracleAdapterAddress, ORACLE_ADAPTER_ABI, ORACLE_SOURCES } from './oracleService.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type OracleIncidentType = 'STALE_PRICE' | 'SOURCE_DIVERGENCE' | 'PRICE_JUMP';
+
+export interface OracleHealthCheck {
+  type: OracleIncidentType;
+  breached: boolean;
+  message: string;
+  details: Record<string, string | number | null>;
+}
+
+export interface OracleHealthResult {
+  assets: number;
+  opened: number; // New incidents (alerted)
+  ongoing: number; // Still-open incidents seen again
+  resolved: number;
+  errors: string[];
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DEFAULT_DIVERGENCE_THRESHOLD_BPS = 200; // 2%
+const DEFAULT_JUMP_THRESHOLD_BPS = 1000; // 10%
+
+export function getDivergenceThresholdBps(): number {
+  return Number(process.env.ORACLE_DIVERGENCE_THRESHOLD_BPS) || DEFAULT_DIVERGENCE_THRESHOLD_BPS;
+}
+
+export function getJumpThresholdBps(): number {
+  return Number(process.env.ORACLE_JUMP_THRESHOLD_BPS) || DEFAULT_JUMP_THRESHOLD_BPS;
+}
+
+// APROOracle and ChainlinkOracle both implement IPriceOracle.getPriceWithTimestamp
+const PRICE_ORACLE_ABI = [
+  {
+    name: 'getPriceWithTimestamp',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'asset', type: 'address' }],
+    outputs: [
+      { name: 'price', type: 'uint256' },
+      { name: 'updatedAt', type: 'uint256' },
+    ],
+  },
+] as const;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Absolute difference between two prices in basis points of the reference price
+ */
+export function deviationBps(price: bigint, reference: bigint): number {
+  if (reference === 0n) return price === 0n ? 0 : Infinity;
+  const diff = price > reference ? price - reference : reference - price;
+  return Number((diff * 10000n) / reference);
+}
+
+async function readOraclePrice(
+  oracle: Address,
+  asset: Address,
+  blockNumber: bigint
+): Promise<bigint | null> {
+  try {
+    const [price] = await publicClient.readContract({
+      address: oracle,
+      abi: PRICE_ORACLE_ABI,
+      functionName: 'getPriceWithTimestamp',
+      args: [asset],
+      blockNumber,
+    });
+    return price;
+  } catch {
+    return null; // Unavailable oracles are the adapter's failover problem, not a divergence
+  }
+}
+
+function formatAlertMessage(tokenAddress: string, check: OracleHealthCheck): string {
+  const label: Record<OracleIncidentType, string> = {
+    STALE_PRICE: '⏳ STALE PRICE',
+    SOURCE_DIVERGENCE: '↔️ ORACLE DIVERGENCE',
+    PRICE_JUMP: '📈 PRICE JUMP',
+  };
+
+  return `
+🚨 ORACLE ALERT ${label[check.type]}
+
+🪙 Token: ${tokenAddress}
+📋 ${check.message}
+⏰ Time: ${new Date().toISOString()}
+
+Please check the oracle feeds before the next rebalance.
+`.trim();
+}
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+/**
+ * Run all health checks for one asset at the given block
+ */
+export async function checkAssetHealth(
+  adapter: Address,
+  asset: Address,
+  blockNumber: bigint
+): Promise<OracleHealthCheck[]> {
+  const tokenAddress = asset.toLowerCase();
+  const read = { address: adapter, abi: ORACLE_ADAPTER_ABI, args: [asset], blockNumber } as const;
+
+  const [[price, updatedAt, sourceId], isStale, threshold, config] = await Promise.all([
+    publicClient.readContract({ ...read, functionName: 'getPriceWithSource' }),
+    publicClient.readContract({ ...read, functionName: 'isPriceStale' }),
+    publicClient.readContract({ ...read, functionName: 'getStalenessThreshold' }),
+    publicClient.readContract({ ...read, functionName: 'getOracleConfig' }),
+  ]);
+
+  const source = ORACLE_SOURCES[sourceId] ?? null;
+  const updatedAtDate = new Date(Number(updatedAt) * 1000);
+  const checks: OracleHealthCheck[] = [];
+
+  // Staleness
+  const ageSeconds = Math.max(0, Math.floor(Date.now() / 1000) - Number(updatedAt));
+  checks.push({
+    type: 'STALE_PRICE',
+    breached: isStale,
+    message: `Price is ${ageSeconds}s old (threshold ${threshold.toString()}s)`,
+    details: {
+      price: price.toString(),
+      source,
+      updatedAt: updatedAtDate.toISOString(),
+      ageSeconds,
+      thresholdSeconds: threshold.toString(),
+    },
+  });
+
+  // Primary vs backup divergence
+  if (config.backupOracle !== zeroAddress) {
+    const [primaryPrice, backupPrice] = await Promise.all([
+      readOraclePrice(config.primaryOracle, asset, blockNumber),
+      readOraclePrice(config.backupOracle, asset, blockNumber),
+    ]);
+
+    if (primaryPrice !== null && backupPrice !== null) {
+      const thresholdBps = getDivergenceThresholdBps();
+      const bps = deviationBps(backupPrice, primaryPrice);
+
+      checks.push({
+        type: 'SOURCE_DIVERGENCE',
+        breached: bps > thresholdBps,
+        message: `Backup oracle differs from primary by ${bps} bps (threshold ${thresholdBps} bps)`,
+        details: {
+          primaryPrice: primaryPrice.toString(),
+          backupPrice: backupPrice.toString(),
+          deviationBps: bps,
+          thresholdBps,
+        },
+      });
+    }
+  }
+
+  // Sudden jump against the last indexed reading before this update
+  const previous = await prisma.priceFeed.findFirst({
+    where: { tokenAddress, timestamp: { lt: updatedAtDate } },
+    orderBy: { timestamp: 'desc' },
+    select: { price: true, timestamp: true },
+  });
+
+  if (previous) {
+    const previousPrice = BigInt(previous.price.toString());
+    const thresholdBps = getJumpThresholdBps();
+    const bps = deviationBps(price, previousPrice);
+
+    checks.push({
+      type: 'PRICE_JUMP',
+      breached: bps > thresholdBps,
+      message: `Price moved ${bps} bps since ${previous.timestamp.toISOString()} (threshold ${thresholdBps} bps)`,
+      details: {
+        price: price.toString(),
+        previousPrice: previousPrice.toString(),
+        previousTimestamp: previous.timestamp.toISOString(),
+        updatedAt: updatedAtDate.toISOString(),
+        deviationBps: bps,
+        thresholdBps,
+      },
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * Open, refresh or resolve the incident for one check result
+ */
+async function recordCheck(
+  tokenAddress: string,
+  check: OracleHealthCheck,
+  result: OracleHealthResult
+): Promise<void> {
+  const open = await prisma.oracleIncident.findFirst({
+    where: { tokenAddress, type: check.type, status: 'OPEN' },
+    select: { id: true },
+  });
+
+  if (!check.breached) {
+    if (open) {
+      await prisma.oracleIncident.update({
+        where: { id: open.id },
+        data: { status: 'RESOLVED', resolvedAt: new Date() },
+      });
+      result.resolved++;
+      console.log(`[OracleHealth] ${check.type} resolved for ${tokenAddress}`);
+    }
+    return;
+  }
+
+  if (open) {
+    await prisma.oracleIncident.update({
+      where: { id: open.id },
+      data: { lastSeenAt: new Date(), details: check.details },
+    });
+    result.ongoing++;
+    return;
+  }
+
+  const incident = await prisma.oracleIncident.create({
+    data: {
+      tokenAddress,
+      type: check.type,
+      message: check.message.slice(0, 255),
+      details: check.details,
+    },
+  });
+  result.opened++;
+
+  await sendAdminAlert(
+    'ORACLE_ALERT',
+    {
+      incidentId: incident.id,
+      tokenAddress,
+      incidentType: check.type,
+      message: check.message,
+      ...check.details,
+      timestamp: new Date().toISOString(),
+    },
+    formatAlertMessage(tokenAddress, check)
+  );
+}
+
+// =============================================================================
+// Monitor
+// =============================================================================
+
+/**
+ * Check every configured asset and record incidents. A failed read for one asset
+ * is reported in errors and does not stop the others.
+ */
+export async function runOracleHealthChecks(): Promise<OracleHealthResult> {
+  const adapter = await getOracleAdapterAddress();
+
+  if (!adapter) {
+    throw new Error('OracleAdapter address not configured');
+  }
+
+  const blockNumber = await publicClient.getBlockNumber();
+  const assets = await publicClient.readContract({
+    address: adapter,
+    abi: ORACLE_ADAPTER_ABI,
+    functionName: 'getConfiguredAssets',
+    blockNumber,
+  });
+
+  const result: OracleHealthResult = {
+    assets: assets.length,
+    opened: 0,
+    ongoing: 0,
+    resolved: 0,
+    errors: [],
+  };
+
+  for (const asset of assets) {
+    const tokenAddress = asset.toLowerCase();
+
+    try {
+      const checks = await checkAssetHealth(adapter, asset, blockNumber);
+
+      for (const check of checks) {
+        await recordCheck(tokenAddress, check, result);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      result.errors.push(`${tokenAddress}: ${message}`);
+      console.error(`[OracleHealth] Failed to check ${tokenAddress}:`, message);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Incidents that are still open, newest first
+ */
+export function getOpenOracleIncidents(tokenAddress?: string) {
+  return prisma.oracleIncident.findMany({
+    where: {
+      status: 'OPEN',
+      ...(tokenAddress ? { tokenAddress: tokenAddress.toLowerCase() } : {}),
+    },
+    orderBy: { detectedAt: 'desc' },
+  });
+}
+
+export default {
+  runOracleHealthChecks,
+  checkAssetHealth,
+  getOpenOracleIncidents,
+  deviationBps,
+};
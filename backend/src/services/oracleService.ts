@@ -0,0 +1,421 @@
+/**
+ * Oracle Price Service
+ * Indexes OracleAdapter prices into PriceFeed and serves OHLC candles for charts
+ *
+ * This service:
+ * - Reads getPriceWithSource for every asset configured on the OracleAdapter
+ * - Stores one PriceFeed row per oracle update (keyed by the oracle's updatedAt)
+ * - Records OracleFailover logs, and source switches between two readings, since the
+ *   adapter fails over inside view calls where it cannot emit the event
+ * - Buckets stored prices into OHLC candles
+ *
+ * ORACLE_ADAPTER_ADDRESS overrides the adapter the vault points at.
+ */
+
+import { parseAbiItem, type Address } from 'viem';
+import { prisma } from './database.js';
+import { publicClient, contracts } from './blockchain.js';
+import { env } from '../config/env.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type PriceSource = 'APRO' | 'CHAINLINK' | 'MANUAL';
+
+export type CandleInterval = '5m' | '1h' | '4h' | '1d' | '1w';
+
+export interface PriceIndexResult {
+  assets: number;
+  indexed: number;
+  unchanged: number;
+  failovers: number;
+  errors: string[];
+}
+
+export interface PriceCandle {
+  time: string; // Bucket start
+  open: string; // USD, 18 decimals
+  high: string;
+  low: string;
+  close: string;
+  source: PriceSource; // Source of the close
+  samples: number;
+}
+
+export class PriceQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PriceQueryError';
+  }
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const CANDLE_INTERVALS: Record<CandleInterval, number> = {
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '1w': 7 * 24 * 60 * 60 * 1000,
+};
+
+export const MAX_CANDLES = 1000;
+
+const FAILOVER_EVENT_SET = 'oracle-failover';
+const MAX_LOG_RANGE = 5000n; // Public BSC RPCs reject larger getLogs ranges
+
+// IOracleAdapter.OracleSource: NONE, PRIMARY (APRO/API3), BACKUP (Chainlink)
+export const ORACLE_SOURCES: (PriceSource | null)[] = [null, 'APRO', 'CHAINLINK'];
+
+export const ORACLE_ADAPTER_ABI = [
+  {
+    name: 'getConfiguredAssets',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: 'assets', type: 'address[]' }],
+  },
+  {
+    name: 'getPriceWithSource',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'asset', type: 'address' }],
+    outputs: [
+      { name: 'price', type: 'uint256' },
+      { name: 'updatedAt', type: 'uint256' },
+      { name: 'source', type: 'uint8' },
+    ],
+  },
+  {
+    name: 'isPriceStale',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'asset', type: 'address' }],
+    outputs: [{ name: 'isStale', type: 'bool' }],
+  },
+  {
+    name: 'getStalenessThreshold',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'asset', type: 'address' }],
+    outputs: [{ name: 'threshold', type: 'uint256' }],
+  },
+  {
+    name: 'getOracleConfig',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'asset', type: 'address' }],
+    outputs: [
+      {
+        name: 'config',
+        type: 'tuple',
+        components: [
+          { name: 'primaryOracle', type: 'address' },
+          { name: 'backupOracle', type: 'address' },
+          { name: 'stalenessThreshold', type: 'uint256' },
+          { name: 'isConfigured', type: 'bool' },
+        ],
+      },
+    ],
+  },
+] as const;
+
+const VAULT_ORACLE_ABI = [
+  {
+    name: 'oracleAdapter',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+] as const;
+
+const ORACLE_FAILOVER_EVENT = parseAbiItem(
+  'event OracleFailover(address indexed asset, uint8 fromSource, uint8 toSource, string reason)'
+);
+
+let vaultOracleAdapter: Address | null = null;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * OracleAdapter address from ORACLE_ADAPTER_ADDRESS, or the one the vault uses
+ */
+export async function getOracleAdapterAddress(): Promise<Address | null> {
+  if (process.env.ORACLE_ADAPTER_ADDRESS) {
+    return process.env.ORACLE_ADAPTER_ADDRESS as Address;
+  }
+
+  if (!contracts.pngyVault) return null;
+
+  if (!vaultOracleAdapter) {
+    vaultOracleAdapter = await publicClient.readContract({
+      address: contracts.pngyVault,
+      abi: VAULT_ORACLE_ABI,
+      functionName: 'oracleAdapter',
+    });
+  }
+
+  return vaultOracleAdapter;
+}
+
+export function isOracleIndexerConfigured(): boolean {
+  return Boolean(process.env.ORACLE_ADAPTER_ADDRESS || contracts.pngyVault);
+}
+
+// =============================================================================
+// Indexing
+// =============================================================================
+
+/**
+ * Store the current price of every configured asset. Readings with an updatedAt that
+ * is already stored are skipped, so polling faster than the oracle updates is harmless.
+ */
+export async function indexOraclePrices(): Promise<PriceIndexResult> {
+  const adapter = await getOracleAdapterAddress();
+
+  if (!adapter) {
+    throw new Error('OracleAdapter address not configured');
+  }
+
+  const blockNumber = await publicClient.getBlockNumber();
+  const assets = await publicClient.readContract({
+    address: adapter,
+    abi: ORACLE_ADAPTER_ABI,
+    functionName: 'getConfiguredAssets',
+    blockNumber,
+  });
+
+  const result: PriceIndexResult = {
+    assets: assets.length,
+    indexed: 0,
+    unchanged: 0,
+    failovers: 0,
+    errors: [],
+  };
+
+  for (const asset of assets) {
+    const tokenAddress = asset.toLowerCase();
+
+    try {
+      const [price, updatedAt, sourceId] = await publicClient.readContract({
+        address: adapter,
+        abi: ORACLE_ADAPTER_ABI,
+        functionName: 'getPriceWithSource',
+        args: [asset],
+        blockNumber,
+      });
+
+      const source = ORACLE_SOURCES[sourceId] ?? null;
+      if (!source) {
+        throw new Error('No oracle source configured');
+      }
+
+      const timestamp = new Date(Number(updatedAt) * 1000);
+
+      const existing = await prisma.priceFeed.findUnique({
+        where: { tokenAddress_timestamp: { tokenAddress, timestamp } },
+        select: { id: true },
+      });
+
+      if (existing) {
+        result.unchanged++;
+        continue;
+      }
+
+      const previous = await prisma.priceFeed.findFirst({
+        where: { tokenAddress },
+        orderBy: { timestamp: 'desc' },
+        select: { source: true },
+      });
+
+      await prisma.priceFeed.create({
+        data: { tokenAddress, price: price.toString(), source, blockNumber, timestamp },
+      });
+      result.indexed++;
+
+      if (previous && previous.source !== source) {
+        await prisma.oracleFailover.create({
+          data: {
+            tokenAddress,
+            fromSource: previous.source,
+            toSource: source,
+            reason: `Price source changed from ${previous.source} to ${source}`,
+            blockNumber,
+            timestamp,
+          },
+        });
+        result.failovers++;
+        console.warn(
+          `[OracleService] ${tokenAddress} switched from ${previous.source} to ${source}`
+        );
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      result.errors.push(`${tokenAddress}: ${message}`);
+      console.error(`[OracleService] Failed to index price for ${tokenAddress}:`, message);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Index OracleFailover logs emitted by the adapter since the last checkpoint,
+ * at most MAX_LOG_RANGE confirmed blocks per call
+ */
+export async function indexOracleFailoverLogs(): Promise<number> {
+  const adapter = await getOracleAdapterAddress();
+
+  if (!adapter) {
+    throw new Error('OracleAdapter address not configured');
+  }
+
+  const checkpointKey = { contractAddress: adapter.toLowerCase(), eventSet: FAILOVER_EVENT_SET };
+  const safeBlock =
+    (await publicClient.getBlockNumber()) - BigInt(env.EVENT_LISTENER_CONFIRMATIONS);
+
+  const checkpoint = await prisma.indexerCheckpoint.findUnique({
+    where: { contractAddress_eventSet: checkpointKey },
+  });
+
+  // First run: start from ORACLE_FAILOVER_START_BLOCK, otherwise only index new blocks
+  const fromBlock = checkpoint
+    ? checkpoint.lastProcessedBlock + 1n
+    : process.env.ORACLE_FAILOVER_START_BLOCK
+      ? BigInt(process.env.ORACLE_FAILOVER_START_BLOCK)
+      : safeBlock;
+
+  if (fromBlock > safeBlock) return 0;
+
+  const toBlock =
+    safeBlock - fromBlock >= MAX_LOG_RANGE ? fromBlock + MAX_LOG_RANGE - 1n : safeBlock;
+
+  const logs = await publicClient.getLogs({
+    address: adapter,
+    event: ORACLE_FAILOVER_EVENT,
+    fromBlock,
+    toBlock,
+  });
+
+  let recorded = 0;
+
+  for (const log of logs) {
+    const { asset, fromSource, toSource, reason } = log.args;
+    if (!asset || log.blockNumber === null || !log.transactionHash) continue;
+
+    const logIndex = log.logIndex ?? 0;
+    const existing = await prisma.oracleFailover.findUnique({
+      where: { txHash_logIndex: { txHash: log.transactionHash, logIndex } },
+      select: { id: true },
+    });
+    if (existing) continue;
+
+    const block = await publicClient.getBlock({ blockNumber: log.blockNumber });
+
+    await prisma.oracleFailover.create({
+      data: {
+        tokenAddress: asset.toLowerCase(),
+        fromSource: ORACLE_SOURCES[fromSource ?? 0] ?? null,
+        toSource: ORACLE_SOURCES[toSource ?? 0] ?? null,
+        reason: (reason ?? '').slice(0, 255),
+        txHash: log.transactionHash,
+        logIndex,
+        blockNumber: log.blockNumber,
+        timestamp: new Date(Number(block.timestamp) * 1000),
+      },
+    });
+    recorded++;
+  }
+
+  await prisma.indexerCheckpoint.upsert({
+    where: { contractAddress_eventSet: checkpointKey },
+    update: { lastProcessedBlock: toBlock },
+    create: { ...checkpointKey, lastProcessedBlock: toBlock },
+  });
+
+  return recorded;
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * OHLC candles of stored prices in [from, to]; buckets without prices are omitted
+ */
+export async function getPriceCandles(
+  token: string,
+  options: { from: Date; to: Date; interval: CandleInterval }
+): Promise<PriceCandle[]> {
+  const { from, to, interval } = options;
+  const bucketMs = CANDLE_INTERVALS[interval];
+
+  if (from.getTime() >= to.getTime()) {
+    throw new PriceQueryError('from must be before to');
+  }
+
+  if ((to.getTime() - from.getTime()) / bucketMs > MAX_CANDLES) {
+    throw new PriceQueryError(
+      `Range too large for interval ${interval}: at most ${MAX_CANDLES} candles`
+    );
+  }
+
+  const feeds = await prisma.priceFeed.findMany({
+    where: { tokenAddress: token.toLowerCase(), timestamp: { gte: from, lte: to } },
+    select: { price: true, source: true, timestamp: true },
+    orderBy: { timestamp: 'asc' },
+  });
+
+  const buckets = new Map<
+    number,
+    { open: bigint; high: bigint; low: bigint; close: bigint; source: PriceSource; samples: number }
+  >();
+
+  for (const feed of feeds) {
+    const bucket = Math.floor(feed.timestamp.getTime() / bucketMs) * bucketMs;
+    const price = BigInt(feed.price.toString());
+    const candle = buckets.get(bucket);
+
+    if (!candle) {
+      buckets.set(bucket, {
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        source: feed.source,
+        samples: 1,
+      });
+      continue;
+    }
+
+    if (price > candle.high) candle.high = price;
+    if (price < candle.low) candle.low = price;
+    candle.close = price;
+    candle.source = feed.source;
+    candle.samples++;
+  }
+
+  return [...buckets].map(([bucket, candle]) => ({
+    time: new Date(bucket).toISOString(),
+    open: candle.open.toString(),
+    high: candle.high.toString(),
+    low: candle.low.toString(),
+    close: candle.close.toString(),
+    source: candle.source,
+    samples: candle.samples,
+  }));
+}
+
+export default {
+  getOracleAdapterAddress,
+  isOracleIndexerConfigured,
+  indexOraclePrices,
+  indexOracleFailoverLogs,
+  getPriceCandles,
+};
@@ -0,0 +1,355 @@
+/**
+ * User Performance Service
+ * Per-user position history and PnL time series
+ *
+ * Replays a wallet's Transaction rows to reconstruct its share balance and cost
+ * basis over time, values the position daily at the vault share price and reports:
+ * - Daily value, net flows, realized and unrealized yield
+ * - Time-weighted return (chain-linked daily returns, independent of flow timing)
+ * - Money-weighted return (annualized IRR of the wallet's own cash flows)
+ *
+ * The share price at a point in time is the latest NetValue snapshot or transaction
+ * share price before it, whichever is newer. Days are UTC and ranges are half-open
+ * [from, to). Transfers are flows valued at the share price of the transfer.
+ */
+
+import { prisma } from './database.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PerformancePoint {
+  date: string; // YYYY-MM-DD (UTC)
+  shares: string;
+  sharePrice: string; // 18 decimals, end of day
+  value: string; // USDT wei, end of day
+  netFlow: string; // Inflows minus outflows during the day
+  costBasis: string;
+  realizedYield: string; // Cumulative since from
+  unrealizedYield: string;
+}
+
+export interface PerformanceSummary {
+  startValue: string;
+  endValue: string;
+  shares: string;
+  netFlows: string;
+  costBasis: string;
+  realizedYield: string;
+  unrealizedYield: string;
+  totalYield: string; // endValue - startValue - netFlows
+  timeWeightedReturn: number | null; // Percentage over the period
+  moneyWeightedReturn: number | null; // Annualized percentage
+}
+
+export interface UserPerformance {
+  address: string;
+  from: string;
+  to: string;
+  summary: PerformanceSummary;
+  series: PerformancePoint[];
+}
+
+export interface CashFlow {
+  amount: number; // From the investor's side: negative when paid in
+  timestamp: Date;
+}
+
+export class PerformanceQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PerformanceQueryError';
+  }
+}
+
+type DecimalLike = { toString(): string };
+
+interface TransactionRow {
+  type: 'DEPOSIT' | 'WITHDRAW' | 'TRANSFER_IN' | 'TRANSFER_OUT';
+  amount: DecimalLike;
+  shares: DecimalLike;
+  sharePrice: DecimalLike;
+  costBasis: DecimalLike | null;
+  timestamp: Date;
+}
+
+interface NetValueRow {
+  timestamp: Date;
+  sharePrice: DecimalLike;
+}
+
+interface PricePoint {
+  time: number;
+  price: bigint;
+}
+
+interface Position {
+  shares: bigint;
+  costBasis: bigint;
+  realized: bigint; // All-time
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const PRECISION = 10n ** 18n;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365;
+export const MAX_PERFORMANCE_DAYS = 1095;
+
+const IRR_MIN_RATE = -0.9999;
+const IRR_MAX_RATE = 100; // 10,000% annualized
+const IRR_ITERATIONS = 200;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function startOfUtcDay(time: number): number {
+  return Math.floor(time / MS_PER_DAY) * MS_PER_DAY;
+}
+
+function roundPercentage(ratio: number): number {
+  return Math.round(ratio * 100 * 100) / 100;
+}
+
+function valueAt(shares: bigint, price: bigint): bigint {
+  return (shares * price) / PRECISION;
+}
+
+/**
+ * Apply one transaction to the position. Returns the signed flow (+ in, - out).
+ */
+function applyTransaction(position: Position, tx: TransactionRow): bigint {
+  const amount = BigInt(tx.amount.toString());
+  const shares = BigInt(tx.shares.toString());
+  // Rows indexed before costBasis was recorded fall back to their amount
+  const costBasis = BigInt((tx.costBasis ?? tx.amount).toString());
+
+  if (tx.type === 'DEPOSIT' || tx.type === 'TRANSFER_IN') {
+    position.shares += shares;
+    position.costBasis += costBasis;
+    return amount;
+  }
+
+  position.shares -= shares;
+  position.costBasis = position.costBasis > costBasis ? position.costBasis - costBasis : 0n;
+  position.realized += amount - costBasis;
+  return -amount;
+}
+
+/**
+ * Annualized internal rate of return of the cash flows, as a percentage.
+ * Null when the flows don't change sign or no rate in range solves them.
+ */
+export function calculateMoneyWeightedReturn(flows: CashFlow[]): number | null {
+  if (!flows.some((flow) => flow.amount < 0) || !flows.some((flow) => flow.amount > 0)) {
+    return null;
+  }
+
+  const start = Math.min(...flows.map((flow) => flow.timestamp.getTime()));
+  const npv = (rate: number) =>
+    flows.reduce((sum, flow) => {
+      const years = (flow.timestamp.getTime() - start) / MS_PER_DAY / DAYS_PER_YEAR;
+      return sum + flow.amount / Math.pow(1 + rate, years);
+    }, 0);
+
+  let low = IRR_MIN_RATE;
+  let high = IRR_MAX_RATE;
+  let npvLow = npv(low);
+
+  if (Math.sign(npvLow) === Math.sign(npv(high))) {
+    return null;
+  }
+
+  for (let i = 0; i < IRR_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = npv(mid);
+
+    if (Math.sign(npvMid) === Math.sign(npvLow)) {
+      low = mid;
+      npvLow = npvMid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return roundPercentage((low + high) / 2);
+}
+
+/**
+ * Share price observations up to `to`: the last NetValue before `from`, NetValue
+ * snapshots in range and the price of every transaction, oldest first
+ */
+async function getPricePoints(
+  transactions: TransactionRow[],
+  from: Date,
+  to: Date
+): Promise<PricePoint[]> {
+  const [baseline, snapshots]: [NetValueRow | null, NetValueRow[]] = await Promise.all([
+    prisma.netValue.findFirst({
+      where: { timestamp: { lt: from } },
+      orderBy: { timestamp: 'desc' },
+      select: { timestamp: true, sharePrice: true },
+    }),
+    prisma.netValue.findMany({
+      where: { timestamp: { gte: from, lt: to } },
+      orderBy: { timestamp: 'asc' },
+      select: { timestamp: true, sharePrice: true },
+    }),
+  ]);
+
+  return [...(baseline ? [baseline] : []), ...snapshots, ...transactions]
+    .map((row) => ({ time: row.timestamp.getTime(), price: BigInt(row.sharePrice.toString()) }))
+    .sort((a, b) => a.time - b.time);
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Daily position history and returns for a wallet. `from` defaults to the day of
+ * the first transaction (at most MAX_PERFORMANCE_DAYS back), `to` to now.
+ */
+export async function getUserPerformance(
+  address: string,
+  options: { from?: Date; to?: Date } = {}
+): Promise<UserPerformance> {
+  const userAddress = address.toLowerCase();
+  const to = options.to ?? new Date();
+
+  if (options.from && options.from.getTime() >= to.getTime()) {
+    throw new PerformanceQueryError('from must be before to');
+  }
+
+  if (options.from && (to.getTime() - options.from.getTime()) / MS_PER_DAY > MAX_PERFORMANCE_DAYS) {
+    throw new PerformanceQueryError(`Range too large: at most ${MAX_PERFORMANCE_DAYS} days`);
+  }
+
+  const transactions: TransactionRow[] = await prisma.transaction.findMany({
+    where: { userAddress, timestamp: { lt: to } },
+    orderBy: [{ timestamp: 'asc' }, { logIndex: 'asc' }],
+    select: {
+      type: true,
+      amount: true,
+      shares: true,
+      sharePrice: true,
+      costBasis: true,
+      timestamp: true,
+    },
+  });
+
+  const earliest = to.getTime() - MAX_PERFORMANCE_DAYS * MS_PER_DAY;
+  const from =
+    options.from ??
+    new Date(
+      transactions.length > 0
+        ? Math.max(startOfUtcDay(transactions[0].timestamp.getTime()), earliest)
+        : to.getTime()
+    );
+
+  const prices = await getPricePoints(transactions, from, to);
+  const position: Position = { shares: 0n, costBasis: 0n, realized: 0n };
+  const cashFlows: CashFlow[] = [];
+  let txIndex = 0;
+  let priceIndex = 0;
+  let price = 0n;
+
+  // Advance transactions and prices to just before `time`, returning the net flow
+  // of in-range transactions
+  const advanceTo = (time: number): bigint => {
+    let netFlow = 0n;
+
+    while (txIndex < transactions.length && transactions[txIndex].timestamp.getTime() < time) {
+      const tx = transactions[txIndex++];
+      const flow = applyTransaction(position, tx);
+
+      if (tx.timestamp.getTime() >= from.getTime()) {
+        netFlow += flow;
+        cashFlows.push({ amount: -Number(flow) / Number(PRECISION), timestamp: tx.timestamp });
+      }
+    }
+
+    while (priceIndex < prices.length && prices[priceIndex].time < time) {
+      price = prices[priceIndex++].price;
+    }
+
+    return netFlow;
+  };
+
+  advanceTo(from.getTime());
+  const startValue = valueAt(position.shares, price);
+  const realizedAtStart = position.realized;
+
+  const series: PerformancePoint[] = [];
+  let netFlows = 0n;
+  let previousValue = startValue;
+  let growth = 1;
+  let hasReturns = false;
+
+  for (
+    let dayStart = startOfUtcDay(from.getTime());
+    dayStart < to.getTime();
+    dayStart += MS_PER_DAY
+  ) {
+    const dayEnd = Math.min(dayStart + MS_PER_DAY, to.getTime());
+    const netFlow = advanceTo(dayEnd);
+    const value = valueAt(position.shares, price);
+    netFlows += netFlow;
+
+    // Inflows are assumed to be invested for the whole day
+    const invested = previousValue + (netFlow > 0n ? netFlow : 0n);
+    if (invested > 0n) {
+      growth *= 1 + Number(value - previousValue - netFlow) / Number(invested);
+      hasReturns = true;
+    }
+    previousValue = value;
+
+    series.push({
+      date: new Date(dayStart).toISOString().slice(0, 10),
+      shares: position.shares.toString(),
+      sharePrice: price.toString(),
+      value: value.toString(),
+      netFlow: netFlow.toString(),
+      costBasis: position.costBasis.toString(),
+      realizedYield: (position.realized - realizedAtStart).toString(),
+      unrealizedYield: (value - position.costBasis).toString(),
+    });
+  }
+
+  const endValue = valueAt(position.shares, price);
+
+  if (startValue > 0n) {
+    cashFlows.unshift({ amount: -Number(startValue) / Number(PRECISION), timestamp: from });
+  }
+  if (endValue > 0n) {
+    cashFlows.push({ amount: Number(endValue) / Number(PRECISION), timestamp: to });
+  }
+
+  return {
+    address: userAddress,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    summary: {
+      startValue: startValue.toString(),
+      endValue: endValue.toString(),
+      shares: position.shares.toString(),
+      netFlows: netFlows.toString(),
+      costBasis: position.costBasis.toString(),
+      realizedYield: (position.realized - realizedAtStart).toString(),
+      unrealizedYield: (endValue - position.costBasis).toString(),
+      totalYield: (endValue - startValue - netFlows).toString(),
+      timeWeightedReturn: hasReturns ? roundPercentage(growth - 1) : null,
+      moneyWeightedReturn: calculateMoneyWeightedReturn(cashFlows),
+    },
+    series,
+  };
+}
+
+export default {
+  getUserPerformance,
+  calculateMoneyWeightedReturn,
+};
@@ -9,11 +9,36 @@
  * - Submits transactions to Gnosis Safe for multi-sig approval
  */
 
-import { createPublicClient, createWalletClient, http, formatUnits, parseUnits, encodeFunctionData, type Address, type Hex } from 'viem';
+import {
+  createPublicClient,
+  createWalletClient,
+  http,
+  formatUnits,
+  parseUnits,
+  encodeFunctionData,
+  decodeFunctionResult,
+  type Address,
+  type Hex,
+} from 'viem';
 import { bsc, bscTestnet } from 'viem/chains';
 import { privateKeyToAccount } from 'viem/accounts';
 import { prisma } from './database.js';
 import { addBroadcastNotificationJob } from '../jobs/notificationQueue.js';
+import { isSafeServiceConfigured, proposeSafeTransaction } from './safeService.js';
+import {
+  countOpenProposals,
+  createProposalDraft,
+  expireStaleProposals,
+  markProposalProposed,
+} from './rebalanceProposalService.js';
+import {
+  applyLiquidityReserve,
+  getAllocationStrategyConfig,
+  getAllocationStrategyName,
+  runAllocationStrategy,
+  ALLOCATION_STRATEGIES,
+  type AllocationStrategyName,
+} from './allocationStrategies.js';
 
 // =============================================================================
 // Types
@@ -45,16 +70,18 @@ export interface RebalanceProposal {
   buyAssets: Address[];
   buyAmounts: bigint[];
   newAllocations: bigint[];
+  allocationAssets: Address[]; // token of each newAllocations entry
   totalValue: bigint;
   maxDeviation: number;
   estimatedGas: bigint;
+  strategy: AllocationStrategyName; // Strategy that produced newAllocations
 }
 
 // =============================================================================
 // Constants
 // =============================================================================
 
-const DEVIATION_THRESHOLD = 500; // 5% in basis points
+export const DEVIATION_THRESHOLD = 500; // 5% in basis points
 const BASIS_POINTS = 10000n;
 const PRECISION = 10n ** 18n;
 
@@ -168,14 +195,24 @@ const PNGY_VAULT_ABI = [
 
 const chain = process.env.NODE_ENV === 'production' ? bsc : bscTestnet;
 
-const publicClient = createPublicClient({
-  chain,
-  transport: http(
-    process.env.NODE_ENV === 'production'
-      ? process.env.BSC_MAINNET_RPC_URL || 'https://bsc-dataseed.binance.org'
-      : process.env.BSC_TESTNET_RPC_URL || 'https://data-seed-prebsc-1-s1.binance.org:8545'
-  ),
-});
+const getDefaultRpcUrl = () =>
+  process.env.NODE_ENV === 'production'
+    ? process.env.BSC_MAINNET_RPC_URL || 'https://bsc-dataseed.binance.org'
+    : process.env.BSC_TESTNET_RPC_URL || 'https://data-seed-prebsc-1-s1.binance.org:8545';
+
+/**
+ * Public client for the rebalance chain; rpcUrl overrides the network RPC (e.g. a local fork)
+ */
+export function createRebalancePublicClient(rpcUrl?: string) {
+  return createPublicClient({
+    chain,
+    transport: http(rpcUrl || getDefaultRpcUrl()),
+  });
+}
+
+export type RebalancePublicClient = ReturnType<typeof createRebalancePublicClient>;
+
+const publicClient = createRebalancePublicClient();
 
 // Contract addresses
 const getContractAddresses = () => ({
@@ -189,17 +226,21 @@ const getContractAddresses = () => ({
 // =============================================================================
 
 /**
- * Fetch current asset data from database and blockchain
+ * Fetch current asset data from the database. The stored allocation column is the
+ * vault target, so the current allocation is each holding's share of total value.
  */
 export async function fetchAssetData(): Promise<AssetData[]> {
   const allocations = await prisma.assetAllocation.findMany({
     where: { isActive: true },
   });
 
-  return allocations.map((alloc) => ({
+  const values = allocations.map((alloc) => BigInt(alloc.valueUsd.toString()));
+  const totalValue = values.reduce((sum, value) => sum + value, 0n);
+
+  return allocations.map((alloc, i) => ({
     token: alloc.tokenAddress as Address,
-    currentAllocation: BigInt(Math.round(Number(alloc.allocation) * 10000)), // Convert to basis points
-    currentValue: BigInt(alloc.valueUsd.toString()),
+    currentAllocation: totalValue === 0n ? 0n : (values[i] * 10000n) / totalValue, // basis points
+    currentValue: values[i],
     apy: BigInt(Math.round(Number(alloc.apy) * 100)), // Convert to basis points (5.26% -> 526)
   }));
 }
@@ -208,7 +249,8 @@ export async function fetchAssetData(): Promise<AssetData[]> {
  * Calculate optimal allocations using the RebalanceStrategy contract
  */
 export async function calculateOptimalAllocations(
-  assets: AssetData[]
+  assets: AssetData[],
+  client: RebalancePublicClient = publicClient
 ): Promise<AllocationResult[]> {
   const addresses = getContractAddresses();
 
@@ -216,7 +258,7 @@ export async function calculateOptimalAllocations(
     throw new Error('RebalanceStrategy contract address not configured');
   }
 
-  const result = await publicClient.readContract({
+  const result = await client.readContract({
     address: addresses.rebalanceStrategy,
     abi: REBALANCE_STRATEGY_ABI,
     functionName: 'calculateOptimalAllocation',
@@ -230,6 +272,78 @@ export async function calculateOptimalAllocations(
   }));
 }
 
+/**
+ * Target allocations from an allocation strategy (REBALANCE_ALLOCATION_STRATEGY by default).
+ * 'onchain' uses the RebalanceStrategy contract; the others run in allocationStrategies.
+ * ALLOCATION_MIN_LIQUIDITY_BPS is kept unallocated whichever strategy is used.
+ */
+export async function calculateTargetAllocations(
+  assets: AssetData[],
+  strategy: AllocationStrategyName = getAllocationStrategyName(),
+  client: RebalancePublicClient = publicClient,
+  asOf: Date = new Date()
+): Promise<AllocationResult[]> {
+  const config = getAllocationStrategyConfig();
+
+  if (strategy === 'onchain') {
+    const optimal = await calculateOptimalAllocations(assets, client);
+    if (config.minLiquidityBps <= 0) return optimal;
+
+    const reserved = applyLiquidityReserve(
+      optimal.map((a) => a.targetAllocation),
+      config.minLiquidityBps
+    );
+    return optimal.map((a, i) => ({
+      token: a.token,
+      targetAllocation: reserved[i],
+      allocationDelta: reserved[i] - assets[i].currentAllocation,
+    }));
+  }
+
+  const targets = await runAllocationStrategy(strategy, assets, config, asOf);
+
+  return assets.map((asset, i) => ({
+    token: asset.token,
+    targetAllocation: targets[i],
+    allocationDelta: targets[i] - asset.currentAllocation,
+  }));
+}
+
+/**
+ * Run every allocation strategy on the current assets so they can be compared
+ */
+export async function compareAllocationStrategies(): Promise<{
+  assets: AssetData[];
+  activeStrategy: AllocationStrategyName;
+  results: Array<{
+    strategy: AllocationStrategyName;
+    allocations: AllocationResult[] | null;
+    error: string | null;
+  }>;
+}> {
+  const assets = await fetchAssetData();
+
+  const results = await Promise.all(
+    ALLOCATION_STRATEGIES.map(async (strategy) => {
+      try {
+        return {
+          strategy,
+          allocations: await calculateTargetAllocations(assets, strategy),
+          error: null,
+        };
+      } catch (error) {
+        return {
+          strategy,
+          allocations: null,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    })
+  );
+
+  return { assets, activeStrategy: getAllocationStrategyName(), results };
+}
+
 /**
  * Check if rebalancing is needed based on deviation threshold
  */
@@ -262,7 +376,8 @@ export async function checkRebalanceNeeded(
 export async function generateRebalanceTransactions(
   assets: AssetData[],
   targetAllocations: bigint[],
-  totalValue: bigint
+  totalValue: bigint,
+  client: RebalancePublicClient = publicClient
 ): Promise<RebalanceTx[]> {
   const addresses = getContractAddresses();
 
@@ -270,7 +385,7 @@ export async function generateRebalanceTransactions(
     throw new Error('RebalanceStrategy contract address not configured');
   }
 
-  const txs = await publicClient.readContract({
+  const txs = await client.readContract({
     address: addresses.rebalanceStrategy,
     abi: REBALANCE_STRATEGY_ABI,
     functionName: 'generateRebalanceTx',
@@ -303,8 +418,9 @@ export async function createRebalanceProposal(): Promise<RebalanceProposal | nul
     return null;
   }
 
-  // Calculate optimal allocations
-  const optimalAllocations = await calculateOptimalAllocations(assets);
+  // Calculate target allocations with the configured strategy
+  const strategy = getAllocationStrategyName();
+  const optimalAllocations = await calculateTargetAllocations(assets, strategy);
   const targetAllocations = optimalAllocations.map((a) => a.targetAllocation);
 
   // Check if rebalancing is needed
@@ -315,7 +431,7 @@ export async function createRebalanceProposal(): Promise<RebalanceProposal | nul
     return null;
   }
 
-  console.log(`Rebalance needed! Max deviation: ${maxDeviation}%`);
+  console.log(`Rebalance needed (${strategy} strategy)! Max deviation: ${maxDeviation}%`);
 
   // Calculate total value
   const totalValue = assets.reduce((sum, a) => sum + a.currentValue, 0n);
@@ -357,16 +473,23 @@ export async function createRebalanceProposal(): Promise<RebalanceProposal | nul
     buyAssets: buyTxs.map((tx) => tx.token),
     buyAmounts: buyTxs.map((tx) => tx.amount),
     newAllocations: targetAllocations,
+    allocationAssets: optimalAllocations.map((a) => a.token),
     totalValue,
     maxDeviation,
     estimatedGas,
+    strategy,
   };
 }
 
 /**
  * Encode rebalance transaction for Gnosis Safe
  */
-export function encodeRebalanceTransaction(proposal: RebalanceProposal): Hex {
+export function encodeRebalanceTransaction(
+  proposal: Pick<
+    RebalanceProposal,
+    'sellAssets' | 'sellAmounts' | 'buyAssets' | 'buyAmounts' | 'newAllocations'
+  >
+): Hex {
   return encodeFunctionData({
     abi: PNGY_VAULT_ABI,
     functionName: 'rebalanceWithNewAllocations',
@@ -380,14 +503,35 @@ export function encodeRebalanceTransaction(proposal: RebalanceProposal): Hex {
   });
 }
 
+/**
+ * Decode the return data of rebalanceWithNewAllocations (e.g. from an eth_call)
+ */
+export function decodeRebalanceResult(data: Hex): {
+  sellReceived: readonly bigint[];
+  buyReceived: readonly bigint[];
+} {
+  const [sellReceived, buyReceived] = decodeFunctionResult({
+    abi: PNGY_VAULT_ABI,
+    functionName: 'rebalanceWithNewAllocations',
+    data,
+  });
+
+  return { sellReceived, buyReceived };
+}
+
 /**
  * Submit rebalance proposal to Gnosis Safe
- * Note: This creates the transaction data for manual submission via Gnosis Safe UI
- * For automated submission, Gnosis Safe Transaction Service API integration is needed
+ * Proposes through the Safe Transaction Service when a delegate is configured;
+ * otherwise logs the transaction data for manual submission via the Safe UI
  */
-export async function submitToGnosisSafe(
-  proposal: RebalanceProposal
-): Promise<{ transactionData: Hex; to: Address; value: bigint; safeTxGas: bigint }> {
+export async function submitToGnosisSafe(proposal: RebalanceProposal): Promise<{
+  transactionData: Hex;
+  to: Address;
+  value: bigint;
+  safeTxGas: bigint;
+  safeTxHash: Hex | null;
+  nonce: bigint | null;
+}> {
   const addresses = getContractAddresses();
 
   if (!addresses.pngyVault) {
@@ -395,35 +539,32 @@ export async function submitToGnosisSafe(
   }
 
   const transactionData = encodeRebalanceTransaction(proposal);
-
-  // Log the proposal for manual submission
-  console.log('=== Gnosis Safe Rebalance Transaction ===');
-  console.log(`To: ${addresses.pngyVault}`);
-  console.log(`Value: 0`);
-  console.log(`Data: ${transactionData}`);
-  console.log(`Safe Tx Gas: ${proposal.estimatedGas}`);
-  console.log('==========================================');
-
-  // Store the proposal in database for tracking
-  await prisma.rebalanceHistory.create({
-    data: {
-      txHash: `pending-${Date.now()}`, // Placeholder until executed
-      type: 'REBALANCE',
-      fromAsset: proposal.sellAssets[0] || '0x0000000000000000000000000000000000000000',
-      toAsset: proposal.buyAssets[0] || '0x0000000000000000000000000000000000000000',
-      fromAmount: proposal.sellAmounts[0]?.toString() || '0',
-      toAmount: proposal.buyAmounts[0]?.toString() || '0',
-      blockNumber: BigInt(0), // Will be updated after execution
-      timestamp: new Date(),
-    },
-  });
-
-  return {
+  const result = {
     transactionData,
     to: addresses.pngyVault,
     value: 0n,
     safeTxGas: proposal.estimatedGas,
   };
+
+  if (!isSafeServiceConfigured()) {
+    // Log the proposal for manual submission
+    console.log('=== Gnosis Safe Rebalance Transaction ===');
+    console.log(`To: ${addresses.pngyVault}`);
+    console.log(`Value: 0`);
+    console.log(`Data: ${transactionData}`);
+    console.log(`Safe Tx Gas: ${proposal.estimatedGas}`);
+    console.log('==========================================');
+
+    return { ...result, safeTxHash: null, nonce: null };
+  }
+
+  const { safeTxHash, nonce } = await proposeSafeTransaction({
+    to: addresses.pngyVault,
+    data: transactionData,
+    safeTxGas: proposal.estimatedGas,
+  });
+
+  return { ...result, safeTxHash, nonce };
 }
 
 /**
@@ -434,6 +575,7 @@ export async function executeRebalanceCheck(): Promise<{
   checked: boolean;
   proposalCreated: boolean;
   proposal: RebalanceProposal | null;
+  proposalId?: string;
   error?: string;
 }> {
   try {
@@ -451,6 +593,8 @@ export async function executeRebalanceCheck(): Promise<{
       };
     }
 
+    await expireStaleProposals();
+
     // Create rebalance proposal if needed
     const proposal = await createRebalanceProposal();
 
@@ -463,8 +607,19 @@ export async function executeRebalanceCheck(): Promise<{
       };
     }
 
-    // Submit to Gnosis Safe
-    await submitToGnosisSafe(proposal);
+    // Record the proposal, then submit to Gnosis Safe
+    const proposalId = await createProposalDraft({
+      proposal,
+      vaultAddress: addresses.pngyVault,
+      callData: encodeRebalanceTransaction(proposal),
+    });
+
+    const { safeTxHash, nonce } = await submitToGnosisSafe(proposal);
+
+    // Without the Safe service the proposal stays DRAFT until submitted manually
+    if (safeTxHash && nonce !== null) {
+      await markProposalProposed(proposalId, { safeTxHash, nonce });
+    }
 
     // Send notification about rebalance proposal
     try {
@@ -476,6 +631,8 @@ export async function executeRebalanceCheck(): Promise<{
           totalValue: formatUnits(proposal.totalValue, 18),
           sellCount: proposal.sellAssets.length,
           buyCount: proposal.buyAssets.length,
+          proposalId,
+          safeTxHash,
         },
         'high'
       );
@@ -489,6 +646,7 @@ export async function executeRebalanceCheck(): Promise<{
       checked: true,
       proposalCreated: true,
       proposal,
+      proposalId,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -524,9 +682,7 @@ export async function getRebalanceStatus(): Promise<{
     orderBy: { timestamp: 'desc' },
   });
 
-  const pendingProposals = recentRebalances.filter(
-    (r) => r.txHash.startsWith('pending-')
-  ).length;
+  const pendingProposals = await countOpenProposals();
 
   return {
     lastCheck: recentRebalances[0]?.timestamp || null,
@@ -546,6 +702,8 @@ export async function getRebalanceStatus(): Promise<{
 export default {
   fetchAssetData,
   calculateOptimalAllocations,
+  calculateTargetAllocations,
+  compareAllocationStrategies,
   checkRebalanceNeeded,
   generateRebalanceTransactions,
   createRebalanceProposal,
@@ -0,0 +1,418 @@
+/**
+ * Rebalance Proposal Service
+ * Persists rebalance proposals and drives their lifecycle
+ *
+ * This service:
+ * - Stores every sell/buy leg, target allocations, calldata and gas of a proposal
+ * - Moves proposals through DRAFT → PROPOSED → CONFIRMED → EXECUTED (or EXPIRED / REJECTED)
+ * - Derives status changes from the tracked Safe transaction
+ * - Serves proposals for GET /api/rebalance/proposals
+ */
+
+import type { Prisma } from '@prisma/client';
+import type { Address, Hex } from 'viem';
+import { prisma } from './database.js';
+import {
+  getSafeServiceClient,
+  isSafeServiceConfigured,
+  syncSafeTransaction,
+} from './safeService.js';
+import type { RebalanceProposal } from './rebalanceEngine.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type RebalanceProposalStatus =
+  | 'DRAFT'
+  | 'PROPOSED'
+  | 'CONFIRMED'
+  | 'EXECUTED'
+  | 'EXPIRED'
+  | 'REJECTED';
+
+export interface ProposalLeg {
+  token: string;
+  amount: string;
+}
+
+export interface RebalanceProposalRecord {
+  id: string;
+  status: RebalanceProposalStatus;
+  statusReason: string | null;
+  vaultAddress: string;
+  callData: string;
+  targetAllocations: Array<{ token: string; allocation: number }>; // basis points
+  sells: ProposalLeg[];
+  buys: ProposalLeg[];
+  totalValue: string;
+  maxDeviation: number;
+  estimatedGas: string;
+  strategy: string;
+  safeTxHash: string | null;
+  nonce: string | null;
+  confirmations: number | null;
+  confirmationsRequired: number | null;
+  executionTxHash: string | null;
+  expiresAt: string;
+  proposedAt: string | null;
+  confirmedAt: string | null;
+  executedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GetProposalsOptions {
+  status?: RebalanceProposalStatus;
+  limit: number;
+  cursor?: string;
+}
+
+interface SafeTransactionState {
+  nonce: bigint;
+  confirmations: number;
+  confirmationsRequired: number;
+  isExecuted: boolean;
+  isSuccessful: boolean | null;
+}
+
+export class InvalidProposalTransitionError extends Error {
+  constructor(
+    public readonly from: RebalanceProposalStatus,
+    public readonly to: RebalanceProposalStatus
+  ) {
+    super(`Cannot move rebalance proposal from ${from} to ${to}`);
+    this.name = 'InvalidProposalTransitionError';
+  }
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const REBALANCE_PROPOSAL_STATUSES: RebalanceProposalStatus[] = [
+  'DRAFT',
+  'PROPOSED',
+  'CONFIRMED',
+  'EXECUTED',
+  'EXPIRED',
+  'REJECTED',
+];
+
+// Proposals still waiting on the Safe
+export const OPEN_PROPOSAL_STATUSES: RebalanceProposalStatus[] = ['DRAFT', 'PROPOSED', 'CONFIRMED'];
+
+// An expired proposal can still be executed by the Safe owners; the chain wins
+const ALLOWED_TRANSITIONS: Record<RebalanceProposalStatus, RebalanceProposalStatus[]> = {
+  DRAFT: ['PROPOSED', 'EXPIRED', 'REJECTED'],
+  PROPOSED: ['CONFIRMED', 'EXECUTED', 'EXPIRED', 'REJECTED'],
+  CONFIRMED: ['EXECUTED', 'EXPIRED', 'REJECTED'],
+  EXPIRED: ['EXECUTED'],
+  EXECUTED: [],
+  REJECTED: [],
+};
+
+const DEFAULT_PROPOSAL_TTL_HOURS = 72;
+
+function getProposalTtlMs(): number {
+  const hours = Number(process.env.REBALANCE_PROPOSAL_TTL_HOURS) || DEFAULT_PROPOSAL_TTL_HOURS;
+  return hours * 60 * 60 * 1000;
+}
+
+const PROPOSAL_INCLUDE = {
+  legs: { orderBy: [{ side: 'asc' }, { legIndex: 'asc' }] },
+  safeTransaction: {
+    select: { confirmations: true, confirmationsRequired: true, executionTxHash: true },
+  },
+} satisfies Prisma.RebalanceProposalInclude;
+
+type ProposalRow = Prisma.RebalanceProposalGetPayload<{ include: typeof PROPOSAL_INCLUDE }>;
+
+// =============================================================================
+// State Machine
+// =============================================================================
+
+export function canTransition(from: RebalanceProposalStatus, to: RebalanceProposalStatus): boolean {
+  return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Status a proposal should be in given its Safe transaction.
+ * safeNonce is the Safe's current nonce; a lower, unexecuted nonce was consumed by another tx.
+ */
+export function resolveProposalStatus(
+  current: RebalanceProposalStatus,
+  tx: SafeTransactionState,
+  safeNonce: bigint | null
+): { status: RebalanceProposalStatus; reason?: string } {
+  if (tx.isExecuted) {
+    return tx.isSuccessful === false
+      ? { status: 'REJECTED', reason: 'Safe execution failed' }
+      : { status: 'EXECUTED' };
+  }
+
+  if (safeNonce !== null && tx.nonce < safeNonce) {
+    return { status: 'REJECTED', reason: `Safe nonce ${tx.nonce} used by another transaction` };
+  }
+
+  if (tx.confirmations >= tx.confirmationsRequired && current === 'PROPOSED') {
+    return { status: 'CONFIRMED' };
+  }
+
+  return { status: current };
+}
+
+/**
+ * Move a proposal to a new status, enforcing the lifecycle
+ */
+export async function transitionProposal(
+  id: string,
+  to: RebalanceProposalStatus,
+  options: { reason?: string; at?: Date; safe?: { safeTxHash: Hex; nonce: bigint } } = {}
+): Promise<void> {
+  const proposal = await prisma.rebalanceProposal.findUnique({
+    where: { id },
+    select: { status: true },
+  });
+
+  if (!proposal) {
+    throw new Error(`Rebalance proposal ${id} not found`);
+  }
+
+  const from = proposal.status as RebalanceProposalStatus;
+  if (!canTransition(from, to)) {
+    throw new InvalidProposalTransitionError(from, to);
+  }
+
+  const at = options.at ?? new Date();
+
+  await prisma.rebalanceProposal.update({
+    where: { id },
+    data: {
+      status: to,
+      statusReason: options.reason ?? null,
+      ...(options.safe && {
+        safeTxHash: options.safe.safeTxHash.toLowerCase(),
+        nonce: options.safe.nonce,
+      }),
+      ...(to === 'PROPOSED' && { proposedAt: at }),
+      ...(to === 'CONFIRMED' && { confirmedAt: at }),
+      ...(to === 'EXECUTED' && { executedAt: at }),
+    },
+  });
+}
+
+// =============================================================================
+// Lifecycle
+// =============================================================================
+
+/**
+ * Persist a freshly generated proposal as DRAFT
+ */
+export async function createProposalDraft(input: {
+  proposal: RebalanceProposal;
+  vaultAddress: Address;
+  callData: Hex;
+}): Promise<string> {
+  const { proposal } = input;
+
+  const legs = [
+    ...proposal.sellAssets.map((token, i) => ({
+      side: 'SELL' as const,
+      legIndex: i,
+      token: token.toLowerCase(),
+      amount: proposal.sellAmounts[i].toString(),
+    })),
+    ...proposal.buyAssets.map((token, i) => ({
+      side: 'BUY' as const,
+      legIndex: i,
+      token: token.toLowerCase(),
+      amount: proposal.buyAmounts[i].toString(),
+    })),
+  ];
+
+  const created = await prisma.rebalanceProposal.create({
+    data: {
+      vaultAddress: input.vaultAddress.toLowerCase(),
+      callData: input.callData,
+      targetAllocations: proposal.allocationAssets.map((token, i) => ({
+        token: token.toLowerCase(),
+        allocation: Number(proposal.newAllocations[i]),
+      })),
+      totalValue: proposal.totalValue.toString(),
+      maxDeviation: proposal.maxDeviation,
+      estimatedGas: proposal.estimatedGas.toString(),
+      strategy: proposal.strategy,
+      expiresAt: new Date(Date.now() + getProposalTtlMs()),
+      legs: { create: legs },
+    },
+    select: { id: true },
+  });
+
+  return created.id;
+}
+
+/**
+ * Record the Safe transaction a DRAFT was proposed as
+ */
+export async function markProposalProposed(
+  id: string,
+  safe: { safeTxHash: Hex; nonce: bigint }
+): Promise<void> {
+  await transitionProposal(id, 'PROPOSED', { safe });
+}
+
+/**
+ * Expire open proposals past their expiresAt
+ */
+export async function expireStaleProposals(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.rebalanceProposal.updateMany({
+    where: { status: { in: OPEN_PROPOSAL_STATUSES }, expiresAt: { lt: now } },
+    data: { status: 'EXPIRED', statusReason: 'Not executed before expiry' },
+  });
+
+  if (count > 0) {
+    console.log(`[RebalanceProposals] Expired ${count} stale proposals`);
+  }
+
+  return count;
+}
+
+/**
+ * Apply confirmations and execution of tracked Safe transactions to their proposals,
+ * then expire stale ones. Expects SafeTransaction rows to be freshly synced.
+ */
+export async function syncProposalStatuses(): Promise<{ updated: number; expired: number }> {
+  const proposals = await prisma.rebalanceProposal.findMany({
+    where: {
+      status: { in: ['PROPOSED', 'CONFIRMED', 'EXPIRED'] },
+      safeTxHash: { not: null },
+    },
+    include: { safeTransaction: true },
+  });
+
+  const safeNonce =
+    proposals.length > 0 && isSafeServiceConfigured()
+      ? (await getSafeServiceClient().getSafeInfo()).nonce
+      : null;
+
+  let updated = 0;
+
+  for (const proposal of proposals) {
+    // Safe transaction not synced yet; the next run picks it up
+    if (!proposal.safeTransaction) continue;
+
+    let tx: SafeTransactionState = proposal.safeTransaction;
+
+    // Nonce moved past an unexecuted proposal: re-check before calling it rejected
+    if (!tx.isExecuted && safeNonce !== null && tx.nonce < safeNonce) {
+      tx = await syncSafeTransaction(proposal.safeTxHash as Hex);
+    }
+
+    const current = proposal.status as RebalanceProposalStatus;
+    const next = resolveProposalStatus(current, tx, safeNonce);
+
+    if (next.status === current || !canTransition(current, next.status)) continue;
+
+    await transitionProposal(proposal.id, next.status, {
+      reason: next.reason,
+      at:
+        next.status === 'EXECUTED' ? (proposal.safeTransaction.executedAt ?? undefined) : undefined,
+    });
+    updated++;
+
+    console.log(`[RebalanceProposals] ${proposal.id}: ${current} → ${next.status}`);
+  }
+
+  const expired = await expireStaleProposals();
+
+  return { updated, expired };
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+function toRecord(row: ProposalRow): RebalanceProposalRecord {
+  const legsOf = (side: string) =>
+    row.legs
+      .filter((leg) => leg.side === side)
+      .map((leg) => ({ token: leg.token, amount: leg.amount.toString() }));
+
+  return {
+    id: row.id,
+    status: row.status,
+    statusReason: row.statusReason,
+    vaultAddress: row.vaultAddress,
+    callData: row.callData,
+    targetAllocations: row.targetAllocations as RebalanceProposalRecord['targetAllocations'],
+    sells: legsOf('SELL'),
+    buys: legsOf('BUY'),
+    totalValue: row.totalValue.toString(),
+    maxDeviation: Number(row.maxDeviation.toString()),
+    estimatedGas: row.estimatedGas.toString(),
+    strategy: row.strategy,
+    safeTxHash: row.safeTxHash,
+    nonce: row.nonce?.toString() ?? null,
+    confirmations: row.safeTransaction?.confirmations ?? null,
+    confirmationsRequired: row.safeTransaction?.confirmationsRequired ?? null,
+    executionTxHash: row.safeTransaction?.executionTxHash ?? null,
+    expiresAt: row.expiresAt.toISOString(),
+    proposedAt: row.proposedAt?.toISOString() ?? null,
+    confirmedAt: row.confirmedAt?.toISOString() ?? null,
+    executedAt: row.executedAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Newest-first page of proposals
+ */
+export async function getProposals(
+  options: GetProposalsOptions
+): Promise<{ proposals: RebalanceProposalRecord[]; nextCursor: string | null }> {
+  const rows: ProposalRow[] = await prisma.rebalanceProposal.findMany({
+    where: options.status ? { status: options.status } : undefined,
+    include: PROPOSAL_INCLUDE,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: options.limit + 1,
+    ...(options.cursor && { cursor: { id: options.cursor }, skip: 1 }),
+  });
+
+  const hasMore = rows.length > options.limit;
+  const page = hasMore ? rows.slice(0, options.limit) : rows;
+
+  return {
+    proposals: page.map(toRecord),
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  };
+}
+
+export async function getProposalById(id: string): Promise<RebalanceProposalRecord | null> {
+  const row: ProposalRow | null = await prisma.rebalanceProposal.findUnique({
+    where: { id },
+    include: PROPOSAL_INCLUDE,
+  });
+
+  return row ? toRecord(row) : null;
+}
+
+export async function countOpenProposals(): Promise<number> {
+  return prisma.rebalanceProposal.count({
+    where: { status: { in: OPEN_PROPOSAL_STATUSES } },
+  });
+}
+
+export default {
+  canTransition,
+  resolveProposalStatus,
+  transitionProposal,
+  createProposalDraft,
+  markProposalProposed,
+  expireStaleProposals,
+  syncProposalStatuses,
+  getProposals,
+  getProposalById,
+  countOpenProposals,
+};
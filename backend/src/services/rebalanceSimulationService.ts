@@ -0,0 +1,355 @@
+/**
+ * Rebalance Simulation Service
+ * Dry-runs a rebalance against the vault without submitting anything to the Safe
+ *
+ * This service:
+ * - Builds the same trades createRebalanceProposal would (optionally for override targets)
+ * - Executes rebalanceWithNewAllocations via eth_call from the Safe at a pinned block
+ * - Prices every leg with the vault's oracle adapter to estimate slippage
+ * - Reports per-asset weights before/after and the resulting max deviation
+ *
+ * REBALANCE_SIMULATION_RPC_URL points the simulation at another node, e.g. a local
+ * Anvil fork of BSC where the Safe can be impersonated.
+ */
+
+import { BaseError, type Address, type Hex } from 'viem';
+import {
+  fetchAssetData,
+  calculateTargetAllocations,
+  generateRebalanceTransactions,
+  encodeRebalanceTransaction,
+  decodeRebalanceResult,
+  createRebalancePublicClient,
+  type AssetData,
+  type RebalancePublicClient,
+} from './rebalanceEngine.js';
+import { getAllocationStrategyName, type AllocationStrategyName } from './allocationStrategies.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TargetAllocationInput {
+  token: Address;
+  allocation: number; // basis points
+}
+
+export interface SimulateRebalanceOptions {
+  targetAllocations?: TargetAllocationInput[];
+  strategy?: AllocationStrategyName; // Ignored when targetAllocations are given
+  from?: Address; // Defaults to the Gnosis Safe, which holds REBALANCER_ROLE
+}
+
+export interface SimulatedAsset {
+  token: string;
+  price: string; // USD, 18 decimals
+  valueBefore: string;
+  valueAfter: string;
+  weightBefore: number; // basis points
+  weightAfter: number;
+  targetWeight: number;
+}
+
+export interface SimulatedLeg {
+  token: string;
+  amount: string; // Sell: RWA tokens in; buy: USDT in
+  expectedOut: string; // At the oracle price
+  simulatedOut: string | null; // From the eth_call, null when it reverted
+  slippageBps: number | null;
+}
+
+export interface RebalanceSimulation {
+  strategy: AllocationStrategyName | 'override';
+  blockNumber: string;
+  from: string | null;
+  vaultAddress: string;
+  callData: Hex;
+  execution: { success: boolean; revertReason: string | null };
+  assets: SimulatedAsset[];
+  sells: SimulatedLeg[];
+  buys: SimulatedLeg[];
+  residualCash: string; // USDT left over after sells fund buys
+  maxDeviationBefore: number; // percentage
+  maxDeviationAfter: number;
+}
+
+export class SimulationInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SimulationInputError';
+  }
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const BASIS_POINTS = 10000n;
+const PRECISION = 10n ** 18n; // Oracle prices, USDT and RWA tokens all use 18 decimals on BSC
+
+const VAULT_ORACLE_ABI = [
+  {
+    name: 'oracleAdapter',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+] as const;
+
+const ORACLE_ADAPTER_ABI = [
+  {
+    name: 'getPrice',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'asset', type: 'address' }],
+    outputs: [{ name: 'price', type: 'uint256' }],
+  },
+] as const;
+
+const getSimulationConfig = () => ({
+  pngyVault: process.env.PNGY_VAULT_ADDRESS as Address | undefined,
+  gnosisSafe: process.env.GNOSIS_SAFE_ADDRESS as Address | undefined,
+  rpcUrl: process.env.REBALANCE_SIMULATION_RPC_URL,
+});
+
+let simulationClient: RebalancePublicClient | null = null;
+let simulationClientRpcUrl: string | undefined;
+
+function getSimulationClient(rpcUrl: string | undefined): RebalancePublicClient {
+  if (!simulationClient || simulationClientRpcUrl !== rpcUrl) {
+    simulationClient = createRebalancePublicClient(rpcUrl);
+    simulationClientRpcUrl = rpcUrl;
+  }
+  return simulationClient;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Order override targets like the vault holdings; every active asset must be covered
+ */
+function resolveTargetOverrides(assets: AssetData[], overrides: TargetAllocationInput[]): bigint[] {
+  const byToken = new Map(overrides.map((o) => [o.token.toLowerCase(), o.allocation]));
+
+  if (byToken.size !== overrides.length) {
+    throw new SimulationInputError('Duplicate token in targetAllocations');
+  }
+
+  for (const token of byToken.keys()) {
+    if (!assets.some((a) => a.token.toLowerCase() === token)) {
+      throw new SimulationInputError(`Token ${token} is not an active vault asset`);
+    }
+  }
+
+  const targets = assets.map((asset) => {
+    const allocation = byToken.get(asset.token.toLowerCase());
+    if (allocation === undefined) {
+      throw new SimulationInputError(`Missing target allocation for ${asset.token}`);
+    }
+    return BigInt(allocation);
+  });
+
+  if (targets.reduce((sum, t) => sum + t, 0n) > BASIS_POINTS) {
+    throw new SimulationInputError('Target allocations exceed 10000 basis points');
+  }
+
+  return targets;
+}
+
+/**
+ * Weights in basis points of the RWA values plus any USDT the trades leave unspent,
+ * so pre-trade and post-trade weights are shares of the same portfolio total
+ */
+function toWeights(values: bigint[], cash = 0n): number[] {
+  const total = values.reduce((sum, v) => sum + v, cash > 0n ? cash : 0n);
+  return values.map((v) => (total === 0n ? 0 : Number((v * BASIS_POINTS) / total)));
+}
+
+function maxDeviationPercent(weights: number[], targets: bigint[]): number {
+  const maxBps = weights.reduce(
+    (max, weight, i) => Math.max(max, Math.abs(weight - Number(targets[i]))),
+    0
+  );
+  return maxBps / 100;
+}
+
+function slippageBps(expected: bigint, actual: bigint | null): number | null {
+  if (actual === null || expected === 0n) return null;
+  return Number(((expected - actual) * BASIS_POINTS) / expected);
+}
+
+function describeRevert(error: unknown): string {
+  if (error instanceof BaseError) return error.shortMessage;
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+// =============================================================================
+// Simulation
+// =============================================================================
+
+/**
+ * Simulate a rebalance at the latest block without proposing it
+ */
+export async function simulateRebalance(
+  options: SimulateRebalanceOptions = {}
+): Promise<RebalanceSimulation> {
+  const config = getSimulationConfig();
+
+  if (!config.pngyVault) {
+    throw new Error('PNGYVault contract address not configured');
+  }
+
+  const client = getSimulationClient(config.rpcUrl);
+  const assets = await fetchAssetData();
+
+  if (assets.length === 0) {
+    throw new SimulationInputError('No active assets to rebalance');
+  }
+
+  const targets = options.targetAllocations
+    ? resolveTargetOverrides(assets, options.targetAllocations)
+    : (await calculateTargetAllocations(assets, options.strategy, client)).map(
+        (a) => a.targetAllocation
+      );
+
+  const totalValue = assets.reduce((sum, a) => sum + a.currentValue, 0n);
+  const txs = await generateRebalanceTransactions(assets, targets, totalValue, client);
+  const sellTxs = txs.filter((tx) => !tx.isBuy);
+  const buyTxs = txs.filter((tx) => tx.isBuy);
+
+  const callData = encodeRebalanceTransaction({
+    sellAssets: sellTxs.map((tx) => tx.token),
+    sellAmounts: sellTxs.map((tx) => tx.amount),
+    buyAssets: buyTxs.map((tx) => tx.token),
+    buyAmounts: buyTxs.map((tx) => tx.amount),
+    newAllocations: targets,
+  });
+
+  // Pin every read to one block so prices and the call see the same state
+  const blockNumber = await client.getBlockNumber();
+
+  const oracle = await client.readContract({
+    address: config.pngyVault,
+    abi: VAULT_ORACLE_ABI,
+    functionName: 'oracleAdapter',
+    blockNumber,
+  });
+
+  const prices = new Map<string, bigint>();
+  await Promise.all(
+    assets.map(async (asset) => {
+      const price = await client.readContract({
+        address: oracle,
+        abi: ORACLE_ADAPTER_ABI,
+        functionName: 'getPrice',
+        args: [asset.token],
+        blockNumber,
+      });
+      prices.set(asset.token.toLowerCase(), price);
+    })
+  );
+  const priceOf = (token: Address) => prices.get(token.toLowerCase()) ?? 0n;
+
+  const from = options.from ?? config.gnosisSafe ?? null;
+  let sellReceived: readonly bigint[] | null = null;
+  let buyReceived: readonly bigint[] | null = null;
+  let revertReason: string | null = null;
+
+  try {
+    const { data } = await client.call({
+      account: from ?? undefined,
+      to: config.pngyVault,
+      data: callData,
+      blockNumber,
+    });
+
+    if (data) {
+      ({ sellReceived, buyReceived } = decodeRebalanceResult(data));
+    }
+  } catch (error) {
+    revertReason = describeRevert(error);
+  }
+
+  // Sells return USDT at token price; buys spend USDT for tokens at 1 / price
+  const sells: SimulatedLeg[] = sellTxs.map((tx, i) => {
+    const expectedOut = (tx.amount * priceOf(tx.token)) / PRECISION;
+    const simulatedOut = sellReceived?.[i] ?? null;
+    return {
+      token: tx.token,
+      amount: tx.amount.toString(),
+      expectedOut: expectedOut.toString(),
+      simulatedOut: simulatedOut?.toString() ?? null,
+      slippageBps: slippageBps(expectedOut, simulatedOut),
+    };
+  });
+
+  const buys: SimulatedLeg[] = buyTxs.map((tx, i) => {
+    const price = priceOf(tx.token);
+    const expectedOut = price === 0n ? 0n : (tx.amount * PRECISION) / price;
+    const simulatedOut = buyReceived?.[i] ?? null;
+    return {
+      token: tx.token,
+      amount: tx.amount.toString(),
+      expectedOut: expectedOut.toString(),
+      simulatedOut: simulatedOut?.toString() ?? null,
+      slippageBps: slippageBps(expectedOut, simulatedOut),
+    };
+  });
+
+  // Post-trade values use simulated fills when available, oracle fills otherwise
+  const valuesAfter = assets.map((asset) => {
+    const price = priceOf(asset.token);
+    const token = asset.token.toLowerCase();
+    let value = asset.currentValue;
+
+    for (const tx of sellTxs) {
+      if (tx.token.toLowerCase() === token) value -= (tx.amount * price) / PRECISION;
+    }
+    for (const leg of buys) {
+      if (leg.token.toLowerCase() === token) {
+        value += (BigInt(leg.simulatedOut ?? leg.expectedOut) * price) / PRECISION;
+      }
+    }
+
+    return value > 0n ? value : 0n;
+  });
+
+  const cashIn = sells.reduce((sum, leg) => sum + BigInt(leg.simulatedOut ?? leg.expectedOut), 0n);
+  const cashOut = buyTxs.reduce((sum, tx) => sum + tx.amount, 0n);
+
+  const residualCash = cashIn - cashOut;
+  const weightsBefore = toWeights(assets.map((a) => a.currentValue));
+  const weightsAfter = toWeights(valuesAfter, residualCash);
+
+  return {
+    strategy: options.targetAllocations
+      ? 'override'
+      : (options.strategy ?? getAllocationStrategyName()),
+    blockNumber: blockNumber.toString(),
+    from,
+    vaultAddress: config.pngyVault,
+    callData,
+    execution: { success: revertReason === null, revertReason },
+    assets: assets.map((asset, i) => ({
+      token: asset.token,
+      price: priceOf(asset.token).toString(),
+      valueBefore: asset.currentValue.toString(),
+      valueAfter: valuesAfter[i].toString(),
+      weightBefore: weightsBefore[i],
+      weightAfter: weightsAfter[i],
+      targetWeight: Number(targets[i]),
+    })),
+    sells,
+    buys,
+    residualCash: residualCash.toString(),
+    maxDeviationBefore: maxDeviationPercent(weightsBefore, targets),
+    maxDeviationAfter: maxDeviationPercent(weightsAfter, targets),
+  };
+}
+
+export default {
+  simulateRebalance,
+};
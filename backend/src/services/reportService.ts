@@ -2,23 +2,35 @@
  * Report Service
  * Task #58 - 实现 B2B 定制化报表导出
  *
- * Generates CSV reports for transaction history, net value changes, and yield details
+ * Generates CSV reports for transaction history, net value changes, yield details
+ * and realized gains
  */
 
 import { prisma } from './database.js';
 import { formatUnits } from 'viem';
+import { getCostBasisMethod, getRealizedGains, getRealizedGainSummary } from './lotService.js';
 
 // =============================================================================
 // Types
 // =============================================================================
 
-export type ReportType = 'transactions' | 'netvalue' | 'summary';
+export type ReportType = 'transactions' | 'netvalue' | 'summary' | 'gains';
+
+/**
+ * First day of the fiscal year (UTC). A fiscal year is labelled by the calendar
+ * year it starts in.
+ */
+export interface FiscalYearStart {
+  month: number; // 1-12
+  day: number;
+}
 
 export interface ReportOptions {
   userAddress: string;
   reportType: ReportType;
   startDate?: Date;
   endDate?: Date;
+  fiscalYearStart?: FiscalYearStart;
 }
 
 export interface TransactionRow {
@@ -44,6 +56,26 @@ export interface SummaryRow {
   value: string;
 }
 
+export interface GainsRow {
+  entry: 'WITHDRAWAL' | 'FISCAL_YEAR_TOTAL';
+  date: string;
+  fiscalYear: string;
+  txHash: string;
+  method: string;
+  shares: string;
+  acquiredFrom: string;
+  acquiredTo: string;
+  proceeds: string;
+  costBasis: string;
+  gain: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const DEFAULT_FISCAL_YEAR_START: FiscalYearStart = { month: 1, day: 1 };
+
 // =============================================================================
 // CSV Generation Helpers
 // =============================================================================
@@ -61,8 +93,12 @@ function escapeCSVField(value: string): string {
 
 /**
  * Convert array of objects to CSV string
+ * Columns are the row fields named in headers, in that order
  */
-function toCSV<T extends Record<string, string>>(rows: T[], headers: string[]): string {
+export function toCSV<T extends { [K in keyof T]: string }>(
+  rows: T[],
+  headers: readonly (keyof T & string)[]
+): string {
   const headerLine = headers.map(escapeCSVField).join(',');
   const dataLines = rows.map((row) =>
     headers.map((h) => escapeCSVField(row[h] || '')).join(',')
@@ -93,6 +129,32 @@ function formatDateTime(date: Date): string {
   return date.toISOString();
 }
 
+// =============================================================================
+// Fiscal Year Helpers
+// =============================================================================
+
+/**
+ * Fiscal year a date falls in, labelled by the calendar year it starts in
+ */
+export function getFiscalYear(
+  date: Date,
+  fiscalYearStart: FiscalYearStart = DEFAULT_FISCAL_YEAR_START
+): number {
+  const year = date.getUTCFullYear();
+  const start = Date.UTC(year, fiscalYearStart.month - 1, fiscalYearStart.day);
+  return date.getTime() < start ? year - 1 : year;
+}
+
+/**
+ * Fiscal year label: "2025" for calendar years, "2025-26" otherwise
+ */
+function formatFiscalYear(fiscalYear: number, fiscalYearStart: FiscalYearStart): string {
+  if (fiscalYearStart.month === 1 && fiscalYearStart.day === 1) {
+    return fiscalYear.toString();
+  }
+  return `${fiscalYear}-${String((fiscalYear + 1) % 100).padStart(2, '0')}`;
+}
+
 // =============================================================================
 // Report Generators
 // =============================================================================
@@ -135,7 +197,15 @@ export async function generateTransactionReport(
     blockNumber: tx.blockNumber.toString(),
   }));
 
-  const headers = ['date', 'type', 'amount', 'shares', 'sharePrice', 'txHash', 'blockNumber'];
+  const headers: (keyof TransactionRow)[] = [
+    'date',
+    'type',
+    'amount',
+    'shares',
+    'sharePrice',
+    'txHash',
+    'blockNumber',
+  ];
   return toCSV(rows, headers);
 }
 
@@ -189,7 +259,13 @@ export async function generateNetValueReport(
     };
   });
 
-  const headers = ['date', 'totalAssets', 'totalShares', 'sharePrice', 'apy'];
+  const headers: (keyof NetValueRow)[] = [
+    'date',
+    'totalAssets',
+    'totalShares',
+    'sharePrice',
+    'apy',
+  ];
   return toCSV(rows, headers);
 }
 
@@ -231,17 +307,30 @@ export async function generateSummaryReport(
   let totalWithdrawn = 0n;
   let depositCount = 0;
   let withdrawCount = 0;
+  let transferInCount = 0;
+  let transferOutCount = 0;
 
+  // Transfers move existing shares between wallets and are not deposits/withdrawals
   for (const tx of transactions) {
     if (tx.type === 'DEPOSIT') {
       totalDeposited += BigInt(tx.amount.toString());
       depositCount++;
-    } else {
+    } else if (tx.type === 'WITHDRAW') {
       totalWithdrawn += BigInt(tx.amount.toString());
       withdrawCount++;
+    } else if (tx.type === 'TRANSFER_IN') {
+      transferInCount++;
+    } else {
+      transferOutCount++;
     }
   }
 
+  // Gains realized by withdrawals in the period, from lot accounting
+  const [realized, costBasisMethod] = await Promise.all([
+    getRealizedGainSummary(normalizedAddress, startDate, endDate),
+    getCostBasisMethod(normalizedAddress),
+  ]);
+
   // Get latest net value for current share price
   const latestNetValue = await prisma.netValue.findFirst({
     orderBy: { timestamp: 'desc' },
@@ -268,24 +357,105 @@ export async function generateSummaryReport(
     { metric: 'Net Deposits (USDT)', value: formatDecimal((totalDeposited - totalWithdrawn).toString()) },
     { metric: 'Deposit Transactions', value: depositCount.toString() },
     { metric: 'Withdrawal Transactions', value: withdrawCount.toString() },
+    { metric: 'Transfers In', value: transferInCount.toString() },
+    { metric: 'Transfers Out', value: transferOutCount.toString() },
     { metric: 'Current PNGY Shares', value: formatDecimal(currentShares.toString()) },
     { metric: 'Cost Basis (USDT)', value: formatDecimal(costBasis.toString()) },
     { metric: 'Current Value (USDT)', value: formatDecimal(currentValue.toString()) },
     { metric: 'Total Yield (USDT)', value: formatDecimal(totalYield.toString()) },
     { metric: 'Yield Percentage', value: `${yieldPercent.toFixed(2)}%` },
+    { metric: 'Cost Basis Method', value: costBasisMethod },
+    { metric: 'Withdrawal Proceeds (USDT)', value: formatDecimal(realized.proceeds.toString()) },
+    { metric: 'Cost Basis of Withdrawals (USDT)', value: formatDecimal(realized.costBasis.toString()) },
+    { metric: 'Realized Gain/Loss (USDT)', value: formatDecimal(realized.gain.toString()) },
     { metric: 'Current Share Price', value: formatDecimal(currentSharePrice.toString()) },
     { metric: 'Report Generated', value: formatDateTime(new Date()) },
   ];
 
-  const headers = ['metric', 'value'];
+  const headers: (keyof SummaryRow)[] = ['metric', 'value'];
   return toCSV(rows, headers);
 }
 
+/**
+ * Generate realized gains CSV report: one row per withdrawal with the acquisition
+ * date range of the lots it consumed, followed by totals per fiscal year
+ */
+export async function generateGainsReport(
+  userAddress: string,
+  startDate?: Date,
+  endDate?: Date,
+  fiscalYearStart: FiscalYearStart = DEFAULT_FISCAL_YEAR_START
+): Promise<string> {
+  const gains = await getRealizedGains(userAddress, startDate, endDate);
+
+  const totals = new Map<
+    number,
+    { shares: bigint; proceeds: bigint; costBasis: bigint; gain: bigint }
+  >();
+
+  const withdrawalRows: GainsRow[] = gains.map((record) => {
+    const fiscalYear = getFiscalYear(record.realizedAt, fiscalYearStart);
+    const total = totals.get(fiscalYear) ?? { shares: 0n, proceeds: 0n, costBasis: 0n, gain: 0n };
+
+    totals.set(fiscalYear, {
+      shares: total.shares + record.shares,
+      proceeds: total.proceeds + record.proceeds,
+      costBasis: total.costBasis + record.costBasis,
+      gain: total.gain + record.gain,
+    });
+
+    return {
+      entry: 'WITHDRAWAL',
+      date: formatDateTime(record.realizedAt),
+      fiscalYear: formatFiscalYear(fiscalYear, fiscalYearStart),
+      txHash: record.txHash,
+      method: record.method,
+      shares: formatDecimal(record.shares),
+      acquiredFrom: record.acquiredFrom ? formatDate(record.acquiredFrom) : '',
+      acquiredTo: record.acquiredTo ? formatDate(record.acquiredTo) : '',
+      proceeds: formatDecimal(record.proceeds),
+      costBasis: formatDecimal(record.costBasis),
+      gain: formatDecimal(record.gain),
+    };
+  });
+
+  const totalRows: GainsRow[] = [...totals.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([fiscalYear, total]) => ({
+      entry: 'FISCAL_YEAR_TOTAL',
+      date: '',
+      fiscalYear: formatFiscalYear(fiscalYear, fiscalYearStart),
+      txHash: '',
+      method: '',
+      shares: formatDecimal(total.shares),
+      acquiredFrom: '',
+      acquiredTo: '',
+      proceeds: formatDecimal(total.proceeds),
+      costBasis: formatDecimal(total.costBasis),
+      gain: formatDecimal(total.gain),
+    }));
+
+  const headers: (keyof GainsRow)[] = [
+    'entry',
+    'date',
+    'fiscalYear',
+    'txHash',
+    'method',
+    'shares',
+    'acquiredFrom',
+    'acquiredTo',
+    'proceeds',
+    'costBasis',
+    'gain',
+  ];
+  return toCSV([...withdrawalRows, ...totalRows], headers);
+}
+
 /**
  * Generate report based on type
  */
 export async function generateReport(options: ReportOptions): Promise<string> {
-  const { userAddress, reportType, startDate, endDate } = options;
+  const { userAddress, reportType, startDate, endDate, fiscalYearStart } = options;
 
   switch (reportType) {
     case 'transactions':
@@ -294,6 +464,8 @@ export async function generateReport(options: ReportOptions): Promise<string> {
       return generateNetValueReport(startDate, endDate);
     case 'summary':
       return generateSummaryReport(userAddress, startDate, endDate);
+    case 'gains':
+      return generateGainsReport(userAddress, startDate, endDate, fiscalYearStart);
     default:
       throw new Error(`Unknown report type: ${reportType}`);
   }
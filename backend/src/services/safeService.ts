@@ -0,0 +1,449 @@
+/**
+ * Safe Service
+ * Gnosis Safe Transaction Service client for multisig rebalance proposals
+ *
+ * This service:
+ * - Computes the EIP-712 safeTxHash of a Safe transaction
+ * - Proposes transactions signed by a delegate key (owners confirm in the Safe UI)
+ * - Tracks confirmations and execution of proposed transactions
+ * - Links executed transactions to the RebalanceExecuted events indexed by EventListener
+ */
+
+import { getAddress, hashTypedData, zeroAddress, type Address, type Hex } from 'viem';
+import { bsc, bscTestnet } from 'viem/chains';
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
+import { prisma } from './database.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SafeOperation = 0 | 1; // CALL | DELEGATECALL
+
+export interface SafeTransactionData {
+  to: Address;
+  value: bigint;
+  data: Hex;
+  operation: SafeOperation;
+  safeTxGas: bigint;
+  baseGas: bigint;
+  gasPrice: bigint;
+  gasToken: Address;
+  refundReceiver: Address;
+  nonce: bigint;
+}
+
+export interface SafeServiceConfig {
+  baseUrl: string;
+  safeAddress: Address;
+  chainId: number;
+}
+
+export interface SafeInfo {
+  address: Address;
+  nonce: bigint;
+  threshold: number;
+  owners: Address[];
+}
+
+export interface SafeMultisigTransaction {
+  safeTxHash: Hex;
+  nonce: bigint;
+  confirmations: number;
+  confirmationsRequired: number;
+  isExecuted: boolean;
+  isSuccessful: boolean | null;
+  transactionHash: Hex | null;
+  executionDate: Date | null;
+}
+
+export interface ProposeSafeTransactionInput {
+  to: Address;
+  data: Hex;
+  value?: bigint;
+  safeTxGas?: bigint;
+}
+
+// Raw Safe Transaction Service payloads (uint values may arrive as numbers or strings)
+interface SafeInfoResponse {
+  address: string;
+  nonce: number | string;
+  threshold: number;
+  owners: string[];
+}
+
+interface MultisigTransactionResponse {
+  safeTxHash: string;
+  nonce: number | string;
+  confirmationsRequired: number | null;
+  confirmations: unknown[] | null;
+  isExecuted: boolean;
+  isSuccessful: boolean | null;
+  transactionHash: string | null;
+  executionDate: string | null;
+}
+
+interface PaginatedResponse<T> {
+  count: number;
+  results: T[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const BSC_SAFE_TX_SERVICE_URL = 'https://safe-transaction-bsc.safe.global';
+const PROPOSAL_ORIGIN = 'paimon-rebalance-engine';
+
+const SAFE_TX_TYPES = {
+  SafeTx: [
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'data', type: 'bytes' },
+    { name: 'operation', type: 'uint8' },
+    { name: 'safeTxGas', type: 'uint256' },
+    { name: 'baseGas', type: 'uint256' },
+    { name: 'gasPrice', type: 'uint256' },
+    { name: 'gasToken', type: 'address' },
+    { name: 'refundReceiver', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+} as const;
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+export class SafeServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'SafeServiceError';
+  }
+}
+
+// =============================================================================
+// Hashing
+// =============================================================================
+
+/**
+ * EIP-712 hash owners sign to confirm a Safe transaction (Safe >= 1.3.0 domain)
+ */
+export function computeSafeTxHash(
+  tx: SafeTransactionData,
+  safeAddress: Address,
+  chainId: number
+): Hex {
+  return hashTypedData({
+    domain: { chainId, verifyingContract: safeAddress },
+    types: SAFE_TX_TYPES,
+    primaryType: 'SafeTx',
+    message: tx,
+  });
+}
+
+// =============================================================================
+// Safe Transaction Service Client
+// =============================================================================
+
+export class SafeServiceClient {
+  private readonly baseUrl: string;
+  readonly safeAddress: Address;
+  readonly chainId: number;
+
+  constructor(config: SafeServiceConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.safeAddress = getAddress(config.safeAddress);
+    this.chainId = config.chainId;
+  }
+
+  async getSafeInfo(): Promise<SafeInfo> {
+    const info = await this.request<SafeInfoResponse>(`/api/v1/safes/${this.safeAddress}/`);
+
+    return {
+      address: getAddress(info.address),
+      nonce: BigInt(info.nonce),
+      threshold: info.threshold,
+      owners: info.owners.map((owner) => getAddress(owner)),
+    };
+  }
+
+  /**
+   * Next free nonce: queued (unexecuted) proposals already occupy nonces above the Safe's own
+   */
+  async getNextNonce(safeNonce?: bigint): Promise<bigint> {
+    const nonce = safeNonce ?? (await this.getSafeInfo()).nonce;
+    const queued = await this.request<PaginatedResponse<MultisigTransactionResponse>>(
+      `/api/v1/safes/${this.safeAddress}/multisig-transactions/?executed=false&nonce__gte=${nonce}&ordering=-nonce&limit=1`
+    );
+
+    const highest = queued.results[0];
+    return highest ? BigInt(highest.nonce) + 1n : nonce;
+  }
+
+  /**
+   * Propose a transaction as a delegate. Returns the safeTxHash.
+   */
+  async proposeTransaction(tx: SafeTransactionData, delegate: PrivateKeyAccount): Promise<Hex> {
+    const safeTxHash = computeSafeTxHash(tx, this.safeAddress, this.chainId);
+    const signature = await delegate.sign({ hash: safeTxHash });
+
+    await this.request(`/api/v1/safes/${this.safeAddress}/multisig-transactions/`, {
+      method: 'POST',
+      body: {
+        to: getAddress(tx.to),
+        value: tx.value.toString(),
+        data: tx.data,
+        operation: tx.operation,
+        safeTxGas: tx.safeTxGas.toString(),
+        baseGas: tx.baseGas.toString(),
+        gasPrice: tx.gasPrice.toString(),
+        gasToken: tx.gasToken,
+        refundReceiver: tx.refundReceiver,
+        nonce: tx.nonce.toString(),
+        contractTransactionHash: safeTxHash,
+        sender: delegate.address,
+        signature,
+        origin: PROPOSAL_ORIGIN,
+      },
+    });
+
+    return safeTxHash;
+  }
+
+  async getTransaction(safeTxHash: Hex): Promise<SafeMultisigTransaction> {
+    const tx = await this.request<MultisigTransactionResponse>(
+      `/api/v1/multisig-transactions/${safeTxHash}/`
+    );
+
+    return {
+      safeTxHash: tx.safeTxHash as Hex,
+      nonce: BigInt(tx.nonce),
+      confirmations: tx.confirmations?.length ?? 0,
+      confirmationsRequired: tx.confirmationsRequired ?? 0,
+      isExecuted: tx.isExecuted,
+      isSuccessful: tx.isSuccessful,
+      transactionHash: (tx.transactionHash as Hex | null) ?? null,
+      executionDate: tx.executionDate ? new Date(tx.executionDate) : null,
+    };
+  }
+
+  private async request<T = void>(
+    path: string,
+    options: { method?: 'GET' | 'POST'; body?: unknown } = {}
+  ): Promise<T> {
+    const { method = 'GET', body } = options;
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    const text = await response.text();
+
+    if (!response.ok) {
+      throw new SafeServiceError(
+        `Safe Transaction Service ${method} ${path} failed (${response.status}): ${text}`,
+        response.status
+      );
+    }
+
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const getSafeConfig = () => ({
+  safeAddress: process.env.GNOSIS_SAFE_ADDRESS as Address | undefined,
+  serviceUrl:
+    process.env.SAFE_TX_SERVICE_URL ||
+    (process.env.NODE_ENV === 'production' ? BSC_SAFE_TX_SERVICE_URL : undefined),
+  delegateKey: process.env.SAFE_DELEGATE_PRIVATE_KEY as Hex | undefined,
+  chainId: process.env.NODE_ENV === 'production' ? bsc.id : bscTestnet.id,
+});
+
+/**
+ * Whether proposals can be submitted automatically (Safe, service URL and delegate key set)
+ */
+export function isSafeServiceConfigured(): boolean {
+  const config = getSafeConfig();
+  return !!(config.safeAddress && config.serviceUrl && config.delegateKey);
+}
+
+export function getSafeServiceClient(): SafeServiceClient {
+  const config = getSafeConfig();
+
+  if (!config.safeAddress) {
+    throw new Error('GNOSIS_SAFE_ADDRESS not configured');
+  }
+  if (!config.serviceUrl) {
+    throw new Error('SAFE_TX_SERVICE_URL not configured');
+  }
+
+  return new SafeServiceClient({
+    baseUrl: config.serviceUrl,
+    safeAddress: config.safeAddress,
+    chainId: config.chainId,
+  });
+}
+
+function getDelegateAccount(): PrivateKeyAccount {
+  const { delegateKey } = getSafeConfig();
+
+  if (!delegateKey) {
+    throw new Error('SAFE_DELEGATE_PRIVATE_KEY not configured');
+  }
+
+  return privateKeyToAccount(delegateKey);
+}
+
+// =============================================================================
+// Proposal Tracking
+// =============================================================================
+
+/**
+ * Propose a CALL from the Safe and start tracking it
+ */
+export async function proposeSafeTransaction(
+  input: ProposeSafeTransactionInput
+): Promise<{ safeTxHash: Hex; nonce: bigint }> {
+  const client = getSafeServiceClient();
+  const delegate = getDelegateAccount();
+
+  const safeInfo = await client.getSafeInfo();
+  const nonce = await client.getNextNonce(safeInfo.nonce);
+
+  const tx: SafeTransactionData = {
+    to: input.to,
+    value: input.value ?? 0n,
+    data: input.data,
+    operation: 0,
+    safeTxGas: input.safeTxGas ?? 0n,
+    baseGas: 0n,
+    gasPrice: 0n,
+    gasToken: zeroAddress,
+    refundReceiver: zeroAddress,
+    nonce,
+  };
+
+  const safeTxHash = await client.proposeTransaction(tx, delegate);
+
+  await prisma.safeTransaction.create({
+    data: {
+      safeTxHash,
+      safeAddress: client.safeAddress.toLowerCase(),
+      to: tx.to.toLowerCase(),
+      value: tx.value.toString(),
+      data: tx.data,
+      operation: tx.operation,
+      safeTxGas: tx.safeTxGas.toString(),
+      nonce,
+      proposer: delegate.address.toLowerCase(),
+      confirmationsRequired: safeInfo.threshold,
+    },
+  });
+
+  console.log(
+    `[SafeService] Proposed ${safeTxHash} to Safe ${client.safeAddress} (nonce ${nonce})`
+  );
+
+  return { safeTxHash, nonce };
+}
+
+/**
+ * Refresh confirmations and execution status of a proposal from the Safe service
+ */
+export async function syncSafeTransaction(safeTxHash: Hex): Promise<SafeMultisigTransaction> {
+  const tx = await getSafeServiceClient().getTransaction(safeTxHash);
+
+  await prisma.safeTransaction.update({
+    where: { safeTxHash },
+    data: {
+      confirmations: tx.confirmations,
+      confirmationsRequired: tx.confirmationsRequired,
+      isExecuted: tx.isExecuted,
+      isSuccessful: tx.isSuccessful,
+      executionTxHash: tx.transactionHash?.toLowerCase() ?? null,
+      executedAt: tx.executionDate,
+    },
+  });
+
+  return tx;
+}
+
+/**
+ * Sync every proposal that hasn't been executed yet
+ */
+export async function trackPendingSafeTransactions(): Promise<{
+  checked: number;
+  executed: number;
+  failed: number;
+}> {
+  const pending = await prisma.safeTransaction.findMany({
+    where: { isExecuted: false },
+    orderBy: { nonce: 'asc' },
+    select: { safeTxHash: true },
+  });
+
+  let executed = 0;
+  let failed = 0;
+
+  for (const { safeTxHash } of pending) {
+    try {
+      const tx = await syncSafeTransaction(safeTxHash as Hex);
+
+      if (tx.isExecuted) {
+        executed++;
+        console.log(`[SafeService] ${safeTxHash} executed in ${tx.transactionHash}`);
+      }
+    } catch (error) {
+      failed++;
+      console.error(`[SafeService] Failed to sync ${safeTxHash}:`, error);
+    }
+  }
+
+  return { checked: pending.length, executed, failed };
+}
+
+/**
+ * Mark proposals as executed by the transaction that emitted RebalanceExecuted.
+ * safeTxHashes come from the Safe's ExecutionSuccess logs in the same receipt.
+ */
+export async function linkRebalanceExecution(input: {
+  safeTxHashes: Hex[];
+  txHash: string;
+  blockNumber: bigint;
+  timestamp: Date;
+}): Promise<number> {
+  if (input.safeTxHashes.length === 0) return 0;
+
+  const { count } = await prisma.safeTransaction.updateMany({
+    where: { safeTxHash: { in: input.safeTxHashes.map((hash) => hash.toLowerCase()) } },
+    data: {
+      isExecuted: true,
+      isSuccessful: true,
+      executionTxHash: input.txHash.toLowerCase(),
+      executedAt: input.timestamp,
+      rebalanceTxHash: input.txHash.toLowerCase(),
+      rebalanceBlockNumber: input.blockNumber,
+    },
+  });
+
+  return count;
+}
+
+export default {
+  computeSafeTxHash,
+  isSafeServiceConfigured,
+  getSafeServiceClient,
+  proposeSafeTransaction,
+  syncSafeTransaction,
+  trackPendingSafeTransactions,
+  linkRebalanceExecution,
+};
@@ -0,0 +1,61 @@
+/**
+ * Telegram Service
+ * Sends messages through the protocol's Telegram bot (TELEGRAM_BOT_TOKEN)
+ *
+ * Used for the admin alert group and for users who enabled the TELEGRAM channel.
+ * A bot can only message chats that have started it, so users link their chat id.
+ */
+
+import type { SendResult } from './emailService.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// =============================================================================
+// Messages
+// =============================================================================
+
+/**
+ * Send a message to a Telegram chat; never throws
+ */
+export async function sendTelegramMessage(
+  chatId: string,
+  text: string,
+  options: { parseMode?: 'HTML' } = {}
+): Promise<SendResult> {
+  const botToken = process.env.TELEGRAM_BOT_TOKEN;
+
+  if (!botToken) {
+    return { success: false, error: 'Telegram bot not configured' };
+  }
+
+  try {
+    const response = await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        chat_id: chatId,
+        text,
+        parse_mode: options.parseMode,
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      return { success: false, error: await response.text() };
+    }
+
+    return { success: true };
+  } catch (error) {
+    // Fetch errors can echo the request URL, which contains the bot token
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: message.replaceAll(botToken, '***') };
+  }
+}
+
+export default {
+  sendTelegramMessage,
+};
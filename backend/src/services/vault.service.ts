@@ -25,6 +25,7 @@ export async function getUserPosition(address: string) {
 
 export interface CreateTransactionInput {
   txHash: string;
+  logIndex?: number;
   type: TransactionType;
   userAddress: string;
   amount: bigint;
@@ -35,7 +36,17 @@ export interface CreateTransactionInput {
 }
 
 export async function createTransaction(input: CreateTransactionInput) {
-  const { txHash, type, userAddress, amount, shares, sharePrice, blockNumber, timestamp } = input;
+  const {
+    txHash,
+    logIndex,
+    type,
+    userAddress,
+    amount,
+    shares,
+    sharePrice,
+    blockNumber,
+    timestamp,
+  } = input;
 
   // Ensure user exists
   await findOrCreateUser(userAddress);
@@ -43,6 +54,7 @@ export async function createTransaction(input: CreateTransactionInput) {
   return prisma.transaction.create({
     data: {
       txHash,
+      logIndex,
       type,
       userAddress: userAddress.toLowerCase(),
       amount: amount.toString(),
@@ -65,6 +77,33 @@ export async function getRecentTransactions(limit = 10, offset = 0) {
   });
 }
 
+export interface TransactionPageOptions {
+  limit?: number;
+  cursor?: string; // id of the last transaction on the previous page
+}
+
+/**
+ * Get a page of vault-wide transactions, newest first.
+ * Fetches one extra row to tell whether another page exists.
+ */
+export async function getTransactionsPage(options: TransactionPageOptions = {}) {
+  const { limit = 10, cursor } = options;
+
+  const rows = await prisma.transaction.findMany({
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+  });
+
+  const hasMore = rows.length > limit;
+  const transactions = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    transactions,
+    nextCursor: hasMore ? transactions[transactions.length - 1].id : null,
+  };
+}
+
 export async function getUserTransactions(address: string, limit = 10, offset = 0) {
   return prisma.transaction.findMany({
     where: { userAddress: address.toLowerCase() },
@@ -104,6 +143,16 @@ export async function getLatestNetValue() {
   });
 }
 
+/**
+ * Get the latest NAV snapshot taken at or before a given time
+ */
+export async function getNetValueAt(timestamp: Date) {
+  return prisma.netValue.findFirst({
+    where: { timestamp: { lte: timestamp } },
+    orderBy: { timestamp: 'desc' },
+  });
+}
+
 export async function getNetValueHistory(days = 30) {
   const since = new Date();
   since.setDate(since.getDate() - days);
@@ -0,0 +1,587 @@
+/**
+ * Webhook Service
+ * Signed event delivery for integrators (exchanges, custodians, accounting tools)
+ *
+ * This service:
+ * - Manages webhook subscriptions (URL + event types) per wallet address
+ * - Fans out vault and protocol events to matching subscriptions as WebhookDelivery rows
+ * - Signs each request with HMAC-SHA256 using the subscription's secret
+ * - Delivers through the `webhooks` BullMQ queue, which retries with exponential backoff
+ * - Supports manual redelivery of any logged delivery
+ *
+ * Receivers verify `X-Paimon-Signature: t=<unix>,v1=<hex>` by computing
+ * HMAC-SHA256(secret, `${t}.${rawBody}`) and should dedupe on the payload `id`.
+ */
+
+import { createHmac, randomBytes } from 'node:crypto';
+import { prisma } from './database.js';
+import { isValidWebhookUrl, resolvesToPublicAddress } from './notificationChannels.js';
+import { addWebhookDeliveryJob } from '../jobs/queues.js';
+import type {
+  Prisma,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  WebhookSubscription,
+} from '@prisma/client';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface WebhookEvent {
+  /**
+   * Wallet the event belongs to; omitted for protocol-wide events
+   */
+  address?: string;
+  /**
+   * Stable id for this event (same on retries and redeliveries)
+   */
+  eventId: string;
+  occurredAt: Date;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookSubscriptionInput {
+  url: string;
+  eventTypes: WebhookEventType[];
+  description?: string;
+}
+
+export interface WebhookSubscriptionUpdate {
+  url?: string;
+  eventTypes?: WebhookEventType[];
+  active?: boolean;
+  description?: string | null;
+}
+
+export interface WebhookSubscriptionInfo {
+  id: string;
+  ownerAddress: string;
+  url: string;
+  eventTypes: WebhookEventType[];
+  active: boolean;
+  description: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookDeliveryInfo {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  errorMessage: string | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+type SubscriptionRow = WebhookSubscription;
+
+type DeliveryRow = WebhookDelivery;
+
+export class WebhookValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookValidationError';
+  }
+}
+
+/**
+ * Thrown by deliverWebhook when an attempt fails and should be retried
+ */
+export class WebhookDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookDeliveryError';
+  }
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'DEPOSIT_COMPLETED',
+  'WITHDRAWAL_COMPLETED',
+  'WITHDRAWAL_REQUESTED',
+  'WITHDRAWAL_CLAIMED',
+  'LARGE_WITHDRAWAL_STATUS_CHANGED',
+  'PROTOCOL_PAUSED',
+  'PROTOCOL_UNPAUSED',
+  'EMERGENCY_MODE_CHANGED',
+];
+
+// Protocol-wide events go to every subscriber, not just the wallet's own
+const PROTOCOL_EVENT_TYPES: WebhookEventType[] = [
+  'PROTOCOL_PAUSED',
+  'PROTOCOL_UNPAUSED',
+  'EMERGENCY_MODE_CHANGED',
+];
+
+export const MAX_SUBSCRIPTIONS_PER_ADDRESS = 10;
+
+export const SIGNATURE_HEADER = 'X-Paimon-Signature';
+export const EVENT_HEADER = 'X-Paimon-Event';
+export const DELIVERY_HEADER = 'X-Paimon-Delivery';
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_RESPONSE_BODY_LENGTH = 1_000;
+
+// =============================================================================
+// Signing
+// =============================================================================
+
+function generateSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Signature header value for a request body sent at `timestamp` (unix seconds)
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// =============================================================================
+// Subscription Management
+// =============================================================================
+
+function validateSubscriptionFields(fields: { url?: string; eventTypes?: WebhookEventType[] }) {
+  if (fields.url !== undefined && !isValidWebhookUrl(fields.url)) {
+    throw new WebhookValidationError('Webhook URL must be an HTTPS URL without credentials');
+  }
+
+  if (fields.eventTypes !== undefined) {
+    if (fields.eventTypes.length === 0) {
+      throw new WebhookValidationError('At least one event type is required');
+    }
+
+    const unknown = fields.eventTypes.filter((type) => !WEBHOOK_EVENT_TYPES.includes(type));
+    if (unknown.length > 0) {
+      throw new WebhookValidationError(`Unknown event types: ${unknown.join(', ')}`);
+    }
+  }
+}
+
+/**
+ * Register a webhook subscription for a wallet
+ * The signing secret is only ever returned here
+ */
+export async function createWebhookSubscription(
+  ownerAddress: string,
+  input: WebhookSubscriptionInput
+): Promise<{ subscription: WebhookSubscriptionInfo; secret: string }> {
+  const address = ownerAddress.toLowerCase();
+  validateSubscriptionFields(input);
+
+  const existing: number = await prisma.webhookSubscription.count({
+    where: { ownerAddress: address },
+  });
+  if (existing >= MAX_SUBSCRIPTIONS_PER_ADDRESS) {
+    throw new WebhookValidationError(
+      `A wallet can have at most ${MAX_SUBSCRIPTIONS_PER_ADDRESS} webhook subscriptions`
+    );
+  }
+
+  const secret = generateSecret();
+  const subscription: SubscriptionRow = await prisma.webhookSubscription.create({
+    data: {
+      ownerAddress: address,
+      url: input.url,
+      secret,
+      eventTypes: [...new Set(input.eventTypes)],
+      description: input.description,
+    },
+  });
+
+  console.log(`[WebhookService] Subscription ${subscription.id} created for ${address}`);
+
+  return { subscription: formatSubscription(subscription), secret };
+}
+
+export async function getWebhookSubscriptions(
+  ownerAddress: string
+): Promise<WebhookSubscriptionInfo[]> {
+  const subscriptions: SubscriptionRow[] = await prisma.webhookSubscription.findMany({
+    where: { ownerAddress: ownerAddress.toLowerCase() },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return subscriptions.map(formatSubscription);
+}
+
+/**
+ * Update a wallet's subscription, or return null when it doesn't own one with this id
+ */
+export async function updateWebhookSubscription(
+  ownerAddress: string,
+  id: string,
+  update: WebhookSubscriptionUpdate
+): Promise<WebhookSubscriptionInfo | null> {
+  validateSubscriptionFields(update);
+
+  if (!(await findOwnedSubscription(ownerAddress, id))) {
+    return null;
+  }
+
+  const subscription: SubscriptionRow = await prisma.webhookSubscription.update({
+    where: { id },
+    data: {
+      ...update,
+      eventTypes: update.eventTypes && [...new Set(update.eventTypes)],
+    },
+  });
+
+  return formatSubscription(subscription);
+}
+
+/**
+ * Delete a wallet's subscription (and its delivery log)
+ */
+export async function deleteWebhookSubscription(
+  ownerAddress: string,
+  id: string
+): Promise<boolean> {
+  const { count }: { count: number } = await prisma.webhookSubscription.deleteMany({
+    where: { id, ownerAddress: ownerAddress.toLowerCase() },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Delivery log for a subscription, newest first; null when the wallet doesn't own it
+ */
+export async function getWebhookDeliveries(
+  ownerAddress: string,
+  subscriptionId: string,
+  options: { limit?: number; offset?: number; status?: WebhookDeliveryStatus } = {}
+): Promise<{ deliveries: WebhookDeliveryInfo[]; total: number } | null> {
+  if (!(await findOwnedSubscription(ownerAddress, subscriptionId))) {
+    return null;
+  }
+
+  const where = { subscriptionId, ...(options.status && { status: options.status }) };
+
+  const [deliveries, total]: [DeliveryRow[], number] = await Promise.all([
+    prisma.webhookDelivery.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: options.limit ?? 50,
+      skip: options.offset ?? 0,
+    }),
+    prisma.webhookDelivery.count({ where }),
+  ]);
+
+  return { deliveries: deliveries.map(formatDelivery), total };
+}
+
+/**
+ * Send a logged delivery again with its original payload
+ * Returns null when the delivery doesn't belong to the wallet's subscription
+ */
+export async function redeliverWebhook(
+  ownerAddress: string,
+  subscriptionId: string,
+  deliveryId: string
+): Promise<WebhookDeliveryInfo | null> {
+  const delivery: DeliveryRow | null = await prisma.webhookDelivery.findFirst({
+    where: {
+      id: deliveryId,
+      subscriptionId,
+      subscription: { ownerAddress: ownerAddress.toLowerCase() },
+    },
+  });
+
+  if (!delivery) {
+    return null;
+  }
+
+  const updated: DeliveryRow = await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: { status: 'PENDING', errorMessage: null },
+  });
+
+  await addWebhookDeliveryJob(delivery.id);
+  console.log(`[WebhookService] Redelivery of ${delivery.id} queued`);
+
+  return formatDelivery(updated);
+}
+
+async function findOwnedSubscription(
+  ownerAddress: string,
+  id: string
+): Promise<SubscriptionRow | null> {
+  return prisma.webhookSubscription.findFirst({
+    where: { id, ownerAddress: ownerAddress.toLowerCase() },
+  });
+}
+
+// =============================================================================
+// Publishing
+// =============================================================================
+
+/**
+ * Fan an event out to matching active subscriptions and queue their deliveries
+ *
+ * Only subscriptions created before the event occurred receive it, so indexer
+ * backfills don't replay history to new subscribers. Republishing the same
+ * eventId is a no-op (one delivery per subscription and event).
+ * Never throws: webhook failures must not interrupt indexing or admin actions.
+ */
+export async function publishWebhookEvent(
+  type: WebhookEventType,
+  event: WebhookEvent
+): Promise<number> {
+  try {
+    const isProtocolEvent = PROTOCOL_EVENT_TYPES.includes(type);
+    if (!isProtocolEvent && !event.address) {
+      return 0;
+    }
+
+    const subscriptions: { id: string }[] = await prisma.webhookSubscription.findMany({
+      where: {
+        active: true,
+        eventTypes: { has: type },
+        createdAt: { lte: event.occurredAt },
+        ...(!isProtocolEvent && { ownerAddress: event.address!.toLowerCase() }),
+      },
+      select: { id: true },
+    });
+
+    if (subscriptions.length === 0) {
+      return 0;
+    }
+
+    const payload: WebhookPayload = {
+      id: event.eventId,
+      type,
+      createdAt: event.occurredAt.toISOString(),
+      data: event.data,
+    };
+
+    await prisma.webhookDelivery.createMany({
+      data: subscriptions.map((subscription) => ({
+        subscriptionId: subscription.id,
+        eventId: event.eventId,
+        eventType: type,
+        payload: toJsonValue(payload),
+      })),
+      skipDuplicates: true,
+    });
+
+    // Only queue deliveries that haven't been attempted (skipDuplicates hides which rows are new)
+    const deliveries: { id: string }[] = await prisma.webhookDelivery.findMany({
+      where: {
+        eventId: event.eventId,
+        subscriptionId: { in: subscriptions.map((subscription) => subscription.id) },
+        status: 'PENDING',
+        attempts: 0,
+      },
+      select: { id: true },
+    });
+
+    for (const delivery of deliveries) {
+      await addWebhookDeliveryJob(delivery.id);
+    }
+
+    if (deliveries.length > 0) {
+      console.log(
+        `[WebhookService] ${type} ${event.eventId} queued for ${deliveries.length} subscription(s)`
+      );
+    }
+
+    return deliveries.length;
+  } catch (error) {
+    console.error(`[WebhookService] Failed to publish ${type} ${event.eventId}:`, error);
+    return 0;
+  }
+}
+
+// =============================================================================
+// Delivery
+// =============================================================================
+
+/**
+ * Attempt one delivery (called by the webhook worker)
+ *
+ * Throws WebhookDeliveryError on a failed attempt so the queue retries it;
+ * on the final attempt the delivery is marked FAILED instead.
+ */
+export async function deliverWebhook(
+  deliveryId: string,
+  options: { finalAttempt?: boolean } = {}
+): Promise<{ status: WebhookDeliveryStatus; responseStatus?: number }> {
+  const delivery: (DeliveryRow & { subscription: SubscriptionRow }) | null =
+    await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { subscription: true },
+    });
+
+  if (!delivery) {
+    console.warn(`[WebhookService] Delivery ${deliveryId} no longer exists, skipping`);
+    return { status: 'FAILED' };
+  }
+
+  if (!delivery.subscription.active) {
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { status: 'FAILED', errorMessage: 'Subscription is disabled' },
+    });
+    return { status: 'FAILED' };
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let responseStatus: number | undefined;
+  let responseBody: string | null = null;
+  let errorMessage: string | null = null;
+
+  try {
+    // Checked on every attempt: DNS may have changed since the URL was accepted
+    if (!(await resolvesToPublicAddress(delivery.subscription.url))) {
+      throw new Error('Webhook host does not resolve to a public address');
+    }
+
+    const response = await fetch(delivery.subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'PaimonYield-Webhooks/1.0',
+        [EVENT_HEADER]: delivery.eventType,
+        [DELIVERY_HEADER]: delivery.id,
+        [SIGNATURE_HEADER]: signWebhookPayload(delivery.subscription.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      redirect: 'manual',
+    });
+
+    responseStatus = response.status;
+    responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH);
+
+    if (!response.ok) {
+      errorMessage = `HTTP ${response.status}`;
+    }
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  const succeeded = errorMessage === null;
+  const status: WebhookDeliveryStatus = succeeded
+    ? 'SUCCEEDED'
+    : options.finalAttempt
+      ? 'FAILED'
+      : 'RETRYING';
+
+  await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status,
+      attempts: { increment: 1 },
+      responseStatus: responseStatus ?? null,
+      responseBody,
+      errorMessage,
+      deliveredAt: succeeded ? new Date() : undefined,
+    },
+  });
+
+  if (status === 'RETRYING') {
+    throw new WebhookDeliveryError(`Delivery ${delivery.id} failed: ${errorMessage}`);
+  }
+
+  if (status === 'FAILED') {
+    console.error(`[WebhookService] Delivery ${delivery.id} failed permanently: ${errorMessage}`);
+  }
+
+  return { status, responseStatus };
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function formatSubscription(subscription: SubscriptionRow): WebhookSubscriptionInfo {
+  return {
+    id: subscription.id,
+    ownerAddress: subscription.ownerAddress,
+    url: subscription.url,
+    eventTypes: subscription.eventTypes,
+    active: subscription.active,
+    description: subscription.description,
+    createdAt: subscription.createdAt,
+    updatedAt: subscription.updatedAt,
+  };
+}
+
+function isJsonObject(value: Prisma.JsonValue): value is Prisma.JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Plain JSON copy of a payload for the Json column, identical to the body that gets signed
+ */
+function toJsonValue(payload: WebhookPayload): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(payload)) as Prisma.InputJsonValue;
+}
+
+/**
+ * Stored payload of a delivery, as written by publishWebhookEvent
+ */
+function toWebhookPayload(delivery: DeliveryRow): WebhookPayload {
+  if (isJsonObject(delivery.payload)) {
+    const { id, createdAt, data } = delivery.payload;
+
+    if (typeof id === 'string' && typeof createdAt === 'string' && data && isJsonObject(data)) {
+      return { id, type: delivery.eventType, createdAt, data };
+    }
+  }
+
+  throw new Error(`Webhook delivery ${delivery.id} has a malformed payload`);
+}
+
+function formatDelivery(delivery: DeliveryRow): WebhookDeliveryInfo {
+  return {
+    id: delivery.id,
+    subscriptionId: delivery.subscriptionId,
+    eventId: delivery.eventId,
+    eventType: delivery.eventType,
+    payload: toWebhookPayload(delivery),
+    status: delivery.status,
+    attempts: delivery.attempts,
+    responseStatus: delivery.responseStatus,
+    responseBody: delivery.responseBody,
+    errorMessage: delivery.errorMessage,
+    deliveredAt: delivery.deliveredAt,
+    createdAt: delivery.createdAt,
+    updatedAt: delivery.updatedAt,
+  };
+}
+
+export default {
+  createWebhookSubscription,
+  getWebhookSubscriptions,
+  updateWebhookSubscription,
+  deleteWebhookSubscription,
+  getWebhookDeliveries,
+  redeliverWebhook,
+  publishWebhookEvent,
+  deliverWebhook,
+  signWebhookPayload,
+};
@@ -0,0 +1,128 @@
+/**
+ * Withdraw Queue Service
+ * Read model for the vault's async (T+1) withdrawal queue
+ *
+ * This service:
+ * - Reads WithdrawRequest rows indexed by EventListener from
+ *   WithdrawRequested / WithdrawClaimed events
+ * - Derives request status (pending / claimable / claimed)
+ * - Exposes queue history per wallet without per-request RPC reads
+ */
+
+import { prisma } from './database.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type WithdrawRequestStatus = 'pending' | 'claimable' | 'claimed';
+
+export interface WithdrawRequestInfo {
+  requestId: string;
+  ownerAddress: string;
+  receiverAddress: string;
+  shares: string;
+  assets: string;
+  requestTime: Date;
+  claimableTime: Date;
+  requestTxHash: string;
+  status: WithdrawRequestStatus;
+  claimedAssets: string | null;
+  claimTxHash: string | null;
+  claimedAt: Date | null;
+}
+
+export interface GetWithdrawRequestsOptions {
+  status?: WithdrawRequestStatus;
+  limit?: number;
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Get withdraw queue history for a wallet, newest first
+ */
+export async function getUserWithdrawRequests(
+  ownerAddress: string,
+  options: GetWithdrawRequestsOptions = {}
+): Promise<WithdrawRequestInfo[]> {
+  const { status, limit = 50 } = options;
+  const now = new Date();
+
+  const where: {
+    ownerAddress: string;
+    claimTxHash?: null | { not: null };
+    claimableTime?: { gt: Date } | { lte: Date };
+  } = { ownerAddress: ownerAddress.toLowerCase() };
+
+  if (status === 'claimed') {
+    where.claimTxHash = { not: null };
+  } else if (status === 'claimable') {
+    where.claimTxHash = null;
+    where.claimableTime = { lte: now };
+  } else if (status === 'pending') {
+    where.claimTxHash = null;
+    where.claimableTime = { gt: now };
+  }
+
+  const requests = await prisma.withdrawRequest.findMany({
+    where,
+    orderBy: { requestId: 'desc' },
+    take: limit,
+  });
+
+  return requests.map((request) => formatWithdrawRequest(request, now));
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function getWithdrawRequestStatus(
+  request: { claimTxHash: string | null; claimableTime: Date },
+  now: Date
+): WithdrawRequestStatus {
+  if (request.claimTxHash) return 'claimed';
+  return request.claimableTime <= now ? 'claimable' : 'pending';
+}
+
+/**
+ * Format withdraw request record for API response
+ */
+function formatWithdrawRequest(
+  request: {
+    requestId: bigint;
+    ownerAddress: string;
+    receiverAddress: string;
+    shares: { toString(): string };
+    assets: { toString(): string };
+    requestTime: Date;
+    claimableTime: Date;
+    requestTxHash: string;
+    claimedAssets: { toString(): string } | null;
+    claimTxHash: string | null;
+    claimedAt: Date | null;
+  },
+  now: Date
+): WithdrawRequestInfo {
+  return {
+    requestId: request.requestId.toString(),
+    ownerAddress: request.ownerAddress,
+    receiverAddress: request.receiverAddress,
+    shares: request.shares.toString(),
+    assets: request.assets.toString(),
+    requestTime: request.requestTime,
+    claimableTime: request.claimableTime,
+    requestTxHash: request.requestTxHash,
+    status: getWithdrawRequestStatus(request, now),
+    claimedAssets: request.claimedAssets?.toString() ?? null,
+    claimTxHash: request.claimTxHash,
+    claimedAt: request.claimedAt,
+  };
+}
+
+export default {
+  getUserWithdrawRequests,
+};
@@ -11,7 +11,8 @@
  */
 
 import { prisma } from './database.js';
-import { addBroadcastNotificationJob } from '../jobs/notificationQueue.js';
+import { sendAdminAlert } from './adminAlertService.js';
+import { publishWebhookEvent } from './webhookService.js';
 import type { LargeWithdrawalStatus } from '@prisma/client';
 
 // =============================================================================
@@ -23,8 +24,6 @@ export const LARGE_WITHDRAWAL_THRESHOLD = BigInt('100000000000000000000000'); //
 
 // Admin notification channels
 const ADMIN_EMAILS = (process.env.ADMIN_NOTIFICATION_EMAILS || '').split(',').filter(Boolean);
-const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
-const TELEGRAM_CHAT_ID = process.env.TELEGRAM_ADMIN_CHAT_ID;
 
 // =============================================================================
 // Types
@@ -71,7 +70,9 @@ export async function processLargeWithdrawal(
 ): Promise<LargeWithdrawalInfo> {
   console.log(`[WithdrawService] Processing large withdrawal request from ${request.userAddress}`);
   console.log(`  - Shares: ${request.shares.toString()}`);
-  console.log(`  - Estimated Amount: $${Number(request.estimatedAmount / BigInt(1e18)).toLocaleString()}`);
+  console.log(
+    `  - Estimated Amount: $${Number(request.estimatedAmount / BigInt(1e18)).toLocaleString()}`
+  );
 
   // Create large withdrawal record
   const withdrawal = await prisma.largeWithdrawal.create({
@@ -87,6 +88,8 @@ export async function processLargeWithdrawal(
 
   console.log(`[WithdrawService] Large withdrawal created: ${withdrawal.id}`);
 
+  await publishStatusWebhook(withdrawal);
+
   // Notify administrators
   await notifyAdminsOfLargeWithdrawal({
     id: withdrawal.id,
@@ -107,18 +110,16 @@ function calculatePriority(amountUsd: bigint): number {
   const amountNumber = Number(amountUsd / BigInt(1e18));
 
   if (amountNumber >= 1000000) return 1; // $1M+ - Highest priority
-  if (amountNumber >= 500000) return 2;  // $500K-$1M
-  if (amountNumber >= 250000) return 3;  // $250K-$500K
-  if (amountNumber >= 100000) return 4;  // $100K-$250K (threshold)
+  if (amountNumber >= 500000) return 2; // $500K-$1M
+  if (amountNumber >= 250000) return 3; // $250K-$500K
+  if (amountNumber >= 100000) return 4; // $100K-$250K (threshold)
   return 5; // Below threshold (shouldn't happen)
 }
 
 /**
  * Get large withdrawal status for a user
  */
-export async function getUserLargeWithdrawals(
-  userAddress: string
-): Promise<LargeWithdrawalInfo[]> {
+export async function getUserLargeWithdrawals(userAddress: string): Promise<LargeWithdrawalInfo[]> {
   const withdrawals = await prisma.largeWithdrawal.findMany({
     where: { userAddress },
     orderBy: { requestedAt: 'desc' },
@@ -131,9 +132,7 @@ export async function getUserLargeWithdrawals(
 /**
  * Get a specific large withdrawal by ID
  */
-export async function getLargeWithdrawalById(
-  id: string
-): Promise<LargeWithdrawalInfo | null> {
+export async function getLargeWithdrawalById(id: string): Promise<LargeWithdrawalInfo | null> {
   const withdrawal = await prisma.largeWithdrawal.findUnique({
     where: { id },
   });
@@ -152,10 +151,7 @@ export async function getPendingLargeWithdrawals(): Promise<LargeWithdrawalInfo[
         in: ['PENDING', 'APPROVED', 'PROCESSING', 'READY'],
       },
     },
-    orderBy: [
-      { priority: 'asc' },
-      { requestedAt: 'asc' },
-    ],
+    orderBy: [{ priority: 'asc' }, { requestedAt: 'asc' }],
   });
 
   return withdrawals.map(formatWithdrawalInfo);
@@ -239,38 +235,28 @@ async function notifyAdminsOfLargeWithdrawal(data: AdminNotificationData): Promi
   const amountUsd = Number(BigInt(data.estimatedAmount) / BigInt(1e18));
   const message = formatAdminNotificationMessage(data, amountUsd);
 
-  console.log('[WithdrawService] Notifying admins of large withdrawal');
-  console.log(message);
-
-  // Send email notifications via the existing notification queue
-  try {
-    await addBroadcastNotificationJob(
-      'LARGE_WITHDRAWAL_ALERT',
-      {
-        id: data.id,
-        userAddress: data.userAddress,
-        shares: data.shares,
-        estimatedAmount: `$${amountUsd.toLocaleString()}`,
-        priority: data.priority,
-        timestamp: new Date().toISOString(),
-      },
-      'critical' // High priority for admin alerts
-    );
-  } catch (error) {
-    console.error('[WithdrawService] Failed to queue admin notification:', error);
-  }
-
-  // Send Telegram notification if configured
-  if (TELEGRAM_BOT_TOKEN && TELEGRAM_CHAT_ID) {
-    await sendTelegramNotification(message);
-  }
+  // Email via the notification queue, plus Telegram if configured
+  await sendAdminAlert(
+    'LARGE_WITHDRAWAL_ALERT',
+    {
+      id: data.id,
+      userAddress: data.userAddress,
+      shares: data.shares,
+      estimatedAmount: `$${amountUsd.toLocaleString()}`,
+      priority: data.priority,
+      timestamp: new Date().toISOString(),
+    },
+    message
+  );
 }
 
 /**
  * Format admin notification message
  */
 function formatAdminNotificationMessage(data: AdminNotificationData, amountUsd: number): string {
-  const priorityLabel = ['', '🔴 CRITICAL', '🟠 HIGH', '🟡 MEDIUM', '🟢 NORMAL', '⚪ LOW'][data.priority];
+  const priorityLabel = ['', '🔴 CRITICAL', '🟠 HIGH', '🟡 MEDIUM', '🟢 NORMAL', '⚪ LOW'][
+    data.priority
+  ];
 
   return `
 🚨 LARGE WITHDRAWAL ALERT ${priorityLabel}
@@ -288,36 +274,6 @@ Admin Dashboard: ${process.env.ADMIN_DASHBOARD_URL || 'https://admin.paimon.fina
 `.trim();
 }
 
-/**
- * Send Telegram notification to admin group
- */
-async function sendTelegramNotification(message: string): Promise<void> {
-  if (!TELEGRAM_BOT_TOKEN || !TELEGRAM_CHAT_ID) {
-    return;
-  }
-
-  try {
-    const url = `https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}/sendMessage`;
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        chat_id: TELEGRAM_CHAT_ID,
-        text: message,
-        parse_mode: 'HTML',
-      }),
-    });
-
-    if (!response.ok) {
-      console.error('[WithdrawService] Telegram notification failed:', await response.text());
-    } else {
-      console.log('[WithdrawService] Telegram notification sent');
-    }
-  } catch (error) {
-    console.error('[WithdrawService] Failed to send Telegram notification:', error);
-  }
-}
-
 /**
  * Notify user when their large withdrawal status changes
  */
@@ -339,8 +295,41 @@ async function notifyUserOfStatusChange(withdrawal: {
 
   // Queue notification to user
   // This will use the existing notification system
-  console.log(`[WithdrawService] Notifying user ${withdrawal.userAddress} of status: ${withdrawal.status}`);
+  console.log(
+    `[WithdrawService] Notifying user ${withdrawal.userAddress} of status: ${withdrawal.status}`
+  );
   console.log(`  - Message: ${statusMessages[withdrawal.status]}`);
+
+  await publishStatusWebhook(withdrawal);
+}
+
+/**
+ * Forward a large withdrawal status change to the user's webhook subscribers
+ */
+async function publishStatusWebhook(withdrawal: {
+  id: string;
+  userAddress: string;
+  status: LargeWithdrawalStatus;
+  estimatedAmount: unknown;
+  actualAmount?: { toString(): string } | null;
+  completeTxHash?: string | null;
+  updatedAt?: Date;
+}): Promise<void> {
+  const occurredAt = withdrawal.updatedAt ?? new Date();
+
+  await publishWebhookEvent('LARGE_WITHDRAWAL_STATUS_CHANGED', {
+    address: withdrawal.userAddress,
+    eventId: `large-withdrawal-${withdrawal.id}-${withdrawal.status}-${occurredAt.getTime()}`,
+    occurredAt,
+    data: {
+      id: withdrawal.id,
+      address: withdrawal.userAddress.toLowerCase(),
+      status: withdrawal.status,
+      estimatedAmount: String(withdrawal.estimatedAmount),
+      actualAmount: withdrawal.actualAmount?.toString() ?? null,
+      completeTxHash: withdrawal.completeTxHash ?? null,
+    },
+  });
 }
 
 // =============================================================================
@@ -378,7 +367,9 @@ function formatWithdrawalInfo(withdrawal: {
     processedAt: withdrawal.processedAt,
     completedAt: withdrawal.completedAt,
     estimatedCompletionTime:
-      withdrawal.status === 'COMPLETED' || withdrawal.status === 'REJECTED' || withdrawal.status === 'CANCELLED'
+      withdrawal.status === 'COMPLETED' ||
+      withdrawal.status === 'REJECTED' ||
+      withdrawal.status === 'CANCELLED'
         ? null
         : estimatedCompletionTime,
   };
@@ -1,22 +1,44 @@
 'use client';
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
+import { formatUnits } from 'viem';
+
+// API response types (GET /api/assets/details)
+// AssetRegistry stores no issuer, rating or audit data, so only on-chain fields are returned
+interface AssetDetailResponse {
+  tokenAddress: string;
+  name: string;
+  symbol: string;
+  registry: {
+    assetType: string;
+    oracleSource: string;
+    registeredAt: string;
+    isActive: boolean;
+  } | null;
+  valueUsd: string; // USD, 18 decimals
+  targetAllocation: number;
+  actualAllocation: number;
+  apy: number;
+  lastUpdated: string;
+}
+
+interface AssetDetailsResponse {
+  success: boolean;
+  data: {
+    assets: AssetDetailResponse[];
+  };
+}
 
 // Data types
 interface RWAAssetDetail {
   id: string;
   name: string;
   symbol: string;
-  description: string;
   assetType: string;
-  issuer: string;
-  issuerUrl: string;
   currentAllocation: number;
   targetAllocation: number;
   apy: number;
   holdingValue: number;
-  qualityRating: string;
-  auditReport: string;
   contractAddress: string;
   lastUpdated: string;
 }
@@ -25,25 +47,42 @@ interface AssetsData {
   assets: RWAAssetDetail[];
 }
 
-// Quality rating colors
-const RATING_COLORS: Record<string, string> = {
-  AAA: 'text-green-600 bg-green-100',
-  AA: 'text-green-500 bg-green-50',
-  A: 'text-blue-600 bg-blue-100',
-  BBB: 'text-yellow-600 bg-yellow-100',
-  BB: 'text-orange-600 bg-orange-100',
-  B: 'text-red-600 bg-red-100',
+// AssetRegistry asset type labels
+const ASSET_TYPE_LABELS: Record<string, string> = {
+  TOKENIZED_BOND: 'Bond',
+  TOKENIZED_STOCK: 'Equity',
+  TOKENIZED_COMMODITY: 'Commodity',
+  REAL_ESTATE: 'Real Estate',
+  YIELD_BEARING: 'Yield Bearing',
+  OTHER: 'Other',
 };
 
 // Asset type icons
 const ASSET_TYPE_ICONS: Record<string, string> = {
-  'Government Bond': '🏛️',
-  'Corporate Bond': '🏢',
+  Bond: '🏛️',
+  Equity: '📈',
+  Commodity: '📦',
   'Real Estate': '🏠',
-  'Commodity': '📦',
-  'Equity': '📈',
+  'Yield Bearing': '💰',
 };
 
+function toAssetDetail(asset: AssetDetailResponse): RWAAssetDetail {
+  return {
+    id: asset.tokenAddress,
+    name: asset.name,
+    symbol: asset.symbol,
+    assetType: asset.registry
+      ? ASSET_TYPE_LABELS[asset.registry.assetType] || asset.registry.assetType
+      : 'Unregistered',
+    currentAllocation: asset.actualAllocation,
+    targetAllocation: asset.targetAllocation,
+    apy: asset.apy,
+    holdingValue: parseFloat(formatUnits(BigInt(asset.valueUsd), 18)),
+    contractAddress: asset.tokenAddress,
+    lastUpdated: asset.lastUpdated,
+  };
+}
+
 interface AssetDetailsProps {
   className?: string;
 }
@@ -65,8 +104,8 @@ export function AssetDetails({ className = '' }: AssetDetailsProps) {
         throw new Error('Failed to fetch data');
       }
 
-      const result = await response.json();
-      setData(result);
+      const result: AssetDetailsResponse = await response.json();
+      setData({ assets: result.data.assets.map(toAssetDetail) });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Error loading data');
     } finally {
@@ -239,31 +278,19 @@ function AssetCard({ asset, formatCurrency, truncateAddress }: AssetCardProps) {
     <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
       {/* Header */}
       <div className="p-4 border-b border-gray-100">
-        <div className="flex items-start justify-between">
-          <div className="flex items-center gap-3">
-            <span className="text-2xl">
-              {ASSET_TYPE_ICONS[asset.assetType] || '📊'}
-            </span>
-            <div>
-              <h3 className="font-bold text-gray-900">{asset.name}</h3>
-              <p className="text-sm text-gray-500">{asset.symbol}</p>
-            </div>
-          </div>
-          <span
-            className={`px-2 py-1 text-xs font-medium rounded ${
-              RATING_COLORS[asset.qualityRating] || 'text-gray-600 bg-gray-100'
-            }`}
-          >
-            {asset.qualityRating}
+        <div className="flex items-center gap-3">
+          <span className="text-2xl">
+            {ASSET_TYPE_ICONS[asset.assetType] || '📊'}
           </span>
+          <div>
+            <h3 className="font-bold text-gray-900">{asset.name}</h3>
+            <p className="text-sm text-gray-500">{asset.symbol}</p>
+          </div>
         </div>
       </div>
 
       {/* Content */}
       <div className="p-4 space-y-4">
-        {/* Description */}
-        <p className="text-sm text-gray-600 line-clamp-2">{asset.description}</p>
-
         {/* Stats Grid */}
         <div className="grid grid-cols-2 gap-3">
           <div>
@@ -291,30 +318,8 @@ function AssetCard({ asset, formatCurrency, truncateAddress }: AssetCardProps) {
           </div>
         </div>
 
-        {/* Issuer */}
-        <div>
-          <p className="text-xs text-gray-500 mb-1">Issuer</p>
-          <a
-            href={asset.issuerUrl}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="text-sm font-medium text-sky-600 hover:text-sky-700 hover:underline"
-          >
-            {asset.issuer} ↗
-          </a>
-        </div>
-
         {/* Links */}
         <div className="flex items-center gap-4 pt-3 border-t border-gray-100">
-          <a
-            href={asset.auditReport}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="text-xs font-medium text-gray-600 hover:text-gray-900 flex items-center gap-1"
-          >
-            <ShieldIcon className="w-3 h-3" />
-            View Audit
-          </a>
           <a
             href={`https://bscscan.com/address/${asset.contractAddress}`}
             target="_blank"
@@ -332,19 +337,6 @@ function AssetCard({ asset, formatCurrency, truncateAddress }: AssetCardProps) {
 }
 
 // Icons
-function ShieldIcon({ className }: { className?: string }) {
-  return (
-    <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-      <path
-        strokeLinecap="round"
-        strokeLinejoin="round"
-        strokeWidth={2}
-        d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z"
-      />
-    </svg>
-  );
-}
-
 function LinkIcon({ className }: { className?: string }) {
   return (
     <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
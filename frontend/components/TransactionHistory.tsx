@@ -8,7 +8,7 @@ import { useWallet } from './WalletConnect';
 // Transaction types
 export interface Transaction {
   id: string;
-  type: 'deposit' | 'withdraw';
+  type: 'deposit' | 'withdraw' | 'transfer_in' | 'transfer_out';
   amount: bigint;
   shares: bigint;
   timestamp: number;
@@ -65,7 +65,7 @@ export function TransactionHistory({ className = '' }: TransactionHistoryProps)
       // Convert amount strings to BigInt
       const txs: Transaction[] = data.transactions.map((tx: {
         id: string;
-        type: 'deposit' | 'withdraw';
+        type: Transaction['type'];
         amount: bigint | string;
         shares: bigint | string;
         timestamp: number;
@@ -279,8 +279,8 @@ export function TransactionHistory({ className = '' }: TransactionHistoryProps)
                   <td className="py-4 px-4">
                     <div className="flex items-center gap-2">
                       <TypeIcon type={tx.type} />
-                      <span className={tx.type === 'deposit' ? 'text-green-600' : 'text-orange-600'}>
-                        {tx.type === 'deposit' ? 'Deposit' : 'Withdraw'}
+                      <span className={isInflow(tx.type) ? 'text-green-600' : 'text-orange-600'}>
+                        {TYPE_LABELS[tx.type]}
                       </span>
                     </div>
                   </td>
@@ -361,9 +361,20 @@ function StatusBadge({ status }: { status: Transaction['status'] }) {
   );
 }
 
+const TYPE_LABELS: Record<Transaction['type'], string> = {
+  deposit: 'Deposit',
+  withdraw: 'Withdraw',
+  transfer_in: 'Transfer In',
+  transfer_out: 'Transfer Out',
+};
+
+function isInflow(type: Transaction['type']): boolean {
+  return type === 'deposit' || type === 'transfer_in';
+}
+
 // Type Icon Component
 function TypeIcon({ type }: { type: Transaction['type'] }) {
-  if (type === 'deposit') {
+  if (isInflow(type)) {
     return (
       <span className="w-6 h-6 rounded-full bg-green-100 flex items-center justify-center">
         <svg className="w-3 h-3 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
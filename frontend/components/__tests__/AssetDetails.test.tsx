@@ -6,57 +6,54 @@
 import { render, screen, waitFor } from '@testing-library/react';
 import { AssetDetails } from '../AssetDetails';
 
-// Mock data
+// Mock data (GET /api/assets/details item shape)
 const mockAssetDetails = [
   {
-    id: 'asset-1',
+    tokenAddress: '0x1234567890123456789012345678901234567890',
     name: 'US Treasury Bond Token',
     symbol: 'USTB',
-    description: 'Tokenized US Treasury bonds with daily yield distribution',
-    assetType: 'Government Bond',
-    issuer: 'TreasuryDAO',
-    issuerUrl: 'https://treasurydao.com',
-    currentAllocation: 40,
+    registry: {
+      assetType: 'TOKENIZED_BOND',
+      oracleSource: '0x9999999999999999999999999999999999999999',
+      registeredAt: '2024-01-01T00:00:00Z',
+      isActive: true,
+    },
+    valueUsd: '4000000' + '0'.repeat(18),
     targetAllocation: 40,
+    actualAllocation: 40,
     apy: 5.2,
-    holdingValue: 4000000,
-    qualityRating: 'AAA',
-    auditReport: 'https://audit.example.com/ustb',
-    contractAddress: '0x1234567890123456789012345678901234567890',
     lastUpdated: '2024-01-15T10:30:00Z',
   },
   {
-    id: 'asset-2',
-    name: 'Corporate Bond Token',
-    symbol: 'CORP',
-    description: 'Diversified corporate bond portfolio',
-    assetType: 'Corporate Bond',
-    issuer: 'BondFi',
-    issuerUrl: 'https://bondfi.io',
-    currentAllocation: 35,
+    tokenAddress: '0x2345678901234567890123456789012345678901',
+    name: 'Tokenized Equity Fund',
+    symbol: 'EQTY',
+    registry: {
+      assetType: 'TOKENIZED_STOCK',
+      oracleSource: '0x9999999999999999999999999999999999999999',
+      registeredAt: '2024-01-01T00:00:00Z',
+      isActive: true,
+    },
+    valueUsd: '3500000' + '0'.repeat(18),
     targetAllocation: 35,
+    actualAllocation: 35,
     apy: 6.8,
-    holdingValue: 3500000,
-    qualityRating: 'AA',
-    auditReport: 'https://audit.example.com/corp',
-    contractAddress: '0x2345678901234567890123456789012345678901',
     lastUpdated: '2024-01-15T10:30:00Z',
   },
   {
-    id: 'asset-3',
+    tokenAddress: '0x3456789012345678901234567890123456789012',
     name: 'Real Estate Token',
     symbol: 'REIT',
-    description: 'Commercial real estate investment trust',
-    assetType: 'Real Estate',
-    issuer: 'PropChain',
-    issuerUrl: 'https://propchain.finance',
-    currentAllocation: 25,
+    registry: {
+      assetType: 'REAL_ESTATE',
+      oracleSource: '0x9999999999999999999999999999999999999999',
+      registeredAt: '2024-01-01T00:00:00Z',
+      isActive: true,
+    },
+    valueUsd: '2500000' + '0'.repeat(18),
     targetAllocation: 25,
+    actualAllocation: 25,
     apy: 8.5,
-    holdingValue: 2500000,
-    qualityRating: 'A',
-    auditReport: 'https://audit.example.com/reit',
-    contractAddress: '0x3456789012345678901234567890123456789012',
     lastUpdated: '2024-01-15T10:30:00Z',
   },
 ];
@@ -71,7 +68,8 @@ describe('AssetDetails', () => {
     mockFetch.mockResolvedValue({
       ok: true,
       json: () => Promise.resolve({
-        assets: mockAssetDetails,
+        success: true,
+        data: { assets: mockAssetDetails },
       }),
     });
   });
@@ -90,7 +88,7 @@ describe('AssetDetails', () => {
 
       await waitFor(() => {
         expect(screen.getByText('US Treasury Bond Token')).toBeInTheDocument();
-        expect(screen.getByText('Corporate Bond Token')).toBeInTheDocument();
+        expect(screen.getByText('Tokenized Equity Fund')).toBeInTheDocument();
         expect(screen.getByText('Real Estate Token')).toBeInTheDocument();
       });
     });
@@ -102,7 +100,7 @@ describe('AssetDetails', () => {
 
       await waitFor(() => {
         expect(screen.getByText('USTB')).toBeInTheDocument();
-        expect(screen.getByText('CORP')).toBeInTheDocument();
+        expect(screen.getByText('EQTY')).toBeInTheDocument();
         expect(screen.getByText('REIT')).toBeInTheDocument();
       });
     });
@@ -111,20 +109,25 @@ describe('AssetDetails', () => {
       render(<AssetDetails />);
 
       await waitFor(() => {
-        expect(screen.getByText('Government Bond')).toBeInTheDocument();
-        expect(screen.getByText('Corporate Bond')).toBeInTheDocument();
+        expect(screen.getByText('Bond')).toBeInTheDocument();
+        expect(screen.getByText('Equity')).toBeInTheDocument();
         expect(screen.getByText('Real Estate')).toBeInTheDocument();
       });
     });
 
-    it('displays issuer names', async () => {
+    it('labels assets missing from the registry', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({
+          success: true,
+          data: { assets: [{ ...mockAssetDetails[0], registry: null }] },
+        }),
+      });
+
       render(<AssetDetails />);
 
       await waitFor(() => {
-        // Issuer names include arrow symbol (↗)
-        expect(screen.getByText(/TreasuryDAO/)).toBeInTheDocument();
-        expect(screen.getByText(/BondFi/)).toBeInTheDocument();
-        expect(screen.getByText(/PropChain/)).toBeInTheDocument();
+        expect(screen.getByText('Unregistered')).toBeInTheDocument();
       });
     });
 
@@ -138,16 +141,6 @@ describe('AssetDetails', () => {
       });
     });
 
-    it('displays quality ratings', async () => {
-      render(<AssetDetails />);
-
-      await waitFor(() => {
-        expect(screen.getByText('AAA')).toBeInTheDocument();
-        expect(screen.getByText('AA')).toBeInTheDocument();
-        expect(screen.getByText('A')).toBeInTheDocument();
-      });
-    });
-
     it('displays holding values', async () => {
       render(<AssetDetails />);
 
@@ -182,34 +175,17 @@ describe('AssetDetails', () => {
   });
 
   describe('external links', () => {
-    it('renders issuer website links', async () => {
-      render(<AssetDetails />);
-
-      await waitFor(() => {
-        const links = screen.getAllByRole('link');
-        const issuerLinks = links.filter(link =>
-          link.getAttribute('href')?.includes('treasurydao') ||
-          link.getAttribute('href')?.includes('bondfi') ||
-          link.getAttribute('href')?.includes('propchain')
-        );
-        expect(issuerLinks.length).toBeGreaterThanOrEqual(3);
-      });
-    });
-
-    it('renders audit report links', async () => {
-      render(<AssetDetails />);
-
-      await waitFor(() => {
-        const auditLinks = screen.getAllByText('View Audit');
-        expect(auditLinks.length).toBe(3);
-      });
-    });
-
     it('renders contract address with BSCScan link', async () => {
       render(<AssetDetails />);
 
       await waitFor(() => {
-        expect(screen.getByTestId('contract-link-asset-1')).toBeInTheDocument();
+        const link = screen.getByTestId(
+          'contract-link-0x1234567890123456789012345678901234567890'
+        );
+        expect(link).toHaveAttribute(
+          'href',
+          'https://bscscan.com/address/0x1234567890123456789012345678901234567890'
+        );
       });
     });
   });
@@ -251,7 +227,8 @@ describe('AssetDetails', () => {
       mockFetch.mockResolvedValue({
         ok: true,
         json: () => Promise.resolve({
-          assets: [],
+          success: true,
+          data: { assets: [] },
         }),
       });
 